@@ -0,0 +1,315 @@
+-- CreateEnum
+CREATE TYPE "SubscriptionStatus" AS ENUM ('free', 'premium', 'canceled', 'past_due');
+
+-- CreateEnum
+CREATE TYPE "SubscriptionPlan" AS ENUM ('free', 'premium');
+
+-- CreateEnum
+CREATE TYPE "ConnectionStatus" AS ENUM ('pending', 'accepted', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "CommunityRole" AS ENUM ('creator', 'moderator', 'member');
+
+-- CreateEnum
+CREATE TYPE "PostType" AS ENUM ('text', 'link', 'image', 'poll');
+
+-- CreateEnum
+CREATE TYPE "ReactionType" AS ENUM ('like', 'dislike');
+
+-- CreateEnum
+CREATE TYPE "EventStatus" AS ENUM ('draft', 'published', 'cancelled', 'completed');
+
+-- CreateEnum
+CREATE TYPE "EventVisibility" AS ENUM ('public', 'private', 'community');
+
+-- CreateEnum
+CREATE TYPE "AttendeeStatus" AS ENUM ('registered', 'waitlisted', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "email" TEXT,
+    "passwordHash" TEXT,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "walletAddress" TEXT,
+    "bio" TEXT NOT NULL DEFAULT '',
+    "skills" TEXT[],
+    "interests" TEXT[],
+    "location" TEXT NOT NULL DEFAULT '',
+    "website" TEXT NOT NULL DEFAULT '',
+    "socialLinks" JSONB NOT NULL DEFAULT '{}',
+    "avatar" TEXT NOT NULL DEFAULT '',
+    "isVerified" BOOLEAN NOT NULL DEFAULT false,
+    "verifiedBy" TEXT,
+    "subscriptionStatus" "SubscriptionStatus" NOT NULL DEFAULT 'free',
+    "subscriptionPlan" "SubscriptionPlan" NOT NULL DEFAULT 'free',
+    "stripeSubscriptionId" TEXT,
+    "currentPeriodEnd" TIMESTAMP(3),
+    "reputationScore" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refresh_tokens" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "familyId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "replacedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refresh_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wallet_nonces" (
+    "nonce" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wallet_nonces_pkey" PRIMARY KEY ("nonce")
+);
+
+-- CreateTable
+CREATE TABLE "connections" (
+    "id" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "addresseeId" TEXT NOT NULL,
+    "status" "ConnectionStatus" NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "connections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "communities" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+    "rules" TEXT[],
+    "tags" TEXT[],
+    "avatar" TEXT NOT NULL DEFAULT '',
+    "banner" TEXT NOT NULL DEFAULT '',
+    "creatorId" TEXT NOT NULL,
+    "allowMemberInvites" BOOLEAN NOT NULL DEFAULT true,
+    "requireApproval" BOOLEAN NOT NULL DEFAULT false,
+    "allowAnonymousPosts" BOOLEAN NOT NULL DEFAULT false,
+    "maxMembers" INTEGER NOT NULL DEFAULT 1000,
+    "memberCount" INTEGER NOT NULL DEFAULT 0,
+    "postCount" INTEGER NOT NULL DEFAULT 0,
+    "eventCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "communities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "community_members" (
+    "communityId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "CommunityRole" NOT NULL DEFAULT 'member',
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_members_pkey" PRIMARY KEY ("communityId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "posts" (
+    "id" TEXT NOT NULL,
+    "communityId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "type" "PostType" NOT NULL DEFAULT 'text',
+    "title" TEXT,
+    "content" TEXT NOT NULL,
+    "link" TEXT,
+    "imageUrl" TEXT,
+    "tags" TEXT[],
+    "isPinned" BOOLEAN NOT NULL DEFAULT false,
+    "isLocked" BOOLEAN NOT NULL DEFAULT false,
+    "isAnonymous" BOOLEAN NOT NULL DEFAULT false,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "likeCount" INTEGER NOT NULL DEFAULT 0,
+    "dislikeCount" INTEGER NOT NULL DEFAULT 0,
+    "commentCount" INTEGER NOT NULL DEFAULT 0,
+    "shareCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "posts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_options" (
+    "id" TEXT NOT NULL,
+    "postId" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "voteCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "post_reactions" (
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "ReactionType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_reactions_pkey" PRIMARY KEY ("postId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "events" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "location" TEXT NOT NULL DEFAULT '',
+    "category" TEXT NOT NULL,
+    "maxAttendees" INTEGER,
+    "ticketPriceCents" INTEGER NOT NULL DEFAULT 0,
+    "isVirtual" BOOLEAN NOT NULL DEFAULT false,
+    "meetingLink" TEXT,
+    "tags" TEXT[],
+    "organizerId" TEXT NOT NULL,
+    "communityId" TEXT,
+    "status" "EventStatus" NOT NULL DEFAULT 'draft',
+    "visibility" "EventVisibility" NOT NULL DEFAULT 'public',
+    "registrationDeadline" TIMESTAMP(3),
+    "capacity" INTEGER NOT NULL,
+    "allowWaitlist" BOOLEAN NOT NULL DEFAULT false,
+    "requireApproval" BOOLEAN NOT NULL DEFAULT false,
+    "allowCancellations" BOOLEAN NOT NULL DEFAULT true,
+    "sendReminders" BOOLEAN NOT NULL DEFAULT true,
+    "currentAttendees" INTEGER NOT NULL DEFAULT 0,
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "registrationCount" INTEGER NOT NULL DEFAULT 0,
+    "checkInCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_attendees" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" "AttendeeStatus" NOT NULL DEFAULT 'registered',
+    "registeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "checkedInAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_attendees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_walletAddress_key" ON "users"("walletAddress");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refresh_tokens_tokenHash_key" ON "refresh_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familyId_idx" ON "refresh_tokens"("familyId");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_userId_idx" ON "refresh_tokens"("userId");
+
+-- CreateIndex
+CREATE INDEX "connections_addresseeId_idx" ON "connections"("addresseeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "connections_requesterId_addresseeId_key" ON "connections"("requesterId", "addresseeId");
+
+-- CreateIndex
+CREATE INDEX "communities_category_idx" ON "communities"("category");
+
+-- CreateIndex
+CREATE INDEX "community_members_userId_idx" ON "community_members"("userId");
+
+-- CreateIndex
+CREATE INDEX "posts_communityId_createdAt_idx" ON "posts"("communityId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "posts_parentId_idx" ON "posts"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_options_postId_position_key" ON "poll_options"("postId", "position");
+
+-- CreateIndex
+CREATE INDEX "events_startDate_idx" ON "events"("startDate");
+
+-- CreateIndex
+CREATE INDEX "events_communityId_idx" ON "events"("communityId");
+
+-- CreateIndex
+CREATE INDEX "event_attendees_userId_idx" ON "event_attendees"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_attendees_eventId_userId_key" ON "event_attendees"("eventId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connections" ADD CONSTRAINT "connections_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "connections" ADD CONSTRAINT "connections_addresseeId_fkey" FOREIGN KEY ("addresseeId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "communities" ADD CONSTRAINT "communities_creatorId_fkey" FOREIGN KEY ("creatorId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_members" ADD CONSTRAINT "community_members_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_members" ADD CONSTRAINT "community_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_options" ADD CONSTRAINT "poll_options_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_reactions" ADD CONSTRAINT "post_reactions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_reactions" ADD CONSTRAINT "post_reactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "events" ADD CONSTRAINT "events_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "events" ADD CONSTRAINT "events_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
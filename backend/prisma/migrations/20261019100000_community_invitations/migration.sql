@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "community_invitations" (
+    "id" TEXT NOT NULL,
+    "communityId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "community_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "community_invitations_communityId_email_key" ON "community_invitations"("communityId", "email");
+
+-- AddForeignKey
+ALTER TABLE "community_invitations" ADD CONSTRAINT "community_invitations_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "community_invitations" ADD CONSTRAINT "community_invitations_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "depth" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "rootId" TEXT;
+
+-- Backfill thread roots and depth for existing replies
+WITH RECURSIVE thread AS (
+    SELECT "id", "id" AS "rootId", 0 AS "depth" FROM "posts" WHERE "parentId" IS NULL
+    UNION ALL
+    SELECT p."id", t."rootId", t."depth" + 1 FROM "posts" p JOIN thread t ON p."parentId" = t."id"
+)
+UPDATE "posts" SET "rootId" = thread."rootId", "depth" = thread."depth"
+FROM thread WHERE "posts"."id" = thread."id" AND thread."depth" > 0;
+
+UPDATE "posts" SET "lastActivityAt" = "updatedAt";
+
+-- CreateIndex
+CREATE INDEX "posts_communityId_lastActivityAt_idx" ON "posts"("communityId", "lastActivityAt");
+
+-- CreateIndex
+CREATE INDEX "posts_rootId_idx" ON "posts"("rootId");
+
+-- AddForeignKey
+ALTER TABLE "posts" ADD CONSTRAINT "posts_rootId_fkey" FOREIGN KEY ("rootId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
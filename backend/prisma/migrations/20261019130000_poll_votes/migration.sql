@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "pollClosesAt" TIMESTAMP(3),
+ADD COLUMN     "pollMultipleChoice" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "pollShowVoters" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "poll_ballots" (
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poll_ballots_pkey" PRIMARY KEY ("postId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "poll_votes" (
+    "postId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "optionId" TEXT NOT NULL,
+
+    CONSTRAINT "poll_votes_pkey" PRIMARY KEY ("postId","userId","optionId")
+);
+
+-- CreateIndex
+CREATE INDEX "poll_votes_optionId_idx" ON "poll_votes"("optionId");
+
+-- AddForeignKey
+ALTER TABLE "poll_ballots" ADD CONSTRAINT "poll_ballots_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_ballots" ADD CONSTRAINT "poll_ballots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_postId_userId_fkey" FOREIGN KEY ("postId", "userId") REFERENCES "poll_ballots"("postId", "userId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
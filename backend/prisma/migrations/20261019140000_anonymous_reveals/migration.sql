@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "anonymous_reveals" (
+    "id" TEXT NOT NULL,
+    "communityId" TEXT NOT NULL,
+    "postId" TEXT,
+    "authorId" TEXT NOT NULL,
+    "revealedById" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "anonymous_reveals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "anonymous_reveals_communityId_createdAt_idx" ON "anonymous_reveals"("communityId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "anonymous_reveals" ADD CONSTRAINT "anonymous_reveals_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "anonymous_reveals" ADD CONSTRAINT "anonymous_reveals_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "anonymous_reveals" ADD CONSTRAINT "anonymous_reveals_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "anonymous_reveals" ADD CONSTRAINT "anonymous_reveals_revealedById_fkey" FOREIGN KEY ("revealedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ModerationActionType" AS ENUM ('pin', 'unpin', 'lock', 'unlock', 'remove', 'restore');
+
+-- AlterTable
+ALTER TABLE "posts" ADD COLUMN     "pinPosition" INTEGER,
+ADD COLUMN     "removalReason" TEXT,
+ADD COLUMN     "removedAt" TIMESTAMP(3);
+
+-- Give already pinned posts an order, newest first as they were listed before
+UPDATE "posts" p
+SET "pinPosition" = ordered.position
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "communityId" ORDER BY "createdAt" DESC, "id" DESC) - 1 AS position
+    FROM "posts"
+    WHERE "isPinned" = true
+) ordered
+WHERE p."id" = ordered."id";
+
+-- CreateTable
+CREATE TABLE "moderation_actions" (
+    "id" TEXT NOT NULL,
+    "communityId" TEXT NOT NULL,
+    "postId" TEXT,
+    "moderatorId" TEXT NOT NULL,
+    "action" "ModerationActionType" NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "moderation_actions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "moderation_actions_communityId_createdAt_idx" ON "moderation_actions"("communityId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_postId_fkey" FOREIGN KEY ("postId") REFERENCES "posts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_actions" ADD CONSTRAINT "moderation_actions_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
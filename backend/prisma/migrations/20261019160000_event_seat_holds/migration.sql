@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "AttendeeStatus" ADD VALUE 'held';
+
+-- AlterTable
+ALTER TABLE "event_attendees" ADD COLUMN     "holdExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "event_attendees_status_holdExpiresAt_idx" ON "event_attendees"("status", "holdExpiresAt");
@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "AttendeeStatus" ADD VALUE 'pending';
+ALTER TYPE "AttendeeStatus" ADD VALUE 'rejected';
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "applicationQuestions" TEXT[];
+
+-- AlterTable
+ALTER TABLE "event_attendees" ADD COLUMN     "answers" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "event_attendees_eventId_status_idx" ON "event_attendees"("eventId", "status");
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
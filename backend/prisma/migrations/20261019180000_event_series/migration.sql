@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "isOverride" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_series" (
+    "id" TEXT NOT NULL,
+    "organizerId" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "materializedUntil" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_series_subscriptions" (
+    "id" TEXT NOT NULL,
+    "seriesId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_series_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_series_materializedUntil_idx" ON "event_series"("materializedUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_series_subscriptions_seriesId_userId_key" ON "event_series_subscriptions"("seriesId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_seriesId_occurrenceDate_key" ON "events"("seriesId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "events" ADD CONSTRAINT "events_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "event_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_series" ADD CONSTRAINT "event_series_organizerId_fkey" FOREIGN KEY ("organizerId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_series_subscriptions" ADD CONSTRAINT "event_series_subscriptions_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "event_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_series_subscriptions" ADD CONSTRAINT "event_series_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
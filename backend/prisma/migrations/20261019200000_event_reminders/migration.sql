@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "reminderOffsets" INTEGER[] DEFAULT ARRAY[1440, 60]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "notificationPreferences" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "event_reminders" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "offsetMinutes" INTEGER,
+    "eventStart" TIMESTAMP(3) NOT NULL,
+    "message" TEXT,
+    "sentById" TEXT,
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_reminders_eventId_sentAt_idx" ON "event_reminders"("eventId", "sentAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_reminders_eventId_offsetMinutes_eventStart_key" ON "event_reminders"("eventId", "offsetMinutes", "eventStart");
+
+-- AddForeignKey
+ALTER TABLE "event_reminders" ADD CONSTRAINT "event_reminders_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_reminders" ADD CONSTRAINT "event_reminders_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "event_series" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "timeZone" TEXT;
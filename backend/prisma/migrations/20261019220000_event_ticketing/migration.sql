@@ -0,0 +1,103 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('pending', 'paid', 'partially_refunded', 'refunded', 'expired');
+
+-- AlterTable
+ALTER TABLE "event_attendees" ADD COLUMN     "ticketTypeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_ticket_types" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "priceCents" INTEGER NOT NULL,
+    "quantity" INTEGER,
+    "sold" INTEGER NOT NULL DEFAULT 0,
+    "salesStart" TIMESTAMP(3),
+    "salesEnd" TIMESTAMP(3),
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_ticket_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_payments" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attendeeId" TEXT NOT NULL,
+    "ticketTypeId" TEXT,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "refundedCents" INTEGER NOT NULL DEFAULT 0,
+    "status" "PaymentStatus" NOT NULL DEFAULT 'pending',
+    "stripeSessionId" TEXT NOT NULL,
+    "checkoutUrl" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "stripePaymentIntentId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_refunds" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "stripeRefundId" TEXT NOT NULL,
+    "reason" TEXT,
+    "issuedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_ticket_types_eventId_idx" ON "event_ticket_types"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_payments_stripeSessionId_key" ON "event_payments"("stripeSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_payments_stripePaymentIntentId_key" ON "event_payments"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "event_payments_attendeeId_status_idx" ON "event_payments"("attendeeId", "status");
+
+-- CreateIndex
+CREATE INDEX "event_payments_eventId_idx" ON "event_payments"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_refunds_stripeRefundId_key" ON "event_refunds"("stripeRefundId");
+
+-- CreateIndex
+CREATE INDEX "event_refunds_paymentId_idx" ON "event_refunds"("paymentId");
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "event_ticket_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_ticket_types" ADD CONSTRAINT "event_ticket_types_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_payments" ADD CONSTRAINT "event_payments_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_payments" ADD CONSTRAINT "event_payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_payments" ADD CONSTRAINT "event_payments_attendeeId_fkey" FOREIGN KEY ("attendeeId") REFERENCES "event_attendees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_payments" ADD CONSTRAINT "event_payments_ticketTypeId_fkey" FOREIGN KEY ("ticketTypeId") REFERENCES "event_ticket_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_refunds" ADD CONSTRAINT "event_refunds_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "event_payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_refunds" ADD CONSTRAINT "event_refunds_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
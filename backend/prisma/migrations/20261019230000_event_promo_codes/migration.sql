@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "DiscountType" AS ENUM ('percentage', 'fixed');
+
+-- AlterTable
+ALTER TABLE "event_attendees" ADD COLUMN     "promoCodeId" TEXT;
+
+-- AlterTable
+ALTER TABLE "event_payments" ADD COLUMN     "discountCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "promoCodeId" TEXT;
+
+-- CreateTable
+CREATE TABLE "event_promo_codes" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "discountType" "DiscountType" NOT NULL,
+    "discountValue" INTEGER NOT NULL,
+    "maxRedemptions" INTEGER,
+    "redemptions" INTEGER NOT NULL DEFAULT 0,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "communityId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_promo_codes_eventId_code_key" ON "event_promo_codes"("eventId", "code");
+
+-- AddForeignKey
+ALTER TABLE "event_attendees" ADD CONSTRAINT "event_attendees_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "event_promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_promo_codes" ADD CONSTRAINT "event_promo_codes_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_promo_codes" ADD CONSTRAINT "event_promo_codes_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_payments" ADD CONSTRAINT "event_payments_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "event_promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "event_surveys" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "questions" JSONB NOT NULL,
+    "sentAt" TIMESTAMP(3),
+    "recipientCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_surveys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_survey_responses" (
+    "id" TEXT NOT NULL,
+    "surveyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "answers" JSONB NOT NULL,
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_survey_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_surveys_eventId_key" ON "event_surveys"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_survey_responses_surveyId_userId_key" ON "event_survey_responses"("surveyId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "event_surveys" ADD CONSTRAINT "event_surveys_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_responses" ADD CONSTRAINT "event_survey_responses_surveyId_fkey" FOREIGN KEY ("surveyId") REFERENCES "event_surveys"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_survey_responses" ADD CONSTRAINT "event_survey_responses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
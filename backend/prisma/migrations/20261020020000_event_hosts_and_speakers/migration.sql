@@ -0,0 +1,88 @@
+-- CreateEnum
+CREATE TYPE "EventHostRole" AS ENUM ('cohost', 'checkin');
+
+-- CreateEnum
+CREATE TYPE "SpeakerInvitationStatus" AS ENUM ('pending', 'accepted', 'declined');
+
+-- CreateTable
+CREATE TABLE "event_hosts" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "EventHostRole" NOT NULL DEFAULT 'cohost',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_hosts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_speakers" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "headline" TEXT NOT NULL DEFAULT '',
+    "bio" TEXT NOT NULL DEFAULT '',
+    "userId" TEXT,
+    "invitationStatus" "SpeakerInvitationStatus",
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_speakers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_sessions" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "location" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_session_speakers" (
+    "sessionId" TEXT NOT NULL,
+    "speakerId" TEXT NOT NULL,
+
+    CONSTRAINT "event_session_speakers_pkey" PRIMARY KEY ("sessionId","speakerId")
+);
+
+-- CreateIndex
+CREATE INDEX "event_hosts_userId_idx" ON "event_hosts"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_hosts_eventId_userId_key" ON "event_hosts"("eventId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_speakers_eventId_userId_key" ON "event_speakers"("eventId", "userId");
+
+-- CreateIndex
+CREATE INDEX "event_sessions_eventId_startsAt_idx" ON "event_sessions"("eventId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "event_hosts" ADD CONSTRAINT "event_hosts_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_hosts" ADD CONSTRAINT "event_hosts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_speakers" ADD CONSTRAINT "event_speakers_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_speakers" ADD CONSTRAINT "event_speakers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_sessions" ADD CONSTRAINT "event_sessions_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_session_speakers" ADD CONSTRAINT "event_session_speakers_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "event_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_session_speakers" ADD CONSTRAINT "event_session_speakers_speakerId_fkey" FOREIGN KEY ("speakerId") REFERENCES "event_speakers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
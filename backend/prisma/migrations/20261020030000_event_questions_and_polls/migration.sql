@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "event_questions" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "upvoteCount" INTEGER NOT NULL DEFAULT 0,
+    "answeredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_question_upvotes" (
+    "questionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_question_upvotes_pkey" PRIMARY KEY ("questionId","userId")
+);
+
+-- CreateTable
+CREATE TABLE "event_polls" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "options" TEXT[],
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "event_poll_votes" (
+    "pollId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "option" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "event_poll_votes_pkey" PRIMARY KEY ("pollId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "event_questions_eventId_createdAt_idx" ON "event_questions"("eventId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "event_polls_eventId_createdAt_idx" ON "event_polls"("eventId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "event_questions" ADD CONSTRAINT "event_questions_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_questions" ADD CONSTRAINT "event_questions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_question_upvotes" ADD CONSTRAINT "event_question_upvotes_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "event_questions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_question_upvotes" ADD CONSTRAINT "event_question_upvotes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_polls" ADD CONSTRAINT "event_polls_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_poll_votes" ADD CONSTRAINT "event_poll_votes_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "event_polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "event_poll_votes" ADD CONSTRAINT "event_poll_votes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
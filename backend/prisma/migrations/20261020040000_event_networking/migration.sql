@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "networking_sessions" (
+    "id" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "roundMinutes" INTEGER NOT NULL,
+    "round" INTEGER NOT NULL DEFAULT 0,
+    "roundEndsAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "networking_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "networking_pairs" (
+    "sessionId" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "partnerId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "networking_pairs_pkey" PRIMARY KEY ("sessionId","round","userId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "networking_sessions_eventId_key" ON "networking_sessions"("eventId");
+
+-- AddForeignKey
+ALTER TABLE "networking_sessions" ADD CONSTRAINT "networking_sessions_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "networking_pairs" ADD CONSTRAINT "networking_pairs_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "networking_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "networking_pairs" ADD CONSTRAINT "networking_pairs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "networking_pairs" ADD CONSTRAINT "networking_pairs_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
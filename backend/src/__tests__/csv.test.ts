@@ -0,0 +1,25 @@
+import { toCsv } from '../utils/csv';
+
+describe('toCsv', () => {
+  it('writes a header and rows with CRLF line endings', () => {
+    expect(toCsv(['name', 'score'], [['Ada', 9]])).toBe('name,score\r\nAda,9\r\n');
+  });
+
+  it('quotes cells holding commas, quotes or line breaks', () => {
+    expect(toCsv(['comment'], [['Great, thanks'], ['She said "hi"'], ['two\nlines']])).toBe(
+      'comment\r\n"Great, thanks"\r\n"She said ""hi"""\r\n"two\nlines"\r\n'
+    );
+  });
+
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    expect(toCsv(['answer'], [['=HYPERLINK("x")'], ['+1'], ['-2'], ['@SUM(A1)']])).toBe(
+      'answer\r\n"\'=HYPERLINK(""x"")"\r\n\'+1\r\n\'-2\r\n\'@SUM(A1)\r\n'
+    );
+  });
+
+  it('writes dates as ISO strings and leaves missing values empty', () => {
+    expect(toCsv(['at', 'note'], [[new Date('2026-10-20T18:00:00Z'), null], [undefined, '']])).toBe(
+      'at,note\r\n2026-10-20T18:00:00.000Z,\r\n,\r\n'
+    );
+  });
+});
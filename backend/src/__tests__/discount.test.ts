@@ -0,0 +1,22 @@
+import { applyDiscount } from '../utils/discount';
+
+describe('applyDiscount', () => {
+  it('leaves the price alone without a promo code', () => {
+    expect(applyDiscount(2500)).toBe(2500);
+    expect(applyDiscount(2500, null)).toBe(2500);
+  });
+
+  it('takes a percentage off, rounded to the cent', () => {
+    expect(applyDiscount(2500, { discountType: 'percentage', discountValue: 20 })).toBe(2000);
+    expect(applyDiscount(999, { discountType: 'percentage', discountValue: 15 })).toBe(849);
+  });
+
+  it('takes a fixed amount off in cents', () => {
+    expect(applyDiscount(2500, { discountType: 'fixed', discountValue: 1000 })).toBe(1500);
+  });
+
+  it('never goes below zero', () => {
+    expect(applyDiscount(500, { discountType: 'fixed', discountValue: 1000 })).toBe(0);
+    expect(applyDiscount(500, { discountType: 'percentage', discountValue: 100 })).toBe(0);
+  });
+});
@@ -0,0 +1,278 @@
+import { EventPayment } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { eventRepository } from '../repositories/eventRepository';
+import { paymentRepository } from '../repositories/paymentRepository';
+
+// The claims behind seats, waitlist spots, holds and refunds are conditional updates whose
+// `count` says whether this request won. These tests stand in for Postgres with a mocked client
+// and decide each count, so the losing side of every race runs without a database;
+// eventReservation.test.ts runs the real races when DATABASE_URL is set.
+jest.mock('../lib/prisma', () => {
+  const model = () => ({
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  });
+  return {
+    prisma: {
+      event: {
+        ...model(),
+        fields: { capacity: 'capacity', maxAttendees: 'maxAttendees' },
+      },
+      eventAttendee: model(),
+      eventTicketType: { ...model(), fields: { quantity: 'quantity' } },
+      eventPromoCode: {
+        ...model(),
+        fields: { maxRedemptions: 'maxRedemptions' },
+      },
+      eventPayment: model(),
+      $transaction: jest.fn(),
+    },
+  };
+});
+
+type Model = 'event' | 'eventAttendee' | 'eventTicketType' | 'eventPromoCode' | 'eventPayment';
+const db = prisma as unknown as Record<Model, Record<string, jest.Mock>> & {
+  $transaction: jest.Mock;
+};
+
+const won = { count: 1 };
+const lost = { count: 0 };
+const later = new Date(Date.now() + 15 * 60 * 1000);
+
+// The data each conditional update on a model was called with, in order
+const updates = (model: Model) => db[model].updateMany.mock.calls.map(([args]) => args.data);
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  db.$transaction.mockImplementation((run: (tx: typeof db) => unknown) => run(db));
+  db.eventAttendee.findFirst.mockResolvedValue(null);
+});
+
+describe('registering', () => {
+  it('takes a free seat and counts the registration', async () => {
+    db.event.updateMany.mockResolvedValueOnce(won);
+
+    await expect(
+      eventRepository.register('e1', 'u1', {
+        allowWaitlist: true,
+        holdUntil: null,
+      })
+    ).resolves.toBe('registered');
+    expect(updates('event')).toEqual([{ currentAttendees: { increment: 1 } }]);
+    expect(db.event.update).toHaveBeenCalledWith({
+      where: { id: 'e1' },
+      data: { registrationCount: { increment: 1 } },
+    });
+    expect(db.eventAttendee.create.mock.calls[0][0].data).toMatchObject({
+      eventId: 'e1',
+      userId: 'u1',
+      status: 'registered',
+    });
+  });
+
+  it('holds a paid seat until the given time', async () => {
+    db.event.updateMany.mockResolvedValueOnce(won);
+    db.event.findUniqueOrThrow.mockResolvedValue({
+      id: 'e1',
+      ticketPriceCents: 2500,
+    });
+
+    await expect(
+      eventRepository.register('e1', 'u1', {
+        allowWaitlist: false,
+        holdUntil: later,
+      })
+    ).resolves.toBe('held');
+    expect(db.eventAttendee.create.mock.calls[0][0].data).toMatchObject({
+      status: 'held',
+      holdExpiresAt: later,
+    });
+  });
+
+  it('joins the waitlist when the seat claim loses', async () => {
+    db.event.updateMany.mockResolvedValueOnce(lost).mockResolvedValueOnce(won);
+
+    await expect(
+      eventRepository.register('e1', 'u1', {
+        allowWaitlist: true,
+        holdUntil: null,
+      })
+    ).resolves.toBe('waitlisted');
+    expect(updates('event')).toEqual([{ currentAttendees: { increment: 1 } }, { registrationCount: { increment: 1 } }]);
+    expect(db.event.update).not.toHaveBeenCalled();
+    expect(db.eventAttendee.create.mock.calls[0][0].data).toMatchObject({
+      status: 'waitlisted',
+    });
+  });
+
+  it('gives the ticket and promo code back when both seat and waitlist are taken', async () => {
+    db.eventTicketType.updateMany.mockResolvedValueOnce(won);
+    db.eventPromoCode.updateMany.mockResolvedValue(won);
+    db.event.updateMany.mockResolvedValue(lost);
+
+    await expect(
+      eventRepository.register('e1', 'u1', {
+        allowWaitlist: true,
+        holdUntil: null,
+        ticketTypeId: 't1',
+        promoCodeId: 'p1',
+      })
+    ).resolves.toBe('full');
+    expect(db.eventTicketType.update).toHaveBeenCalledWith({
+      where: { id: 't1' },
+      data: { sold: { decrement: 1 } },
+    });
+    expect(updates('eventPromoCode')).toEqual([{ redemptions: { increment: 1 } }, { redemptions: { decrement: 1 } }]);
+    expect(db.eventAttendee.create).not.toHaveBeenCalled();
+  });
+
+  it('stops at a sold-out ticket type before claiming anything else', async () => {
+    db.eventTicketType.updateMany.mockResolvedValueOnce(lost);
+
+    await expect(
+      eventRepository.register('e1', 'u1', {
+        allowWaitlist: true,
+        holdUntil: null,
+        ticketTypeId: 't1',
+        promoCodeId: 'p1',
+      })
+    ).resolves.toBe('sold_out');
+    expect(db.eventPromoCode.updateMany).not.toHaveBeenCalled();
+    expect(db.event.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('cancelling', () => {
+  const attendee = {
+    id: 'a1',
+    eventId: 'e1',
+    userId: 'u1',
+    status: 'registered',
+    ticketTypeId: null,
+    promoCodeId: null,
+  };
+  const waiting = {
+    id: 'a2',
+    eventId: 'e1',
+    userId: 'u2',
+    status: 'waitlisted',
+    ticketTypeId: null,
+    promoCodeId: null,
+  };
+
+  it('frees the seat and promotes the longest waiting attendee', async () => {
+    db.eventAttendee.findUnique.mockResolvedValue(attendee);
+    db.eventAttendee.updateMany.mockResolvedValue(won);
+    db.eventAttendee.findFirst.mockResolvedValueOnce(waiting);
+    db.event.updateMany.mockResolvedValueOnce(won);
+
+    await expect(eventRepository.cancel('e1', 'u1', null)).resolves.toEqual({
+      previousStatus: 'registered',
+      promoted: [{ userId: 'u2', status: 'registered' }],
+    });
+    expect(db.event.update).toHaveBeenCalledWith({
+      where: { id: 'e1' },
+      data: {
+        registrationCount: { decrement: 1 },
+        currentAttendees: { decrement: 1 },
+      },
+    });
+  });
+
+  it('releases nothing when a concurrent cancel got there first', async () => {
+    db.eventAttendee.findUnique.mockResolvedValue(attendee);
+    db.eventAttendee.updateMany.mockResolvedValueOnce(lost);
+
+    await expect(eventRepository.cancel('e1', 'u1', null)).resolves.toBeNull();
+    expect(db.event.update).not.toHaveBeenCalled();
+    expect(db.event.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('hands the seat back when the waitlisted attendee was promoted elsewhere', async () => {
+    db.eventAttendee.findUnique.mockResolvedValue(attendee);
+    db.eventAttendee.updateMany.mockResolvedValueOnce(won).mockResolvedValueOnce(lost);
+    db.eventAttendee.findFirst.mockResolvedValueOnce(waiting);
+    db.event.updateMany.mockResolvedValueOnce(won);
+
+    await expect(eventRepository.cancel('e1', 'u1', null)).resolves.toEqual({
+      previousStatus: 'registered',
+      promoted: [],
+    });
+    expect(db.event.update).toHaveBeenLastCalledWith({
+      where: { id: 'e1' },
+      data: { currentAttendees: { decrement: 1 } },
+    });
+  });
+});
+
+describe('holds', () => {
+  it('confirms only a hold that the guarded update still matched', async () => {
+    db.eventAttendee.updateMany.mockResolvedValueOnce(won).mockResolvedValueOnce(lost);
+
+    await expect(eventRepository.confirmHold('e1', 'u1')).resolves.toBe(true);
+    await expect(eventRepository.confirmHold('e1', 'u1')).resolves.toBe(false);
+    expect(db.eventAttendee.updateMany.mock.calls[0][0].where).toMatchObject({
+      eventId: 'e1',
+      userId: 'u1',
+      status: 'held',
+    });
+  });
+
+  it('extends a hold only from the expiry the checkout read', async () => {
+    const current = new Date(Date.now() + 60 * 1000);
+    db.eventAttendee.updateMany.mockResolvedValueOnce(lost);
+
+    await expect(eventRepository.extendHold('a1', current, later)).resolves.toBe(false);
+    expect(db.eventAttendee.updateMany.mock.calls[0][0].where.holdExpiresAt).toMatchObject({ equals: current });
+  });
+
+  it('releases the places of expired holds this sweep cancelled and no others', async () => {
+    const expired = (id: string) => ({
+      id,
+      eventId: 'e1',
+      status: 'held',
+      ticketTypeId: 't1',
+      promoCodeId: null,
+    });
+    db.eventAttendee.findMany.mockResolvedValue([expired('a1'), expired('a2')]);
+    db.eventAttendee.updateMany.mockResolvedValueOnce(won).mockResolvedValueOnce(lost);
+
+    await expect(eventRepository.releaseExpiredHolds('e1', null)).resolves.toEqual([]);
+    expect(db.event.update).toHaveBeenCalledTimes(1);
+    expect(db.eventTicketType.update).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('refunds', () => {
+  const payment = {
+    id: 'p1',
+    amountCents: 5000,
+    refundedCents: 1000,
+    status: 'partially_refunded',
+  } as EventPayment;
+
+  it('sets a refund aside against the amount refunded so far', async () => {
+    db.eventPayment.updateMany.mockResolvedValueOnce(won);
+
+    await expect(paymentRepository.reserveRefund(payment, 4000)).resolves.toBe(true);
+    expect(db.eventPayment.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'p1',
+        status: { in: ['paid', 'partially_refunded'] },
+        refundedCents: 1000,
+      },
+      data: { refundedCents: 5000, status: 'refunded' },
+    });
+  });
+
+  it('reports a refund that lost to a concurrent one', async () => {
+    db.eventPayment.updateMany.mockResolvedValueOnce(lost);
+
+    await expect(paymentRepository.reserveRefund(payment, 500)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,180 @@
+import { prisma } from '../lib/prisma';
+import { eventService } from '../services/eventService';
+import { ApiError } from '../utils/ApiError';
+
+// Runs against the database in DATABASE_URL: seat limits are enforced by conditional updates in
+// Postgres, so they can only be exercised for real. Every row created here is removed afterwards.
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+const runId = `reservation-${Date.now()}`;
+let organizerId: string;
+const userIds: string[] = [];
+
+const createUsers = async (count: number) => {
+  const created = await Promise.all(
+    Array.from({ length: count }, (_, index) =>
+      prisma.user.create({
+        data: { firstName: 'Test', lastName: `User ${index}`, email: `${runId}-${userIds.length + index}@example.com` },
+      })
+    )
+  );
+  userIds.push(...created.map((user) => user.id));
+  return created.map((user) => user.id);
+};
+
+const createEvent = (data: {
+  capacity: number;
+  maxAttendees?: number;
+  allowWaitlist?: boolean;
+  ticketPriceCents?: number;
+}) =>
+  prisma.event.create({
+    data: {
+      title: runId,
+      description: 'Concurrency test event',
+      startDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000 + 60 * 60 * 1000),
+      category: 'test',
+      status: 'published',
+      organizerId,
+      ...data,
+    },
+  });
+
+const settle = <T>(tasks: Array<() => Promise<T>>) => Promise.allSettled(tasks.map((task) => task()));
+
+const fulfilled = <T>(results: PromiseSettledResult<T>[]) =>
+  results.filter((result): result is PromiseFulfilledResult<T> => result.status === 'fulfilled');
+
+const rejectedStatuses = (results: PromiseSettledResult<unknown>[]) =>
+  results
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .map((result) => (result.reason instanceof ApiError ? result.reason.statusCode : result.reason));
+
+// The denormalised counters must always agree with the attendee rows
+const expectConsistent = async (eventId: string) => {
+  const event = await prisma.event.findUniqueOrThrow({ where: { id: eventId } });
+  const seated = await prisma.eventAttendee.count({ where: { eventId, status: { in: ['registered', 'held'] } } });
+  const active = await prisma.eventAttendee.count({ where: { eventId, status: { not: 'cancelled' } } });
+  expect(seated).toBeLessThanOrEqual(event.capacity);
+  expect(event.currentAttendees).toBe(seated);
+  expect(event.registrationCount).toBe(active);
+  if (event.maxAttendees !== null) {
+    expect(active).toBeLessThanOrEqual(event.maxAttendees);
+  }
+  return { event, seated, active };
+};
+
+describeWithDb('event seat reservation under concurrency', () => {
+  beforeAll(async () => {
+    const organizer = await prisma.user.create({
+      data: { firstName: 'Test', lastName: 'Organizer', email: `${runId}-organizer@example.com` },
+    });
+    organizerId = organizer.id;
+  });
+
+  afterAll(async () => {
+    await prisma.event.deleteMany({ where: { organizerId } });
+    await prisma.user.deleteMany({ where: { id: { in: [organizerId, ...userIds] } } });
+    await prisma.$disconnect();
+  });
+
+  it('never seats more people than the capacity', async () => {
+    const event = await createEvent({ capacity: 5 });
+    const users = await createUsers(40);
+
+    const results = await settle(users.map((userId) => () => eventService.register(event.id, userId)));
+
+    expect(fulfilled(results)).toHaveLength(5);
+    expect(rejectedStatuses(results)).toEqual(Array(35).fill(409));
+    const { seated } = await expectConsistent(event.id);
+    expect(seated).toBe(5);
+  });
+
+  it('fills the waitlist up to maxAttendees and no further', async () => {
+    const event = await createEvent({ capacity: 5, maxAttendees: 8, allowWaitlist: true });
+    const users = await createUsers(30);
+
+    const results = await settle(users.map((userId) => () => eventService.register(event.id, userId)));
+
+    const outcomes = fulfilled(results).map((result) => result.value.status);
+    expect(outcomes.filter((status) => status === 'registered')).toHaveLength(5);
+    expect(outcomes.filter((status) => status === 'waitlisted')).toHaveLength(3);
+    expect(rejectedStatuses(results)).toEqual(Array(22).fill(409));
+    await expectConsistent(event.id);
+  });
+
+  it('gives a user at most one place when they register repeatedly at once', async () => {
+    const event = await createEvent({ capacity: 10 });
+    const [userId] = await createUsers(1);
+
+    const results = await settle(Array.from({ length: 10 }, () => () => eventService.register(event.id, userId)));
+
+    expect(fulfilled(results)).toHaveLength(1);
+    expect(rejectedStatuses(results)).toEqual(Array(9).fill(409));
+    const { seated } = await expectConsistent(event.id);
+    expect(seated).toBe(1);
+  });
+
+  it('stays within capacity while cancellations and registrations interleave', async () => {
+    const event = await createEvent({ capacity: 5, allowWaitlist: true });
+    const first = await createUsers(5);
+    for (const userId of first) {
+      await eventService.register(event.id, userId);
+    }
+    const newcomers = await createUsers(15);
+
+    await settle<unknown>([
+      ...first.map((userId) => () => eventService.cancelRegistration(event.id, userId)),
+      ...newcomers.map((userId) => () => eventService.register(event.id, userId)),
+    ]);
+
+    const { seated, active } = await expectConsistent(event.id);
+    // Every seat given up went to a newcomer, straight away or from the waitlist
+    expect(active).toBe(15);
+    expect(seated).toBe(5);
+  });
+
+  it('releases lapsed holds exactly once and hands the seats on', async () => {
+    const event = await createEvent({ capacity: 3, ticketPriceCents: 1000 });
+    const holders = await createUsers(3);
+    for (const userId of holders) {
+      expect((await eventService.register(event.id, userId)).status).toBe('held');
+    }
+    const [late] = await createUsers(1);
+    await expect(eventService.register(event.id, late)).rejects.toMatchObject({ statusCode: 409 });
+
+    await prisma.eventAttendee.updateMany({
+      where: { eventId: event.id, status: 'held' },
+      data: { holdExpiresAt: new Date(Date.now() - 1000) },
+    });
+    const newcomers = await createUsers(10);
+    const results = await settle<unknown>([
+      () => eventService.releaseAllExpiredHolds(),
+      () => eventService.releaseAllExpiredHolds(),
+      ...newcomers.map((userId) => () => eventService.register(event.id, userId)),
+    ]);
+
+    expect(fulfilled(results).length).toBe(2 + 3);
+    const { seated } = await expectConsistent(event.id);
+    expect(seated).toBe(3);
+    const released = await prisma.eventAttendee.count({
+      where: { eventId: event.id, userId: { in: holders }, status: 'cancelled' },
+    });
+    expect(released).toBe(3);
+  });
+
+  it('keeps a hold that was confirmed before it lapsed', async () => {
+    const event = await createEvent({ capacity: 1, ticketPriceCents: 1000 });
+    const [userId] = await createUsers(1);
+    await eventService.register(event.id, userId);
+
+    await eventService.confirmHold(event.id, organizerId, userId);
+    await prisma.eventAttendee.updateMany({ where: { eventId: event.id }, data: { holdExpiresAt: new Date(0) } });
+    await eventService.releaseAllExpiredHolds();
+
+    const attendee = await prisma.eventAttendee.findFirstOrThrow({ where: { eventId: event.id, userId } });
+    expect(attendee.status).toBe('registered');
+    await expectConsistent(event.id);
+  });
+});
@@ -0,0 +1,29 @@
+import { joinTokenAttendeeId, signJoinToken, verifyJoinToken } from '../services/joinLinkService';
+
+describe('join links', () => {
+  const attendee = { id: 'attendee-1', joinTokenVersion: 3 };
+
+  it('verifies a token signed for the attendee', () => {
+    const token = signJoinToken(attendee);
+
+    expect(joinTokenAttendeeId(token)).toBe('attendee-1');
+    expect(verifyJoinToken(token, attendee)).toBe(true);
+  });
+
+  it('stops accepting earlier links once the version is bumped', () => {
+    const token = signJoinToken(attendee);
+    const rotated = { ...attendee, joinTokenVersion: 4 };
+
+    expect(verifyJoinToken(token, rotated)).toBe(false);
+    expect(verifyJoinToken(signJoinToken(rotated), rotated)).toBe(true);
+  });
+
+  it('rejects tokens for another attendee or with a tampered signature', () => {
+    const token = signJoinToken(attendee);
+    const other = { id: 'attendee-2', joinTokenVersion: 3 };
+
+    expect(verifyJoinToken(token, other)).toBe(false);
+    expect(verifyJoinToken(`${attendee.id}.${'A'.repeat(token.split('.')[1].length)}`, attendee)).toBe(false);
+    expect(verifyJoinToken(attendee.id, attendee)).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { pairCandidates, PairingCandidate, sharedTags } from '../utils/pairing';
+
+const person = (id: string, skills: string[] = [], interests: string[] = []): PairingCandidate => ({
+  id,
+  skills,
+  interests,
+});
+
+const partnerOf = (pairings: ReturnType<typeof pairCandidates>, userId: string) =>
+  pairings.find((pairing) => pairing.userId === userId)?.partnerId;
+
+describe('speed-networking pairing', () => {
+  it('pairs the people with the most skills and interests in common', () => {
+    const pairings = pairCandidates(
+      [
+        person('a', ['React', 'Go'], ['AI']),
+        person('c', ['Rust'], ['Climate']),
+        person('b', ['react', 'go'], ['ai']),
+        person('d', ['rust'], ['climate']),
+      ],
+      []
+    );
+
+    expect(partnerOf(pairings, 'a')).toBe('b');
+    expect(partnerOf(pairings, 'b')).toBe('a');
+    expect(partnerOf(pairings, 'c')).toBe('d');
+    expect(partnerOf(pairings, 'd')).toBe('c');
+  });
+
+  it('avoids repeat pairings while someone new is free', () => {
+    const people = [person('a', ['x']), person('b', ['x']), person('c', ['y']), person('d', ['y'])];
+
+    const pairings = pairCandidates(people, [
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+
+    expect(['c', 'd']).toContain(partnerOf(pairings, 'a'));
+    expect(['a', 'b']).toContain(partnerOf(pairings, 'c'));
+  });
+
+  it('falls back to a repeat when nobody new is left', () => {
+    const pairings = pairCandidates([person('a'), person('b')], [['a', 'b']]);
+
+    expect(partnerOf(pairings, 'a')).toBe('b');
+  });
+
+  it('sits out whoever has sat out least, the latest arrival on a tie', () => {
+    const people = [person('a'), person('b'), person('c')];
+
+    expect(partnerOf(pairCandidates(people, []), 'c')).toBeNull();
+    expect(partnerOf(pairCandidates(people, [], new Map([['c', 1]])), 'b')).toBeNull();
+  });
+
+  it('gives everyone exactly one entry per round', () => {
+    const people = ['a', 'b', 'c', 'd', 'e'].map((id) => person(id));
+
+    const pairings = pairCandidates(people, []);
+
+    expect(pairings.map((pairing) => pairing.userId).sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    pairings
+      .filter((pairing) => pairing.partnerId)
+      .forEach((pairing) => expect(partnerOf(pairings, pairing.partnerId)).toBe(pairing.userId));
+  });
+
+  it('lists shared tags ignoring case and surrounding spaces', () => {
+    expect(sharedTags(['React', 'Go', 'SQL'], [' react', 'sql '])).toEqual(['React', 'SQL']);
+    expect(sharedTags(['React'], [])).toEqual([]);
+  });
+});
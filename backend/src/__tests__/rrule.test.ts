@@ -0,0 +1,77 @@
+import { expandRRule, parseRRule, RRuleError } from '../utils/rrule';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('parseRRule', () => {
+  it('reads the supported rule parts', () => {
+    expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6')).toEqual({
+      freq: 'MONTHLY',
+      interval: 2,
+      count: 6,
+      until: undefined,
+      byDay: [
+        { weekday: 2, nth: 2 },
+        { weekday: 5, nth: -1 },
+      ],
+      byMonthDay: [],
+      weekStart: 1,
+    });
+  });
+
+  it.each([
+    ['FREQ=HOURLY', 'FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY'],
+    ['FREQ=DAILY;BYHOUR=9', 'Unsupported rule parts: BYHOUR'],
+    ['FREQ=DAILY;COUNT=3;UNTIL=20261231', 'COUNT and UNTIL cannot be combined'],
+    ['FREQ=WEEKLY;BYDAY=2TU', 'BYDAY ordinals are only supported with FREQ=MONTHLY'],
+    ['FREQ=WEEKLY;INTERVAL=0', 'INTERVAL must be an integer of at least 1'],
+  ])('rejects %s', (rule, message) => {
+    expect(() => parseRRule(rule)).toThrow(new RRuleError(message));
+  });
+});
+
+describe('expandRRule', () => {
+  it('counts the start as the first occurrence', () => {
+    const start = new Date('2026-11-02T18:00:00Z');
+
+    const dates = expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4'), start, {
+      before: new Date('2027-01-01T00:00:00Z'),
+    });
+
+    expect(iso(dates)).toEqual([
+      '2026-11-02T18:00:00.000Z',
+      '2026-11-04T18:00:00.000Z',
+      '2026-11-09T18:00:00.000Z',
+      '2026-11-11T18:00:00.000Z',
+    ]);
+  });
+
+  it('finds nth and last weekdays of the month', () => {
+    const dates = expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR'), new Date('2026-10-30T12:00:00Z'), {
+      before: new Date('2027-02-01T00:00:00Z'),
+    });
+
+    expect(iso(dates)).toEqual([
+      '2026-10-30T12:00:00.000Z',
+      '2026-11-27T12:00:00.000Z',
+      '2026-12-25T12:00:00.000Z',
+      '2027-01-29T12:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the day and stops at UNTIL', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=20270401');
+
+    const dates = expandRRule(rule, new Date('2027-01-31T09:00:00Z'), { before: new Date('2028-01-01T00:00:00Z') });
+
+    expect(iso(dates)).toEqual(['2027-01-31T09:00:00.000Z', '2027-03-31T09:00:00.000Z']);
+  });
+
+  it('honours the limit and the end of the window', () => {
+    const rule = parseRRule('FREQ=DAILY');
+    const start = new Date('2026-11-01T08:00:00Z');
+
+    expect(expandRRule(rule, start, { before: new Date('2027-01-01T00:00:00Z'), limit: 2 })).toHaveLength(2);
+    expect(expandRRule(rule, start, { before: new Date('2026-11-03T00:00:00Z') })).toHaveLength(2);
+    expect(expandRRule(rule, start, { before: start })).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+import { signTicket, verifyTicket } from '../services/ticketService';
+
+const claims = {
+  attendeeId: 'attendee-1',
+  eventId: 'event-1',
+  userId: 'user-1',
+  registeredAt: new Date('2026-10-20T18:00:00.000Z'),
+};
+
+describe('tickets', () => {
+  it('verifies a ticket it signed and returns its claims', () => {
+    expect(verifyTicket(signTicket(claims))).toEqual(claims);
+  });
+
+  it('tolerates surrounding whitespace from scanners', () => {
+    expect(verifyTicket(`  ${signTicket(claims)}\n`)).toEqual(claims);
+  });
+
+  it('rejects a ticket whose payload was changed', () => {
+    const [, signature] = signTicket(claims).split('.');
+    const [forged] = signTicket({ ...claims, userId: 'user-2' }).split('.');
+
+    expect(verifyTicket(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it.each(['', 'not-a-ticket', 'a.b.c', '.signature'])('rejects malformed code %p', (code) => {
+    expect(verifyTicket(code)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { expandRRule, parseRRule } from '../utils/rrule';
+import { addWallClock, fromWallClock, offsetAt, toWallClock } from '../utils/timeZone';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('expandRRule in a time zone', () => {
+  it('keeps the local time of day across daylight saving changes', () => {
+    // 19:00 in Berlin is 17:00 UTC in summer and 18:00 UTC in winter
+    const dates = expandRRule(parseRRule('FREQ=WEEKLY;COUNT=3'), new Date('2026-10-18T17:00:00Z'), {
+      before: new Date('2027-01-01T00:00:00Z'),
+      timeZone: 'Europe/Berlin',
+    });
+
+    expect(iso(dates)).toEqual(['2026-10-18T17:00:00.000Z', '2026-10-25T18:00:00.000Z', '2026-11-01T18:00:00.000Z']);
+  });
+});
+
+describe('wall-clock conversion', () => {
+  it('reads offsets east of UTC in minutes', () => {
+    expect(offsetAt('Europe/Berlin', new Date('2026-07-01T12:00:00Z'))).toBe(120);
+    expect(offsetAt('America/New_York', new Date('2026-01-01T12:00:00Z'))).toBe(-300);
+    expect(offsetAt('Asia/Kolkata', new Date('2026-01-01T12:00:00Z'))).toBe(330);
+  });
+
+  it('round-trips wall-clock times', () => {
+    const instant = new Date('2026-07-01T17:00:00Z');
+    const local = toWallClock(instant, 'Europe/Berlin');
+
+    expect(local.toISOString()).toBe('2026-07-01T19:00:00.000Z');
+    expect(fromWallClock(local, 'Europe/Berlin')).toEqual(instant);
+  });
+
+  it('resolves repeated times to the earlier instant and skipped times past the jump', () => {
+    // Clocks in Berlin go back from 03:00 to 02:00 on 2026-10-25 and forward from 02:00 on 2026-03-29
+    expect(fromWallClock(new Date('2026-10-25T02:30:00Z'), 'Europe/Berlin').toISOString()).toBe(
+      '2026-10-25T00:30:00.000Z'
+    );
+    expect(fromWallClock(new Date('2026-03-29T02:30:00Z'), 'Europe/Berlin').toISOString()).toBe(
+      '2026-03-29T01:30:00.000Z'
+    );
+  });
+
+  it('adds wall-clock days across a change', () => {
+    const day = 24 * 60 * 60 * 1000;
+
+    expect(addWallClock(new Date('2026-10-24T17:00:00Z'), day, 'Europe/Berlin').toISOString()).toBe(
+      '2026-10-25T18:00:00.000Z'
+    );
+  });
+});
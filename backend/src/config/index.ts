@@ -0,0 +1,81 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+if (isProduction && !process.env.JWT_SECRET) {
+  throw new Error('JWT_SECRET must be set in production');
+}
+
+if (isProduction && !process.env.TICKET_SIGNING_KEY) {
+  throw new Error('TICKET_SIGNING_KEY must be set in production');
+}
+
+if (isProduction && !process.env.STRIPE_WEBHOOK_SECRET) {
+  throw new Error('STRIPE_WEBHOOK_SECRET must be set in production');
+}
+
+// A number of at least zero from the environment, or `fallback` when unset or not such a number
+const nonNegativeNumber = (value: string | undefined, fallback: number) => {
+  const number = Number(value);
+  return value?.trim() && Number.isFinite(number) && number >= 0 ? number : fallback;
+};
+
+export const config = {
+  env: process.env.NODE_ENV || 'development',
+  isProduction,
+  port: Number(process.env.PORT) || 5000,
+  corsOrigin: process.env.CORS_ORIGIN || '*',
+  // Where the web app is served; Stripe sends buyers back there after checkout
+  appUrl: process.env.FRONTEND_URL || 'http://localhost:3000',
+
+  jwt: {
+    secret: process.env.JWT_SECRET || 'nexusverse-dev-secret',
+    expiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30,
+  },
+
+  // Sign-In with Ethereum: messages must be issued for this domain and one of these chains
+  siwe: {
+    domain: process.env.SIWE_DOMAIN || 'localhost:3000',
+    chainIds: (process.env.SIWE_CHAIN_IDS || '1,5,137,80001').split(',').map(Number),
+    nonceTtlMinutes: Number(process.env.SIWE_NONCE_TTL_MINUTES) || 10,
+  },
+
+  // Seats taken for paid tickets are held this long while payment completes
+  events: {
+    holdMinutes: Number(process.env.EVENT_HOLD_MINUTES) || 15,
+    holdSweepSeconds: Number(process.env.EVENT_HOLD_SWEEP_SECONDS) || 60,
+    // How far ahead occurrences of recurring events are created
+    seriesHorizonDays: Number(process.env.EVENT_SERIES_HORIZON_DAYS) || 90,
+    reminderSweepSeconds: Number(process.env.EVENT_REMINDER_SWEEP_SECONDS) || 60,
+    surveySweepSeconds: Number(process.env.EVENT_SURVEY_SWEEP_SECONDS) || 300,
+    // How long before the start registered attendees can get the meeting link of a virtual event;
+    // 0 opens it at the start time
+    meetingLinkLeadMinutes: nonNegativeNumber(process.env.EVENT_MEETING_LINK_LEAD_MINUTES, 15),
+    // Base64 Ed25519 seed (32 bytes) that signs tickets; derived from the JWT secret when unset
+    ticketSigningKey: process.env.TICKET_SIGNING_KEY,
+  },
+
+  // Ticket payments. STRIPE_API_HOST points the client at a local stripe-mock instead of Stripe.
+  stripe: {
+    secretKey: process.env.STRIPE_SECRET_KEY || 'sk_test_local',
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || 'whsec_local',
+    currency: (process.env.STRIPE_CURRENCY || 'usd').toLowerCase(),
+    apiHost: process.env.STRIPE_API_HOST,
+    apiPort: Number(process.env.STRIPE_API_PORT) || undefined,
+    apiProtocol: process.env.STRIPE_API_PROTOCOL === 'http' ? ('http' as const) : ('https' as const),
+  },
+
+  // Outgoing email. Without SMTP_HOST messages are built but not sent anywhere.
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || 'NexusVerse <no-reply@nexusverse.app>',
+  },
+
+  bcryptRounds: Number(process.env.BCRYPT_ROUNDS) || 12,
+};
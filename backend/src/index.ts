@@ -1,14 +1,27 @@
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { config } from './config';
+import { attachSocketServer } from './lib/socket';
+import authRoutes from './routes/auth';
+import calendarRoutes from './routes/calendar';
+import userRoutes from './routes/users';
+import communityRoutes from './routes/communities';
+import eventRoutes from './routes/events';
+import notificationRoutes from './routes/notifications';
+import paymentRoutes from './routes/payments';
+import postRoutes from './routes/posts';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { eventService } from './services/eventService';
+import { reminderService } from './services/reminderService';
+import { surveyService } from './services/surveyService';
 
 const app = express();
-const PORT = process.env.PORT || 5000;
+const PORT = config.port;
 
 // Middleware
-app.use(cors());
+app.use(cors({ origin: config.corsOrigin }));
+// Stripe signs the raw webhook body, so it is kept as a Buffer instead of being parsed
+app.use('/api/payments/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json());
 
 // Health check endpoint
@@ -20,50 +33,58 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Basic auth endpoints
-app.post('/api/auth/register', (req, res) => {
-  res.json({ 
-    message: 'Registration endpoint ready',
-    status: 'success'
-  });
-});
-
-app.post('/api/auth/login', (req, res) => {
-  res.json({ 
-    message: 'Login endpoint ready',
-    status: 'success'
-  });
-});
+// Auth endpoints
+app.use('/api/auth', authRoutes);
 
 // User endpoints
-app.get('/api/users/profile', (req, res) => {
-  res.json({ 
-    message: 'User profile endpoint ready',
-    status: 'success'
-  });
-});
+app.use('/api/users', userRoutes);
 
 // Communities endpoints
-app.get('/api/communities', (req, res) => {
-  res.json({ 
-    message: 'Communities endpoint ready',
-    status: 'success',
-    data: []
-  });
-});
+app.use('/api/communities/:communityId/posts', postRoutes);
+app.use('/api/communities', communityRoutes);
+
+// Notification endpoints
+app.use('/api/notifications', notificationRoutes);
 
 // Events endpoints
-app.get('/api/events', (req, res) => {
-  res.json({ 
-    message: 'Events endpoint ready',
-    status: 'success',
-    data: []
-  });
-});
+app.use('/api/events', eventRoutes);
+
+// Calendar feed endpoints
+app.use('/api/calendar', calendarRoutes);
+
+// Ticket payment endpoints
+app.use('/api/payments', paymentRoutes);
+
+// Error handling
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 NexusVerse Backend running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`🔗 API Base: http://localhost:${PORT}/api`);
-}); 
\ No newline at end of file
+});
+
+// Live Q&A and polls are pushed to the people following an event
+attachSocketServer(server, eventService.joinLive);
+
+// Release seats whose payment holds have lapsed
+setInterval(() => {
+  eventService.releaseAllExpiredHolds().catch((error) => console.error('Releasing event holds failed:', error));
+}, config.events.holdSweepSeconds * 1000); 
+
+// Keep recurring events materialised up to the configured horizon
+setInterval(() => {
+  eventService.extendAllSeries().catch((error) => console.error('Extending event series failed:', error));
+}, 60 * 60 * 1000);
+
+// Send event reminders as they come due
+setInterval(() => {
+  reminderService.sendDueReminders().catch((error) => console.error('Sending event reminders failed:', error));
+}, config.events.reminderSweepSeconds * 1000);
+
+// Send feedback surveys of completed events that haven't gone out yet
+setInterval(() => {
+  surveyService.sendDueSurveys().catch((error) => console.error('Sending event surveys failed:', error));
+}, config.events.surveySweepSeconds * 1000);
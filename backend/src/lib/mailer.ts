@@ -0,0 +1,9 @@
+import nodemailer from 'nodemailer';
+import { config } from '../config';
+
+const { host, port, user, pass } = config.smtp;
+
+// Shared mail transport. Without SMTP_HOST messages are only rendered, never sent.
+export const mailer = host
+  ? nodemailer.createTransport({ host, port, secure: port === 465, auth: user ? { user, pass } : undefined })
+  : nodemailer.createTransport({ jsonTransport: true });
@@ -0,0 +1,4 @@
+import { PrismaClient } from '@prisma/client';
+
+// Shared Prisma client so the whole process uses a single connection pool
+export const prisma = new PrismaClient();
@@ -0,0 +1,70 @@
+import { Server as HttpServer } from 'http';
+import { Server } from 'socket.io';
+import { config } from '../config';
+import { verifyAccessToken } from '../services/tokenService';
+import { ApiError } from '../utils/ApiError';
+
+// Resolves when the user may follow the event live, throws an ApiError otherwise
+export type EventRoomGuard = (eventId: string, userId: string) => Promise<unknown>;
+
+type JoinAck = (result: { status: 'success' } | { status: 'error'; message: string }) => void;
+
+let io: Server | null = null;
+let canFollow: EventRoomGuard | null = null;
+
+const eventRoom = (eventId: string) => `event:${eventId}`;
+
+// Every socket of a user, so they can all be taken out of an event's room at once
+const userRoom = (userId: string) => `user:${userId}`;
+
+// Clients connect with their access token, then ask to join the room of each event they follow.
+// Changes made through the API are pushed to the room with emitToEvent.
+export const attachSocketServer = (server: HttpServer, canJoinEvent: EventRoomGuard) => {
+  io = new Server(server, { cors: { origin: config.corsOrigin } });
+  canFollow = canJoinEvent;
+
+  io.use((socket, next) => {
+    try {
+      socket.data.user = verifyAccessToken(socket.handshake.auth?.token);
+      next();
+    } catch (error) {
+      next(new Error('Invalid or expired token'));
+    }
+  });
+
+  io.on('connection', (socket) => {
+    socket.join(userRoom(socket.data.user.id));
+
+    socket.on('event:join', async (eventId: string, ack?: JoinAck) => {
+      try {
+        await canJoinEvent(String(eventId), socket.data.user.id);
+        await socket.join(eventRoom(eventId));
+        ack?.({ status: 'success' });
+      } catch (error) {
+        ack?.({ status: 'error', message: error instanceof ApiError ? error.message : 'Something went wrong' });
+      }
+    });
+
+    socket.on('event:leave', (eventId: string) => socket.leave(eventRoom(eventId)));
+  });
+
+  return io;
+};
+
+// Takes the user's sockets out of the event's room when they may no longer follow it, e.g. once
+// their registration is cancelled or they stop being a host. Access is only checked on joining.
+export const recheckEventRoom = async (eventId: string, userId: string) => {
+  if (!io) {
+    return;
+  }
+  try {
+    await canFollow(eventId, userId);
+  } catch (error) {
+    io.in(userRoom(userId)).socketsLeave(eventRoom(eventId));
+  }
+};
+
+// Does nothing outside the API server, e.g. in scripts and tests
+export const emitToEvent = (eventId: string, name: string, payload: unknown) => {
+  io?.to(eventRoom(eventId)).emit(name, payload);
+};
@@ -0,0 +1,10 @@
+import Stripe from 'stripe';
+import { config } from '../config';
+
+// Shared Stripe client. With STRIPE_API_HOST set it talks to a local stripe-mock instead.
+export const stripe = new Stripe(config.stripe.secretKey, {
+  apiVersion: '2023-10-16',
+  ...(config.stripe.apiHost
+    ? { host: config.stripe.apiHost, port: config.stripe.apiPort, protocol: config.stripe.apiProtocol }
+    : {}),
+});
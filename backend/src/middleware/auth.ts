@@ -0,0 +1,49 @@
+import { NextFunction, Request, Response } from 'express';
+import { verifyAccessToken } from '../services/tokenService';
+import { ApiError } from '../utils/ApiError';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface User {
+      id: string;
+      email: string;
+    }
+  }
+}
+
+const extractBearerToken = (req: Request): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Require a valid access token and expose its subject as req.user
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+  if (!token) {
+    return next(ApiError.unauthorized());
+  }
+
+  try {
+    req.user = verifyAccessToken(token);
+    next();
+  } catch (error) {
+    next(ApiError.unauthorized('Invalid or expired token'));
+  }
+};
+
+// Populate req.user when a valid token is present, but never reject the request
+export const optionalAuth = (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+  if (token) {
+    try {
+      req.user = verifyAccessToken(token);
+    } catch (error) {
+      // Anonymous access is allowed, ignore bad tokens
+    }
+  }
+  next();
+};
@@ -0,0 +1,38 @@
+import { NextFunction, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { ApiError } from '../utils/ApiError';
+
+export const notFoundHandler = (req: Request, res: Response) => {
+  res.status(404).json({
+    status: 'error',
+    message: `Route ${req.method} ${req.originalUrl} not found`,
+  });
+};
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
+  if (err instanceof ZodError) {
+    return res.status(400).json({
+      status: 'error',
+      message: 'Validation failed',
+      errors: err.issues.map((issue) => ({
+        field: issue.path.join('.'),
+        message: issue.message,
+      })),
+    });
+  }
+
+  if (err instanceof ApiError) {
+    return res.status(err.statusCode).json({
+      status: 'error',
+      message: err.message,
+      ...(err.details ? { details: err.details } : {}),
+    });
+  }
+
+  console.error(err);
+  res.status(500).json({
+    status: 'error',
+    message: 'Internal server error',
+  });
+};
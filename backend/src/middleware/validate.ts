@@ -0,0 +1,16 @@
+import { NextFunction, Request, Response } from 'express';
+import { ZodSchema } from 'zod';
+
+type RequestSource = 'body' | 'query' | 'params';
+
+// Parse the given part of the request with a zod schema, replacing it with the parsed value
+export const validate =
+  (schema: ZodSchema, source: RequestSource = 'body') =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req[source]);
+    if (!result.success) {
+      return next(result.error);
+    }
+    req[source] = result.data;
+    next();
+  };
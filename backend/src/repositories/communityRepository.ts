@@ -0,0 +1,148 @@
+import { CommunityRole, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { communityWithStaff } from '../serializers/community';
+import { PaginationParams, toSkipTake } from '../utils/pagination';
+
+export interface CommunityFilters {
+  search?: string;
+  category?: string;
+  // Private communities are only listed for their members
+  viewerId?: string;
+}
+
+const buildWhere = ({ search, category, viewerId }: CommunityFilters): Prisma.CommunityWhereInput => ({
+  AND: [
+    viewerId
+      ? { OR: [{ isPrivate: false }, { members: { some: { userId: viewerId } } }] }
+      : { isPrivate: false },
+  ],
+  ...(category ? { category: { equals: category, mode: 'insensitive' } } : {}),
+  ...(search
+    ? {
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } },
+          { tags: { has: search } },
+        ],
+      }
+    : {}),
+});
+
+// Claims a seat with a conditional increment so concurrent joins cannot exceed maxMembers.
+// Must run inside a transaction; returns null when the community is full.
+export const claimSeat = async (
+  tx: Prisma.TransactionClient,
+  communityId: string,
+  userId: string,
+  role: CommunityRole = 'member'
+) => {
+  const claimed = await tx.community.updateMany({
+    where: { id: communityId, memberCount: { lt: prisma.community.fields.maxMembers } },
+    data: { memberCount: { increment: 1 } },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+  return tx.communityMember.create({ data: { communityId, userId, role } });
+};
+
+export const communityRepository = {
+  findById: (id: string) => prisma.community.findUnique({ where: { id }, include: communityWithStaff }),
+
+  async list(filters: CommunityFilters, pagination: PaginationParams) {
+    const where = buildWhere(filters);
+    const [items, total] = await prisma.$transaction([
+      prisma.community.findMany({
+        where,
+        include: communityWithStaff,
+        orderBy: { memberCount: 'desc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.community.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  async listForUser(userId: string, pagination: PaginationParams) {
+    const where: Prisma.CommunityWhereInput = { members: { some: { userId } } };
+    const [items, total] = await prisma.$transaction([
+      prisma.community.findMany({
+        where,
+        include: communityWithStaff,
+        orderBy: { updatedAt: 'desc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.community.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  // The creator becomes the first member so the counter starts at one
+  create: (creatorId: string, data: Omit<Prisma.CommunityCreateInput, 'creator' | 'members'>) =>
+    prisma.community.create({
+      data: {
+        ...data,
+        memberCount: 1,
+        creator: { connect: { id: creatorId } },
+        members: { create: { userId: creatorId, role: 'creator' } },
+      },
+      include: communityWithStaff,
+    }),
+
+  update: (id: string, data: Prisma.CommunityUpdateInput) =>
+    prisma.community.update({ where: { id }, data, include: communityWithStaff }),
+
+  delete: (id: string) => prisma.community.delete({ where: { id } }),
+
+  findMembership: (communityId: string, userId: string) =>
+    prisma.communityMember.findUnique({ where: { communityId_userId: { communityId, userId } } }),
+
+  findMembershipsForUser: (userId: string, communityIds: string[]) =>
+    prisma.communityMember.findMany({ where: { userId, communityId: { in: communityIds } } }),
+
+  // Returns null when the community is full
+  addMember: (communityId: string, userId: string, role: CommunityRole = 'member') =>
+    prisma.$transaction((tx) => claimSeat(tx, communityId, userId, role)),
+
+  async removeMember(communityId: string, userId: string) {
+    await prisma.$transaction([
+      prisma.communityMember.delete({ where: { communityId_userId: { communityId, userId } } }),
+      prisma.community.update({ where: { id: communityId }, data: { memberCount: { decrement: 1 } } }),
+    ]);
+  },
+
+  setMemberRole: (communityId: string, userId: string, role: CommunityRole) =>
+    prisma.communityMember.update({
+      where: { communityId_userId: { communityId, userId } },
+      data: { role },
+    }),
+
+  upsertInvitation: (communityId: string, email: string, invitedById: string) =>
+    prisma.communityInvitation.upsert({
+      where: { communityId_email: { communityId, email: email.toLowerCase() } },
+      update: { invitedById, acceptedAt: null },
+      create: { communityId, email: email.toLowerCase(), invitedById },
+    }),
+
+  findInvitation: (communityId: string, email: string) =>
+    prisma.communityInvitation.findUnique({
+      where: { communityId_email: { communityId, email: email.toLowerCase() } },
+    }),
+
+  markInvitationAccepted: (id: string) =>
+    prisma.communityInvitation.update({ where: { id }, data: { acceptedAt: new Date() } }),
+
+  async listMembers(communityId: string, pagination: PaginationParams) {
+    const where: Prisma.CommunityMemberWhereInput = { communityId };
+    const [items, total] = await prisma.$transaction([
+      prisma.communityMember.findMany({
+        where,
+        include: { user: true },
+        orderBy: { joinedAt: 'asc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.communityMember.count({ where }),
+    ]);
+    return { items, total };
+  },
+};
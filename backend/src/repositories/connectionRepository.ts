@@ -0,0 +1,35 @@
+import { ConnectionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const connectionRepository = {
+  findById: (id: string) => prisma.connection.findUnique({ where: { id } }),
+
+  // Connections are directional requests, but either side counts as "between" two users
+  findBetween: (userId: string, otherUserId: string) =>
+    prisma.connection.findFirst({
+      where: {
+        OR: [
+          { requesterId: userId, addresseeId: otherUserId },
+          { requesterId: otherUserId, addresseeId: userId },
+        ],
+      },
+    }),
+
+  create: (requesterId: string, addresseeId: string) =>
+    prisma.connection.create({ data: { requesterId, addresseeId } }),
+
+  updateStatus: (id: string, status: ConnectionStatus) =>
+    prisma.connection.update({ where: { id }, data: { status } }),
+
+  delete: (id: string) => prisma.connection.delete({ where: { id } }),
+
+  listForUser: (userId: string, status?: ConnectionStatus) =>
+    prisma.connection.findMany({
+      where: {
+        OR: [{ requesterId: userId }, { addresseeId: userId }],
+        ...(status ? { status } : {}),
+      },
+      include: { requester: true, addressee: true },
+      orderBy: { createdAt: 'desc' },
+    }),
+};
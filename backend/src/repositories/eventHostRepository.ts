@@ -0,0 +1,13 @@
+import { EventHostRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const eventHostRepository = {
+  add: (eventId: string, userId: string, role: EventHostRole) =>
+    prisma.eventHost.create({ data: { eventId, userId, role }, include: { user: true } }),
+
+  updateRole: async (eventId: string, userId: string, role: EventHostRole) =>
+    (await prisma.eventHost.updateMany({ where: { eventId, userId }, data: { role } })).count > 0,
+
+  remove: async (eventId: string, userId: string) =>
+    (await prisma.eventHost.deleteMany({ where: { eventId, userId } })).count > 0,
+};
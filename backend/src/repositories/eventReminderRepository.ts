@@ -0,0 +1,47 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const eventReminderRepository = {
+  // Published events with reminders on that start between now and `until`
+  findUpcomingEvents: (until: Date) =>
+    prisma.event.findMany({
+      where: { status: 'published', sendReminders: true, startDate: { gt: new Date(), lte: until } },
+      orderBy: { startDate: 'asc' },
+    }),
+
+  // Reminders are for confirmed places only, not holds, applications or the waitlist
+  findRecipientIds: async (eventId: string) =>
+    (
+      await prisma.eventAttendee.findMany({ where: { eventId, status: 'registered' }, select: { userId: true } })
+    ).map((attendee) => attendee.userId),
+
+  // Records the reminder together with its notifications. Returns false, sending nothing, when
+  // the same scheduled reminder was already recorded.
+  send: (
+    reminder: Prisma.EventReminderUncheckedCreateInput,
+    notification: Omit<Prisma.NotificationCreateManyInput, 'userId'>,
+    userIds: string[]
+  ) =>
+    prisma.$transaction(async (tx) => {
+      const claimed = await tx.eventReminder.createMany({
+        data: [{ ...reminder, recipientCount: userIds.length }],
+        skipDuplicates: true,
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+      await tx.notification.createMany({ data: userIds.map((userId) => ({ ...notification, userId })) });
+      return true;
+    }),
+
+  findScheduled: (eventIds: string[]) =>
+    prisma.eventReminder.findMany({
+      where: { eventId: { in: eventIds }, offsetMinutes: { not: null } },
+      select: { eventId: true, offsetMinutes: true, eventStart: true },
+    }),
+
+  findLastManual: (eventId: string) =>
+    prisma.eventReminder.findFirst({ where: { eventId, offsetMinutes: null }, orderBy: { sentAt: 'desc' } }),
+
+  list: (eventId: string) => prisma.eventReminder.findMany({ where: { eventId }, orderBy: { sentAt: 'desc' } }),
+};
@@ -0,0 +1,631 @@
+import { AttendeeStatus, EventAttendee, EventStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { eventWithRelations } from '../serializers/event';
+import { applyDiscount } from '../utils/discount';
+import { PaginationParams, toSkipTake } from '../utils/pagination';
+
+export interface EventFilters {
+  search?: string;
+  category?: string;
+  communityId?: string;
+  status?: EventStatus;
+  upcoming?: boolean;
+  // Drafts, community-only and private events are only listed for those allowed to see them
+  viewerId?: string;
+}
+
+export type RegistrationOutcome = 'registered' | 'waitlisted' | 'held' | 'full' | 'sold_out' | 'code_used_up';
+
+export interface RegistrationOptions {
+  allowWaitlist: boolean;
+  // Paid places get a seat held until this time instead of a confirmed registration
+  holdUntil: Date | null;
+  // Ticket type the place is for; one of its tickets is taken along with the place
+  ticketTypeId?: string | null;
+  // Promo code the place is discounted with; one of its redemptions is taken along with the place
+  promoCodeId?: string | null;
+}
+
+// A waitlisted attendee who got a seat, and whether it is held for payment or registered
+export interface Promotion {
+  userId: string;
+  status: AttendeeStatus;
+}
+
+// Statuses that occupy one of the event's seats
+const SEATED: AttendeeStatus[] = ['registered', 'held'];
+// Statuses counted in registrationCount
+const ACTIVE: AttendeeStatus[] = [...SEATED, 'waitlisted'];
+
+export type ReviewOutcome = 'approved' | 'full' | 'sold_out' | 'code_used_up' | 'not_found';
+
+// Public events are listed for everyone. Signed-in viewers also see events they run, events of
+// communities they belong to and events they have signed up for. Drafts stay with the hosts.
+const visibleTo = (viewerId?: string): Prisma.EventWhereInput => {
+  const listed: Prisma.EventWhereInput = { status: { not: 'draft' } };
+  return {
+    OR: [
+      { ...listed, visibility: 'public' },
+      ...(viewerId
+        ? [
+            { organizerId: viewerId },
+            { hosts: { some: { userId: viewerId } } },
+            { ...listed, visibility: 'community' as const, community: { members: { some: { userId: viewerId } } } },
+            { ...listed, attendees: { some: { userId: viewerId, status: { not: 'cancelled' as const } } } },
+          ]
+        : []),
+    ],
+  };
+};
+
+const buildWhere = ({
+  search,
+  category,
+  communityId,
+  status,
+  upcoming,
+  viewerId,
+}: EventFilters): Prisma.EventWhereInput => ({
+  AND: [visibleTo(viewerId)],
+  ...(category ? { category: { equals: category, mode: 'insensitive' } } : {}),
+  ...(communityId ? { communityId } : {}),
+  ...(status ? { status } : {}),
+  ...(upcoming ? { endDate: { gte: new Date() } } : {}),
+  ...(search
+    ? {
+        OR: [
+          { title: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } },
+        ],
+      }
+    : {}),
+});
+
+// Claims a seat with a conditional increment so concurrent registrations cannot exceed capacity.
+// Must run inside a transaction; returns false when the event is full.
+const claimEventSeat = async (tx: Prisma.TransactionClient, eventId: string) => {
+  const claimed = await tx.event.updateMany({
+    where: { id: eventId, currentAttendees: { lt: prisma.event.fields.capacity } },
+    data: { currentAttendees: { increment: 1 } },
+  });
+  return claimed.count > 0;
+};
+
+// Joins the waitlist while registered, held and waitlisted attendees together stay within
+// maxAttendees. Conditional like claimEventSeat, so parallel requests cannot overfill it.
+const claimWaitlistSpot = async (tx: Prisma.TransactionClient, eventId: string) => {
+  const claimed = await tx.event.updateMany({
+    where: {
+      id: eventId,
+      OR: [{ maxAttendees: null }, { registrationCount: { lt: prisma.event.fields.maxAttendees } }],
+    },
+    data: { registrationCount: { increment: 1 } },
+  });
+  return claimed.count > 0;
+};
+
+// Takes one of the ticket type's tickets, conditional like claimEventSeat; false when sold out.
+// Waitlisted places keep their ticket too, so promoting them never oversells a ticket type.
+const claimTicket = async (tx: Prisma.TransactionClient, ticketTypeId: string) => {
+  const claimed = await tx.eventTicketType.updateMany({
+    where: {
+      id: ticketTypeId,
+      OR: [{ quantity: null }, { sold: { lt: prisma.eventTicketType.fields.quantity } }],
+    },
+    data: { sold: { increment: 1 } },
+  });
+  return claimed.count > 0;
+};
+
+const releaseTicket = (tx: Prisma.TransactionClient, ticketTypeId: string) =>
+  tx.eventTicketType.update({ where: { id: ticketTypeId }, data: { sold: { decrement: 1 } } });
+
+// Uses one of the promo code's redemptions, conditional like claimTicket; false when used up
+const claimPromoCode = async (tx: Prisma.TransactionClient, promoCodeId: string) => {
+  const claimed = await tx.eventPromoCode.updateMany({
+    where: {
+      id: promoCodeId,
+      OR: [{ maxRedemptions: null }, { redemptions: { lt: prisma.eventPromoCode.fields.maxRedemptions } }],
+    },
+    data: { redemptions: { increment: 1 } },
+  });
+  return claimed.count > 0;
+};
+
+// The code may have been deleted since; the place then no longer holds a redemption
+const releasePromoCode = (tx: Prisma.TransactionClient, promoCodeId: string) =>
+  tx.eventPromoCode.updateMany({ where: { id: promoCodeId }, data: { redemptions: { decrement: 1 } } });
+
+// Seats are held for payment when the place costs something: its ticket type's price, or else
+// the event's own, less any promo code discount
+const statusForSeat = async (
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  holdUntil: Date | null,
+  { ticketTypeId, promoCodeId }: Pick<RegistrationOptions, 'ticketTypeId' | 'promoCodeId'>
+): Promise<'held' | 'registered'> => {
+  if (!holdUntil) {
+    return 'registered';
+  }
+  const priceCents = ticketTypeId
+    ? (await tx.eventTicketType.findUniqueOrThrow({ where: { id: ticketTypeId } })).priceCents
+    : (await tx.event.findUniqueOrThrow({ where: { id: eventId } })).ticketPriceCents;
+  const promoCode = promoCodeId ? await tx.eventPromoCode.findUnique({ where: { id: promoCodeId } }) : null;
+  return applyDiscount(priceCents, promoCode) > 0 ? 'held' : 'registered';
+};
+
+// Takes (or holds) a seat when one is free, otherwise a waitlist spot if allowed, and returns
+// the status the attendee gets. The event's, ticket type's and promo code's counters are updated
+// either way.
+const placeAttendee = async (
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  { allowWaitlist, holdUntil, ticketTypeId, promoCodeId }: RegistrationOptions
+): Promise<RegistrationOutcome> => {
+  if (ticketTypeId && !(await claimTicket(tx, ticketTypeId))) {
+    return 'sold_out';
+  }
+  if (promoCodeId && !(await claimPromoCode(tx, promoCodeId))) {
+    if (ticketTypeId) {
+      await releaseTicket(tx, ticketTypeId);
+    }
+    return 'code_used_up';
+  }
+  if (await claimEventSeat(tx, eventId)) {
+    await tx.event.update({ where: { id: eventId }, data: { registrationCount: { increment: 1 } } });
+    return statusForSeat(tx, eventId, holdUntil, { ticketTypeId, promoCodeId });
+  }
+  if (allowWaitlist && (await claimWaitlistSpot(tx, eventId))) {
+    return 'waitlisted';
+  }
+  if (ticketTypeId) {
+    await releaseTicket(tx, ticketTypeId);
+  }
+  if (promoCodeId) {
+    await releasePromoCode(tx, promoCodeId);
+  }
+  return 'full';
+};
+
+// Gives back what placeAttendee took
+const releasePlace = async (
+  tx: Prisma.TransactionClient,
+  {
+    eventId,
+    status,
+    ticketTypeId,
+    promoCodeId,
+  }: Pick<EventAttendee, 'eventId' | 'status' | 'ticketTypeId' | 'promoCodeId'>
+) => {
+  await tx.event.update({
+    where: { id: eventId },
+    data: {
+      registrationCount: { decrement: 1 },
+      ...(SEATED.includes(status) ? { currentAttendees: { decrement: 1 } } : {}),
+    },
+  });
+  if (ticketTypeId) {
+    await releaseTicket(tx, ticketTypeId);
+  }
+  if (promoCodeId) {
+    await releasePromoCode(tx, promoCodeId);
+  }
+};
+
+// Creates the user's registration, or reuses the row of one they cancelled. A concurrent second
+// registration fails on the unique index (create) or the status guard (update), rolling back
+// the whole transaction.
+const writeAttendee = async (
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  userId: string,
+  data: {
+    status: AttendeeStatus;
+    holdExpiresAt?: Date | null;
+    answers?: Prisma.InputJsonValue;
+    ticketTypeId?: string | null;
+    promoCodeId?: string | null;
+  }
+) => {
+  const existing = await tx.eventAttendee.findUnique({ where: { eventId_userId: { eventId, userId } } });
+  const values = {
+    holdExpiresAt: null,
+    answers: [],
+    ticketTypeId: null,
+    promoCodeId: null,
+    ...data,
+    registeredAt: new Date(),
+    reviewedById: null,
+    reviewedAt: null,
+    checkedInAt: null,
+  };
+  if (existing) {
+    await tx.eventAttendee.update({ where: { id: existing.id, status: 'cancelled' }, data: values });
+  } else {
+    await tx.eventAttendee.create({ data: { eventId, userId, ...values } });
+  }
+};
+
+// Moves waitlisted attendees into free seats, longest waiting first. With `holdUntil` paid places
+// get a hold rather than a registration. A concurrent promotion may grab the same attendee; the
+// seat is then handed back and the next one in line is tried.
+const fillFromWaitlist = async (tx: Prisma.TransactionClient, eventId: string, holdUntil: Date | null) => {
+  const promoted: Promotion[] = [];
+  for (;;) {
+    const next = await tx.eventAttendee.findFirst({
+      where: { eventId, status: 'waitlisted' },
+      orderBy: [{ registeredAt: 'asc' }, { id: 'asc' }],
+    });
+    if (!next || !(await claimEventSeat(tx, eventId))) {
+      return promoted;
+    }
+    const status = await statusForSeat(tx, eventId, holdUntil, next);
+    const moved = await tx.eventAttendee.updateMany({
+      where: { id: next.id, status: 'waitlisted' },
+      data: status === 'held' ? { status, holdExpiresAt: holdUntil } : { status },
+    });
+    if (moved.count === 0) {
+      await tx.event.update({ where: { id: eventId }, data: { currentAttendees: { decrement: 1 } } });
+      continue;
+    }
+    promoted.push({ userId: next.userId, status });
+  }
+};
+
+export const eventRepository = {
+  findById: (id: string) => prisma.event.findUnique({ where: { id }, include: eventWithRelations }),
+
+  async list(filters: EventFilters, pagination: PaginationParams) {
+    const where = buildWhere(filters);
+    const [items, total] = await prisma.$transaction([
+      prisma.event.findMany({
+        where,
+        include: eventWithRelations,
+        orderBy: { startDate: 'asc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.event.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  // Events the user organizes or co-hosts
+  async listByOrganizer(organizerId: string, pagination: PaginationParams) {
+    const where: Prisma.EventWhereInput = { OR: [{ organizerId }, { hosts: { some: { userId: organizerId } } }] };
+    const [items, total] = await prisma.$transaction([
+      prisma.event.findMany({
+        where,
+        include: eventWithRelations,
+        orderBy: { startDate: 'desc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.event.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  async create(data: Prisma.EventUncheckedCreateInput) {
+    if (!data.communityId) {
+      return prisma.event.create({ data, include: eventWithRelations });
+    }
+    const [event] = await prisma.$transaction([
+      prisma.event.create({ data, include: eventWithRelations }),
+      prisma.community.update({ where: { id: data.communityId }, data: { eventCount: { increment: 1 } } }),
+    ]);
+    return event;
+  },
+
+  update: (id: string, data: Prisma.EventUncheckedUpdateInput) =>
+    prisma.event.update({
+      where: { id },
+      data: { ...data, sequence: { increment: 1 } },
+      include: eventWithRelations,
+    }),
+
+  async delete(id: string) {
+    const event = await prisma.event.findUniqueOrThrow({ where: { id } });
+    if (!event.communityId) {
+      await prisma.event.delete({ where: { id } });
+      return;
+    }
+    await prisma.$transaction([
+      prisma.event.delete({ where: { id } }),
+      prisma.community.update({ where: { id: event.communityId }, data: { eventCount: { decrement: 1 } } }),
+    ]);
+  },
+
+  incrementViews: (id: string) => prisma.event.update({ where: { id }, data: { viewCount: { increment: 1 } } }),
+
+  findAttendee: (eventId: string, userId: string) =>
+    prisma.eventAttendee.findUnique({ where: { eventId_userId: { eventId, userId } } }),
+
+  findAttendeeById: (id: string) => prisma.eventAttendee.findUnique({ where: { id }, include: { user: true } }),
+
+  // Returns the attendee with the new version, which links must be signed with from now on
+  rotateJoinToken: (attendeeId: string) =>
+    prisma.eventAttendee.update({ where: { id: attendeeId }, data: { joinTokenVersion: { increment: 1 } } }),
+
+  recordJoin: (eventId: string, userId: string, userAgent?: string) =>
+    prisma.eventJoin.create({ data: { eventId, userId, userAgent } }),
+
+  // First visit and number of visits per user who joined
+  summarizeJoins: (eventId: string) =>
+    prisma.eventJoin.groupBy({
+      by: ['userId'],
+      where: { eventId },
+      _min: { joinedAt: true },
+      _count: { _all: true },
+      orderBy: { userId: 'asc' },
+    }),
+
+  findActiveAttendeeIds: async (eventId: string) =>
+    (
+      await prisma.eventAttendee.findMany({
+        where: { eventId, status: { notIn: ['cancelled', 'rejected'] } },
+        select: { userId: true },
+      })
+    ).map((attendee) => attendee.userId),
+
+  findAttendeesForUser: (userId: string, eventIds: string[]) =>
+    prisma.eventAttendee.findMany({ where: { userId, eventId: { in: eventIds }, status: { not: 'cancelled' } } }),
+
+  // 1-based place in the waitlist
+  waitlistPosition: async (eventId: string, registeredAt: Date) =>
+    (await prisma.eventAttendee.count({
+      where: { eventId, status: 'waitlisted', registeredAt: { lt: registeredAt } },
+    })) + 1,
+
+  countByStatus: (eventId: string) =>
+    prisma.eventAttendee.groupBy({
+      by: ['status'],
+      where: { eventId },
+      _count: { _all: true },
+      orderBy: { status: 'asc' },
+    }),
+
+  register: (eventId: string, userId: string, options: RegistrationOptions) =>
+    prisma.$transaction(async (tx) => {
+      const status = await placeAttendee(tx, eventId, options);
+      if (status !== 'full' && status !== 'sold_out' && status !== 'code_used_up') {
+        await writeAttendee(tx, eventId, userId, {
+          status,
+          holdExpiresAt: status === 'held' ? options.holdUntil : null,
+          ticketTypeId: options.ticketTypeId,
+          promoCodeId: options.promoCodeId,
+        });
+      }
+      return status;
+    }),
+
+  // Files a registration for the organizer to review; it takes no seat (or ticket, or promo code
+  // redemption) until approved
+  apply: (
+    eventId: string,
+    userId: string,
+    answers: Array<{ question: string; answer: string }>,
+    { ticketTypeId, promoCodeId }: Pick<RegistrationOptions, 'ticketTypeId' | 'promoCodeId'> = {}
+  ) =>
+    prisma.$transaction((tx) =>
+      writeAttendee(tx, eventId, userId, { status: 'pending', answers, ticketTypeId, promoCodeId })
+    ),
+
+  findManyPending: (eventId: string, ids: string[]) =>
+    prisma.eventAttendee.findMany({ where: { eventId, id: { in: ids }, status: 'pending' } }),
+
+  // Seats (or waitlists) a pending registration. 'full' leaves it pending for a later try.
+  approve: (attendeeId: string, reviewerId: string, options: RegistrationOptions) =>
+    prisma.$transaction(async (tx): Promise<{ outcome: ReviewOutcome; status?: AttendeeStatus }> => {
+      const attendee = await tx.eventAttendee.findUnique({ where: { id: attendeeId } });
+      if (attendee?.status !== 'pending') {
+        return { outcome: 'not_found' };
+      }
+      const status = await placeAttendee(tx, attendee.eventId, {
+        ...options,
+        ticketTypeId: attendee.ticketTypeId,
+        promoCodeId: attendee.promoCodeId,
+      });
+      if (status === 'full' || status === 'sold_out' || status === 'code_used_up') {
+        return { outcome: status };
+      }
+      const approved = await tx.eventAttendee.updateMany({
+        where: { id: attendeeId, status: 'pending' },
+        data: {
+          status,
+          holdExpiresAt: status === 'held' ? options.holdUntil : null,
+          registeredAt: new Date(),
+          reviewedById: reviewerId,
+          reviewedAt: new Date(),
+        },
+      });
+      if (approved.count === 0) {
+        // Reviewed or withdrawn in the meantime
+        await releasePlace(tx, { ...attendee, status });
+        return { outcome: 'not_found' };
+      }
+      return { outcome: 'approved', status };
+    }),
+
+  reject: async (attendeeId: string, reviewerId: string) =>
+    (
+      await prisma.eventAttendee.updateMany({
+        where: { id: attendeeId, status: 'pending' },
+        data: { status: 'rejected', reviewedById: reviewerId, reviewedAt: new Date() },
+      })
+    ).count > 0,
+
+  async listApplications(eventId: string, status: AttendeeStatus, pagination: PaginationParams) {
+    const where: Prisma.EventAttendeeWhereInput = { eventId, status };
+    const [items, total] = await prisma.$transaction([
+      prisma.eventAttendee.findMany({
+        where,
+        include: { user: true },
+        orderBy: { registeredAt: 'asc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.eventAttendee.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  // Returns null when the user has no place or pending application. Freeing a seat promotes
+  // from the waitlist.
+  cancel: (eventId: string, userId: string, holdUntil: Date | null) =>
+    prisma.$transaction(async (tx) => {
+      const attendee = await tx.eventAttendee.findUnique({ where: { eventId_userId: { eventId, userId } } });
+      if (!attendee || !['pending', ...ACTIVE].includes(attendee.status)) {
+        return null;
+      }
+      const cancelled = await tx.eventAttendee.updateMany({
+        where: { id: attendee.id, status: attendee.status },
+        data: { status: 'cancelled', holdExpiresAt: null },
+      });
+      if (cancelled.count === 0) {
+        return null;
+      }
+
+      if (attendee.status === 'pending') {
+        return { previousStatus: attendee.status, promoted: [] as Promotion[] };
+      }
+      await releasePlace(tx, attendee);
+      const promoted = SEATED.includes(attendee.status) ? await fillFromWaitlist(tx, eventId, holdUntil) : [];
+      return { previousStatus: attendee.status, promoted };
+    }),
+
+  // For when capacity grows or the waitlist is switched on
+  promoteWaitlist: (eventId: string, holdUntil: Date | null) =>
+    prisma.$transaction((tx) => fillFromWaitlist(tx, eventId, holdUntil)),
+
+  // Turns an unexpired hold into a registration; false when there is none or it has lapsed
+  confirmHold: async (eventId: string, userId: string) =>
+    (
+      await prisma.eventAttendee.updateMany({
+        where: { eventId, userId, status: 'held', holdExpiresAt: { gt: new Date() } },
+        data: { status: 'registered', holdExpiresAt: null },
+      })
+    ).count > 0,
+
+  // Turns a hold into a registration once its payment went through; the session was paid before
+  // it expired, so a hold that ran out while the payment was reported still counts
+  confirmPaidHold: async (attendeeId: string) =>
+    (
+      await prisma.eventAttendee.updateMany({
+        where: { id: attendeeId, status: 'held' },
+        data: { status: 'registered', holdExpiresAt: null },
+      })
+    ).count > 0,
+
+  // Keeps an unexpired hold until `until` while checkout is open. Guarded by the current expiry,
+  // so of two checkouts started together only one gets through.
+  extendHold: async (attendeeId: string, current: Date, until: Date) =>
+    (
+      await prisma.eventAttendee.updateMany({
+        where: { id: attendeeId, status: 'held', holdExpiresAt: { equals: current, gt: new Date() } },
+        data: { holdExpiresAt: until },
+      })
+    ).count > 0,
+
+  findEventIdsWithExpiredHolds: async () =>
+    (
+      await prisma.eventAttendee.findMany({
+        where: { status: 'held', holdExpiresAt: { lte: new Date() } },
+        select: { eventId: true },
+        distinct: ['eventId'],
+      })
+    ).map((attendee) => attendee.eventId),
+
+  // Cancels lapsed holds, gives their seats and tickets back and refills them from the waitlist.
+  // The status guard makes concurrent sweeps release each hold once, and a hold confirmed or
+  // extended in the meantime is left alone.
+  releaseExpiredHolds: (eventId: string, holdUntil: Date | null) =>
+    prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const expired = await tx.eventAttendee.findMany({
+        where: { eventId, status: 'held', holdExpiresAt: { lte: now } },
+      });
+      let released = 0;
+      for (const attendee of expired) {
+        const cancelled = await tx.eventAttendee.updateMany({
+          where: { id: attendee.id, status: 'held', holdExpiresAt: { lte: now } },
+          data: { status: 'cancelled', holdExpiresAt: null },
+        });
+        if (cancelled.count > 0) {
+          await releasePlace(tx, attendee);
+          released++;
+        }
+      }
+      return released > 0 ? fillFromWaitlist(tx, eventId, holdUntil) : ([] as Promotion[]);
+    }),
+
+  // Stamps the arrival once; returns null when the attendee was checked in meanwhile
+  checkIn: (attendeeId: string) =>
+    prisma.$transaction(async (tx) => {
+      const checkedInAt = new Date();
+      const stamped = await tx.eventAttendee.updateMany({
+        where: { id: attendeeId, status: 'registered', checkedInAt: null },
+        data: { checkedInAt },
+      });
+      if (stamped.count === 0) {
+        return null;
+      }
+      const attendee = await tx.eventAttendee.findUniqueOrThrow({ where: { id: attendeeId } });
+      const event = await tx.event.update({
+        where: { id: attendee.eventId },
+        data: { checkInCount: { increment: 1 } },
+      });
+      return { checkedInAt, checkInCount: event.checkInCount, currentAttendees: event.currentAttendees };
+    }),
+
+  async listRegistrations(userId: string, pagination: PaginationParams) {
+    const where: Prisma.EventAttendeeWhereInput = { userId, status: { not: 'cancelled' } };
+    const [items, total] = await prisma.$transaction([
+      prisma.eventAttendee.findMany({
+        where,
+        include: { event: { include: eventWithRelations } },
+        orderBy: { event: { startDate: 'asc' } },
+        ...toSkipTake(pagination),
+      }),
+      prisma.eventAttendee.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  // The user's places at events ending from `since` on, for their calendar feed
+  findRegistrationsForCalendar: (userId: string, since: Date, limit: number) =>
+    prisma.eventAttendee.findMany({
+      where: {
+        userId,
+        status: { notIn: ['cancelled', 'rejected'] },
+        event: { status: { not: 'draft' }, endDate: { gte: since } },
+      },
+      include: { event: true },
+      orderBy: { event: { startDate: 'asc' } },
+      take: limit,
+    }),
+
+  // A community's published and cancelled events the viewer can see, for its calendar feed
+  findCommunityEventsForCalendar: (communityId: string, viewerId: string, since: Date, limit: number) =>
+    prisma.event.findMany({
+      where: { AND: [visibleTo(viewerId)], communityId, status: { not: 'draft' }, endDate: { gte: since } },
+      orderBy: { startDate: 'asc' },
+      take: limit,
+    }),
+
+  async listAttendees(eventId: string, status: AttendeeStatus | undefined, pagination: PaginationParams) {
+    const where: Prisma.EventAttendeeWhereInput = { eventId, status };
+    const [items, total] = await prisma.$transaction([
+      prisma.eventAttendee.findMany({
+        where,
+        include: {
+          user: true,
+          ticketType: { select: { id: true, name: true } },
+          // The latest completed payment, which refunds are made against
+          payments: { where: { status: { notIn: ['pending', 'expired'] } }, orderBy: { createdAt: 'desc' }, take: 1 },
+        },
+        orderBy: { registeredAt: 'asc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.eventAttendee.count({ where }),
+    ]);
+    return { items, total };
+  },
+};
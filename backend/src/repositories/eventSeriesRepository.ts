@@ -0,0 +1,132 @@
+import { EventSeries, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { eventWithRelations } from '../serializers/event';
+
+export type OccurrenceData = Omit<Prisma.EventCreateManyInput, 'seriesId' | 'occurrenceDate'> & { occurrenceDate: Date };
+
+// Inserts occurrences the series doesn't have yet; the unique (seriesId, occurrenceDate) index makes
+// concurrent extensions create each one once. Community event counts follow the rows actually added.
+const insertOccurrences = async (tx: Prisma.TransactionClient, seriesId: string, occurrences: OccurrenceData[]) => {
+  const created = await tx.event.createMany({
+    data: occurrences.map((occurrence) => ({ ...occurrence, seriesId })),
+    skipDuplicates: true,
+  });
+  const communityId = occurrences[0]?.communityId;
+  if (communityId && created.count > 0) {
+    await tx.community.update({ where: { id: communityId }, data: { eventCount: { increment: created.count } } });
+  }
+};
+
+export const eventSeriesRepository = {
+  findById: (id: string) => prisma.eventSeries.findUnique({ where: { id } }),
+
+  // Creates the series with its first batch of occurrences and returns the first one
+  create: (
+    data: Pick<EventSeries, 'organizerId' | 'rrule' | 'startDate' | 'endDate' | 'timeZone' | 'materializedUntil'>,
+    occurrences: OccurrenceData[]
+  ) =>
+    prisma.$transaction(async (tx) => {
+      const series = await tx.eventSeries.create({ data });
+      await insertOccurrences(tx, series.id, occurrences);
+      return tx.event.findUniqueOrThrow({
+        where: { seriesId_occurrenceDate: { seriesId: series.id, occurrenceDate: data.startDate } },
+        include: eventWithRelations,
+      });
+    }),
+
+  // New occurrences copy the latest one that was not edited on its own
+  findTemplate: (seriesId: string) =>
+    prisma.event.findFirst({
+      where: { seriesId },
+      orderBy: [{ isOverride: 'asc' }, { occurrenceDate: 'desc' }],
+    }),
+
+  findDueForExtension: (horizon: Date) =>
+    prisma.eventSeries.findMany({ where: { cancelledAt: null, materializedUntil: { lt: horizon } } }),
+
+  // Adds occurrences and moves materializedUntil forward (never back). Returns the added
+  // occurrences' ids, plus any a concurrent extension added for the same dates.
+  async extend(seriesId: string, occurrences: OccurrenceData[], until: Date) {
+    await prisma.$transaction(async (tx) => {
+      await insertOccurrences(tx, seriesId, occurrences);
+      await tx.eventSeries.updateMany({
+        where: { id: seriesId, materializedUntil: { lt: until } },
+        data: { materializedUntil: until },
+      });
+    });
+    const events = await prisma.event.findMany({
+      where: { seriesId, occurrenceDate: { in: occurrences.map((occurrence) => occurrence.occurrenceDate) } },
+      select: { id: true },
+      orderBy: { startDate: 'asc' },
+    });
+    return events.map((event) => event.id);
+  },
+
+  cancel: (id: string) =>
+    prisma.eventSeries.updateMany({ where: { id, cancelledAt: null }, data: { cancelledAt: new Date() } }),
+
+  // Occurrences go with the series through the cascading foreign key
+  async delete(id: string) {
+    const counts = await prisma.event.groupBy({
+      by: ['communityId'],
+      where: { seriesId: id, communityId: { not: null } },
+      _count: { _all: true },
+      orderBy: { communityId: 'asc' },
+    });
+    await prisma.$transaction([
+      prisma.eventSeries.delete({ where: { id } }),
+      ...counts.map((row) =>
+        prisma.community.update({
+          where: { id: row.communityId },
+          data: { eventCount: { decrement: row._count._all } },
+        })
+      ),
+    ]);
+  },
+
+  // Occurrences still to come, optionally only those the rule placed from `from` on. Occurrences
+  // edited on their own can be left out, as series-wide edits do.
+  findUpcoming: (
+    seriesId: string,
+    { from, includeOverrides = true }: { from?: Date | null; includeOverrides?: boolean } = {}
+  ) =>
+    prisma.event.findMany({
+      where: {
+        seriesId,
+        startDate: { gt: new Date() },
+        ...(from ? { occurrenceDate: { gte: from } } : {}),
+        ...(includeOverrides ? {} : { isOverride: false }),
+      },
+      include: eventWithRelations,
+      orderBy: { startDate: 'asc' },
+    }),
+
+  listOccurrences: (seriesId: string, from: Date, to: Date, includeDrafts: boolean) =>
+    prisma.event.findMany({
+      where: {
+        seriesId,
+        startDate: { gte: from, lt: to },
+        ...(includeDrafts ? {} : { status: { not: 'draft' } }),
+      },
+      include: eventWithRelations,
+      orderBy: { startDate: 'asc' },
+    }),
+
+  findSubscription: (seriesId: string, userId: string) =>
+    prisma.eventSeriesSubscription.findUnique({ where: { seriesId_userId: { seriesId, userId } } }),
+
+  findSubscriberIds: async (seriesId: string) =>
+    (await prisma.eventSeriesSubscription.findMany({ where: { seriesId }, select: { userId: true } })).map(
+      (subscription) => subscription.userId
+    ),
+
+  subscribe: (seriesId: string, userId: string) =>
+    prisma.eventSeriesSubscription.upsert({
+      where: { seriesId_userId: { seriesId, userId } },
+      update: {},
+      create: { seriesId, userId },
+    }),
+
+  unsubscribe: (seriesId: string, userId: string) =>
+    prisma.eventSeriesSubscription.deleteMany({ where: { seriesId, userId } }),
+};
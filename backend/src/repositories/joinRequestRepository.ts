@@ -0,0 +1,87 @@
+import { JoinRequestStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PaginationParams, toSkipTake } from '../utils/pagination';
+import { claimSeat } from './communityRepository';
+
+export type JoinRequestAnswer = { question: string; answer: string };
+
+export type ApprovalOutcome = 'approved' | 'full' | 'stale';
+
+export const joinRequestRepository = {
+  find: (communityId: string, userId: string) =>
+    prisma.communityJoinRequest.findUnique({ where: { communityId_userId: { communityId, userId } } }),
+
+  findManyPending: (communityId: string, ids: string[]) =>
+    prisma.communityJoinRequest.findMany({ where: { communityId, id: { in: ids }, status: 'pending' } }),
+
+  findPendingForUser: (userId: string, communityIds: string[]) =>
+    prisma.communityJoinRequest.findMany({
+      where: { userId, communityId: { in: communityIds }, status: 'pending' },
+    }),
+
+  // Re-applying after a rejection reopens the existing row
+  submit: (communityId: string, userId: string, answers: JoinRequestAnswer[]) =>
+    prisma.communityJoinRequest.upsert({
+      where: { communityId_userId: { communityId, userId } },
+      update: { answers, status: 'pending', reviewedById: null, reviewedAt: null },
+      create: { communityId, userId, answers },
+    }),
+
+  async list(communityId: string, status: JoinRequestStatus, pagination: PaginationParams) {
+    const where: Prisma.CommunityJoinRequestWhereInput = { communityId, status };
+    const [items, total] = await prisma.$transaction([
+      prisma.communityJoinRequest.findMany({
+        where,
+        include: { user: true },
+        orderBy: { createdAt: 'asc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.communityJoinRequest.count({ where }),
+    ]);
+    return { items, total };
+  },
+
+  // Claims the request first so two moderators approving at once only add the member once.
+  // If there is no seat left the request goes back to pending.
+  approve: (id: string, reviewedById: string) =>
+    prisma.$transaction(async (tx): Promise<ApprovalOutcome> => {
+      const claimed = await tx.communityJoinRequest.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'approved', reviewedById, reviewedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        return 'stale';
+      }
+      const request = await tx.communityJoinRequest.findUniqueOrThrow({ where: { id } });
+      const existing = await tx.communityMember.findUnique({
+        where: { communityId_userId: { communityId: request.communityId, userId: request.userId } },
+      });
+      if (existing) {
+        return 'approved';
+      }
+      const member = await claimSeat(tx, request.communityId, request.userId);
+      if (!member) {
+        await tx.communityJoinRequest.update({
+          where: { id },
+          data: { status: 'pending', reviewedById: null, reviewedAt: null },
+        });
+        return 'full';
+      }
+      return 'approved';
+    }),
+
+  async reject(id: string, reviewedById: string) {
+    const result = await prisma.communityJoinRequest.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'rejected', reviewedById, reviewedAt: new Date() },
+    });
+    return result.count === 1;
+  },
+
+  async withdraw(communityId: string, userId: string) {
+    const result = await prisma.communityJoinRequest.deleteMany({
+      where: { communityId, userId, status: 'pending' },
+    });
+    return result.count === 1;
+  },
+};
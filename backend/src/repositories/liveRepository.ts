@@ -0,0 +1,79 @@
+import { prisma } from '../lib/prisma';
+
+const questionWithAuthor = {
+  user: { select: { id: true, firstName: true, lastName: true, avatar: true } },
+} as const;
+
+export const liveRepository = {
+  // With the viewer's own upvote, if any, to show which questions they backed
+  listQuestions: (eventId: string, viewerId: string) =>
+    prisma.eventQuestion.findMany({
+      where: { eventId },
+      include: { ...questionWithAuthor, upvotes: { where: { userId: viewerId }, select: { userId: true } } },
+      orderBy: [{ upvoteCount: 'desc' }, { createdAt: 'asc' }],
+    }),
+
+  findQuestion: (id: string) => prisma.eventQuestion.findUnique({ where: { id }, include: questionWithAuthor }),
+
+  createQuestion: (eventId: string, userId: string, body: string) =>
+    prisma.eventQuestion.create({ data: { eventId, userId, body }, include: questionWithAuthor }),
+
+  // Throws P2002 when the user has already upvoted the question
+  upvote: (questionId: string, userId: string) =>
+    prisma.$transaction(async (tx) => {
+      await tx.eventQuestionUpvote.create({ data: { questionId, userId } });
+      return tx.eventQuestion.update({
+        where: { id: questionId },
+        data: { upvoteCount: { increment: 1 } },
+        include: questionWithAuthor,
+      });
+    }),
+
+  // Returns null when the user had not upvoted the question
+  removeUpvote: (questionId: string, userId: string) =>
+    prisma.$transaction(async (tx) => {
+      const removed = await tx.eventQuestionUpvote.deleteMany({ where: { questionId, userId } });
+      if (removed.count === 0) {
+        return null;
+      }
+      return tx.eventQuestion.update({
+        where: { id: questionId },
+        data: { upvoteCount: { decrement: 1 } },
+        include: questionWithAuthor,
+      });
+    }),
+
+  setAnswered: (id: string, answered: boolean) =>
+    prisma.eventQuestion.update({
+      where: { id },
+      data: { answeredAt: answered ? new Date() : null },
+      include: questionWithAuthor,
+    }),
+
+  deleteQuestion: (id: string) => prisma.eventQuestion.delete({ where: { id } }),
+
+  listPolls: (eventId: string) => prisma.eventPoll.findMany({ where: { eventId }, orderBy: { createdAt: 'desc' } }),
+
+  findPoll: (id: string) => prisma.eventPoll.findUnique({ where: { id } }),
+
+  createPoll: (eventId: string, question: string, options: string[]) =>
+    prisma.eventPoll.create({ data: { eventId, question, options } }),
+
+  // Returns false when the poll was already closed
+  closePoll: async (id: string) =>
+    (await prisma.eventPoll.updateMany({ where: { id, closedAt: null }, data: { closedAt: new Date() } })).count > 0,
+
+  // Throws P2002 when the user has already voted
+  vote: (pollId: string, userId: string, option: number) =>
+    prisma.eventPollVote.create({ data: { pollId, userId, option } }),
+
+  countVotes: (pollIds: string[]) =>
+    prisma.eventPollVote.groupBy({
+      by: ['pollId', 'option'],
+      where: { pollId: { in: pollIds } },
+      _count: { _all: true },
+    }),
+
+  findVotes: (pollIds: string[], userId: string) =>
+    prisma.eventPollVote.findMany({ where: { pollId: { in: pollIds }, userId } }),
+};
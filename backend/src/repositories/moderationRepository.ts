@@ -0,0 +1,62 @@
+import { ModerationActionType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { postWithRelations } from '../serializers/post';
+import { PaginationParams, toSkipTake } from '../utils/pagination';
+
+export interface ModerationEntry {
+  communityId: string;
+  postId: string;
+  moderatorId: string;
+  action: ModerationActionType;
+  reason?: string;
+}
+
+// Each action updates the post and writes its log entry in one transaction, so the log
+// never misses a change or records one that did not happen.
+export const moderationRepository = {
+  apply: async (entry: ModerationEntry, data: Prisma.PostUpdateInput) => {
+    const [post] = await prisma.$transaction([
+      prisma.post.update({ where: { id: entry.postId }, data, include: postWithRelations }),
+      prisma.moderationAction.create({ data: entry }),
+    ]);
+    return post;
+  },
+
+  // Inserts the post at `position` among the community's pinned posts (or moves it there when
+  // already pinned) and renumbers the rest.
+  pin: (entry: ModerationEntry, position: number) =>
+    prisma.$transaction(async (tx) => {
+      const pinned = await tx.post.findMany({
+        where: { communityId: entry.communityId, parentId: null, isPinned: true, id: { not: entry.postId } },
+        select: { id: true, pinPosition: true },
+        orderBy: [{ pinPosition: { sort: 'asc', nulls: 'last' } }, { createdAt: 'desc' }],
+      });
+      const order = pinned.map((post) => post.id);
+      order.splice(Math.min(position, order.length), 0, entry.postId);
+
+      for (const [index, id] of order.entries()) {
+        if (id !== entry.postId && pinned.find((post) => post.id === id)?.pinPosition === index) {
+          continue;
+        }
+        await tx.post.update({ where: { id }, data: { isPinned: true, pinPosition: index } });
+      }
+      await tx.moderationAction.create({ data: entry });
+      return tx.post.findUniqueOrThrow({ where: { id: entry.postId }, include: postWithRelations });
+    }),
+
+  countPinned: (communityId: string) => prisma.post.count({ where: { communityId, parentId: null, isPinned: true } }),
+
+  async list(communityId: string, action: ModerationActionType | undefined, pagination: PaginationParams) {
+    const where: Prisma.ModerationActionWhereInput = { communityId, action };
+    const [items, total] = await prisma.$transaction([
+      prisma.moderationAction.findMany({
+        where,
+        include: { moderator: true, post: { select: { id: true, title: true, content: true, parentId: true } } },
+        orderBy: { createdAt: 'desc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.moderationAction.count({ where }),
+    ]);
+    return { items, total };
+  },
+};
@@ -0,0 +1,58 @@
+import { prisma } from '../lib/prisma';
+import { Pairing } from '../utils/pairing';
+
+export const networkingRepository = {
+  findSession: (eventId: string) => prisma.networkingSession.findUnique({ where: { eventId } }),
+
+  // Earliest arrivals first
+  listCheckedIn: (eventId: string) =>
+    prisma.eventAttendee.findMany({
+      where: { eventId, status: 'registered', checkedInAt: { not: null } },
+      select: { user: { select: { id: true, skills: true, interests: true } } },
+      orderBy: { checkedInAt: 'asc' },
+    }),
+
+  countCheckedIn: (eventId: string) =>
+    prisma.eventAttendee.count({ where: { eventId, status: 'registered', checkedInAt: { not: null } } }),
+
+  listPairs: (sessionId: string) =>
+    prisma.networkingPair.findMany({ where: { sessionId }, select: { userId: true, partnerId: true } }),
+
+  findPair: (sessionId: string, round: number, userId: string) =>
+    prisma.networkingPair.findUnique({
+      where: { sessionId_round_userId: { sessionId, round, userId } },
+      include: { user: true, partner: true },
+    }),
+
+  // Returns null when another round was started since `currentRound` was read
+  startRound: (eventId: string, currentRound: number, roundMinutes: number, pairings: Pairing[]) =>
+    prisma.$transaction(async (tx) => {
+      const session = await tx.networkingSession.upsert({
+        where: { eventId },
+        create: { eventId, roundMinutes },
+        update: {},
+      });
+      const round = currentRound + 1;
+      const updated = await tx.networkingSession.updateMany({
+        where: { id: session.id, round: currentRound },
+        data: { round, roundMinutes, roundEndsAt: new Date(Date.now() + roundMinutes * 60 * 1000) },
+      });
+      if (updated.count === 0) {
+        return null;
+      }
+      await tx.networkingPair.createMany({
+        data: pairings.map((pairing) => ({ sessionId: session.id, round, ...pairing })),
+      });
+      return tx.networkingSession.findUnique({ where: { id: session.id } });
+    }),
+
+  // Returns false when no round was running
+  endRound: async (sessionId: string) => {
+    const now = new Date();
+    const updated = await prisma.networkingSession.updateMany({
+      where: { id: sessionId, roundEndsAt: { gt: now } },
+      data: { roundEndsAt: now },
+    });
+    return updated.count > 0;
+  },
+};
@@ -0,0 +1,33 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PaginationParams, toSkipTake } from '../utils/pagination';
+
+export const notificationRepository = {
+  create: (data: Prisma.NotificationUncheckedCreateInput) => prisma.notification.create({ data }),
+
+  createMany: (data: Prisma.NotificationCreateManyInput[]) => prisma.notification.createMany({ data }),
+
+  async list(userId: string, unreadOnly: boolean, pagination: PaginationParams) {
+    const where: Prisma.NotificationWhereInput = { userId, ...(unreadOnly ? { readAt: null } : {}) };
+    const [items, total, unreadCount] = await prisma.$transaction([
+      prisma.notification.findMany({ where, orderBy: { createdAt: 'desc' }, ...toSkipTake(pagination) }),
+      prisma.notification.count({ where }),
+      prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+    return { items, total, unreadCount };
+  },
+
+  // Scoped by owner so a guessed id never touches someone else's notification
+  markRead: (id: string, userId: string) =>
+    prisma.notification.updateMany({ where: { id, userId, readAt: null }, data: { readAt: new Date() } }),
+
+  markAllRead: (userId: string) =>
+    prisma.notification.updateMany({ where: { userId, readAt: null }, data: { readAt: new Date() } }),
+
+  findOwned: (id: string, userId: string) => prisma.notification.findFirst({ where: { id, userId } }),
+
+  async delete(id: string, userId: string) {
+    const result = await prisma.notification.deleteMany({ where: { id, userId } });
+    return result.count === 1;
+  },
+};
@@ -0,0 +1,75 @@
+import { EventPayment, PaymentStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+// Payments that money has been taken for and can still be (partly) refunded
+const REFUNDABLE: PaymentStatus[] = ['paid', 'partially_refunded'];
+
+const refundStatus = (payment: Pick<EventPayment, 'amountCents'>, refundedCents: number): PaymentStatus =>
+  refundedCents >= payment.amountCents ? 'refunded' : refundedCents > 0 ? 'partially_refunded' : 'paid';
+
+export const paymentRepository = {
+  create: (data: Prisma.EventPaymentUncheckedCreateInput) => prisma.eventPayment.create({ data }),
+
+  findBySession: (stripeSessionId: string) => prisma.eventPayment.findUnique({ where: { stripeSessionId } }),
+
+  // A checkout for the place that can still be paid, to send the buyer back to
+  findOpenCheckout: (attendeeId: string) =>
+    prisma.eventPayment.findFirst({
+      where: { attendeeId, status: 'pending', expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    }),
+
+  findPending: (attendeeId: string) => prisma.eventPayment.findMany({ where: { attendeeId, status: 'pending' } }),
+
+  findRefundable: (attendeeId: string) =>
+    prisma.eventPayment.findFirst({
+      where: { attendeeId, status: { in: REFUNDABLE } },
+      orderBy: { createdAt: 'desc' },
+    }),
+
+  // Records the payment once; false when the webhook was already handled. An expired checkout
+  // can still be paid if Stripe reports the payment after the expiry.
+  markPaid: async (id: string, stripePaymentIntentId: string | null) =>
+    (
+      await prisma.eventPayment.updateMany({
+        where: { id, status: { in: ['pending', 'expired'] } },
+        data: { status: 'paid', stripePaymentIntentId, paidAt: new Date() },
+      })
+    ).count > 0,
+
+  markExpired: (stripeSessionId: string) =>
+    prisma.eventPayment.updateMany({ where: { stripeSessionId, status: 'pending' }, data: { status: 'expired' } }),
+
+  // Sets the refund aside before asking Stripe for it. Guarded by the amount refunded so far, so
+  // two refunds issued together can't add up to more than was paid; false when one got there first.
+  reserveRefund: async (payment: EventPayment, amountCents: number) => {
+    const refundedCents = payment.refundedCents + amountCents;
+    const reserved = await prisma.eventPayment.updateMany({
+      where: { id: payment.id, status: { in: REFUNDABLE }, refundedCents: payment.refundedCents },
+      data: { refundedCents, status: refundStatus(payment, refundedCents) },
+    });
+    return reserved.count > 0;
+  },
+
+  // Undoes reserveRefund when Stripe turned the refund down
+  releaseRefund: (payment: EventPayment, amountCents: number) =>
+    prisma.eventPayment.updateMany({
+      where: { id: payment.id, refundedCents: payment.refundedCents + amountCents },
+      data: { refundedCents: payment.refundedCents, status: payment.status },
+    }),
+
+  recordRefund: (data: Prisma.EventRefundUncheckedCreateInput) => prisma.eventRefund.create({ data }),
+
+  // Catches up with refunds made in the Stripe dashboard. Totals only ever grow, so a report
+  // arriving late or twice changes nothing.
+  async syncRefunded(stripePaymentIntentId: string, refundedCents: number) {
+    const payment = await prisma.eventPayment.findUnique({ where: { stripePaymentIntentId } });
+    if (!payment) {
+      return;
+    }
+    await prisma.eventPayment.updateMany({
+      where: { id: payment.id, status: { in: REFUNDABLE }, refundedCents: { lt: refundedCents } },
+      data: { refundedCents, status: refundStatus(payment, refundedCents) },
+    });
+  },
+};
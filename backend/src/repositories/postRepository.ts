@@ -0,0 +1,167 @@
+import { Post, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { postWithRelations } from '../serializers/post';
+import { buildCursorPage, CursorParams, toCursorArgs } from '../utils/pagination';
+
+export type PostSort = 'new' | 'top' | 'active';
+
+export type CreatePostData = Omit<Prisma.PostUncheckedCreateInput, 'pollOptions'> & {
+  pollOptions?: string[];
+};
+
+// Every order ends on id so rows with equal sort keys page deterministically
+const sortOrders: Record<PostSort, Prisma.PostOrderByWithRelationInput[]> = {
+  new: [{ createdAt: 'desc' }, { id: 'desc' }],
+  top: [{ likeCount: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+  active: [{ lastActivityAt: 'desc' }, { id: 'desc' }],
+};
+
+const listPage = async (
+  where: Prisma.PostWhereInput,
+  orderBy: Prisma.PostOrderByWithRelationInput[],
+  cursor: CursorParams
+) => {
+  const rows = await prisma.post.findMany({
+    where,
+    include: postWithRelations,
+    orderBy,
+    ...toCursorArgs(cursor),
+  });
+  return buildCursorPage(rows, cursor);
+};
+
+export const postRepository = {
+  findById: (id: string) => prisma.post.findUnique({ where: { id }, include: postWithRelations }),
+
+  // Top-level posts of a community, pinned first in their pinned order. Removed posts are only
+  // listed for staff and their own author.
+  listByCommunity: (
+    communityId: string,
+    sort: PostSort,
+    cursor: CursorParams,
+    viewer: { id?: string; canModerate: boolean }
+  ) =>
+    listPage(
+      {
+        communityId,
+        parentId: null,
+        ...(viewer.canModerate ? {} : { OR: [{ removedAt: null }, ...(viewer.id ? [{ authorId: viewer.id }] : [])] }),
+      },
+      [{ isPinned: 'desc' }, { pinPosition: { sort: 'asc', nulls: 'last' } }, ...sortOrders[sort]],
+      cursor
+    ),
+
+  // Direct replies to a post or comment
+  listReplies: (parentId: string, sort: PostSort, cursor: CursorParams) =>
+    listPage({ parentId }, sortOrders[sort], cursor),
+
+  // Create a post or comment and bump the counters it contributes to. A comment counts towards
+  // its parent's replies and, when nested deeper, its thread root's total.
+  async create({ pollOptions, ...data }: CreatePostData) {
+    const now = new Date();
+    const counterUpdates: Prisma.PrismaPromise<unknown>[] = [];
+    if (!data.parentId) {
+      counterUpdates.push(
+        prisma.community.update({ where: { id: data.communityId }, data: { postCount: { increment: 1 } } })
+      );
+    } else {
+      counterUpdates.push(
+        prisma.post.update({
+          where: { id: data.parentId },
+          data: { commentCount: { increment: 1 }, lastActivityAt: now },
+        })
+      );
+      if (data.rootId && data.rootId !== data.parentId) {
+        counterUpdates.push(
+          prisma.post.update({
+            where: { id: data.rootId },
+            data: { commentCount: { increment: 1 }, lastActivityAt: now },
+          })
+        );
+      }
+    }
+
+    const [post] = await prisma.$transaction([
+      prisma.post.create({
+        data: {
+          ...data,
+          lastActivityAt: now,
+          pollOptions: pollOptions?.length
+            ? { create: pollOptions.map((text, position) => ({ text, position })) }
+            : undefined,
+        },
+        include: postWithRelations,
+      }),
+      ...counterUpdates,
+    ]);
+    return post;
+  },
+
+  update: (id: string, data: Prisma.PostUpdateInput) =>
+    prisma.post.update({ where: { id }, data, include: postWithRelations }),
+
+  // Top-level posts and comments without replies are removed and the counters rolled back.
+  // A comment that has replies is blanked instead so the rest of the thread keeps its place.
+  remove: (post: Pick<Post, 'id' | 'communityId' | 'parentId' | 'rootId'>) =>
+    prisma.$transaction(async (tx) => {
+      if (!post.parentId) {
+        await tx.post.delete({ where: { id: post.id } });
+        await tx.community.update({ where: { id: post.communityId }, data: { postCount: { decrement: 1 } } });
+        return 'deleted' as const;
+      }
+
+      const deleted = await tx.post.deleteMany({ where: { id: post.id, commentCount: 0 } });
+      if (deleted.count === 0) {
+        await tx.post.update({
+          where: { id: post.id },
+          data: { content: '', title: null, link: null, imageUrl: null, deletedAt: new Date() },
+        });
+        return 'blanked' as const;
+      }
+
+      await tx.post.update({ where: { id: post.parentId }, data: { commentCount: { decrement: 1 } } });
+      if (post.rootId && post.rootId !== post.parentId) {
+        await tx.post.update({ where: { id: post.rootId }, data: { commentCount: { decrement: 1 } } });
+      }
+      return 'deleted' as const;
+    }),
+
+  // The ballot's primary key rejects a second vote (P2002) even when two requests race
+  castVote: (postId: string, userId: string, optionIds: string[]) =>
+    prisma.$transaction([
+      prisma.pollBallot.create({ data: { postId, userId } }),
+      prisma.pollVote.createMany({ data: optionIds.map((optionId) => ({ postId, userId, optionId })) }),
+      prisma.pollOption.updateMany({ where: { postId, id: { in: optionIds } }, data: { voteCount: { increment: 1 } } }),
+    ]),
+
+  // Switching from dislike to like moves the vote between counters. Returns false if the
+  // user already liked the post.
+  like: (postId: string, userId: string) =>
+    prisma.$transaction(async (tx) => {
+      const existing = await tx.postReaction.findUnique({ where: { postId_userId: { postId, userId } } });
+      if (existing?.type === 'like') {
+        return false;
+      }
+      if (existing) {
+        await tx.postReaction.update({ where: { postId_userId: { postId, userId } }, data: { type: 'like' } });
+        await tx.post.update({
+          where: { id: postId },
+          data: { likeCount: { increment: 1 }, dislikeCount: { decrement: 1 } },
+        });
+      } else {
+        await tx.postReaction.create({ data: { postId, userId, type: 'like' } });
+        await tx.post.update({ where: { id: postId }, data: { likeCount: { increment: 1 } } });
+      }
+      return true;
+    }),
+
+  unlike: (postId: string, userId: string) =>
+    prisma.$transaction(async (tx) => {
+      const removed = await tx.postReaction.deleteMany({ where: { postId, userId, type: 'like' } });
+      if (removed.count === 0) {
+        return false;
+      }
+      await tx.post.update({ where: { id: postId }, data: { likeCount: { decrement: 1 } } });
+      return true;
+    }),
+};
@@ -0,0 +1,66 @@
+import { DiscountType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export interface PromoCodeData {
+  code: string;
+  discountType: DiscountType;
+  discountValue: number;
+  maxRedemptions?: number | null;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  communityId?: string | null;
+}
+
+const promoCodeWithCommunity = { community: { select: { id: true, name: true } } } as const;
+
+export const promoCodeRepository = {
+  findById: (id: string) => prisma.eventPromoCode.findUnique({ where: { id } }),
+
+  findByCode: (eventId: string, code: string) =>
+    prisma.eventPromoCode.findUnique({ where: { eventId_code: { eventId, code: code.toUpperCase() } } }),
+
+  listForEvent: (eventId: string) =>
+    prisma.eventPromoCode.findMany({
+      where: { eventId },
+      include: promoCodeWithCommunity,
+      orderBy: { createdAt: 'asc' },
+    }),
+
+  create: (eventId: string, data: PromoCodeData) =>
+    prisma.eventPromoCode.create({ data: { ...data, eventId }, include: promoCodeWithCommunity }),
+
+  // Returns null when the new limit is below the redemptions already made. The check is part of
+  // the update, as for ticket type quantities.
+  async update(id: string, data: Partial<PromoCodeData>) {
+    const updated = await prisma.eventPromoCode.updateMany({
+      where: { id, ...(typeof data.maxRedemptions === 'number' ? { redemptions: { lte: data.maxRedemptions } } : {}) },
+      data,
+    });
+    return updated.count > 0
+      ? prisma.eventPromoCode.findUnique({ where: { id }, include: promoCodeWithCommunity })
+      : null;
+  },
+
+  // Codes that were ever used stay, so their redemptions can still be reported
+  delete: async (id: string) =>
+    (await prisma.eventPromoCode.deleteMany({ where: { id, redemptions: 0, payments: { none: {} } } })).count > 0,
+
+  // Places taken with each of the event's codes, by status
+  countPlaces: (eventId: string) =>
+    prisma.eventAttendee.groupBy({
+      by: ['promoCodeId', 'status'],
+      where: { eventId, promoCodeId: { not: null } },
+      _count: { _all: true },
+      orderBy: { promoCodeId: 'asc' },
+    }),
+
+  // Completed payments made with each of the event's codes
+  sumPayments: (eventId: string) =>
+    prisma.eventPayment.groupBy({
+      by: ['promoCodeId'],
+      where: { eventId, promoCodeId: { not: null }, status: { in: ['paid', 'partially_refunded', 'refunded'] } },
+      _count: { _all: true },
+      _sum: { amountCents: true, refundedCents: true, discountCents: true },
+      orderBy: { promoCodeId: 'asc' },
+    }),
+};
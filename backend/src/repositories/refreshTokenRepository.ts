@@ -0,0 +1,23 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const refreshTokenRepository = {
+  findByHash: (tokenHash: string) => prisma.refreshToken.findUnique({ where: { tokenHash } }),
+
+  create: (data: Prisma.RefreshTokenUncheckedCreateInput) => prisma.refreshToken.create({ data }),
+
+  // Atomically mark an active token as used; returns false if another request got there first
+  async markRotated(id: string, replacedById: string) {
+    const result = await prisma.refreshToken.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date(), replacedById },
+    });
+    return result.count === 1;
+  },
+
+  revokeFamily: (familyId: string) =>
+    prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+};
@@ -0,0 +1,21 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { PaginationParams, toSkipTake } from '../utils/pagination';
+
+export const revealRepository = {
+  create: (data: Prisma.AnonymousRevealUncheckedCreateInput) => prisma.anonymousReveal.create({ data }),
+
+  async listByCommunity(communityId: string, pagination: PaginationParams) {
+    const where: Prisma.AnonymousRevealWhereInput = { communityId };
+    const [items, total] = await prisma.$transaction([
+      prisma.anonymousReveal.findMany({
+        where,
+        include: { author: true, revealedBy: true },
+        orderBy: { createdAt: 'desc' },
+        ...toSkipTake(pagination),
+      }),
+      prisma.anonymousReveal.count({ where }),
+    ]);
+    return { items, total };
+  },
+};
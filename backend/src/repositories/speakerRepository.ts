@@ -0,0 +1,76 @@
+import { Prisma, SpeakerInvitationStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export type SpeakerData = Pick<Prisma.EventSpeakerUncheckedCreateInput, 'name' | 'headline' | 'bio'>;
+
+export type SessionData = Pick<
+  Prisma.EventSessionUncheckedCreateInput,
+  'title' | 'description' | 'startsAt' | 'endsAt' | 'location'
+>;
+
+const speakerWithSessions = { user: true, sessions: { select: { sessionId: true } } } as const;
+const sessionWithSpeakers = { speakers: { select: { speakerId: true } } } as const;
+
+export const speakerRepository = {
+  listSpeakers: (eventId: string) =>
+    prisma.eventSpeaker.findMany({
+      where: { eventId },
+      include: speakerWithSessions,
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    }),
+
+  findSpeaker: (id: string) => prisma.eventSpeaker.findUnique({ where: { id }, include: speakerWithSessions }),
+
+  // New speakers go to the end of the lineup
+  async createSpeaker(eventId: string, data: SpeakerData, userId?: string) {
+    const position = await prisma.eventSpeaker.count({ where: { eventId } });
+    return prisma.eventSpeaker.create({
+      data: { ...data, eventId, position, ...(userId ? { userId, invitationStatus: 'pending' } : {}) },
+      include: speakerWithSessions,
+    });
+  },
+
+  updateSpeaker: (id: string, data: Partial<SpeakerData>) =>
+    prisma.eventSpeaker.update({ where: { id }, data, include: speakerWithSessions }),
+
+  deleteSpeaker: (id: string) => prisma.eventSpeaker.delete({ where: { id } }),
+
+  // Only the invited user can answer, and only once
+  respond: async (id: string, userId: string, status: SpeakerInvitationStatus) =>
+    (
+      await prisma.eventSpeaker.updateMany({
+        where: { id, userId, invitationStatus: 'pending' },
+        data: { invitationStatus: status },
+      })
+    ).count > 0,
+
+  listSessions: (eventId: string) =>
+    prisma.eventSession.findMany({
+      where: { eventId },
+      include: sessionWithSpeakers,
+      orderBy: [{ startsAt: 'asc' }, { createdAt: 'asc' }],
+    }),
+
+  findSession: (id: string) => prisma.eventSession.findUnique({ where: { id } }),
+
+  createSession: (eventId: string, data: SessionData, speakerIds: string[]) =>
+    prisma.eventSession.create({
+      data: { ...data, eventId, speakers: { create: speakerIds.map((speakerId) => ({ speakerId })) } },
+      include: sessionWithSpeakers,
+    }),
+
+  // Replaces the session's speakers when `speakerIds` is given
+  updateSession: (id: string, data: Partial<SessionData>, speakerIds?: string[]) =>
+    prisma.eventSession.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(speakerIds
+          ? { speakers: { deleteMany: {}, create: speakerIds.map((speakerId) => ({ speakerId })) } }
+          : {}),
+      },
+      include: sessionWithSpeakers,
+    }),
+
+  deleteSession: (id: string) => prisma.eventSession.delete({ where: { id } }),
+};
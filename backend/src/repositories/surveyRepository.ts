@@ -0,0 +1,77 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+// Attendees are those checked in at the door or, for virtual events, who joined the meeting
+const attendedWhere = (eventId: string): Prisma.EventAttendeeWhereInput => ({
+  eventId,
+  status: 'registered',
+  OR: [{ checkedInAt: { not: null } }, { user: { eventJoins: { some: { eventId } } } }],
+});
+
+export const surveyRepository = {
+  findByEvent: (eventId: string) => prisma.eventSurvey.findUnique({ where: { eventId } }),
+
+  // Returns null when the survey has already been sent, as its questions are locked then
+  async save(eventId: string, questions: Prisma.InputJsonValue) {
+    const survey = await prisma.eventSurvey.upsert({
+      where: { eventId },
+      create: { eventId, questions },
+      update: {},
+    });
+    if (survey.sentAt) {
+      return null;
+    }
+    const updated = await prisma.eventSurvey.updateMany({
+      where: { id: survey.id, sentAt: null },
+      data: { questions },
+    });
+    return updated.count > 0 ? prisma.eventSurvey.findUnique({ where: { id: survey.id } }) : null;
+  },
+
+  delete: async (eventId: string) =>
+    (await prisma.eventSurvey.deleteMany({ where: { eventId, sentAt: null } })).count > 0,
+
+  // Surveys of completed events that haven't gone out yet
+  findUnsent: () =>
+    prisma.eventSurvey.findMany({ where: { sentAt: null, event: { status: 'completed' } }, include: { event: true } }),
+
+  findRecipientIds: async (eventId: string) =>
+    (await prisma.eventAttendee.findMany({ where: attendedWhere(eventId), select: { userId: true } })).map(
+      (attendee) => attendee.userId
+    ),
+
+  attended: async (eventId: string, userId: string) =>
+    (await prisma.eventAttendee.count({ where: { ...attendedWhere(eventId), userId } })) > 0,
+
+  // Marks the survey sent together with its notifications. Returns false, sending nothing, when
+  // another server sent it first.
+  send: (
+    surveyId: string,
+    notification: Omit<Prisma.NotificationCreateManyInput, 'userId'>,
+    userIds: string[]
+  ) =>
+    prisma.$transaction(async (tx) => {
+      const claimed = await tx.eventSurvey.updateMany({
+        where: { id: surveyId, sentAt: null },
+        data: { sentAt: new Date(), recipientCount: userIds.length },
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+      await tx.notification.createMany({ data: userIds.map((userId) => ({ ...notification, userId })) });
+      return true;
+    }),
+
+  hasResponded: async (surveyId: string, userId: string) =>
+    (await prisma.eventSurveyResponse.count({ where: { surveyId, userId } })) > 0,
+
+  createResponse: (surveyId: string, userId: string, answers: Prisma.InputJsonValue) =>
+    prisma.eventSurveyResponse.create({ data: { surveyId, userId, answers } }),
+
+  listResponses: (surveyId: string) =>
+    prisma.eventSurveyResponse.findMany({
+      where: { surveyId },
+      include: { user: { select: { firstName: true, lastName: true, email: true } } },
+      orderBy: { submittedAt: 'asc' },
+    }),
+};
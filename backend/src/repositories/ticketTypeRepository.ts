@@ -0,0 +1,50 @@
+import { prisma } from '../lib/prisma';
+
+export interface TicketTypeData {
+  name: string;
+  description?: string;
+  priceCents: number;
+  quantity?: number | null;
+  salesStart?: Date | null;
+  salesEnd?: Date | null;
+}
+
+export const ticketTypeRepository = {
+  findById: (id: string) => prisma.eventTicketType.findUnique({ where: { id } }),
+
+  // New ticket types are listed after the existing ones
+  async create(eventId: string, data: TicketTypeData) {
+    const position = await prisma.eventTicketType.count({ where: { eventId } });
+    return prisma.eventTicketType.create({ data: { ...data, eventId, position } });
+  },
+
+  // Returns null when the new quantity is below the tickets already taken. The check is part of
+  // the update, so a registration landing at the same time can't slip past it.
+  async update(id: string, data: Partial<TicketTypeData>) {
+    const updated = await prisma.eventTicketType.updateMany({
+      where: { id, ...(typeof data.quantity === 'number' ? { sold: { lte: data.quantity } } : {}) },
+      data,
+    });
+    return updated.count > 0 ? prisma.eventTicketType.findUnique({ where: { id } }) : null;
+  },
+
+  // Only ticket types nobody holds a ticket for can be deleted
+  delete: async (id: string) => (await prisma.eventTicketType.deleteMany({ where: { id, sold: 0 } })).count > 0,
+
+  // For duplicated events; the copies start with nothing sold
+  async copy(fromEventId: string, toEventId: string) {
+    const ticketTypes = await prisma.eventTicketType.findMany({ where: { eventId: fromEventId } });
+    await prisma.eventTicketType.createMany({
+      data: ticketTypes.map(({ name, description, priceCents, quantity, salesStart, salesEnd, position }) => ({
+        eventId: toEventId,
+        name,
+        description,
+        priceCents,
+        quantity,
+        salesStart,
+        salesEnd,
+        position,
+      })),
+    });
+  },
+};
@@ -0,0 +1,37 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+
+export const userRepository = {
+  findById: (id: string) => prisma.user.findUnique({ where: { id } }),
+
+  findByEmail: (email: string) => prisma.user.findUnique({ where: { email: email.toLowerCase() } }),
+
+  findByWalletAddress: (walletAddress: string) =>
+    prisma.user.findUnique({ where: { walletAddress: walletAddress.toLowerCase() } }),
+
+  create: (data: Prisma.UserCreateInput) =>
+    prisma.user.create({ data: { ...data, email: data.email?.toLowerCase() } }),
+
+  update: (id: string, data: Prisma.UserUpdateInput) => prisma.user.update({ where: { id }, data }),
+
+  revokeCalendarFeeds: (id: string) =>
+    prisma.user.update({ where: { id }, data: { calendarFeedVersion: { increment: 1 } } }),
+
+  findNotificationPreferences: (ids: string[]) =>
+    prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, email: true, notificationPreferences: true },
+    }),
+
+  // Counts behind UserProfile.stats
+  async getStats(id: string) {
+    const [connectionsCount, communitiesCount, eventsAttended] = await prisma.$transaction([
+      prisma.connection.count({
+        where: { status: 'accepted', OR: [{ requesterId: id }, { addresseeId: id }] },
+      }),
+      prisma.communityMember.count({ where: { userId: id } }),
+      prisma.eventAttendee.count({ where: { userId: id, checkedInAt: { not: null } } }),
+    ]);
+    return { connectionsCount, communitiesCount, eventsAttended };
+  },
+};
@@ -0,0 +1,16 @@
+import { prisma } from '../lib/prisma';
+
+export const walletNonceRepository = {
+  create: (nonce: string, expiresAt: Date) => prisma.walletNonce.create({ data: { nonce, expiresAt } }),
+
+  // Atomically burn an unexpired nonce; returns false if it is unknown, expired or already used
+  async consume(nonce: string) {
+    const result = await prisma.walletNonce.updateMany({
+      where: { nonce, consumedAt: null, expiresAt: { gt: new Date() } },
+      data: { consumedAt: new Date() },
+    });
+    return result.count === 1;
+  },
+
+  deleteExpired: () => prisma.walletNonce.deleteMany({ where: { expiresAt: { lt: new Date() } } }),
+};
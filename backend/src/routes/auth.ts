@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { authService } from '../services/authService';
+import { siweService } from '../services/siweService';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+const registerSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(128),
+  firstName: z.string().trim().min(1).max(100),
+  lastName: z.string().trim().min(1).max(100),
+  walletAddress: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid wallet address')
+    .optional(),
+});
+
+const loginSchema = z.object({
+  email: z.string().trim().email(),
+  password: z.string().min(1),
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+const walletSignatureSchema = z.object({
+  message: z.string().min(1).max(4096),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, 'Invalid signature'),
+});
+
+const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
+router.post(
+  '/register',
+  validate(registerSchema),
+  asyncHandler(async (req, res) => {
+    const session = await authService.register(req.body);
+    res.status(201).json({
+      status: 'success',
+      message: 'Registration successful',
+      ...session,
+    });
+  })
+);
+
+router.post(
+  '/login',
+  validate(loginSchema),
+  asyncHandler(async (req, res) => {
+    const session = await authService.login(req.body);
+    res.json({
+      status: 'success',
+      message: 'Login successful',
+      ...session,
+    });
+  })
+);
+
+// Access tokens are short-lived; logging out revokes the refresh token family behind them
+router.post(
+  '/logout',
+  validate(logoutSchema),
+  asyncHandler(async (req, res) => {
+    await authService.logout(req.body.refreshToken);
+    res.json({
+      status: 'success',
+      message: 'Logged out',
+    });
+  })
+);
+
+router.get(
+  '/me',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const user = await authService.getCurrentUser(req.user.id);
+    res.json({ status: 'success', user });
+  })
+);
+
+router.post(
+  '/refresh',
+  validate(refreshSchema),
+  asyncHandler(async (req, res) => {
+    const session = await authService.refresh(req.body.refreshToken);
+    res.json({ status: 'success', ...session });
+  })
+);
+
+// Sign-In with Ethereum (EIP-4361)
+router.get(
+  '/wallet/nonce',
+  asyncHandler(async (req, res) => {
+    const { nonce, expiresAt } = await siweService.createNonce();
+    res.json({ status: 'success', nonce, expiresAt });
+  })
+);
+
+router.post(
+  '/wallet/verify',
+  validate(walletSignatureSchema),
+  asyncHandler(async (req, res) => {
+    const session = await authService.signInWithWallet(req.body.message, req.body.signature);
+    res.json({
+      status: 'success',
+      message: 'Wallet sign-in successful',
+      ...session,
+    });
+  })
+);
+
+router.post(
+  '/wallet/connect',
+  authenticate,
+  validate(walletSignatureSchema),
+  asyncHandler(async (req, res) => {
+    const user = await authService.connectWallet(req.user.id, req.body.message, req.body.signature);
+    res.json({ status: 'success', message: 'Wallet connected', user });
+  })
+);
+
+router.post(
+  '/wallet/disconnect',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const user = await authService.disconnectWallet(req.user.id);
+    res.json({ status: 'success', message: 'Wallet disconnected', user });
+  })
+);
+
+export default router;
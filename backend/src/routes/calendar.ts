@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { calendarService } from '../services/calendarService';
+import { asyncHandler } from '../utils/asyncHandler';
+import { timeZoneSchema } from '../utils/timeZone';
+
+const router = Router();
+
+const feedsQuerySchema = z.object({
+  communityId: z.string().uuid().optional(),
+});
+
+// Calendar apps fetch feeds without a session, so the signed token in the link identifies the user
+const feedQuerySchema = z.object({
+  token: z.string().min(1).max(200),
+  tz: timeZoneSchema.optional(),
+});
+
+router.get(
+  '/feeds',
+  authenticate,
+  validate(feedsQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { communityId } = req.query as unknown as z.infer<typeof feedsQuerySchema>;
+    const feeds = await calendarService.getFeeds(req.user.id, communityId);
+    res.json({ status: 'success', feeds });
+  })
+);
+
+// Revokes every feed link handed out so far
+router.post(
+  '/feeds/reset',
+  authenticate,
+  validate(feedsQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { communityId } = req.query as unknown as z.infer<typeof feedsQuerySchema>;
+    const feeds = await calendarService.resetFeeds(req.user.id, communityId);
+    res.json({ status: 'success', message: 'Calendar links reset', feeds });
+  })
+);
+
+router.get(
+  '/registrations.ics',
+  validate(feedQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { token, tz } = req.query as unknown as z.infer<typeof feedQuerySchema>;
+    res.type('text/calendar; charset=utf-8').send(await calendarService.registrationsFeed(token, tz));
+  })
+);
+
+router.get(
+  '/communities/:communityId.ics',
+  validate(feedQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { token, tz } = req.query as unknown as z.infer<typeof feedQuerySchema>;
+    res
+      .type('text/calendar; charset=utf-8')
+      .send(await calendarService.communityFeed(req.params.communityId, token, tz));
+  })
+);
+
+export default router;
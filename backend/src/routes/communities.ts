@@ -0,0 +1,238 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { communityService } from '../services/communityService';
+import { asyncHandler } from '../utils/asyncHandler';
+import { paginationSchema } from '../utils/pagination';
+
+const router = Router();
+
+const listQuerySchema = paginationSchema.extend({
+  search: z.string().trim().min(1).max(100).optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+});
+
+const settingsSchema = z
+  .object({
+    allowMemberInvites: z.boolean(),
+    requireApproval: z.boolean(),
+    allowAnonymousPosts: z.boolean(),
+    maxMembers: z.number().int().min(1).max(100000),
+    screeningQuestions: z.array(z.string().trim().min(1).max(300)).max(5),
+  })
+  .partial();
+
+const communitySchema = z.object({
+  name: z.string().trim().min(3).max(100),
+  description: z.string().trim().min(1).max(2000),
+  category: z.string().trim().min(1).max(50),
+  isPrivate: z.boolean().optional(),
+  rules: z.array(z.string().trim().min(1).max(500)).max(20).optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+  avatar: z.string().url().optional(),
+  banner: z.string().url().optional(),
+  settings: settingsSchema.optional(),
+});
+
+const joinSchema = z.object({
+  answers: z.array(z.string().trim().max(1000)).max(5).optional(),
+});
+
+const joinRequestQuerySchema = paginationSchema.extend({
+  status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+});
+
+const reviewJoinRequestsSchema = z.object({
+  requestIds: z.array(z.string().uuid()).min(1).max(100),
+  action: z.enum(['approve', 'reject']),
+});
+
+const inviteSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+router.get(
+  '/',
+  optionalAuth,
+  validate(listQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page, limit, search, category } = req.query as unknown as z.infer<typeof listQuerySchema>;
+    const result = await communityService.list({ search, category }, { page, limit }, req.user?.id);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+// Registered before /:id so "my" is not treated as an id
+router.get(
+  '/my',
+  authenticate,
+  validate(paginationSchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const pagination = req.query as unknown as z.infer<typeof paginationSchema>;
+    const result = await communityService.listForUser(req.user.id, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/',
+  authenticate,
+  validate(communitySchema),
+  asyncHandler(async (req, res) => {
+    const community = await communityService.create(req.user.id, req.body);
+    res.status(201).json({
+      status: 'success',
+      message: 'Community created',
+      community,
+    });
+  })
+);
+
+router.get(
+  '/:id',
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const community = await communityService.get(req.params.id, req.user?.id);
+    res.json({ status: 'success', community });
+  })
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  validate(communitySchema.partial()),
+  asyncHandler(async (req, res) => {
+    const community = await communityService.update(req.params.id, req.user.id, req.body);
+    res.json({
+      status: 'success',
+      message: 'Community updated',
+      community,
+    });
+  })
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await communityService.delete(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Community deleted' });
+  })
+);
+
+router.post(
+  '/:id/join',
+  authenticate,
+  validate(joinSchema),
+  asyncHandler(async (req, res) => {
+    const { joinRequest } = await communityService.join(req.params.id, req.user.id, req.body.answers);
+    if (joinRequest) {
+      res.status(202).json({
+        status: 'success',
+        message: 'Join request submitted for approval',
+        joinRequest: { id: joinRequest.id, status: joinRequest.status },
+      });
+      return;
+    }
+    res.json({ status: 'success', message: 'Joined community' });
+  })
+);
+
+router.delete(
+  '/:id/join-request',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await communityService.withdrawJoinRequest(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Join request withdrawn' });
+  })
+);
+
+router.get(
+  '/:id/join-requests',
+  authenticate,
+  validate(joinRequestQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { status, ...pagination } = req.query as unknown as z.infer<typeof joinRequestQuerySchema>;
+    const result = await communityService.listJoinRequests(req.params.id, req.user.id, status, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:id/join-requests/review',
+  authenticate,
+  validate(reviewJoinRequestsSchema),
+  asyncHandler(async (req, res) => {
+    const { requestIds, action } = req.body;
+    const result = await communityService.reviewJoinRequests(req.params.id, req.user.id, requestIds, action);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:id/leave',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await communityService.leave(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Left community' });
+  })
+);
+
+router.get(
+  '/:id/members',
+  optionalAuth,
+  validate(paginationSchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const pagination = req.query as unknown as z.infer<typeof paginationSchema>;
+    const result = await communityService.listMembers(req.params.id, pagination, req.user?.id);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:id/invite',
+  authenticate,
+  validate(inviteSchema),
+  asyncHandler(async (req, res) => {
+    await communityService.invite(req.params.id, req.user.id, req.body.email);
+    res.status(201).json({ status: 'success', message: 'Invitation sent' });
+  })
+);
+
+router.delete(
+  '/:id/members/:memberId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await communityService.removeMember(req.params.id, req.user.id, req.params.memberId);
+    res.json({ status: 'success', message: 'Member removed' });
+  })
+);
+
+router.put(
+  '/:id/members/:memberId/promote',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const community = await communityService.setModerator(req.params.id, req.user.id, req.params.memberId, true);
+    res.json({
+      status: 'success',
+      message: 'Member promoted to moderator',
+      community,
+    });
+  })
+);
+
+router.put(
+  '/:id/members/:memberId/demote',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const community = await communityService.setModerator(req.params.id, req.user.id, req.params.memberId, false);
+    res.json({
+      status: 'success',
+      message: 'Moderator demoted to member',
+      community,
+    });
+  })
+);
+
+export default router;
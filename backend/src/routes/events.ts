@@ -0,0 +1,906 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { eventService } from '../services/eventService';
+import { MAX_REMINDER_OFFSET_MINUTES } from '../services/reminderService';
+import { ticketPublicKey } from '../services/ticketService';
+import { asyncHandler } from '../utils/asyncHandler';
+import { timeZoneSchema } from '../utils/timeZone';
+import { paginationSchema } from '../utils/pagination';
+
+const router = Router();
+
+const listQuerySchema = paginationSchema.extend({
+  search: z.string().trim().min(1).max(100).optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+  communityId: z.string().uuid().optional(),
+  status: z.enum(['draft', 'published', 'cancelled', 'completed']).optional(),
+  upcoming: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+const attendeeQuerySchema = paginationSchema.extend({
+  status: z.enum(['registered', 'waitlisted', 'held', 'pending', 'rejected', 'cancelled']).optional(),
+});
+
+const scopeSchema = z.enum(['occurrence', 'series']).default('occurrence');
+
+const registerSchema = z.object({
+  answers: z.array(z.string().trim().max(1000)).max(5).optional(),
+  ticketTypeId: z.string().uuid().optional(),
+  promoCode: z.string().trim().min(1).max(50).optional(),
+  scope: scopeSchema,
+});
+
+const cancelRegistrationSchema = z.object({
+  scope: scopeSchema,
+});
+
+const updateQuerySchema = z.object({
+  scope: scopeSchema,
+});
+
+const occurrenceQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const applicationQuerySchema = paginationSchema.extend({
+  status: z.enum(['pending', 'rejected']).default('pending'),
+});
+
+const reviewApplicationsSchema = z.object({
+  applicationIds: z.array(z.string().uuid()).min(1).max(100),
+  action: z.enum(['approve', 'reject']),
+});
+
+const calendarQuerySchema = z.object({
+  tz: timeZoneSchema.optional(),
+});
+
+const reminderSchema = z.object({
+  message: z.string().trim().max(1000).optional(),
+});
+
+const ticketTypeSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(1000).optional(),
+  price: z.number().min(0).max(100000),
+  quantity: z.number().int().min(1).max(100000).nullable().optional(),
+  salesStart: z.coerce.date().nullable().optional(),
+  salesEnd: z.coerce.date().nullable().optional(),
+});
+
+const promoCodeSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3)
+    .max(50)
+    .regex(/^[A-Za-z0-9_-]+$/, 'Codes may only contain letters, digits, dashes and underscores'),
+  discountType: z.enum(['percentage', 'fixed']),
+  // Percent off, or currency units off for fixed discounts
+  discountValue: z.number().positive().max(100000),
+  maxRedemptions: z.number().int().min(1).max(100000).nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  communityId: z.string().uuid().nullable().optional(),
+});
+
+const promoCodeCheckSchema = z.object({
+  code: z.string().trim().min(1).max(50),
+  ticketTypeId: z.string().uuid().optional(),
+});
+
+const surveySchema = z.object({
+  questions: z
+    .array(
+      z.object({
+        type: z.enum(['rating', 'nps', 'text', 'choice']),
+        prompt: z.string().trim().min(1).max(300),
+        // Required for multiple choice questions
+        options: z.array(z.string().trim().min(1).max(100)).min(2).max(10).optional(),
+        required: z.boolean().optional(),
+      })
+    )
+    .min(1)
+    .max(20),
+});
+
+const surveyResponseSchema = z.object({
+  // By question position; null skips an optional question
+  answers: z.array(z.union([z.number(), z.string().trim().max(2000), z.null()])).max(20),
+});
+
+const hostRoleSchema = z.object({
+  role: z.enum(['cohost', 'checkin']),
+});
+
+const hostSchema = hostRoleSchema.extend({
+  email: z.string().trim().email(),
+  role: hostRoleSchema.shape.role.default('cohost'),
+});
+
+const speakerSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  headline: z.string().trim().max(150).optional(),
+  bio: z.string().trim().max(2000).optional(),
+  // Links a NexusVerse account, whose owner is invited to confirm
+  email: z.string().trim().email().optional(),
+});
+
+const speakerResponseSchema = z.object({
+  accept: z.boolean(),
+});
+
+const sessionSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  location: z.string().trim().max(300).optional(),
+  speakerIds: z.array(z.string().uuid()).max(20).optional(),
+});
+
+const questionSchema = z.object({
+  body: z.string().trim().min(1).max(500),
+});
+
+const answeredSchema = z.object({
+  answered: z.boolean(),
+});
+
+const pollSchema = z.object({
+  question: z.string().trim().min(1).max(300),
+  options: z.array(z.string().trim().min(1).max(100)).min(2).max(10),
+});
+
+const pollVoteSchema = z.object({
+  option: z.number().int().min(0),
+});
+
+const networkingRoundSchema = z.object({
+  roundMinutes: z.number().int().min(1).max(60),
+});
+
+const refundSchema = z.object({
+  // Everything not refunded yet when left out
+  amount: z.number().positive().max(100000).optional(),
+});
+
+const checkInSchema = z.object({
+  code: z.string().trim().min(1).max(1000),
+});
+
+const settingsSchema = z
+  .object({
+    allowWaitlist: z.boolean(),
+    requireApproval: z.boolean(),
+    allowCancellations: z.boolean(),
+    sendReminders: z.boolean(),
+    reminderOffsets: z
+      .array(z.number().int().min(5).max(MAX_REMINDER_OFFSET_MINUTES))
+      .max(5)
+      .transform((offsets) => [...new Set(offsets)].sort((a, b) => b - a)),
+    applicationQuestions: z.array(z.string().trim().min(1).max(300)).max(5),
+  })
+  .partial();
+
+const eventSchema = z.object({
+  title: z.string().trim().min(3).max(200),
+  description: z.string().trim().min(1).max(10000),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  timeZone: timeZoneSchema.optional(),
+  location: z.string().trim().max(300).optional(),
+  category: z.string().trim().min(1).max(50),
+  capacity: z.number().int().min(1).max(100000),
+  maxAttendees: z.number().int().min(1).max(200000).nullable().optional(),
+  ticketPrice: z.number().min(0).max(100000).optional(),
+  isVirtual: z.boolean().optional(),
+  meetingLink: z.string().url().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+  communityId: z.string().uuid().optional(),
+  status: z.enum(['draft', 'published', 'cancelled', 'completed']).optional(),
+  visibility: z.enum(['public', 'private', 'community']).optional(),
+  registrationDeadline: z.coerce.date().nullable().optional(),
+  settings: settingsSchema.optional(),
+  recurrence: z.object({ rrule: z.string().trim().min(1).max(500) }).optional(),
+});
+
+const eventUpdateSchema = eventSchema.omit({ communityId: true, recurrence: true }).partial();
+
+router.get(
+  '/',
+  optionalAuth,
+  validate(listQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { page, limit, ...filters } = req.query as unknown as z.infer<typeof listQuerySchema>;
+    const result = await eventService.list(filters, { page, limit }, req.user?.id);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+// Registered before /:id so these paths are not treated as ids
+router.get(
+  '/my',
+  authenticate,
+  validate(paginationSchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const pagination = req.query as unknown as z.infer<typeof paginationSchema>;
+    const result = await eventService.listOrganized(req.user.id, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.get(
+  '/registrations',
+  authenticate,
+  validate(paginationSchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const pagination = req.query as unknown as z.infer<typeof paginationSchema>;
+    const result = await eventService.listRegistrations(req.user.id, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+// Public key for checking ticket signatures offline
+router.get(
+  '/ticket-key',
+  asyncHandler(async (req, res) => {
+    res.json({ status: 'success', key: ticketPublicKey() });
+  })
+);
+
+router.get(
+  '/series/:seriesId',
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const series = await eventService.getSeries(req.params.seriesId, req.user?.id);
+    res.json({ status: 'success', series });
+  })
+);
+
+router.get(
+  '/series/:seriesId/occurrences',
+  optionalAuth,
+  validate(occurrenceQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const range = req.query as unknown as z.infer<typeof occurrenceQuerySchema>;
+    const result = await eventService.listOccurrences(req.params.seriesId, range, req.user?.id);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.delete(
+  '/series/:seriesId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.deleteSeries(req.params.seriesId, req.user.id);
+    res.json({ status: 'success', message: 'Event series deleted' });
+  })
+);
+
+router.post(
+  '/',
+  authenticate,
+  validate(eventSchema),
+  asyncHandler(async (req, res) => {
+    const event = await eventService.create(req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Event created', event });
+  })
+);
+
+router.get(
+  '/:id',
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const event = await eventService.get(req.params.id, req.user?.id);
+    res.json({ status: 'success', event });
+  })
+);
+
+// The event as an .ics file for calendar apps
+router.get(
+  '/:id/calendar.ics',
+  optionalAuth,
+  validate(calendarQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { tz } = req.query as unknown as z.infer<typeof calendarQuerySchema>;
+    const { filename, calendar } = await eventService.getCalendar(req.params.id, tz, req.user?.id);
+    res.attachment(filename).type('text/calendar; charset=utf-8').send(calendar);
+  })
+);
+
+router.put(
+  '/:id',
+  authenticate,
+  validate(updateQuerySchema, 'query'),
+  validate(eventUpdateSchema),
+  asyncHandler(async (req, res) => {
+    const { scope } = req.query as unknown as z.infer<typeof updateQuerySchema>;
+    const event = await eventService.update(req.params.id, req.user.id, req.body, scope);
+    res.json({ status: 'success', message: 'Event updated', event });
+  })
+);
+
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.delete(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Event deleted' });
+  })
+);
+
+router.post(
+  '/:id/duplicate',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const event = await eventService.duplicate(req.params.id, req.user.id);
+    res.status(201).json({ status: 'success', message: 'Event duplicated', event });
+  })
+);
+
+router.post(
+  '/:id/register',
+  authenticate,
+  validate(registerSchema),
+  asyncHandler(async (req, res) => {
+    if (req.body.scope === 'series') {
+      const result = await eventService.registerSeries(req.params.id, req.user.id);
+      res.json({
+        status: 'success',
+        message: 'Registered for the series',
+        registrationStatus: result.status,
+        occurrences: result.occurrences,
+        event: result.event,
+      });
+      return;
+    }
+    const { answers, ticketTypeId, promoCode } = req.body;
+    const { status, event } = await eventService.register(req.params.id, req.user.id, answers, ticketTypeId, promoCode);
+    const messages: Partial<Record<typeof status, string>> = {
+      registered: 'Registered for event',
+      waitlisted: 'Added to the waitlist',
+      held: 'Seat held until payment is completed',
+      pending: 'Registration submitted for approval',
+    };
+    res.status(status === 'registered' ? 200 : 202).json({
+      status: 'success',
+      message: messages[status],
+      registrationStatus: status,
+      event,
+    });
+  })
+);
+
+// Both paths are used by the frontend
+router.post(
+  ['/:id/unregister', '/:id/cancel-registration'],
+  authenticate,
+  validate(cancelRegistrationSchema),
+  asyncHandler(async (req, res) => {
+    if (req.body.scope === 'series') {
+      const event = await eventService.cancelSeriesRegistration(req.params.id, req.user.id);
+      res.json({ status: 'success', message: 'Series registration cancelled', event });
+      return;
+    }
+    const event = await eventService.cancelRegistration(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Registration cancelled', event });
+  })
+);
+
+router.post(
+  '/:id/ticket-types',
+  authenticate,
+  validate(ticketTypeSchema),
+  asyncHandler(async (req, res) => {
+    const ticketType = await eventService.createTicketType(req.params.id, req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Ticket type created', ticketType });
+  })
+);
+
+router.put(
+  '/:id/ticket-types/:ticketTypeId',
+  authenticate,
+  validate(ticketTypeSchema.partial()),
+  asyncHandler(async (req, res) => {
+    const { id, ticketTypeId } = req.params;
+    const ticketType = await eventService.updateTicketType(id, req.user.id, ticketTypeId, req.body);
+    res.json({ status: 'success', message: 'Ticket type updated', ticketType });
+  })
+);
+
+router.delete(
+  '/:id/ticket-types/:ticketTypeId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.deleteTicketType(req.params.id, req.user.id, req.params.ticketTypeId);
+    res.json({ status: 'success', message: 'Ticket type deleted' });
+  })
+);
+
+router.get(
+  '/:id/promo-codes',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const promoCodes = await eventService.listPromoCodes(req.params.id, req.user.id);
+    res.json({ status: 'success', promoCodes });
+  })
+);
+
+router.post(
+  '/:id/promo-codes',
+  authenticate,
+  validate(promoCodeSchema),
+  asyncHandler(async (req, res) => {
+    const promoCode = await eventService.createPromoCode(req.params.id, req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Promo code created', promoCode });
+  })
+);
+
+router.post(
+  '/:id/promo-codes/check',
+  authenticate,
+  validate(promoCodeCheckSchema),
+  asyncHandler(async (req, res) => {
+    const { code, ticketTypeId } = req.body;
+    const promoCode = await eventService.checkPromoCode(req.params.id, req.user.id, code, ticketTypeId);
+    res.json({ status: 'success', promoCode });
+  })
+);
+
+router.put(
+  '/:id/promo-codes/:promoCodeId',
+  authenticate,
+  validate(promoCodeSchema.partial()),
+  asyncHandler(async (req, res) => {
+    const { id, promoCodeId } = req.params;
+    const promoCode = await eventService.updatePromoCode(id, req.user.id, promoCodeId, req.body);
+    res.json({ status: 'success', message: 'Promo code updated', promoCode });
+  })
+);
+
+router.delete(
+  '/:id/promo-codes/:promoCodeId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.deletePromoCode(req.params.id, req.user.id, req.params.promoCodeId);
+    res.json({ status: 'success', message: 'Promo code deleted' });
+  })
+);
+
+router.post(
+  '/:id/hosts',
+  authenticate,
+  validate(hostSchema),
+  asyncHandler(async (req, res) => {
+    const host = await eventService.addHost(req.params.id, req.user.id, req.body.email, req.body.role);
+    res.status(201).json({ status: 'success', message: 'Host added', host });
+  })
+);
+
+router.put(
+  '/:id/hosts/:userId',
+  authenticate,
+  validate(hostRoleSchema),
+  asyncHandler(async (req, res) => {
+    await eventService.updateHost(req.params.id, req.user.id, req.params.userId, req.body.role);
+    res.json({ status: 'success', message: 'Host updated' });
+  })
+);
+
+router.delete(
+  '/:id/hosts/:userId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.removeHost(req.params.id, req.user.id, req.params.userId);
+    res.json({ status: 'success', message: 'Host removed' });
+  })
+);
+
+router.get(
+  '/:id/speakers',
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const speakers = await eventService.listSpeakers(req.params.id, req.user?.id);
+    res.json({ status: 'success', speakers });
+  })
+);
+
+router.post(
+  '/:id/speakers',
+  authenticate,
+  validate(speakerSchema),
+  asyncHandler(async (req, res) => {
+    const speaker = await eventService.addSpeaker(req.params.id, req.user.id, req.body);
+    res.status(201).json({
+      status: 'success',
+      message: speaker.invitationStatus ? 'Speaker invited' : 'Speaker added',
+      speaker,
+    });
+  })
+);
+
+router.put(
+  '/:id/speakers/:speakerId',
+  authenticate,
+  validate(speakerSchema.omit({ email: true })),
+  asyncHandler(async (req, res) => {
+    const { id, speakerId } = req.params;
+    const speaker = await eventService.updateSpeaker(id, req.user.id, speakerId, req.body);
+    res.json({ status: 'success', message: 'Speaker updated', speaker });
+  })
+);
+
+router.delete(
+  '/:id/speakers/:speakerId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.removeSpeaker(req.params.id, req.user.id, req.params.speakerId);
+    res.json({ status: 'success', message: 'Speaker removed' });
+  })
+);
+
+// The invited speaker accepts or declines
+router.post(
+  '/:id/speakers/:speakerId/respond',
+  authenticate,
+  validate(speakerResponseSchema),
+  asyncHandler(async (req, res) => {
+    const { id, speakerId } = req.params;
+    const speaker = await eventService.respondToSpeakerInvitation(id, req.user.id, speakerId, req.body.accept);
+    res.json({ status: 'success', message: req.body.accept ? 'Invitation accepted' : 'Invitation declined', speaker });
+  })
+);
+
+router.get(
+  '/:id/sessions',
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const sessions = await eventService.listSessions(req.params.id, req.user?.id);
+    res.json({ status: 'success', sessions });
+  })
+);
+
+router.post(
+  '/:id/sessions',
+  authenticate,
+  validate(sessionSchema),
+  asyncHandler(async (req, res) => {
+    const session = await eventService.createSession(req.params.id, req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Session created', session });
+  })
+);
+
+router.put(
+  '/:id/sessions/:sessionId',
+  authenticate,
+  validate(sessionSchema.partial()),
+  asyncHandler(async (req, res) => {
+    const { id, sessionId } = req.params;
+    const session = await eventService.updateSession(id, req.user.id, sessionId, req.body);
+    res.json({ status: 'success', message: 'Session updated', session });
+  })
+);
+
+router.delete(
+  '/:id/sessions/:sessionId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.deleteSession(req.params.id, req.user.id, req.params.sessionId);
+    res.json({ status: 'success', message: 'Session deleted' });
+  })
+);
+
+// Live Q&A and polls, for hosts and registered attendees. Changes are also pushed to the event's
+// socket.io room.
+router.get(
+  '/:id/questions',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const questions = await eventService.listQuestions(req.params.id, req.user.id);
+    res.json({ status: 'success', questions });
+  })
+);
+
+router.post(
+  '/:id/questions',
+  authenticate,
+  validate(questionSchema),
+  asyncHandler(async (req, res) => {
+    const question = await eventService.askQuestion(req.params.id, req.user.id, req.body.body);
+    res.status(201).json({ status: 'success', message: 'Question posted', question });
+  })
+);
+
+router.post(
+  '/:id/questions/:questionId/upvote',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const question = await eventService.upvoteQuestion(req.params.id, req.user.id, req.params.questionId, true);
+    res.json({ status: 'success', question });
+  })
+);
+
+router.delete(
+  '/:id/questions/:questionId/upvote',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const question = await eventService.upvoteQuestion(req.params.id, req.user.id, req.params.questionId, false);
+    res.json({ status: 'success', question });
+  })
+);
+
+// Moderators mark questions answered, or open them again
+router.put(
+  '/:id/questions/:questionId',
+  authenticate,
+  validate(answeredSchema),
+  asyncHandler(async (req, res) => {
+    const { id, questionId } = req.params;
+    const question = await eventService.answerQuestion(id, req.user.id, questionId, req.body.answered);
+    res.json({ status: 'success', question });
+  })
+);
+
+router.delete(
+  '/:id/questions/:questionId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.deleteQuestion(req.params.id, req.user.id, req.params.questionId);
+    res.json({ status: 'success', message: 'Question removed' });
+  })
+);
+
+router.get(
+  '/:id/polls',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const polls = await eventService.listPolls(req.params.id, req.user.id);
+    res.json({ status: 'success', polls });
+  })
+);
+
+router.post(
+  '/:id/polls',
+  authenticate,
+  validate(pollSchema),
+  asyncHandler(async (req, res) => {
+    const poll = await eventService.launchPoll(req.params.id, req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Poll launched', poll });
+  })
+);
+
+router.post(
+  '/:id/polls/:pollId/close',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const poll = await eventService.closePoll(req.params.id, req.user.id, req.params.pollId);
+    res.json({ status: 'success', message: 'Poll closed', poll });
+  })
+);
+
+router.post(
+  '/:id/polls/:pollId/votes',
+  authenticate,
+  validate(pollVoteSchema),
+  asyncHandler(async (req, res) => {
+    const poll = await eventService.votePoll(req.params.id, req.user.id, req.params.pollId, req.body.option);
+    res.status(201).json({ status: 'success', message: 'Vote counted', poll });
+  })
+);
+
+router.get(
+  '/:id/networking',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const networking = await eventService.getNetworking(req.params.id, req.user.id);
+    res.json({ status: 'success', networking });
+  })
+);
+
+router.post(
+  '/:id/networking/rounds',
+  authenticate,
+  validate(networkingRoundSchema),
+  asyncHandler(async (req, res) => {
+    const networking = await eventService.startNetworkingRound(req.params.id, req.user.id, req.body.roundMinutes);
+    res.status(201).json({ status: 'success', message: 'Round started', networking });
+  })
+);
+
+router.post(
+  '/:id/networking/rounds/end',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const networking = await eventService.endNetworkingRound(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Round ended', networking });
+  })
+);
+
+router.get(
+  '/:id/applications',
+  authenticate,
+  validate(applicationQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { status, ...pagination } = req.query as unknown as z.infer<typeof applicationQuerySchema>;
+    const result = await eventService.listApplications(req.params.id, req.user.id, status, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:id/applications/review',
+  authenticate,
+  validate(reviewApplicationsSchema),
+  asyncHandler(async (req, res) => {
+    const { applicationIds, action } = req.body;
+    const result = await eventService.reviewApplications(req.params.id, req.user.id, applicationIds, action);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.get(
+  '/:id/ticket',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const ticket = await eventService.getTicket(req.params.id, req.user.id);
+    res.json({ status: 'success', ticket });
+  })
+);
+
+router.post(
+  '/:id/join-link',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const joinLink = await eventService.getJoinLink(req.params.id, req.user.id);
+    res.json({ status: 'success', joinLink });
+  })
+);
+
+// Opened straight from the browser, so the token in the path stands in for the session. The
+// meeting host never sees it, and the redirect is never cached.
+router.get(
+  '/:id/join/:token',
+  asyncHandler(async (req, res) => {
+    const meetingLink = await eventService.join(req.params.id, req.params.token, req.get('user-agent'));
+    res.set({ 'Cache-Control': 'no-store', 'Referrer-Policy': 'no-referrer' });
+    res.redirect(302, meetingLink);
+  })
+);
+
+router.post(
+  '/:id/check-in',
+  authenticate,
+  validate(checkInSchema),
+  asyncHandler(async (req, res) => {
+    const result = await eventService.checkIn(req.params.id, req.user.id, req.body.code);
+    res.json({ status: 'success', message: 'Checked in', ...result });
+  })
+);
+
+router.post(
+  '/:id/attendees/:userId/checkin',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const result = await eventService.checkInAttendee(req.params.id, req.user.id, req.params.userId);
+    res.json({ status: 'success', message: 'Checked in', ...result });
+  })
+);
+
+router.get(
+  '/:id/attendees',
+  authenticate,
+  validate(attendeeQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { status, ...pagination } = req.query as unknown as z.infer<typeof attendeeQuerySchema>;
+    const result = await eventService.listAttendees(req.params.id, req.user.id, status, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:id/attendees/:userId/confirm',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.confirmHold(req.params.id, req.user.id, req.params.userId);
+    res.json({ status: 'success', message: 'Registration confirmed' });
+  })
+);
+
+router.post(
+  '/:id/attendees/:userId/refund',
+  authenticate,
+  validate(refundSchema),
+  asyncHandler(async (req, res) => {
+    const refund = await eventService.refundAttendee(req.params.id, req.user.id, req.params.userId, req.body.amount);
+    res.json({
+      status: 'success',
+      message: refund.fullyRefunded ? 'Payment refunded and registration cancelled' : 'Payment partly refunded',
+      refund,
+    });
+  })
+);
+
+router.get(
+  '/:id/reminders',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const reminders = await eventService.listReminders(req.params.id, req.user.id);
+    res.json({ status: 'success', reminders });
+  })
+);
+
+router.get(
+  '/:id/survey',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const survey = await eventService.getSurvey(req.params.id, req.user.id);
+    res.json({ status: 'success', survey });
+  })
+);
+
+router.put(
+  '/:id/survey',
+  authenticate,
+  validate(surveySchema),
+  asyncHandler(async (req, res) => {
+    const survey = await eventService.saveSurvey(req.params.id, req.user.id, req.body.questions);
+    res.json({ status: 'success', message: survey.sentAt ? 'Survey sent' : 'Survey saved', survey });
+  })
+);
+
+router.delete(
+  '/:id/survey',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await eventService.deleteSurvey(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Survey removed' });
+  })
+);
+
+router.post(
+  '/:id/survey/responses',
+  authenticate,
+  validate(surveyResponseSchema),
+  asyncHandler(async (req, res) => {
+    await eventService.respondToSurvey(req.params.id, req.user.id, req.body.answers);
+    res.status(201).json({ status: 'success', message: 'Thanks for your feedback' });
+  })
+);
+
+// Every survey response as a spreadsheet
+router.get(
+  '/:id/survey/responses.csv',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const { filename, csv } = await eventService.exportSurvey(req.params.id, req.user.id);
+    res.attachment(filename).type('text/csv; charset=utf-8').send(csv);
+  })
+);
+
+router.post(
+  '/:id/send-reminder',
+  authenticate,
+  validate(reminderSchema),
+  asyncHandler(async (req, res) => {
+    const recipients = await eventService.sendReminder(req.params.id, req.user.id, req.body.message);
+    res.json({ status: 'success', message: `Reminder sent to ${recipients} attendees`, recipients });
+  })
+);
+
+router.get(
+  '/:id/stats',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const stats = await eventService.getStats(req.params.id, req.user.id);
+    res.json({ status: 'success', stats });
+  })
+);
+
+export default router;
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { notificationService } from '../services/notificationService';
+import { asyncHandler } from '../utils/asyncHandler';
+import { paginationSchema } from '../utils/pagination';
+
+const router = Router();
+
+const listQuerySchema = paginationSchema.extend({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+});
+
+const preferencesSchema = z
+  .object({
+    email: z.boolean(),
+    push: z.boolean(),
+    sms: z.boolean(),
+    marketing: z.boolean(),
+    eventReminders: z.boolean(),
+  })
+  .partial();
+
+router.use(authenticate);
+
+router.get(
+  '/',
+  validate(listQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { unreadOnly, ...pagination } = req.query as unknown as z.infer<typeof listQuerySchema>;
+    const result = await notificationService.list(req.user.id, unreadOnly, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.get(
+  '/preferences',
+  asyncHandler(async (req, res) => {
+    const preferences = await notificationService.getPreferences(req.user.id);
+    res.json({ status: 'success', preferences });
+  })
+);
+
+router.put(
+  '/preferences',
+  validate(preferencesSchema),
+  asyncHandler(async (req, res) => {
+    const preferences = await notificationService.updatePreferences(req.user.id, req.body);
+    res.json({ status: 'success', preferences });
+  })
+);
+
+router.put(
+  '/read-all',
+  asyncHandler(async (req, res) => {
+    await notificationService.markAllRead(req.user.id);
+    res.json({ status: 'success', message: 'All notifications marked as read' });
+  })
+);
+
+router.put(
+  '/:id/read',
+  asyncHandler(async (req, res) => {
+    await notificationService.markRead(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Notification marked as read' });
+  })
+);
+
+router.delete(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    await notificationService.delete(req.params.id, req.user.id);
+    res.json({ status: 'success', message: 'Notification deleted' });
+  })
+);
+
+export default router;
@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { eventService } from '../services/eventService';
+import { paymentService } from '../services/paymentService';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+const checkoutSchema = z.object({
+  eventId: z.string().uuid(),
+});
+
+// Stripe Checkout for the seat held for the user at the event
+router.post(
+  '/create-checkout-session',
+  authenticate,
+  validate(checkoutSchema),
+  asyncHandler(async (req, res) => {
+    const checkout = await eventService.startCheckout(req.body.eventId, req.user.id);
+    res.json({ status: 'success', ...checkout });
+  })
+);
+
+// Called by Stripe. The body arrives unparsed (see index.ts) as the signature covers its raw bytes.
+router.post(
+  '/webhook',
+  asyncHandler(async (req, res) => {
+    await paymentService.handleWebhook(req.body, req.header('stripe-signature') ?? '');
+    res.json({ received: true });
+  })
+);
+
+export default router;
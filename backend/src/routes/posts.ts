@@ -0,0 +1,304 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { postService } from '../services/postService';
+import { asyncHandler } from '../utils/asyncHandler';
+import { cursorPaginationSchema, paginationSchema } from '../utils/pagination';
+
+// Mounted at /api/communities/:communityId/posts
+const router = Router({ mergeParams: true });
+
+const listQuerySchema = cursorPaginationSchema.extend({
+  sort: z.enum(['new', 'top', 'active']).default('new'),
+});
+
+const commentQuerySchema = listQuerySchema.extend({
+  parentId: z.string().uuid().optional(),
+});
+
+const pollSchema = z.object({
+  options: z.array(z.string().trim().min(1).max(200)).min(2).max(10),
+  multipleChoice: z.boolean().optional(),
+  closesAt: z.coerce.date().optional(),
+  showVoters: z.boolean().optional(),
+});
+
+const postSchema = z.object({
+  type: z.enum(['text', 'link', 'image', 'poll']).default('text'),
+  title: z.string().trim().min(1).max(300).optional(),
+  content: z.string().trim().min(1).max(10000),
+  link: z.string().url().optional(),
+  imageUrl: z.string().url().optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(10).optional(),
+  isAnonymous: z.boolean().optional(),
+  poll: pollSchema.optional(),
+});
+
+const voteSchema = z.object({
+  optionIds: z.array(z.string().uuid()).min(1).max(10),
+});
+
+const postUpdateSchema = postSchema.omit({ type: true, poll: true, isAnonymous: true }).partial();
+
+const commentSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+  parentId: z.string().uuid().optional(),
+  isAnonymous: z.boolean().optional(),
+});
+
+const revealSchema = z.object({
+  reason: z.string().trim().min(10, 'Explain which rule the post breaks').max(500),
+});
+
+const pinSchema = z.object({
+  position: z.number().int().min(0).optional(),
+});
+
+const removeSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+const moderationLogQuerySchema = paginationSchema.extend({
+  action: z.enum(['pin', 'unpin', 'lock', 'unlock', 'remove', 'restore']).optional(),
+});
+
+const commentUpdateSchema = commentSchema.pick({ content: true });
+
+router.get(
+  '/',
+  optionalAuth,
+  validate(listQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { sort, ...cursor } = req.query as unknown as z.infer<typeof listQuerySchema>;
+    const result = await postService.listPosts(req.params.communityId, sort, cursor, req.user?.id);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/',
+  authenticate,
+  validate(postSchema),
+  asyncHandler(async (req, res) => {
+    const post = await postService.createPost(req.params.communityId, req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Post created', post });
+  })
+);
+
+// Registered before /:postId so these paths are not treated as ids
+router.get(
+  '/moderation-log',
+  authenticate,
+  validate(moderationLogQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { action, ...pagination } = req.query as unknown as z.infer<typeof moderationLogQuerySchema>;
+    const result = await postService.listModerationLog(req.params.communityId, req.user.id, action, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.get(
+  '/reveals',
+  authenticate,
+  validate(paginationSchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const pagination = req.query as unknown as z.infer<typeof paginationSchema>;
+    const result = await postService.listReveals(req.params.communityId, req.user.id, pagination);
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.get(
+  '/:postId',
+  optionalAuth,
+  asyncHandler(async (req, res) => {
+    const post = await postService.getPost(req.params.communityId, req.params.postId, req.user?.id);
+    res.json({ status: 'success', post });
+  })
+);
+
+router.put(
+  '/:postId',
+  authenticate,
+  validate(postUpdateSchema),
+  asyncHandler(async (req, res) => {
+    const post = await postService.updatePost(req.params.communityId, req.params.postId, req.user.id, req.body);
+    res.json({ status: 'success', message: 'Post updated', post });
+  })
+);
+
+router.delete(
+  '/:postId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await postService.deletePost(req.params.communityId, req.params.postId, req.user.id);
+    res.json({ status: 'success', message: 'Post deleted' });
+  })
+);
+
+// Works for comments too; postId may be any post in the community
+router.post(
+  '/:postId/reveal',
+  authenticate,
+  validate(revealSchema),
+  asyncHandler(async (req, res) => {
+    const result = await postService.revealAuthor(
+      req.params.communityId,
+      req.params.postId,
+      req.user.id,
+      req.body.reason
+    );
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:postId/pin',
+  authenticate,
+  validate(pinSchema),
+  asyncHandler(async (req, res) => {
+    const post = await postService.pinPost(req.params.communityId, req.params.postId, req.user.id, req.body.position);
+    res.json({ status: 'success', message: 'Post pinned', post });
+  })
+);
+
+router.delete(
+  '/:postId/pin',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const post = await postService.unpinPost(req.params.communityId, req.params.postId, req.user.id);
+    res.json({ status: 'success', message: 'Post unpinned', post });
+  })
+);
+
+router.post(
+  '/:postId/lock',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const post = await postService.setLocked(req.params.communityId, req.params.postId, req.user.id, true);
+    res.json({ status: 'success', message: 'Post locked', post });
+  })
+);
+
+router.delete(
+  '/:postId/lock',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const post = await postService.setLocked(req.params.communityId, req.params.postId, req.user.id, false);
+    res.json({ status: 'success', message: 'Post unlocked', post });
+  })
+);
+
+// Remove and restore work for comments too
+router.post(
+  '/:postId/remove',
+  authenticate,
+  validate(removeSchema),
+  asyncHandler(async (req, res) => {
+    const post = await postService.removePost(
+      req.params.communityId,
+      req.params.postId,
+      req.user.id,
+      req.body.reason
+    );
+    res.json({ status: 'success', message: 'Post removed', post });
+  })
+);
+
+router.post(
+  '/:postId/restore',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const post = await postService.restorePost(req.params.communityId, req.params.postId, req.user.id);
+    res.json({ status: 'success', message: 'Post restored', post });
+  })
+);
+
+router.post(
+  '/:postId/poll/vote',
+  authenticate,
+  validate(voteSchema),
+  asyncHandler(async (req, res) => {
+    const post = await postService.vote(req.params.communityId, req.params.postId, req.user.id, req.body.optionIds);
+    res.json({ status: 'success', message: 'Vote recorded', post });
+  })
+);
+
+router.post(
+  '/:postId/like',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await postService.like(req.params.communityId, req.params.postId, req.user.id);
+    res.json({ status: 'success', message: 'Post liked' });
+  })
+);
+
+router.delete(
+  '/:postId/like',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    await postService.unlike(req.params.communityId, req.params.postId, req.user.id);
+    res.json({ status: 'success', message: 'Like removed' });
+  })
+);
+
+router.get(
+  '/:postId/comments',
+  optionalAuth,
+  validate(commentQuerySchema, 'query'),
+  asyncHandler(async (req, res) => {
+    const { sort, parentId, ...cursor } = req.query as unknown as z.infer<typeof commentQuerySchema>;
+    const result = await postService.listComments(
+      req.params.communityId,
+      req.params.postId,
+      parentId,
+      sort,
+      cursor,
+      req.user?.id
+    );
+    res.json({ status: 'success', ...result });
+  })
+);
+
+router.post(
+  '/:postId/comments',
+  authenticate,
+  validate(commentSchema),
+  asyncHandler(async (req, res) => {
+    const comment = await postService.addComment(req.params.communityId, req.params.postId, req.user.id, req.body);
+    res.status(201).json({ status: 'success', message: 'Comment added', comment });
+  })
+);
+
+router.put(
+  '/:postId/comments/:commentId',
+  authenticate,
+  validate(commentUpdateSchema),
+  asyncHandler(async (req, res) => {
+    const comment = await postService.updateComment(
+      req.params.communityId,
+      req.params.postId,
+      req.params.commentId,
+      req.user.id,
+      req.body.content
+    );
+    res.json({ status: 'success', message: 'Comment updated', comment });
+  })
+);
+
+router.delete(
+  '/:postId/comments/:commentId',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const outcome = await postService.deleteComment(
+      req.params.communityId,
+      req.params.postId,
+      req.params.commentId,
+      req.user.id
+    );
+    res.json({ status: 'success', message: 'Comment deleted', removed: outcome === 'deleted' });
+  })
+);
+
+export default router;
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { userService } from '../services/userService';
+import { asyncHandler } from '../utils/asyncHandler';
+import { timeZoneSchema } from '../utils/timeZone';
+
+const router = Router();
+
+const settingsSchema = z
+  .object({
+    // null goes back to the browser's zone
+    timeZone: timeZoneSchema.nullable(),
+  })
+  .partial();
+
+const connectionSchema = z.object({
+  targetUserId: z.string().uuid(),
+});
+
+router.get(
+  '/profile',
+  authenticate,
+  asyncHandler(async (req, res) => {
+    const user = await userService.getProfile(req.user.id);
+    res.json({ status: 'success', user });
+  })
+);
+
+router.put(
+  '/settings',
+  authenticate,
+  validate(settingsSchema),
+  asyncHandler(async (req, res) => {
+    const user = await userService.updateSettings(req.user.id, req.body);
+    res.json({ status: 'success', user });
+  })
+);
+
+router.post(
+  '/connections',
+  authenticate,
+  validate(connectionSchema),
+  asyncHandler(async (req, res) => {
+    const connection = await userService.sendConnectionRequest(req.user.id, req.body.targetUserId);
+    res.status(201).json({ status: 'success', message: 'Connection request sent', connection });
+  })
+);
+
+export default router;
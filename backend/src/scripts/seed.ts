@@ -0,0 +1,208 @@
+import bcrypt from 'bcryptjs';
+import { config } from '../config';
+import { prisma } from '../lib/prisma';
+
+// Every seeded account signs in with this password
+const DEMO_PASSWORD = 'Password123!';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number, hour = 9) => {
+  const date = new Date(Date.now() + days * DAY_MS);
+  date.setUTCHours(hour, 0, 0, 0);
+  return date;
+};
+
+const demoUsers = [
+  {
+    email: 'sarah@nexusverse.dev',
+    firstName: 'Sarah',
+    lastName: 'Chen',
+    bio: 'Smart contract engineer and Web3 educator.',
+    skills: ['Solidity', 'TypeScript', 'Security'],
+    interests: ['DeFi', 'Education'],
+    location: 'San Francisco, CA',
+  },
+  {
+    email: 'mike@nexusverse.dev',
+    firstName: 'Mike',
+    lastName: 'Johnson',
+    bio: 'Founder building in the open.',
+    skills: ['Product', 'Fundraising', 'Go-to-market'],
+    interests: ['Startups', 'DeFi'],
+    location: 'New York, NY',
+  },
+  {
+    email: 'alex@nexusverse.dev',
+    firstName: 'Alex',
+    lastName: 'Rodriguez',
+    bio: 'Full-stack developer interested in responsible AI.',
+    skills: ['React', 'Python', 'Machine Learning'],
+    interests: ['AI Ethics', 'Open Source'],
+    location: 'Austin, TX',
+  },
+];
+
+const demoCommunities = [
+  {
+    name: 'Web3 Developers',
+    description: 'A community for blockchain and Web3 developers to share knowledge and collaborate on projects.',
+    category: 'Technology',
+    tags: ['Blockchain', 'Web3', 'Development'],
+    rules: ['Be respectful', 'No token shilling'],
+  },
+  {
+    name: 'AI Ethics',
+    description: 'Discussing the ethical implications of artificial intelligence and responsible AI development.',
+    category: 'AI',
+    tags: ['AI', 'Ethics', 'Responsible Tech'],
+    rules: ['Cite your sources'],
+  },
+  {
+    name: 'Startup Founders',
+    description: 'Connect with fellow entrepreneurs and share insights on building successful startups.',
+    category: 'Business',
+    tags: ['Startups', 'Entrepreneurship', 'Business'],
+    rules: ['No cold pitching in threads'],
+  },
+];
+
+async function main() {
+  const existing = await prisma.community.count();
+  if (existing > 0) {
+    console.log('🌱 Database already contains data, skipping seed');
+    return;
+  }
+
+  const passwordHash = await bcrypt.hash(DEMO_PASSWORD, config.bcryptRounds);
+  const users = await Promise.all(
+    demoUsers.map((user) =>
+      prisma.user.upsert({
+        where: { email: user.email },
+        update: {},
+        create: { ...user, passwordHash },
+      })
+    )
+  );
+  const [sarah, mike, alex] = users;
+
+  await prisma.connection.createMany({
+    data: [
+      { requesterId: sarah.id, addresseeId: mike.id, status: 'accepted' },
+      { requesterId: alex.id, addresseeId: sarah.id, status: 'pending' },
+    ],
+  });
+
+  // Creator of each community is the matching demo user; everyone else joins as a member
+  const communities = [];
+  for (const [index, data] of demoCommunities.entries()) {
+    const creator = users[index];
+    const others = users.filter((user) => user.id !== creator.id);
+    communities.push(
+      await prisma.community.create({
+        data: {
+          ...data,
+          creatorId: creator.id,
+          memberCount: users.length,
+          members: {
+            create: [
+              { userId: creator.id, role: 'creator' },
+              { userId: others[0].id, role: 'moderator' },
+              { userId: others[1].id, role: 'member' },
+            ],
+          },
+        },
+      })
+    );
+  }
+  const [web3, aiEthics, founders] = communities;
+
+  const gasPost = await prisma.post.create({
+    data: {
+      communityId: web3.id,
+      authorId: sarah.id,
+      content: 'Just deployed my first smart contract! Any tips for gas optimization?',
+      tags: ['solidity', 'gas'],
+    },
+  });
+  await prisma.post.create({
+    data: {
+      communityId: web3.id,
+      authorId: mike.id,
+      parentId: gasPost.id,
+      rootId: gasPost.id,
+      depth: 1,
+      content: 'Pack your storage variables and prefer calldata for read-only arguments.',
+    },
+  });
+  await prisma.post.create({
+    data: {
+      communityId: aiEthics.id,
+      authorId: alex.id,
+      type: 'poll',
+      title: 'Who should audit AI models?',
+      content: 'Curious where everyone lands on this.',
+      pollOptions: {
+        create: [
+          { text: 'Independent third parties', position: 0 },
+          { text: 'Government regulators', position: 1 },
+          { text: 'The developers themselves', position: 2 },
+        ],
+      },
+    },
+  });
+  await prisma.post.update({ where: { id: gasPost.id }, data: { commentCount: 1 } });
+  await prisma.community.update({ where: { id: web3.id }, data: { postCount: 1 } });
+  await prisma.community.update({ where: { id: aiEthics.id }, data: { postCount: 1 } });
+
+  await prisma.event.create({
+    data: {
+      title: 'Web3 Workshop',
+      description: 'Hands-on smart contract development workshop.',
+      startDate: daysFromNow(14, 17),
+      endDate: daysFromNow(14, 20),
+      location: 'San Francisco, CA',
+      category: 'Technology',
+      tags: ['Workshop', 'Solidity'],
+      organizerId: sarah.id,
+      communityId: web3.id,
+      status: 'published',
+      visibility: 'public',
+      capacity: 50,
+      currentAttendees: 2,
+      registrationCount: 2,
+      allowWaitlist: true,
+      attendees: {
+        create: [{ userId: mike.id }, { userId: alex.id }],
+      },
+    },
+  });
+  await prisma.event.create({
+    data: {
+      title: 'Startup Networking Mixer',
+      description: 'Connect with fellow entrepreneurs and potential investors in a relaxed setting.',
+      startDate: daysFromNow(21, 23),
+      endDate: daysFromNow(22, 2),
+      location: 'New York, NY',
+      category: 'Business',
+      tags: ['Networking'],
+      organizerId: mike.id,
+      communityId: founders.id,
+      status: 'published',
+      visibility: 'public',
+      capacity: 60,
+      ticketPriceCents: 5000,
+    },
+  });
+  await prisma.community.update({ where: { id: web3.id }, data: { eventCount: 1 } });
+  await prisma.community.update({ where: { id: founders.id }, data: { eventCount: 1 } });
+
+  console.log(`🌱 Seeded ${users.length} users, ${communities.length} communities and 2 events`);
+  console.log(`🔑 Sign in as ${demoUsers[0].email} / ${DEMO_PASSWORD}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,61 @@
+import { Community, CommunityMember, CommunityRole, Prisma, User } from '@prisma/client';
+import { toUserSummary } from './user';
+
+// Community with its creator and staff (creator + moderators) loaded
+export const communityWithStaff = Prisma.validator<Prisma.CommunityInclude>()({
+  creator: true,
+  members: {
+    where: { role: { in: ['creator', 'moderator'] } },
+    include: { user: true },
+  },
+});
+
+export type CommunityWithStaff = Community & {
+  creator: User;
+  members: Array<CommunityMember & { user: User }>;
+};
+
+export interface CommunityViewerState {
+  role?: CommunityRole | null;
+  hasPendingRequest?: boolean;
+  members?: User[];
+}
+
+// Shape of `Community` in communitySlice. `members` is a preview; the full list is paginated
+// through GET /communities/:id/members. `viewerRole` is the requesting user's membership role and
+// `hasPendingRequest` whether they are waiting on the join-approval queue.
+export const toCommunity = (
+  community: CommunityWithStaff,
+  { role = null, hasPendingRequest = false, members = [] }: CommunityViewerState = {}
+) => ({
+  id: community.id,
+  name: community.name,
+  description: community.description,
+  category: community.category,
+  isPrivate: community.isPrivate,
+  rules: community.rules,
+  creator: toUserSummary(community.creator),
+  members: members.map(toUserSummary),
+  moderators: community.members
+    .filter((member) => member.role === 'moderator')
+    .map((member) => toUserSummary(member.user)),
+  tags: community.tags,
+  avatar: community.avatar,
+  banner: community.banner,
+  stats: {
+    memberCount: community.memberCount,
+    postCount: community.postCount,
+    eventCount: community.eventCount,
+  },
+  settings: {
+    allowMemberInvites: community.allowMemberInvites,
+    requireApproval: community.requireApproval,
+    allowAnonymousPosts: community.allowAnonymousPosts,
+    maxMembers: community.maxMembers,
+    screeningQuestions: community.screeningQuestions,
+  },
+  viewerRole: role,
+  hasPendingRequest,
+  createdAt: community.createdAt,
+  updatedAt: community.updatedAt,
+});
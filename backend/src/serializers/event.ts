@@ -0,0 +1,238 @@
+import {
+  AttendeeStatus,
+  Community,
+  Event,
+  EventAttendee,
+  EventHost,
+  EventHostRole,
+  EventPoll,
+  EventPromoCode,
+  EventQuestion,
+  EventSeries,
+  EventSession,
+  EventSpeaker,
+  EventTicketType,
+  NetworkingSession,
+  Prisma,
+  User,
+} from '@prisma/client';
+import { config } from '../config';
+import { sharedTags } from '../utils/pairing';
+import { toUserSummary } from './user';
+
+export const eventWithRelations = Prisma.validator<Prisma.EventInclude>()({
+  organizer: true,
+  community: { select: { id: true, name: true } },
+  series: { select: { id: true, rrule: true, cancelledAt: true } },
+  attendees: {
+    where: { status: 'registered' },
+    include: { user: true },
+    orderBy: { registeredAt: 'asc' },
+  },
+  ticketTypes: { orderBy: [{ position: 'asc' }, { createdAt: 'asc' }] },
+  hosts: { include: { user: true }, orderBy: { createdAt: 'asc' } },
+});
+
+export type EventWithRelations = Event & {
+  organizer: User;
+  community: Pick<Community, 'id' | 'name'> | null;
+  series: Pick<EventSeries, 'id' | 'rrule' | 'cancelledAt'> | null;
+  attendees: Array<EventAttendee & { user: User }>;
+  ticketTypes: EventTicketType[];
+  hosts: Array<EventHost & { user: User }>;
+};
+
+export type HostRole = 'organizer' | EventHostRole;
+
+export interface EventViewerContext {
+  status?: AttendeeStatus | null;
+  waitlistPosition?: number;
+  holdExpiresAt?: Date | null;
+  // Hosts see the meeting link itself; attendees join through their own link
+  hostRole?: HostRole;
+}
+
+// How `userId` helps run the event, if at all
+export const hostRoleOf = (event: Pick<EventWithRelations, 'organizerId' | 'hosts'>, userId?: string) =>
+  !userId
+    ? undefined
+    : event.organizerId === userId
+      ? ('organizer' as const)
+      : event.hosts.find((host) => host.userId === userId)?.role;
+
+// Confirmed attendees can get a join link from this time until the event ends
+export const joinOpensAt = (event: Pick<Event, 'startDate'>) =>
+  new Date(event.startDate.getTime() - config.events.meetingLinkLeadMinutes * 60 * 1000);
+
+// Shape of `TicketType` in eventSlice. Tickets held, registered or waitlisted count as sold.
+export const toTicketType = (ticketType: EventTicketType) => ({
+  id: ticketType.id,
+  name: ticketType.name,
+  description: ticketType.description,
+  price: ticketType.priceCents / 100,
+  quantity: ticketType.quantity ?? undefined,
+  sold: ticketType.sold,
+  remaining: ticketType.quantity !== null ? Math.max(0, ticketType.quantity - ticketType.sold) : undefined,
+  salesStart: ticketType.salesStart ?? undefined,
+  salesEnd: ticketType.salesEnd ?? undefined,
+});
+
+// Shape of `PromoCode` in eventSlice, for organizers. Fixed discounts are in currency units.
+export const toPromoCode = (promoCode: EventPromoCode & { community: Pick<Community, 'id' | 'name'> | null }) => ({
+  id: promoCode.id,
+  code: promoCode.code,
+  discountType: promoCode.discountType,
+  discountValue: promoCode.discountType === 'fixed' ? promoCode.discountValue / 100 : promoCode.discountValue,
+  maxRedemptions: promoCode.maxRedemptions ?? undefined,
+  redemptions: promoCode.redemptions,
+  validFrom: promoCode.validFrom ?? undefined,
+  validUntil: promoCode.validUntil ?? undefined,
+  community: promoCode.community ?? undefined,
+});
+
+// Shape of `Speaker` in eventSlice. Linked speakers show their NexusVerse avatar.
+export const toSpeaker = (
+  speaker: EventSpeaker & { user: User | null; sessions: Array<{ sessionId: string }> }
+) => ({
+  id: speaker.id,
+  name: speaker.name,
+  headline: speaker.headline,
+  bio: speaker.bio,
+  userId: speaker.userId ?? undefined,
+  avatar: speaker.user?.avatar || undefined,
+  invitationStatus: speaker.invitationStatus ?? undefined,
+  sessionIds: speaker.sessions.map((session) => session.sessionId),
+});
+
+// Shape of `EventSession` in eventSlice
+export const toSession = (session: EventSession & { speakers: Array<{ speakerId: string }> }) => ({
+  id: session.id,
+  title: session.title,
+  description: session.description,
+  startsAt: session.startsAt,
+  endsAt: session.endsAt,
+  location: session.location,
+  speakerIds: session.speakers.map((speaker) => speaker.speakerId),
+});
+
+// Shape of `EventQuestion` in eventSlice. viewerUpvoted is left out of the updates sent to the
+// whole room.
+export const toQuestion = (
+  question: EventQuestion & { user: Pick<User, 'id' | 'firstName' | 'lastName' | 'avatar'> },
+  viewerUpvoted?: boolean
+) => ({
+  id: question.id,
+  body: question.body,
+  author: {
+    id: question.user.id,
+    firstName: question.user.firstName,
+    lastName: question.user.lastName,
+    avatar: question.user.avatar || undefined,
+  },
+  upvoteCount: question.upvoteCount,
+  answeredAt: question.answeredAt ?? undefined,
+  createdAt: question.createdAt,
+  viewerUpvoted,
+});
+
+// Shape of `EventPoll` in eventSlice. `votes` holds the count for each option.
+export const toPoll = (poll: EventPoll, votes: number[], viewerVote?: number) => ({
+  id: poll.id,
+  question: poll.question,
+  options: poll.options,
+  votes,
+  closedAt: poll.closedAt ?? undefined,
+  createdAt: poll.createdAt,
+  viewerVote,
+});
+
+// Shape of `NetworkingRound` in eventSlice, as sent to the whole room when a round starts or ends
+export const toNetworkingRound = (session: NetworkingSession | null) => ({
+  round: session?.round ?? 0,
+  roundMinutes: session?.roundMinutes,
+  roundEndsAt: session?.roundEndsAt ?? undefined,
+});
+
+// Shape of `NetworkingPartner` in eventSlice, with what they have in common with the viewer
+export const toNetworkingPartner = (partner: User, viewer: Pick<User, 'skills' | 'interests'>) => ({
+  id: partner.id,
+  firstName: partner.firstName,
+  lastName: partner.lastName,
+  avatar: partner.avatar || undefined,
+  bio: partner.bio,
+  skills: partner.skills,
+  interests: partner.interests,
+  sharedSkills: sharedTags(partner.skills, viewer.skills),
+  sharedInterests: sharedTags(partner.interests, viewer.interests),
+});
+
+// Shape of `Event` in eventSlice. Prices are stored in cents and exposed in currency units.
+// `viewer` adds the signed-in user's registration state.
+export const toEvent = (event: EventWithRelations, viewer: EventViewerContext = {}) => ({
+  id: event.id,
+  title: event.title,
+  description: event.description,
+  startDate: event.startDate,
+  endDate: event.endDate,
+  timeZone: event.timeZone,
+  location: event.location,
+  category: event.category,
+  maxAttendees: event.maxAttendees ?? undefined,
+  ticketPrice: event.ticketPriceCents / 100,
+  // When present, registrations pick one of these instead of paying ticketPrice
+  ticketTypes: event.ticketTypes.map(toTicketType),
+  isVirtual: event.isVirtual,
+  meetingLink: viewer.hostRole ? event.meetingLink ?? undefined : undefined,
+  joinOpensAt: event.isVirtual && event.meetingLink ? joinOpensAt(event) : undefined,
+  tags: event.tags,
+  organizer: toUserSummary(event.organizer),
+  hosts: event.hosts.map((host) => ({ ...toUserSummary(host.user), role: host.role })),
+  // Who is coming is for hosts; everyone else gets currentAttendees
+  attendees: viewer.hostRole ? event.attendees.map((attendee) => toUserSummary(attendee.user)) : [],
+  community: event.community ?? undefined,
+  status: event.status,
+  visibility: event.visibility,
+  registrationDeadline: event.registrationDeadline ?? undefined,
+  capacity: event.capacity,
+  currentAttendees: event.currentAttendees,
+  // registrationCount covers registered, held and waitlisted attendees
+  waitlistCount: event.registrationCount - event.currentAttendees,
+  viewerStatus: viewer.status && viewer.status !== 'cancelled' ? viewer.status : undefined,
+  waitlistPosition: viewer.waitlistPosition,
+  holdExpiresAt: viewer.status === 'held' ? viewer.holdExpiresAt ?? undefined : undefined,
+  viewerHostRole: viewer.hostRole,
+  stats: {
+    viewCount: event.viewCount,
+    registrationCount: event.registrationCount,
+    checkInCount: event.checkInCount,
+  },
+  settings: {
+    allowWaitlist: event.allowWaitlist,
+    requireApproval: event.requireApproval,
+    allowCancellations: event.allowCancellations,
+    sendReminders: event.sendReminders,
+    reminderOffsets: event.reminderOffsets,
+    applicationQuestions: event.applicationQuestions,
+  },
+  recurrence: event.series
+    ? {
+        seriesId: event.series.id,
+        rrule: event.series.rrule,
+        occurrenceDate: event.occurrenceDate,
+        isOverride: event.isOverride,
+        seriesCancelled: Boolean(event.series.cancelledAt),
+      }
+    : undefined,
+  createdAt: event.createdAt,
+  updatedAt: event.updatedAt,
+});
+
+export const toEventSeries = (series: EventSeries) => ({
+  id: series.id,
+  rrule: series.rrule,
+  startDate: series.startDate,
+  endDate: series.endDate,
+  timeZone: series.timeZone,
+  cancelledAt: series.cancelledAt ?? undefined,
+  createdAt: series.createdAt,
+});
@@ -0,0 +1,12 @@
+import { Notification } from '@prisma/client';
+
+export const toNotification = (notification: Notification) => ({
+  id: notification.id,
+  type: notification.type,
+  title: notification.title,
+  message: notification.message,
+  data: notification.data,
+  isRead: notification.readAt !== null,
+  readAt: notification.readAt,
+  createdAt: notification.createdAt,
+});
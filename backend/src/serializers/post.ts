@@ -0,0 +1,105 @@
+import { Community, PollBallot, PollOption, Post, PostReaction, Prisma, User } from '@prisma/client';
+import { toUserSummary } from './user';
+
+export const postWithRelations = Prisma.validator<Prisma.PostInclude>()({
+  author: true,
+  community: { select: { id: true, name: true } },
+  pollOptions: { orderBy: { position: 'asc' } },
+  pollBallots: {
+    include: {
+      user: { select: { id: true, firstName: true, lastName: true, email: true } },
+      votes: { select: { optionId: true } },
+    },
+  },
+  reactions: { select: { userId: true, type: true } },
+  replies: { select: { id: true } },
+});
+
+export type PostWithRelations = Post & {
+  author: User;
+  community: Pick<Community, 'id' | 'name'>;
+  pollOptions: PollOption[];
+  pollBallots: Array<
+    PollBallot & {
+      user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+      votes: Array<{ optionId: string }>;
+    }
+  >;
+  reactions: Array<Pick<PostReaction, 'userId' | 'type'>>;
+  replies: Array<Pick<Post, 'id'>>;
+};
+
+// Voters are only listed when the poll author chose visible votes; the viewer always sees
+// their own choices so the UI can show what they picked.
+const toPoll = (post: PostWithRelations, viewerId?: string) => {
+  const ownBallot = viewerId ? post.pollBallots.find((ballot) => ballot.userId === viewerId) : undefined;
+  return {
+    multipleChoice: post.pollMultipleChoice,
+    closesAt: post.pollClosesAt ?? undefined,
+    isClosed: post.pollClosesAt !== null && post.pollClosesAt <= new Date(),
+    showVoters: post.pollShowVoters,
+    totalVoters: post.pollBallots.length,
+    myVotes: ownBallot ? ownBallot.votes.map((vote) => vote.optionId) : [],
+  };
+};
+
+const toPollOption = (post: PostWithRelations, option: PollOption) => ({
+  id: option.id,
+  text: option.text,
+  votes: option.voteCount,
+  voters: post.pollShowVoters
+    ? post.pollBallots
+        .filter((ballot) => ballot.votes.some((vote) => vote.optionId === option.id))
+        .map((ballot) => toUserSummary(ballot.user))
+    : undefined,
+});
+
+// Stands in for the author of anonymous posts. The real author is only available to
+// moderators through the audited reveal endpoint.
+const ANONYMOUS_AUTHOR = { id: 'anonymous', firstName: 'Anonymous', lastName: '', email: undefined };
+
+// Shape of `Post` in communitySlice. Comments use the same shape with `parentPost`/`rootPost` set.
+// `viewerId` personalises poll state and `isOwn`, which lets authors manage their anonymous posts.
+// Removed posts keep their content for staff and the author; everyone else sees a blank.
+export const toPost = (post: PostWithRelations, viewerId?: string, canModerate = false) => {
+  const isOwn = viewerId !== undefined && viewerId === post.authorId;
+  const hidden = post.removedAt !== null && !canModerate && !isOwn;
+  return {
+    id: post.id,
+    content: hidden ? '' : post.content,
+    type: post.type,
+    title: hidden ? undefined : post.title ?? undefined,
+    link: hidden ? undefined : post.link ?? undefined,
+    imageUrl: hidden ? undefined : post.imageUrl ?? undefined,
+    pollOptions: post.type === 'poll' ? post.pollOptions.map((option) => toPollOption(post, option)) : undefined,
+    poll: post.type === 'poll' ? toPoll(post, viewerId) : undefined,
+    author: post.isAnonymous ? ANONYMOUS_AUTHOR : toUserSummary(post.author),
+    isOwn,
+    community: post.community,
+    parentPost: post.parentId ?? undefined,
+    rootPost: post.rootId ?? undefined,
+    depth: post.depth,
+    likes: post.reactions.filter((reaction) => reaction.type === 'like').map((reaction) => reaction.userId),
+    dislikes: post.reactions.filter((reaction) => reaction.type === 'dislike').map((reaction) => reaction.userId),
+    comments: post.replies.map((reply) => reply.id),
+    tags: post.tags,
+    isPinned: post.isPinned,
+    pinPosition: post.pinPosition ?? undefined,
+    isLocked: post.isLocked,
+    isAnonymous: post.isAnonymous,
+    isEdited: post.editedAt !== null,
+    isDeleted: post.deletedAt !== null,
+    isRemoved: post.removedAt !== null,
+    removalReason: hidden ? undefined : post.removalReason ?? undefined,
+    stats: {
+      viewCount: post.viewCount,
+      likeCount: post.likeCount,
+      dislikeCount: post.dislikeCount,
+      commentCount: post.commentCount,
+      shareCount: post.shareCount,
+    },
+    lastActivityAt: post.lastActivityAt,
+    createdAt: post.createdAt,
+    updatedAt: post.updatedAt,
+  };
+};
@@ -0,0 +1,59 @@
+import { User } from '@prisma/client';
+
+export interface UserStats {
+  connectionsCount: number;
+  communitiesCount: number;
+  eventsAttended: number;
+}
+
+// Shape of the `User` the frontend keeps in authSlice
+export const toAuthUser = (user: User) => ({
+  id: user.id,
+  email: user.email ?? undefined,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  walletAddress: user.walletAddress ?? undefined,
+  timeZone: user.timeZone ?? undefined,
+});
+
+// Compact author/organizer/member reference embedded in other resources. Leaves out the email, as
+// most of these are public.
+export const toUserSummary = (user: Pick<User, 'id' | 'firstName' | 'lastName'>) => ({
+  id: user.id,
+  firstName: user.firstName,
+  lastName: user.lastName,
+});
+
+// Summary with the email, only for the hosts and admins who have to reach the user
+export const toUserContact = (user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>) => ({
+  ...toUserSummary(user),
+  email: user.email ?? undefined,
+});
+
+// Shape of `UserProfile` in userSlice
+export const toUserProfile = (user: User, stats: UserStats) => ({
+  ...toAuthUser(user),
+  profile: {
+    bio: user.bio,
+    skills: user.skills,
+    interests: user.interests,
+    location: user.location,
+    website: user.website,
+    socialLinks: user.socialLinks,
+    avatar: user.avatar,
+    isVerified: user.isVerified,
+    verifiedBy: user.verifiedBy ?? undefined,
+  },
+  subscription: {
+    status: user.subscriptionStatus,
+    plan: user.subscriptionPlan,
+    stripeSubscriptionId: user.stripeSubscriptionId ?? undefined,
+    currentPeriodEnd: user.currentPeriodEnd ?? undefined,
+  },
+  stats: {
+    ...stats,
+    reputationScore: user.reputationScore,
+  },
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
@@ -0,0 +1,161 @@
+import bcrypt from 'bcryptjs';
+import { Prisma, User } from '@prisma/client';
+import { config } from '../config';
+import { userRepository } from '../repositories/userRepository';
+import { toAuthUser } from '../serializers/user';
+import { ApiError } from '../utils/ApiError';
+import { siweService } from './siweService';
+import { issueRefreshToken, revokeRefreshToken, rotateRefreshToken, signAccessToken } from './tokenService';
+
+export interface RegisterInput {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  walletAddress?: string;
+}
+
+export interface LoginInput {
+  email: string;
+  password: string;
+}
+
+// Hash of a throwaway password, compared against when the email is unknown so timing does not leak which accounts exist
+const DUMMY_PASSWORD_HASH = '$2a$12$fSgSugJb1IG1FMI0pjKceujwW/rueWZ6xrM9eC4KAwRiVvMFo3swe';
+
+const isDuplicate = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Start a new session: short-lived access token plus a refresh token in a fresh family
+const issueSession = async (user: User) => {
+  const { token: refreshToken } = await issueRefreshToken(user.id);
+  return {
+    token: signAccessToken({ id: user.id, email: user.email }),
+    refreshToken,
+    user: toAuthUser(user),
+  };
+};
+
+export const authService = {
+  async register(input: RegisterInput) {
+    const existing = await userRepository.findByEmail(input.email);
+    if (existing) {
+      throw ApiError.conflict('An account with this email already exists');
+    }
+
+    const passwordHash = await bcrypt.hash(input.password, config.bcryptRounds);
+    let user: User;
+    try {
+      user = await userRepository.create({
+        email: input.email,
+        passwordHash,
+        firstName: input.firstName,
+        lastName: input.lastName,
+        walletAddress: input.walletAddress?.toLowerCase(),
+      });
+    } catch (error) {
+      // Signed up at the same moment, or the wallet is already linked to another account
+      if (isDuplicate(error)) {
+        const target = (error as Prisma.PrismaClientKnownRequestError).meta?.target;
+        throw ApiError.conflict(
+          Array.isArray(target) && target.includes('walletAddress')
+            ? 'This wallet is already linked to another account'
+            : 'An account with this email already exists'
+        );
+      }
+      throw error;
+    }
+
+    return issueSession(user);
+  },
+
+  async login(input: LoginInput) {
+    const user = await userRepository.findByEmail(input.email);
+    // Wallet-only accounts have no password and can only sign in with their wallet
+    const isValid = await bcrypt.compare(input.password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+
+    if (!user?.passwordHash || !isValid) {
+      throw ApiError.unauthorized('Invalid email or password');
+    }
+
+    return issueSession(user);
+  },
+
+  // Sign in with a SIWE message, creating a wallet-only account the first time a wallet is seen
+  async signInWithWallet(message: string, signature: string) {
+    const walletAddress = await siweService.verify(message, signature);
+    const existing = await userRepository.findByWalletAddress(walletAddress);
+    if (existing) {
+      return issueSession(existing);
+    }
+    let user: User;
+    try {
+      user = await userRepository.create({
+        walletAddress,
+        firstName: `${walletAddress.slice(0, 6)}…${walletAddress.slice(-4)}`,
+        lastName: '',
+      });
+    } catch (error) {
+      if (!isDuplicate(error)) {
+        throw error;
+      }
+      // A sign-in from the same wallet created the account meanwhile
+      user = await userRepository.findByWalletAddress(walletAddress);
+    }
+    return issueSession(user);
+  },
+
+  async connectWallet(userId: string, message: string, signature: string) {
+    const walletAddress = await siweService.verify(message, signature);
+    const owner = await userRepository.findByWalletAddress(walletAddress);
+    if (owner && owner.id !== userId) {
+      throw ApiError.conflict('This wallet is already linked to another account');
+    }
+    let user: User;
+    try {
+      user = await userRepository.update(userId, { walletAddress });
+    } catch (error) {
+      // Another account linked it at the same moment
+      if (isDuplicate(error)) {
+        throw ApiError.conflict('This wallet is already linked to another account');
+      }
+      throw error;
+    }
+    return toAuthUser(user);
+  },
+
+  async disconnectWallet(userId: string) {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+    if (!user.passwordHash) {
+      throw ApiError.badRequest('Wallet-only accounts cannot disconnect their only sign-in method');
+    }
+    const updated = await userRepository.update(userId, { walletAddress: null });
+    return toAuthUser(updated);
+  },
+
+  async refresh(refreshToken: string) {
+    const rotated = await rotateRefreshToken(refreshToken);
+    const user = await userRepository.findById(rotated.userId);
+    if (!user) {
+      throw ApiError.unauthorized('Account no longer exists');
+    }
+    return {
+      token: signAccessToken({ id: user.id, email: user.email }),
+      refreshToken: rotated.refreshToken,
+      user: toAuthUser(user),
+    };
+  },
+
+  logout: (refreshToken?: string) => (refreshToken ? revokeRefreshToken(refreshToken) : Promise.resolve()),
+
+  async getCurrentUser(userId: string) {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+    return toAuthUser(user);
+  },
+};
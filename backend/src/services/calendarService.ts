@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { AttendeeStatus, Event, User } from '@prisma/client';
+import { config } from '../config';
+import { eventRepository } from '../repositories/eventRepository';
+import { userRepository } from '../repositories/userRepository';
+import { ApiError } from '../utils/ApiError';
+import { buildCalendar, IcsEvent } from '../utils/ical';
+import { communityService } from './communityService';
+
+// Feeds keep recently finished events so calendars don't drop them straight away
+const FEED_HISTORY_DAYS = 90;
+const FEED_LIMIT = 500;
+// Places that may still fall through
+const TENTATIVE: AttendeeStatus[] = ['held', 'waitlisted', 'pending'];
+
+const feedKey = crypto.createHash('sha256').update(`calendar:${config.jwt.secret}`).digest();
+
+// Feed links carry `<userId>.<signature>` instead of a session, as calendar apps fetch them on
+// their own. Bumping the user's calendarFeedVersion invalidates every link handed out before.
+const signFeed = (user: Pick<User, 'id' | 'calendarFeedVersion'>) =>
+  crypto.createHmac('sha256', feedKey).update(`${user.id}:${user.calendarFeedVersion}`).digest('base64url');
+
+const feedToken = (user: Pick<User, 'id' | 'calendarFeedVersion'>) => `${user.id}.${signFeed(user)}`;
+
+const resolveFeedUser = async (token: string) => {
+  const [userId, signature = ''] = token.split('.');
+  const user = userId ? await userRepository.findById(userId) : null;
+  const expected = user ? Buffer.from(signFeed(user)) : null;
+  const given = Buffer.from(signature);
+  if (!expected || expected.length !== given.length || !crypto.timingSafeEqual(expected, given)) {
+    throw ApiError.notFound('Calendar feed not found');
+  }
+  return user;
+};
+
+const feedSince = () => new Date(Date.now() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+// Cancelled events stay in feeds so calendars mark them as such; unconfirmed places are tentative
+const toIcsEvent = (event: Event, attendeeStatus?: AttendeeStatus): IcsEvent => ({
+  uid: `${event.id}@nexusverse`,
+  sequence: event.sequence,
+  start: event.startDate,
+  end: event.endDate,
+  summary: event.title,
+  description: event.description,
+  location: event.isVirtual ? 'Online' : event.location,
+  status:
+    event.status === 'cancelled' ? 'CANCELLED' : TENTATIVE.includes(attendeeStatus) ? 'TENTATIVE' : 'CONFIRMED',
+  created: event.createdAt,
+  lastModified: event.updatedAt,
+});
+
+export const calendarService = {
+  // A single event as a downloadable calendar, in its own time zone unless another is asked for
+  renderEvent: (event: Event, timeZone: string | undefined, attendeeStatus?: AttendeeStatus) =>
+    buildCalendar({
+      name: event.title,
+      timeZone: timeZone ?? event.timeZone,
+      events: [toIcsEvent(event, attendeeStatus)],
+    }),
+
+  // Paths (relative to the API root) of the user's feeds, with the community's when asked for
+  async getFeeds(userId: string, communityId?: string) {
+    const user = await userRepository.findById(userId);
+    const token = encodeURIComponent(feedToken(user));
+    if (communityId) {
+      await communityService.resolveAccess(communityId, userId);
+    }
+    return {
+      registrations: `/calendar/registrations.ics?token=${token}`,
+      community: communityId ? `/calendar/communities/${communityId}.ics?token=${token}` : undefined,
+    };
+  },
+
+  async resetFeeds(userId: string, communityId?: string) {
+    await userRepository.revokeCalendarFeeds(userId);
+    return calendarService.getFeeds(userId, communityId);
+  },
+
+  // Feeds are in the time zone asked for, else the user's preferred one
+  async registrationsFeed(token: string, timeZone?: string) {
+    const user = await resolveFeedUser(token);
+    const registrations = await eventRepository.findRegistrationsForCalendar(user.id, feedSince(), FEED_LIMIT);
+    return buildCalendar({
+      name: 'My NexusVerse events',
+      timeZone: timeZone ?? user.timeZone ?? 'UTC',
+      events: registrations.map((registration) => toIcsEvent(registration.event, registration.status)),
+    });
+  },
+
+  async communityFeed(communityId: string, token: string, timeZone?: string) {
+    const user = await resolveFeedUser(token);
+    // Leaving a private community takes its events out of the feed
+    const { community } = await communityService.resolveAccess(communityId, user.id);
+    const events = await eventRepository.findCommunityEventsForCalendar(
+      communityId,
+      user.id,
+      feedSince(),
+      FEED_LIMIT
+    );
+    return buildCalendar({
+      name: `${community.name} events`,
+      timeZone: timeZone ?? user.timeZone ?? 'UTC',
+      events: events.map((event) => toIcsEvent(event)),
+    });
+  },
+};
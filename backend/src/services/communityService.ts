@@ -0,0 +1,350 @@
+import { CommunityMember, CommunityJoinRequest, JoinRequestStatus, Prisma, User } from '@prisma/client';
+import { communityRepository } from '../repositories/communityRepository';
+import { joinRequestRepository } from '../repositories/joinRequestRepository';
+import { userRepository } from '../repositories/userRepository';
+import { toCommunity, CommunityWithStaff } from '../serializers/community';
+import { toUserContact, toUserSummary } from '../serializers/user';
+import { ApiError } from '../utils/ApiError';
+import { buildPagination, PaginationParams } from '../utils/pagination';
+import { notificationService } from './notificationService';
+
+export interface CommunitySettingsInput {
+  allowMemberInvites?: boolean;
+  requireApproval?: boolean;
+  allowAnonymousPosts?: boolean;
+  maxMembers?: number;
+  screeningQuestions?: string[];
+}
+
+export interface CommunityInput {
+  name: string;
+  description: string;
+  category: string;
+  isPrivate?: boolean;
+  rules?: string[];
+  tags?: string[];
+  avatar?: string;
+  banner?: string;
+  settings?: CommunitySettingsInput;
+}
+
+export type CommunityUpdateInput = Partial<CommunityInput>;
+
+export type JoinRequestAction = 'approve' | 'reject';
+
+export interface JoinRequestReviewResult {
+  approved: string[];
+  rejected: string[];
+  skipped: Array<{ id: string; reason: 'not_found' | 'community_full' }>;
+}
+
+export const isStaff = (membership: CommunityMember | null) =>
+  membership?.role === 'creator' || membership?.role === 'moderator';
+
+// Private communities are hidden from non-members, so they get the same 404 as a missing id
+const loadVisibleCommunity = async (id: string, viewerId?: string) => {
+  const community = await communityRepository.findById(id);
+  const membership = community && viewerId ? await communityRepository.findMembership(id, viewerId) : null;
+  if (!community || (community.isPrivate && !membership)) {
+    throw ApiError.notFound('Community not found');
+  }
+  return { community, membership };
+};
+
+const requireMembership = async (communityId: string, userId: string) => {
+  const { community, membership } = await loadVisibleCommunity(communityId, userId);
+  if (!membership) {
+    throw ApiError.forbidden('You are not a member of this community');
+  }
+  return { community, membership };
+};
+
+const requireStaff = async (communityId: string, userId: string) => {
+  const { community, membership } = await requireMembership(communityId, userId);
+  if (!isStaff(membership)) {
+    throw ApiError.forbidden('Only the creator or a moderator can manage join requests');
+  }
+  return { community, membership };
+};
+
+const serialize = (community: CommunityWithStaff, membership: CommunityMember | null, hasPendingRequest = false) =>
+  toCommunity(community, { role: membership?.role ?? null, hasPendingRequest });
+
+const toJoinRequest = (request: CommunityJoinRequest & { user: User }) => ({
+  id: request.id,
+  user: toUserContact(request.user),
+  answers: request.answers,
+  status: request.status,
+  createdAt: request.createdAt,
+  reviewedAt: request.reviewedAt,
+});
+
+// Looks up the viewer's role and pending requests for a whole page at once
+const serializeMany = async (communities: CommunityWithStaff[], viewerId?: string) => {
+  const ids = communities.map((community) => community.id);
+  const [memberships, pendingRequests] = viewerId
+    ? await Promise.all([
+        communityRepository.findMembershipsForUser(viewerId, ids),
+        joinRequestRepository.findPendingForUser(viewerId, ids),
+      ])
+    : [[], []];
+  const roles = new Map(memberships.map((membership) => [membership.communityId, membership.role]));
+  const pending = new Set(pendingRequests.map((request) => request.communityId));
+  return communities.map((community) =>
+    toCommunity(community, { role: roles.get(community.id) ?? null, hasPendingRequest: pending.has(community.id) })
+  );
+};
+
+// Settings are nested in the API shape but stored as columns
+const toCommunityData = <T extends CommunityUpdateInput>({ settings, ...data }: T) => ({
+  ...data,
+  ...(settings ?? {}),
+});
+
+export const communityService = {
+  async list(filters: { search?: string; category?: string }, pagination: PaginationParams, viewerId?: string) {
+    const { items, total } = await communityRepository.list({ ...filters, viewerId }, pagination);
+    return {
+      communities: await serializeMany(items, viewerId),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async listForUser(userId: string, pagination: PaginationParams) {
+    const { items, total } = await communityRepository.listForUser(userId, pagination);
+    return {
+      communities: await serializeMany(items, userId),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  // Used by nested resources (posts, events) that follow the community's visibility rules
+  resolveAccess: (id: string, viewerId?: string) => loadVisibleCommunity(id, viewerId),
+
+  async get(id: string, viewerId?: string) {
+    const { community, membership } = await loadVisibleCommunity(id, viewerId);
+    const request = viewerId && !membership ? await joinRequestRepository.find(id, viewerId) : null;
+    return serialize(community, membership, request?.status === 'pending');
+  },
+
+  async create(creatorId: string, input: CommunityInput) {
+    const community = await communityRepository.create(creatorId, toCommunityData(input));
+    return toCommunity(community, { role: 'creator' });
+  },
+
+  async update(id: string, userId: string, input: CommunityUpdateInput) {
+    const { community, membership } = await requireMembership(id, userId);
+    if (!isStaff(membership)) {
+      throw ApiError.forbidden('Only the creator or a moderator can edit this community');
+    }
+    // Visibility and membership settings change who can get in, so they stay with the creator
+    if (membership.role !== 'creator' && (input.settings !== undefined || input.isPrivate !== undefined)) {
+      throw ApiError.forbidden('Only the creator can change community settings');
+    }
+    const maxMembers = input.settings?.maxMembers;
+    if (maxMembers !== undefined && maxMembers < community.memberCount) {
+      throw ApiError.badRequest(`maxMembers cannot be lower than the current member count (${community.memberCount})`);
+    }
+    const updated = await communityRepository.update(id, toCommunityData(input));
+    return serialize(updated, membership);
+  },
+
+  async delete(id: string, userId: string) {
+    const { membership } = await requireMembership(id, userId);
+    if (membership.role !== 'creator') {
+      throw ApiError.forbidden('Only the creator can delete this community');
+    }
+    await communityRepository.delete(id);
+  },
+
+  // Joins immediately, or files a join request when the community requires approval.
+  // Returns the pending request in the latter case.
+  async join(id: string, userId: string, answers: string[] = []) {
+    const community = await communityRepository.findById(id);
+    if (!community) {
+      throw ApiError.notFound('Community not found');
+    }
+    if (await communityRepository.findMembership(id, userId)) {
+      throw ApiError.conflict('You are already a member of this community');
+    }
+
+    // Private communities are invite-only; the invitation is tied to the account's email
+    let invitationId: string | null = null;
+    if (community.isPrivate) {
+      const user = await userRepository.findById(userId);
+      const invitation = user?.email ? await communityRepository.findInvitation(id, user.email) : null;
+      if (!invitation) {
+        throw ApiError.notFound('Community not found');
+      }
+      invitationId = invitation.id;
+    }
+
+    // An invitation already counts as approval
+    if (community.requireApproval && !invitationId) {
+      const existing = await joinRequestRepository.find(id, userId);
+      if (existing?.status === 'pending') {
+        throw ApiError.conflict('Your join request is already pending');
+      }
+      const request = await joinRequestRepository.submit(
+        id,
+        userId,
+        community.screeningQuestions.map((question, index) => ({ question, answer: answers[index] ?? '' }))
+      );
+      return { joinRequest: request };
+    }
+
+    try {
+      const member = await communityRepository.addMember(id, userId);
+      if (!member) {
+        throw ApiError.conflict('This community has reached its member limit');
+      }
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('You are already a member of this community');
+      }
+      throw error;
+    }
+
+    if (invitationId) {
+      await communityRepository.markInvitationAccepted(invitationId);
+    }
+    return { joinRequest: null };
+  },
+
+  async withdrawJoinRequest(id: string, userId: string) {
+    if (!(await joinRequestRepository.withdraw(id, userId))) {
+      throw ApiError.notFound('No pending join request for this community');
+    }
+  },
+
+  async listJoinRequests(id: string, userId: string, status: JoinRequestStatus, pagination: PaginationParams) {
+    await requireStaff(id, userId);
+    const { items, total } = await joinRequestRepository.list(id, status, pagination);
+    return {
+      joinRequests: items.map(toJoinRequest),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  // Processes each request independently so one stale or over-capacity request doesn't fail the batch
+  async reviewJoinRequests(
+    id: string,
+    userId: string,
+    requestIds: string[],
+    action: JoinRequestAction
+  ): Promise<JoinRequestReviewResult> {
+    const { community } = await requireStaff(id, userId);
+    const requests = await joinRequestRepository.findManyPending(id, requestIds);
+    const found = new Set(requests.map((request) => request.id));
+    const result: JoinRequestReviewResult = {
+      approved: [],
+      rejected: [],
+      skipped: requestIds
+        .filter((requestId) => !found.has(requestId))
+        .map((requestId) => ({ id: requestId, reason: 'not_found' })),
+    };
+
+    for (const request of requests) {
+      if (action === 'reject') {
+        if (await joinRequestRepository.reject(request.id, userId)) {
+          result.rejected.push(request.id);
+          await notificationService.notify(request.userId, {
+            type: 'community.join_rejected',
+            title: 'Join request declined',
+            message: `Your request to join ${community.name} was declined.`,
+            data: { communityId: id },
+          });
+        } else {
+          result.skipped.push({ id: request.id, reason: 'not_found' });
+        }
+        continue;
+      }
+
+      const outcome = await joinRequestRepository.approve(request.id, userId);
+      if (outcome === 'approved') {
+        result.approved.push(request.id);
+        await notificationService.notify(request.userId, {
+          type: 'community.join_approved',
+          title: 'Join request approved',
+          message: `You are now a member of ${community.name}.`,
+          data: { communityId: id },
+        });
+      } else {
+        result.skipped.push({ id: request.id, reason: outcome === 'full' ? 'community_full' : 'not_found' });
+      }
+    }
+    return result;
+  },
+
+  async leave(id: string, userId: string) {
+    const { membership } = await requireMembership(id, userId);
+    if (membership.role === 'creator') {
+      throw ApiError.badRequest('The creator cannot leave their own community');
+    }
+    await communityRepository.removeMember(id, userId);
+  },
+
+  async listMembers(id: string, pagination: PaginationParams, viewerId?: string) {
+    await loadVisibleCommunity(id, viewerId);
+    const { items, total } = await communityRepository.listMembers(id, pagination);
+    return {
+      members: items.map((member) => ({
+        ...toUserSummary(member.user),
+        role: member.role,
+        joinedAt: member.joinedAt,
+      })),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async invite(id: string, userId: string, email: string) {
+    const { community, membership } = await requireMembership(id, userId);
+    if (!community.allowMemberInvites && !isStaff(membership)) {
+      throw ApiError.forbidden('Only the creator or a moderator can invite members');
+    }
+    const invitee = await userRepository.findByEmail(email);
+    if (invitee && (await communityRepository.findMembership(id, invitee.id))) {
+      throw ApiError.conflict('This user is already a member of the community');
+    }
+    return communityRepository.upsertInvitation(id, email, userId);
+  },
+
+  async removeMember(id: string, userId: string, memberId: string) {
+    const { membership } = await requireMembership(id, userId);
+    if (memberId === userId) {
+      throw ApiError.badRequest('Use leave to remove yourself from a community');
+    }
+    const target = await communityRepository.findMembership(id, memberId);
+    if (!target) {
+      throw ApiError.notFound('Member not found');
+    }
+    // Moderators can remove regular members; only the creator can remove a moderator
+    const allowed =
+      membership.role === 'creator' || (membership.role === 'moderator' && target.role === 'member');
+    if (!allowed) {
+      throw ApiError.forbidden('You do not have permission to remove this member');
+    }
+    await communityRepository.removeMember(id, memberId);
+  },
+
+  async setModerator(id: string, userId: string, memberId: string, isModerator: boolean) {
+    const { membership } = await requireMembership(id, userId);
+    if (membership.role !== 'creator') {
+      throw ApiError.forbidden('Only the creator can manage moderators');
+    }
+    const target = await communityRepository.findMembership(id, memberId);
+    if (!target) {
+      throw ApiError.notFound('Member not found');
+    }
+    if (target.role === 'creator') {
+      throw ApiError.badRequest("The creator's role cannot be changed");
+    }
+    const role = isModerator ? 'moderator' : 'member';
+    if (target.role === role) {
+      throw ApiError.conflict(isModerator ? 'Member is already a moderator' : 'Member is not a moderator');
+    }
+    await communityRepository.setMemberRole(id, memberId, role);
+    const community = await communityRepository.findById(id);
+    return serialize(community, membership);
+  },
+};
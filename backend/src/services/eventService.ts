@@ -0,0 +1,1526 @@
+import {
+  AttendeeStatus,
+  DiscountType,
+  Event,
+  EventAttendee,
+  EventHostRole,
+  EventSeries,
+  EventStatus,
+  EventTicketType,
+  EventVisibility,
+  Prisma,
+  User,
+} from '@prisma/client';
+import { config } from '../config';
+import { recheckEventRoom } from '../lib/socket';
+import { communityRepository } from '../repositories/communityRepository';
+import { eventHostRepository } from '../repositories/eventHostRepository';
+import { eventRepository, EventFilters, Promotion } from '../repositories/eventRepository';
+import { eventSeriesRepository, OccurrenceData } from '../repositories/eventSeriesRepository';
+import { promoCodeRepository } from '../repositories/promoCodeRepository';
+import { ticketTypeRepository } from '../repositories/ticketTypeRepository';
+import { userRepository } from '../repositories/userRepository';
+import {
+  EventWithRelations,
+  HostRole,
+  hostRoleOf,
+  joinOpensAt,
+  toEvent,
+  toEventSeries,
+  toPromoCode,
+  toTicketType,
+} from '../serializers/event';
+import { toUserContact, toUserSummary } from '../serializers/user';
+import { ApiError } from '../utils/ApiError';
+import { applyDiscount } from '../utils/discount';
+import { buildPagination, PaginationParams } from '../utils/pagination';
+import { expandRRule, parseRRule, RRuleError } from '../utils/rrule';
+import { addWallClock, toWallClock } from '../utils/timeZone';
+import { calendarService } from './calendarService';
+import { communityService } from './communityService';
+import { liveService, PollInput } from './liveService';
+import { networkingService } from './networkingService';
+import { notificationService } from './notificationService';
+import { joinTokenAttendeeId, signJoinToken, verifyJoinToken } from './joinLinkService';
+import { formatAmount, paymentService } from './paymentService';
+import { reminderService } from './reminderService';
+import { SessionInput, SpeakerInput, speakerService } from './speakerService';
+import { SurveyAnswer, SurveyQuestion, surveyService } from './surveyService';
+import { signTicket, verifyTicket } from './ticketService';
+
+export interface EventSettingsInput {
+  allowWaitlist?: boolean;
+  requireApproval?: boolean;
+  allowCancellations?: boolean;
+  sendReminders?: boolean;
+  // Minutes before the start
+  reminderOffsets?: number[];
+  applicationQuestions?: string[];
+}
+
+export interface EventInput {
+  title: string;
+  description: string;
+  startDate: Date;
+  endDate: Date;
+  // IANA zone the event is held in; the organizer's preferred zone when left out
+  timeZone?: string;
+  location?: string;
+  category: string;
+  capacity: number;
+  maxAttendees?: number | null;
+  ticketPrice?: number;
+  isVirtual?: boolean;
+  meetingLink?: string | null;
+  tags?: string[];
+  communityId?: string;
+  status?: EventStatus;
+  visibility?: EventVisibility;
+  registrationDeadline?: Date | null;
+  settings?: EventSettingsInput;
+  // Makes the event the first occurrence of a recurring series
+  recurrence?: { rrule: string };
+}
+
+export type EventUpdateInput = Partial<Omit<EventInput, 'communityId' | 'recurrence'>>;
+
+export interface TicketTypeInput {
+  name: string;
+  description?: string;
+  // In currency units, like ticketPrice
+  price: number;
+  quantity?: number | null;
+  salesStart?: Date | null;
+  salesEnd?: Date | null;
+}
+
+export interface PromoCodeInput {
+  code: string;
+  discountType: DiscountType;
+  // Percent off, or currency units off for fixed discounts
+  discountValue: number;
+  maxRedemptions?: number | null;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  // Limits the code to members of this community
+  communityId?: string | null;
+}
+
+// Whether a change to an occurrence applies to it alone or to it and the rest of its series
+export type SeriesScope = 'occurrence' | 'series';
+
+// What hosts may do beyond viewing the event: edit it and what belongs to it, or check people in
+export type HostPermission = 'edit' | 'checkin';
+
+export interface OccurrenceRange {
+  from?: Date;
+  to?: Date;
+}
+
+export type ApplicationAction = 'approve' | 'reject';
+
+export interface ApplicationReviewResult {
+  approved: string[];
+  rejected: string[];
+  skipped: Array<{ id: string; reason: 'not_found' | 'event_full' | 'sold_out' | 'code_used_up' }>;
+}
+
+// Drafts are the organizer's alone, community events need membership and private events are
+// unlisted but reachable by link. Hidden events get the same 404 as a missing id.
+const loadVisibleEvent = async (id: string, viewerId?: string) => {
+  const event = await eventRepository.findById(id);
+  if (!event) {
+    throw ApiError.notFound('Event not found');
+  }
+  if (hostRoleOf(event, viewerId)) {
+    return event;
+  }
+  if (event.status === 'draft') {
+    throw ApiError.notFound('Event not found');
+  }
+  if (event.visibility === 'community' && event.communityId) {
+    const membership = viewerId ? await communityRepository.findMembership(event.communityId, viewerId) : null;
+    if (!membership) {
+      throw ApiError.notFound('Event not found');
+    }
+  }
+  return event;
+};
+
+const requireOrganizer = async (id: string, userId: string) => {
+  const event = await loadVisibleEvent(id, userId);
+  if (event.organizerId !== userId) {
+    throw ApiError.forbidden('Only the organizer can manage this event');
+  }
+  return event;
+};
+
+const HOST_PERMISSIONS: Record<HostRole, HostPermission[]> = {
+  organizer: ['edit', 'checkin'],
+  cohost: ['edit', 'checkin'],
+  checkin: ['checkin'],
+};
+
+const canHost = (event: EventWithRelations, userId: string, permission: HostPermission) => {
+  const role = hostRoleOf(event, userId);
+  return Boolean(role && HOST_PERMISSIONS[role].includes(permission));
+};
+
+// The organizer, or a co-host whose role allows `permission`
+const requireHost = async (id: string, userId: string, permission: HostPermission) => {
+  const event = await loadVisibleEvent(id, userId);
+  if (!canHost(event, userId, permission)) {
+    throw ApiError.forbidden(
+      permission === 'edit' ? 'Only the organizer and co-hosts can manage this event' : 'Only hosts can check people in'
+    );
+  }
+  return event;
+};
+
+// Hosts and registered attendees take part in the live Q&A and polls
+const requireParticipant = async (id: string, userId: string) => {
+  const event = await loadVisibleEvent(id, userId);
+  if (!hostRoleOf(event, userId)) {
+    const attendee = await eventRepository.findAttendee(id, userId);
+    if (attendee?.status !== 'registered') {
+      throw ApiError.forbidden('Only registered attendees can take part in the Q&A and polls');
+    }
+  }
+  return event;
+};
+
+// Checks the schedule and limits as they will be after applying `input` to `current`
+const assertConsistent = (input: EventUpdateInput, current?: EventWithRelations) => {
+  const startDate = input.startDate ?? current?.startDate;
+  const endDate = input.endDate ?? current?.endDate;
+  const capacity = input.capacity ?? current?.capacity;
+  const maxAttendees = input.maxAttendees !== undefined ? input.maxAttendees : current?.maxAttendees;
+  const deadline =
+    input.registrationDeadline !== undefined ? input.registrationDeadline : current?.registrationDeadline;
+
+  if (startDate && endDate && endDate <= startDate) {
+    throw ApiError.badRequest('The event must end after it starts');
+  }
+  if (deadline && startDate && deadline > startDate) {
+    throw ApiError.badRequest('Registration must close before the event starts');
+  }
+  if (maxAttendees && capacity && maxAttendees < capacity) {
+    throw ApiError.badRequest('maxAttendees cannot be lower than capacity');
+  }
+  if (current && input.capacity !== undefined && input.capacity < current.currentAttendees) {
+    throw ApiError.badRequest(`${current.currentAttendees} people are already registered`);
+  }
+};
+
+// Settings are nested and the price is in currency units in the API shape, but stored as columns
+const toEventData = <T extends EventUpdateInput>({ settings, ticketPrice, ...data }: T) => ({
+  ...data,
+  ...(settings ?? {}),
+  ...(ticketPrice !== undefined ? { ticketPriceCents: Math.round(ticketPrice * 100) } : {}),
+});
+
+// Prices come in currency units and are stored in cents, as for events
+const toTicketTypeData = ({ price, ...data }: Partial<TicketTypeInput>) => ({
+  ...data,
+  ...(price !== undefined ? { priceCents: Math.round(price * 100) } : {}),
+});
+
+const assertSalesWindow = (salesStart?: Date | null, salesEnd?: Date | null) => {
+  if (salesStart && salesEnd && salesEnd <= salesStart) {
+    throw ApiError.badRequest('Sales must end after they start');
+  }
+};
+
+// Codes are stored upper-case; fixed discounts are stored in cents, like prices
+const toPromoCodeData = ({ code, discountValue, ...data }: Partial<PromoCodeInput>, discountType: DiscountType) => ({
+  ...data,
+  ...(code !== undefined ? { code: code.toUpperCase() } : {}),
+  ...(discountValue !== undefined
+    ? { discountValue: discountType === 'fixed' ? Math.round(discountValue * 100) : Math.round(discountValue) }
+    : {}),
+});
+
+const assertPromoCode = (
+  discountType: DiscountType,
+  discountValue: number,
+  validFrom?: Date | null,
+  validUntil?: Date | null
+) => {
+  if (discountType === 'percentage' && discountValue > 100) {
+    throw ApiError.badRequest('Percentage discounts cannot be more than 100');
+  }
+  if (validFrom && validUntil && validUntil <= validFrom) {
+    throw ApiError.badRequest('Promo codes must expire after they become valid');
+  }
+};
+
+const assertCommunityExists = async (communityId?: string | null) => {
+  if (communityId && !(await communityRepository.findById(communityId))) {
+    throw ApiError.notFound('Community not found');
+  }
+};
+
+const findPromoCode = async (eventId: string, promoCodeId: string) => {
+  const promoCode = await promoCodeRepository.findById(promoCodeId);
+  if (promoCode?.eventId !== eventId) {
+    throw ApiError.notFound('Promo code not found');
+  }
+  return promoCode;
+};
+
+const findTicketType = (event: EventWithRelations, ticketTypeId: string) => {
+  const ticketType = event.ticketTypes.find((candidate) => candidate.id === ticketTypeId);
+  if (!ticketType) {
+    throw ApiError.notFound('Ticket type not found');
+  }
+  return ticketType;
+};
+
+// Looks up the viewer's registrations for a whole page at once
+const serializeMany = async (events: EventWithRelations[], viewerId?: string) => {
+  const ids = events.map((event) => event.id);
+  const attendees = viewerId ? await eventRepository.findAttendeesForUser(viewerId, ids) : [];
+  const byEvent = new Map(attendees.map((attendee) => [attendee.eventId, attendee]));
+  return events.map((event) => {
+    const attendee = byEvent.get(event.id);
+    return toEvent(event, {
+      status: attendee?.status,
+      holdExpiresAt: attendee?.holdExpiresAt,
+      hostRole: hostRoleOf(event, viewerId),
+    });
+  });
+};
+
+const serialize = async (event: EventWithRelations, viewerId?: string) => {
+  const attendee = viewerId ? await eventRepository.findAttendee(event.id, viewerId) : null;
+  const waitlistPosition =
+    attendee?.status === 'waitlisted'
+      ? await eventRepository.waitlistPosition(event.id, attendee.registeredAt)
+      : undefined;
+  return toEvent(event, {
+    status: attendee?.status,
+    waitlistPosition,
+    holdExpiresAt: attendee?.holdExpiresAt,
+    hostRole: hostRoleOf(event, viewerId),
+  });
+};
+
+const isPaid = (event: Pick<EventWithRelations, 'ticketPriceCents' | 'ticketTypes'>) =>
+  event.ticketPriceCents > 0 || event.ticketTypes.some((ticketType) => ticketType.priceCents > 0);
+
+// Paid tickets only hold the seat until payment completes
+const holdUntilFor = (event: Pick<EventWithRelations, 'ticketPriceCents' | 'ticketTypes'>) =>
+  isPaid(event) ? new Date(Date.now() + config.events.holdMinutes * 60 * 1000) : null;
+
+const notifyPromoted = async (event: EventWithRelations, promoted: Promotion[]) => {
+  const messages: Partial<Record<AttendeeStatus, string>> = {
+    held: `A seat opened up at ${event.title} and is held for you for ${config.events.holdMinutes} minutes`,
+    registered: `A seat opened up at ${event.title} and you are now registered`,
+  };
+  for (const [status, message] of Object.entries(messages)) {
+    const userIds = promoted.filter((promotion) => promotion.status === status).map((promotion) => promotion.userId);
+    if (userIds.length > 0) {
+      await notificationService.notifyMany(userIds, {
+        type: 'event.waitlist_promoted',
+        title: 'You got a seat',
+        message,
+        data: { eventId: event.id },
+      });
+    }
+  }
+};
+
+// The ticket type a registration is for. Events with ticket types need one that is on sale;
+// events without them sell at their own price.
+const resolveTicketType = (event: EventWithRelations, ticketTypeId?: string) => {
+  if (event.ticketTypes.length === 0) {
+    if (ticketTypeId) {
+      throw ApiError.badRequest('This event has no ticket types');
+    }
+    return null;
+  }
+  const ticketType = event.ticketTypes.find((candidate) => candidate.id === ticketTypeId);
+  if (!ticketType) {
+    throw ApiError.badRequest(ticketTypeId ? 'Ticket type not found' : 'Choose a ticket type');
+  }
+  const now = new Date();
+  if ((ticketType.salesStart && ticketType.salesStart > now) || (ticketType.salesEnd && ticketType.salesEnd < now)) {
+    throw ApiError.badRequest(`${ticketType.name} tickets are not on sale`);
+  }
+  return ticketType;
+};
+
+// The promo code a registration is discounted with. The redemption limit is checked again as the
+// place is taken, so registrations landing together can't use a code past it.
+const resolvePromoCode = async (
+  event: EventWithRelations,
+  userId: string,
+  code: string | undefined,
+  ticketType: EventTicketType | null
+) => {
+  if (!code) {
+    return null;
+  }
+  const promoCode = await promoCodeRepository.findByCode(event.id, code);
+  if (!promoCode) {
+    throw ApiError.badRequest('This promo code is not valid for this event');
+  }
+  const now = new Date();
+  if (promoCode.validFrom && promoCode.validFrom > now) {
+    throw ApiError.badRequest('This promo code is not valid yet');
+  }
+  if (promoCode.validUntil && promoCode.validUntil < now) {
+    throw ApiError.badRequest('This promo code has expired');
+  }
+  if (promoCode.maxRedemptions !== null && promoCode.redemptions >= promoCode.maxRedemptions) {
+    throw ApiError.badRequest('This promo code has been used up');
+  }
+  if (promoCode.communityId && !(await communityRepository.findMembership(promoCode.communityId, userId))) {
+    throw ApiError.forbidden('This promo code is only for members of a partner community');
+  }
+  if ((ticketType ? ticketType.priceCents : event.ticketPriceCents) === 0) {
+    throw ApiError.badRequest('Promo codes only apply to paid tickets');
+  }
+  return promoCode;
+};
+
+// Virtual events share their meeting link from joinOpensAt until they end
+const assertJoinable = (event: EventWithRelations) => {
+  if (!event.isVirtual || !event.meetingLink) {
+    throw ApiError.badRequest('This event has no meeting link');
+  }
+  if (event.status !== 'published') {
+    throw ApiError.badRequest('This event is not taking place');
+  }
+  const now = new Date();
+  if (now < joinOpensAt(event)) {
+    throw ApiError.badRequest(
+      `The meeting link is shared ${config.events.meetingLinkLeadMinutes} minutes before the event starts`
+    );
+  }
+  if (now >= event.endDate) {
+    throw ApiError.badRequest('This event has ended');
+  }
+};
+
+const releaseExpiredHolds = async (event: EventWithRelations) => {
+  const promoted = await eventRepository.releaseExpiredHolds(event.id, holdUntilFor(event));
+  if (promoted.length > 0) {
+    await notifyPromoted(event, promoted);
+  }
+};
+
+const toApplication = (attendee: EventAttendee & { user: User }) => ({
+  id: attendee.id,
+  user: toUserContact(attendee.user),
+  answers: attendee.answers,
+  status: attendee.status,
+  createdAt: attendee.registeredAt,
+  reviewedAt: attendee.reviewedAt,
+});
+
+const approvalMessages: Partial<Record<AttendeeStatus, (title: string) => string>> = {
+  registered: (title) => `You're registered for ${title}.`,
+  waitlisted: (title) => `You're on the waitlist for ${title}. We'll let you know if a seat opens up.`,
+  held: (title) =>
+    `A seat at ${title} is held for you for ${config.events.holdMinutes} minutes. Complete payment to keep it.`,
+};
+
+type AttendeeWithUser = NonNullable<Awaited<ReturnType<typeof eventRepository.findAttendeeById>>>;
+
+const alreadyCheckedIn = ({ user, checkedInAt }: AttendeeWithUser) =>
+  ApiError.conflict(`${user.firstName} ${user.lastName} already checked in at ${checkedInAt.toISOString()}`);
+
+// Marks a confirmed attendee as arrived, refusing anyone already through the door
+const admit = async (event: EventWithRelations, attendee: AttendeeWithUser) => {
+  if (event.status === 'cancelled') {
+    throw ApiError.badRequest('This event has been cancelled');
+  }
+  if (attendee.status !== 'registered') {
+    throw ApiError.badRequest('This person does not have a confirmed registration');
+  }
+  if (attendee.checkedInAt) {
+    throw alreadyCheckedIn(attendee);
+  }
+  const result = await eventRepository.checkIn(attendee.id);
+  if (!result) {
+    // Scanned at another door at the same moment
+    throw alreadyCheckedIn(await eventRepository.findAttendeeById(attendee.id));
+  }
+  return {
+    attendee: { ...toUserSummary(attendee.user), checkedInAt: result.checkedInAt },
+    checkedIn: result.checkInCount,
+    registered: result.currentAttendees,
+  };
+};
+
+// Applies an already validated update to one event. Attendees hear about a cancellation and get the
+// feedback survey on completion, and extra seats let people in from the waitlist straight away.
+const applyUpdate = async (current: EventWithRelations, data: Prisma.EventUncheckedUpdateInput) => {
+  const event = await eventRepository.update(current.id, data);
+
+  if (event.status === 'cancelled') {
+    if (current.status !== 'cancelled') {
+      await notificationService.notifyMany(await eventRepository.findActiveAttendeeIds(event.id), {
+        type: 'event.cancelled',
+        title: 'Event cancelled',
+        message: `${event.title} has been cancelled by the organizer`,
+        data: { eventId: event.id },
+      });
+    }
+    return event;
+  }
+
+  if (event.status === 'completed' && current.status !== 'completed') {
+    await surveyService.send(event);
+  }
+
+  if (event.currentAttendees < event.capacity) {
+    const promoted = await eventRepository.promoteWaitlist(event.id, holdUntilFor(event));
+    if (promoted.length > 0) {
+      await notifyPromoted(event, promoted);
+      return eventRepository.findById(event.id);
+    }
+  }
+  return event;
+};
+
+// File names for downloads, e.g. "team-offsite-2025"
+const fileName = (event: Pick<Event, 'title'>) =>
+  event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Furthest ahead occurrences can be listed (and so created) on request
+const MAX_OCCURRENCE_LOOKAHEAD_DAYS = 366;
+
+// Occurrences are created this far past `from`, or past today when `from` has gone by
+const seriesHorizon = (from: Date) =>
+  new Date(Math.max(from.getTime(), Date.now()) + config.events.seriesHorizonDays * DAY_MS);
+
+const parseRecurrence = (rrule: string) => {
+  try {
+    return parseRRule(rrule);
+  } catch (error) {
+    if (error instanceof RRuleError) {
+      throw ApiError.badRequest(`Invalid recurrence rule: ${error.message}`);
+    }
+    throw error;
+  }
+};
+
+// What copies of an event take over from it; the schedule, status and counters are their own
+const copyableFields = (source: Event) => ({
+  title: source.title,
+  description: source.description,
+  timeZone: source.timeZone,
+  location: source.location,
+  category: source.category,
+  maxAttendees: source.maxAttendees,
+  ticketPriceCents: source.ticketPriceCents,
+  isVirtual: source.isVirtual,
+  meetingLink: source.meetingLink,
+  tags: source.tags,
+  communityId: source.communityId,
+  visibility: source.visibility,
+  capacity: source.capacity,
+  allowWaitlist: source.allowWaitlist,
+  requireApproval: source.requireApproval,
+  allowCancellations: source.allowCancellations,
+  sendReminders: source.sendReminders,
+  reminderOffsets: source.reminderOffsets,
+  applicationQuestions: source.applicationQuestions,
+});
+
+type OccurrenceBase = Omit<OccurrenceData, 'startDate' | 'endDate' | 'registrationDeadline' | 'occurrenceDate'>;
+
+// One event per date, each with the duration and registration lead time of `schedule`. Both are
+// measured on the local clock, so a multi-day event ends at the same local time across DST changes.
+const toOccurrences = (
+  base: OccurrenceBase,
+  dates: Date[],
+  schedule: { startDate: Date; endDate: Date; registrationDeadline?: Date | null }
+): OccurrenceData[] => {
+  const timeZone = base.timeZone ?? 'UTC';
+  const start = toWallClock(schedule.startDate, timeZone).getTime();
+  const duration = toWallClock(schedule.endDate, timeZone).getTime() - start;
+  const lead = schedule.registrationDeadline
+    ? start - toWallClock(schedule.registrationDeadline, timeZone).getTime()
+    : null;
+  return dates.map((date) => ({
+    ...base,
+    occurrenceDate: date,
+    startDate: date,
+    endDate: addWallClock(date, duration, timeZone),
+    registrationDeadline: lead !== null ? addWallClock(date, -lead, timeZone) : null,
+  }));
+};
+
+// Paid, ticketed and approval-only occurrences need a decision each time, so they can't be joined
+// as a series. Occurrences are created without ticket types.
+const acceptsSeriesRegistration = (
+  event: Pick<Event, 'ticketPriceCents' | 'requireApproval'> & { ticketTypes?: EventTicketType[] }
+) => event.ticketPriceCents === 0 && !event.requireApproval && !event.ticketTypes?.length;
+
+// Registers a series subscriber for one occurrence. Returns null when they already have a place.
+const registerSubscriber = async (event: Event, userId: string) => {
+  try {
+    return await eventRepository.register(event.id, userId, { allowWaitlist: event.allowWaitlist, holdUntil: null });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && ['P2002', 'P2025'].includes(error.code)) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+// Creates the series' occurrences starting before `until` from its latest unedited occurrence, and
+// registers subscribers for them
+const extendSeries = async (series: EventSeries, until: Date) => {
+  if (series.cancelledAt || series.materializedUntil >= until) {
+    return;
+  }
+  const template = await eventSeriesRepository.findTemplate(series.id);
+  if (!template) {
+    return;
+  }
+  const dates = expandRRule(parseRRule(series.rrule), series.startDate, {
+    before: until,
+    timeZone: series.timeZone,
+  }).filter(
+    (date) => date >= series.materializedUntil
+  );
+  const base: OccurrenceBase = {
+    ...copyableFields(template),
+    organizerId: template.organizerId,
+    status: template.status === 'draft' ? 'draft' : 'published',
+  };
+  const eventIds = await eventSeriesRepository.extend(series.id, toOccurrences(base, dates, template), until);
+
+  if (eventIds.length === 0 || base.status !== 'published' || !acceptsSeriesRegistration(template)) {
+    return;
+  }
+  const subscriberIds = await eventSeriesRepository.findSubscriberIds(series.id);
+  for (const eventId of eventIds) {
+    const event = await eventRepository.findById(eventId);
+    for (const userId of subscriberIds) {
+      await registerSubscriber(event, userId);
+    }
+  }
+};
+
+// A series is visible to whoever can see its latest unedited occurrence
+const loadVisibleSeries = async (seriesId: string, viewerId?: string) => {
+  const series = await eventSeriesRepository.findById(seriesId);
+  const template = series ? await eventSeriesRepository.findTemplate(seriesId) : null;
+  if (!template) {
+    throw ApiError.notFound('Event series not found');
+  }
+  await loadVisibleEvent(template.id, viewerId);
+  return series;
+};
+
+export const eventService = {
+  async list(filters: Omit<EventFilters, 'viewerId'>, pagination: PaginationParams, viewerId?: string) {
+    const { items, total } = await eventRepository.list({ ...filters, viewerId }, pagination);
+    return {
+      events: await serializeMany(items, viewerId),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async listOrganized(userId: string, pagination: PaginationParams) {
+    const { items, total } = await eventRepository.listByOrganizer(userId, pagination);
+    return {
+      events: await serializeMany(items, userId),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async listRegistrations(userId: string, pagination: PaginationParams) {
+    const { items, total } = await eventRepository.listRegistrations(userId, pagination);
+    return {
+      events: items.map((attendee) =>
+        toEvent(attendee.event, {
+          status: attendee.status,
+          holdExpiresAt: attendee.holdExpiresAt,
+          hostRole: hostRoleOf(attendee.event, userId),
+        })
+      ),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async get(id: string, viewerId?: string) {
+    const event = await loadVisibleEvent(id, viewerId);
+    if (event.organizerId !== viewerId) {
+      await eventRepository.incrementViews(id);
+    }
+    return serialize(event, viewerId);
+  },
+
+  // The event as an .ics download; the viewer's unconfirmed place shows as tentative
+  async getCalendar(id: string, timeZone: string | undefined, viewerId?: string) {
+    const event = await loadVisibleEvent(id, viewerId);
+    const attendee = viewerId ? await eventRepository.findAttendee(id, viewerId) : null;
+    return {
+      filename: `${fileName(event)}.ics`,
+      calendar: calendarService.renderEvent(event, timeZone, attendee?.status),
+    };
+  },
+
+  async create(organizerId: string, { communityId, recurrence, ...input }: EventInput) {
+    if (communityId) {
+      const { membership } = await communityService.resolveAccess(communityId, organizerId);
+      if (!membership) {
+        throw ApiError.forbidden('Only members can create events in this community');
+      }
+    } else if (input.visibility === 'community') {
+      throw ApiError.badRequest('Community-only events need a community');
+    }
+    assertConsistent(input);
+    const timeZone = input.timeZone ?? (await userRepository.findById(organizerId))?.timeZone ?? 'UTC';
+
+    if (recurrence) {
+      const { startDate, endDate, registrationDeadline, ...fields } = input;
+      const rrule = recurrence.rrule.trim();
+      const until = seriesHorizon(startDate);
+      const dates = expandRRule(parseRecurrence(rrule), startDate, { before: until, timeZone });
+      const first = await eventSeriesRepository.create(
+        { organizerId, rrule, startDate, endDate, timeZone, materializedUntil: until },
+        toOccurrences({ ...toEventData(fields), timeZone, organizerId, communityId }, dates, {
+          startDate,
+          endDate,
+          registrationDeadline,
+        })
+      );
+      return toEvent(first, { hostRole: 'organizer' });
+    }
+
+    const event = await eventRepository.create({ ...toEventData(input), timeZone, organizerId, communityId });
+    return toEvent(event, { hostRole: 'organizer' });
+  },
+
+  // Occurrence edits mark it as edited on its own. Series edits apply to this occurrence and the
+  // unedited ones after it, as well as to those created later; cancelling ends the series.
+  async update(id: string, userId: string, input: EventUpdateInput, scope: SeriesScope = 'occurrence') {
+    const current = await requireHost(id, userId, 'edit');
+    if (input.visibility === 'community' && !current.communityId) {
+      throw ApiError.badRequest('Community-only events need a community');
+    }
+
+    if (scope === 'occurrence') {
+      assertConsistent(input, current);
+      const data = { ...toEventData(input), ...(current.seriesId ? { isOverride: true } : {}) };
+      return serialize(await applyUpdate(current, data), userId);
+    }
+
+    if (!current.seriesId) {
+      throw ApiError.badRequest('This event is not part of a series');
+    }
+    // Hosts are per occurrence, so only the organizer edits the whole series
+    if (current.organizerId !== userId) {
+      throw ApiError.forbidden('Only the organizer can edit the whole series');
+    }
+    if (input.startDate || input.endDate || input.registrationDeadline !== undefined || input.timeZone) {
+      throw ApiError.badRequest('Dates and the time zone can only be changed for a single occurrence');
+    }
+    const following = await eventSeriesRepository.findUpcoming(current.seriesId, {
+      from: current.occurrenceDate,
+      includeOverrides: false,
+    });
+    const targets = [current, ...following.filter((event) => event.id !== current.id)];
+    // Nothing is changed unless the edit fits every occurrence
+    targets.forEach((target) => assertConsistent(input, target));
+    for (const target of targets) {
+      await applyUpdate(target, toEventData(input));
+    }
+    if (input.status === 'cancelled') {
+      await eventSeriesRepository.cancel(current.seriesId);
+    }
+    return serialize(await eventRepository.findById(id), userId);
+  },
+
+  async delete(id: string, userId: string) {
+    const event = await requireOrganizer(id, userId);
+    if (event.seriesId) {
+      throw ApiError.badRequest('Cancel this occurrence instead, or delete the whole series');
+    }
+    await eventRepository.delete(id);
+  },
+
+  // Copies the event, with its ticket types, as a new draft with no attendees
+  async duplicate(id: string, userId: string) {
+    const source = await requireOrganizer(id, userId);
+    const event = await eventRepository.create({
+      ...copyableFields(source),
+      title: `${source.title} (copy)`,
+      startDate: source.startDate,
+      endDate: source.endDate,
+      registrationDeadline: source.registrationDeadline,
+      organizerId: userId,
+      status: 'draft',
+    });
+    if (source.ticketTypes.length > 0) {
+      await ticketTypeRepository.copy(source.id, event.id);
+      return toEvent(await eventRepository.findById(event.id), { hostRole: 'organizer' });
+    }
+    return toEvent(event, { hostRole: 'organizer' });
+  },
+
+  // Seats the user straight away, or files an application when the event requires approval. Events
+  // with ticket types need one picked; paid places are held until checkout completes.
+  async register(id: string, userId: string, answers: string[] = [], ticketTypeId?: string, promoCode?: string) {
+    const event = await loadVisibleEvent(id, userId);
+    if (event.status !== 'published') {
+      throw ApiError.badRequest('This event is not open for registration');
+    }
+    const now = new Date();
+    if (event.startDate <= now) {
+      throw ApiError.badRequest('This event has already started');
+    }
+    if (event.registrationDeadline && event.registrationDeadline < now) {
+      throw ApiError.badRequest('Registration for this event has closed');
+    }
+    const existing = await eventRepository.findAttendee(id, userId);
+    if (existing?.status === 'rejected') {
+      throw ApiError.forbidden('Your registration for this event was declined');
+    }
+    if (existing?.status === 'pending') {
+      throw ApiError.conflict('Your registration is already awaiting approval');
+    }
+    const ticketType = resolveTicketType(event, ticketTypeId);
+    const discount = await resolvePromoCode(event, userId, promoCode, ticketType);
+
+    let outcome: AttendeeStatus | 'full' | 'sold_out' | 'code_used_up';
+    try {
+      if (event.requireApproval) {
+        await eventRepository.apply(
+          id,
+          userId,
+          event.applicationQuestions.map((question, index) => ({ question, answer: answers[index] ?? '' })),
+          { ticketTypeId: ticketType?.id, promoCodeId: discount?.id }
+        );
+        outcome = 'pending';
+      } else {
+        // Lapsed holds go back to the pool (and the waitlist) before anyone new is seated
+        await releaseExpiredHolds(event);
+        outcome = await eventRepository.register(id, userId, {
+          allowWaitlist: event.allowWaitlist,
+          holdUntil: holdUntilFor(event),
+          ticketTypeId: ticketType?.id,
+          promoCodeId: discount?.id,
+        });
+      }
+    } catch (error) {
+      // Unique index (new registration) or status guard (re-registration) lost a race
+      if (error instanceof Prisma.PrismaClientKnownRequestError && ['P2002', 'P2025'].includes(error.code)) {
+        throw ApiError.conflict('You are already registered for this event');
+      }
+      throw error;
+    }
+    if (outcome === 'full') {
+      throw ApiError.conflict(event.allowWaitlist ? 'This event and its waitlist are full' : 'This event is full');
+    }
+    if (outcome === 'sold_out') {
+      throw ApiError.conflict(`${ticketType.name} tickets are sold out`);
+    }
+    if (outcome === 'code_used_up') {
+      throw ApiError.conflict('This promo code has been used up');
+    }
+    if (outcome === 'pending') {
+      await notificationService.notify(event.organizerId, {
+        type: 'event.registration_pending',
+        title: 'New registration to review',
+        message: `Someone applied to attend ${event.title}`,
+        data: { eventId: id },
+      });
+    }
+    return { status: outcome, event: await serialize(await eventRepository.findById(id), userId) };
+  },
+
+  async listApplications(id: string, userId: string, status: AttendeeStatus, pagination: PaginationParams) {
+    await requireHost(id, userId, 'edit');
+    const { items, total } = await eventRepository.listApplications(id, status, pagination);
+    return {
+      applications: items.map(toApplication),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  // Reviews each application on its own, so one stale application or a full event doesn't fail
+  // the batch. Approved attendees are seated, waitlisted or held like a direct registration.
+  async reviewApplications(
+    id: string,
+    userId: string,
+    applicationIds: string[],
+    action: ApplicationAction
+  ): Promise<ApplicationReviewResult> {
+    const event = await requireHost(id, userId, 'edit');
+    const applications = await eventRepository.findManyPending(id, applicationIds);
+    const found = new Set(applications.map((application) => application.id));
+    const result: ApplicationReviewResult = {
+      approved: [],
+      rejected: [],
+      skipped: applicationIds
+        .filter((applicationId) => !found.has(applicationId))
+        .map((applicationId) => ({ id: applicationId, reason: 'not_found' })),
+    };
+
+    if (action === 'approve') {
+      await releaseExpiredHolds(event);
+    }
+    for (const application of applications) {
+      if (action === 'reject') {
+        if (await eventRepository.reject(application.id, userId)) {
+          result.rejected.push(application.id);
+          await notificationService.notify(application.userId, {
+            type: 'event.registration_rejected',
+            title: 'Registration declined',
+            message: `Your registration for ${event.title} was declined.`,
+            data: { eventId: id },
+          });
+        } else {
+          result.skipped.push({ id: application.id, reason: 'not_found' });
+        }
+        continue;
+      }
+
+      const { outcome, status } = await eventRepository.approve(application.id, userId, {
+        allowWaitlist: event.allowWaitlist,
+        holdUntil: holdUntilFor(event),
+      });
+      if (outcome === 'approved') {
+        result.approved.push(application.id);
+        await notificationService.notify(application.userId, {
+          type: 'event.registration_approved',
+          title: 'Registration approved',
+          message: approvalMessages[status](event.title),
+          data: { eventId: id, status },
+        });
+      } else {
+        const reasons = {
+          full: 'event_full',
+          sold_out: 'sold_out',
+          code_used_up: 'code_used_up',
+          not_found: 'not_found',
+        } as const;
+        result.skipped.push({ id: application.id, reason: reasons[outcome] });
+      }
+    }
+    return result;
+  },
+
+  async cancelRegistration(id: string, userId: string) {
+    const event = await loadVisibleEvent(id, userId);
+    // Unpaid holds and applications can always be given up
+    const attendee = await eventRepository.findAttendee(id, userId);
+    if (!event.allowCancellations && attendee?.status !== 'held' && attendee?.status !== 'pending') {
+      throw ApiError.forbidden('Registrations for this event cannot be cancelled');
+    }
+    if (event.startDate <= new Date()) {
+      throw ApiError.badRequest('This event has already started');
+    }
+
+    const result = await eventRepository.cancel(id, userId, holdUntilFor(event));
+    if (!result) {
+      throw ApiError.badRequest('You are not registered for this event');
+    }
+    if (result.previousStatus === 'held') {
+      await paymentService.expireCheckouts(attendee.id);
+    }
+    if (result.promoted.length > 0) {
+      await notifyPromoted(event, result.promoted);
+    }
+    await recheckEventRoom(id, userId);
+    return serialize(await eventRepository.findById(id), userId);
+  },
+
+  // Subscribes the user to the event's series and registers them for every upcoming occurrence that
+  // is open; full ones are skipped. Occurrences created later register subscribers themselves.
+  async registerSeries(id: string, userId: string) {
+    const event = await loadVisibleEvent(id, userId);
+    if (!event.series || event.series.cancelledAt) {
+      throw ApiError.badRequest('This event is not part of an active series');
+    }
+    if (event.status !== 'published') {
+      throw ApiError.badRequest('This event is not open for registration');
+    }
+    if (!acceptsSeriesRegistration(event)) {
+      throw ApiError.badRequest('Occurrences of this series need to be registered for one at a time');
+    }
+    await eventSeriesRepository.subscribe(event.series.id, userId);
+
+    const occurrences = { registered: 0, waitlisted: 0, full: 0 };
+    const now = new Date();
+    for (const occurrence of await eventSeriesRepository.findUpcoming(event.series.id)) {
+      if (
+        occurrence.status !== 'published' ||
+        (occurrence.registrationDeadline && occurrence.registrationDeadline < now) ||
+        !acceptsSeriesRegistration(occurrence)
+      ) {
+        continue;
+      }
+      const outcome = await registerSubscriber(occurrence, userId);
+      if (outcome === 'registered' || outcome === 'waitlisted' || outcome === 'full') {
+        occurrences[outcome]++;
+      }
+    }
+    const attendee = await eventRepository.findAttendee(id, userId);
+    return {
+      status: attendee?.status !== 'cancelled' ? attendee?.status : undefined,
+      occurrences,
+      event: await serialize(await eventRepository.findById(id), userId),
+    };
+  },
+
+  // Unsubscribes from the series and cancels the user's places at its upcoming occurrences
+  async cancelSeriesRegistration(id: string, userId: string) {
+    const event = await loadVisibleEvent(id, userId);
+    if (!event.seriesId) {
+      throw ApiError.badRequest('This event is not part of a series');
+    }
+    await eventSeriesRepository.unsubscribe(event.seriesId, userId);
+
+    for (const occurrence of await eventSeriesRepository.findUpcoming(event.seriesId)) {
+      const attendee = await eventRepository.findAttendee(occurrence.id, userId);
+      if (!attendee || (!occurrence.allowCancellations && !['held', 'pending'].includes(attendee.status))) {
+        continue;
+      }
+      const result = await eventRepository.cancel(occurrence.id, userId, holdUntilFor(occurrence));
+      if (result?.promoted.length > 0) {
+        await notifyPromoted(occurrence, result.promoted);
+      }
+      await recheckEventRoom(occurrence.id, userId);
+    }
+    return serialize(await eventRepository.findById(id), userId);
+  },
+
+  async getSeries(seriesId: string, viewerId?: string) {
+    const series = await loadVisibleSeries(seriesId, viewerId);
+    const subscription = viewerId ? await eventSeriesRepository.findSubscription(seriesId, viewerId) : null;
+    return { ...toEventSeries(series), subscribed: Boolean(subscription) };
+  },
+
+  // Occurrences between `from` (default now) and `to` (default the series horizon), creating any
+  // that don't exist yet. Drafts are only listed for the organizer.
+  async listOccurrences(seriesId: string, range: OccurrenceRange, viewerId?: string) {
+    const series = await loadVisibleSeries(seriesId, viewerId);
+    const from = range.from ?? new Date();
+    const to = range.to ?? seriesHorizon(from);
+    if (to <= from) {
+      throw ApiError.badRequest('`to` must be after `from`');
+    }
+    const latest = new Date(Date.now() + MAX_OCCURRENCE_LOOKAHEAD_DAYS * DAY_MS);
+    await extendSeries(series, to < latest ? to : latest);
+
+    const events = await eventSeriesRepository.listOccurrences(seriesId, from, to, series.organizerId === viewerId);
+    return { series: toEventSeries(series), events: await serializeMany(events, viewerId) };
+  },
+
+  async deleteSeries(seriesId: string, userId: string) {
+    const series = await loadVisibleSeries(seriesId, userId);
+    if (series.organizerId !== userId) {
+      throw ApiError.forbidden('Only the organizer can manage this event');
+    }
+    await eventSeriesRepository.delete(seriesId);
+  },
+
+  // Run periodically so recurring events always have occurrences up to the horizon
+  async extendAllSeries() {
+    const horizon = seriesHorizon(new Date());
+    const due = await eventSeriesRepository.findDueForExtension(horizon);
+    for (const series of due) {
+      await extendSeries(series, horizon);
+    }
+    return due.length;
+  },
+
+  // Marks a held seat as paid, e.g. for tickets settled outside the platform
+  async confirmHold(id: string, organizerId: string, userId: string) {
+    const event = await requireHost(id, organizerId, 'edit');
+    if (!(await eventRepository.confirmHold(id, userId))) {
+      throw ApiError.badRequest('This attendee has no active hold');
+    }
+    await notificationService.notify(userId, {
+      type: 'event.registration_confirmed',
+      title: 'Registration confirmed',
+      message: `Your seat at ${event.title} is confirmed`,
+      data: { eventId: id },
+    });
+  },
+
+  // Sends the viewer to Stripe Checkout for the seat held for them
+  async startCheckout(id: string, userId: string) {
+    const event = await loadVisibleEvent(id, userId);
+    if (event.status !== 'published') {
+      throw ApiError.badRequest('This event is not open for registration');
+    }
+    const attendee = await eventRepository.findAttendee(id, userId);
+    const user = await userRepository.findById(userId);
+    return paymentService.startCheckout(event, attendee, user.email);
+  },
+
+  // Refunds an attendee's payment, all of what is left of it unless an amount is given. A full
+  // refund also gives up their place.
+  async refundAttendee(id: string, organizerId: string, userId: string, amount?: number) {
+    const event = await requireOrganizer(id, organizerId);
+    const attendee = await eventRepository.findAttendee(id, userId);
+    if (!attendee) {
+      throw ApiError.notFound('Attendee not found');
+    }
+    const refund = await paymentService.refundAttendee(
+      attendee.id,
+      amount !== undefined ? Math.round(amount * 100) : undefined,
+      organizerId
+    );
+    if (refund.fullyRefunded) {
+      const result = await eventRepository.cancel(id, userId, holdUntilFor(event));
+      if (result?.promoted.length > 0) {
+        await notifyPromoted(event, result.promoted);
+      }
+      await recheckEventRoom(id, userId);
+    }
+    await notificationService.notify(userId, {
+      type: 'event.payment_refunded',
+      title: 'Payment refunded',
+      message: refund.fullyRefunded
+        ? `Your payment for ${event.title} was refunded and your registration cancelled`
+        : `${formatAmount(refund.amountCents)} of your payment for ${event.title} was refunded`,
+      data: { eventId: id },
+    });
+    return {
+      amount: refund.amountCents / 100,
+      refunded: refund.refundedCents / 100,
+      fullyRefunded: refund.fullyRefunded,
+    };
+  },
+
+  async createTicketType(id: string, userId: string, input: TicketTypeInput) {
+    await requireOrganizer(id, userId);
+    assertSalesWindow(input.salesStart, input.salesEnd);
+    const { price, ...data } = input;
+    return toTicketType(await ticketTypeRepository.create(id, { ...data, priceCents: Math.round(price * 100) }));
+  },
+
+  async updateTicketType(id: string, userId: string, ticketTypeId: string, input: Partial<TicketTypeInput>) {
+    const event = await requireOrganizer(id, userId);
+    const current = findTicketType(event, ticketTypeId);
+    assertSalesWindow(
+      input.salesStart !== undefined ? input.salesStart : current.salesStart,
+      input.salesEnd !== undefined ? input.salesEnd : current.salesEnd
+    );
+    const ticketType = await ticketTypeRepository.update(ticketTypeId, toTicketTypeData(input));
+    if (!ticketType) {
+      throw ApiError.badRequest('The quantity cannot be lower than the tickets already taken');
+    }
+    return toTicketType(ticketType);
+  },
+
+  async deleteTicketType(id: string, userId: string, ticketTypeId: string) {
+    const event = await requireOrganizer(id, userId);
+    findTicketType(event, ticketTypeId);
+    if (!(await ticketTypeRepository.delete(ticketTypeId))) {
+      throw ApiError.badRequest('Tickets of this type have been taken; set its quantity or sales end instead');
+    }
+  },
+
+  async listPromoCodes(id: string, userId: string) {
+    await requireOrganizer(id, userId);
+    return (await promoCodeRepository.listForEvent(id)).map(toPromoCode);
+  },
+
+  async createPromoCode(id: string, userId: string, input: PromoCodeInput) {
+    await requireOrganizer(id, userId);
+    assertPromoCode(input.discountType, input.discountValue, input.validFrom, input.validUntil);
+    await assertCommunityExists(input.communityId);
+    try {
+      return toPromoCode(
+        await promoCodeRepository.create(id, { ...input, ...toPromoCodeData(input, input.discountType) })
+      );
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('This event already has a promo code with that code');
+      }
+      throw error;
+    }
+  },
+
+  async updatePromoCode(id: string, userId: string, promoCodeId: string, input: Partial<PromoCodeInput>) {
+    await requireOrganizer(id, userId);
+    const current = await findPromoCode(id, promoCodeId);
+    if (input.discountType !== undefined && input.discountValue === undefined) {
+      throw ApiError.badRequest('Give the discount value along with its type');
+    }
+    const discountType = input.discountType ?? current.discountType;
+    assertPromoCode(
+      discountType,
+      input.discountValue ?? current.discountValue,
+      input.validFrom !== undefined ? input.validFrom : current.validFrom,
+      input.validUntil !== undefined ? input.validUntil : current.validUntil
+    );
+    await assertCommunityExists(input.communityId);
+    let promoCode: Awaited<ReturnType<typeof promoCodeRepository.update>>;
+    try {
+      promoCode = await promoCodeRepository.update(promoCodeId, toPromoCodeData(input, discountType));
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('This event already has a promo code with that code');
+      }
+      throw error;
+    }
+    if (!promoCode) {
+      throw ApiError.badRequest('The limit cannot be lower than the redemptions already made');
+    }
+    return toPromoCode(promoCode);
+  },
+
+  async deletePromoCode(id: string, userId: string, promoCodeId: string) {
+    await requireOrganizer(id, userId);
+    await findPromoCode(id, promoCodeId);
+    if (!(await promoCodeRepository.delete(promoCodeId))) {
+      throw ApiError.badRequest('This promo code has been used; set its expiry instead');
+    }
+  },
+
+  // Lets attendees see what a code takes off before registering with it
+  async checkPromoCode(id: string, userId: string, code: string, ticketTypeId?: string) {
+    const event = await loadVisibleEvent(id, userId);
+    const ticketType = resolveTicketType(event, ticketTypeId);
+    const promoCode = await resolvePromoCode(event, userId, code, ticketType);
+    const priceCents = ticketType ? ticketType.priceCents : event.ticketPriceCents;
+    return {
+      code: promoCode.code,
+      price: priceCents / 100,
+      discountedPrice: applyDiscount(priceCents, promoCode) / 100,
+    };
+  },
+
+  // Run periodically so seats come back even when nobody else registers
+  async releaseAllExpiredHolds() {
+    const eventIds = await eventRepository.findEventIdsWithExpiredHolds();
+    for (const eventId of eventIds) {
+      const event = await eventRepository.findById(eventId);
+      if (event) {
+        await releaseExpiredHolds(event);
+      }
+    }
+    return eventIds.length;
+  },
+
+  // A personal link to the meeting for a confirmed attendee. Each call replaces the previous link,
+  // so a forwarded one stops working once the attendee asks again.
+  async getJoinLink(id: string, userId: string) {
+    const event = await loadVisibleEvent(id, userId);
+    assertJoinable(event);
+    const attendee = await eventRepository.findAttendee(id, userId);
+    if (attendee?.status !== 'registered') {
+      throw ApiError.forbidden('Only confirmed attendees can join this event');
+    }
+    const rotated = await eventRepository.rotateJoinToken(attendee.id);
+    return { url: `/events/${id}/join/${signJoinToken(rotated)}` };
+  },
+
+  // Where a join link leads. Every visit is recorded for attendance stats.
+  async join(id: string, token: string, userAgent?: string) {
+    const attendeeId = joinTokenAttendeeId(token);
+    const attendee = attendeeId ? await eventRepository.findAttendeeById(attendeeId) : null;
+    if (!attendee || attendee.eventId !== id || !verifyJoinToken(token, attendee)) {
+      throw ApiError.notFound('This join link is no longer valid; get a new one from the event page');
+    }
+    if (attendee.status !== 'registered') {
+      throw ApiError.forbidden('Your registration for this event is no longer active');
+    }
+    const event = await eventRepository.findById(id);
+    assertJoinable(event);
+    await eventRepository.recordJoin(id, attendee.userId, userAgent?.slice(0, 500));
+    return event.meetingLink;
+  },
+
+  // Confirmed registrations get a signed ticket to show at the door
+  async getTicket(id: string, userId: string) {
+    await loadVisibleEvent(id, userId);
+    const attendee = await eventRepository.findAttendee(id, userId);
+    if (attendee?.status !== 'registered') {
+      throw ApiError.badRequest('Only confirmed registrations have a ticket');
+    }
+    return {
+      code: signTicket({ attendeeId: attendee.id, eventId: id, userId, registeredAt: attendee.registeredAt }),
+    };
+  },
+
+  async checkIn(id: string, organizerId: string, code: string) {
+    const event = await requireHost(id, organizerId, 'checkin');
+    const claims = verifyTicket(code);
+    if (!claims) {
+      throw ApiError.badRequest('This ticket is not valid');
+    }
+    if (claims.eventId !== id) {
+      throw ApiError.badRequest('This ticket is for a different event');
+    }
+    const attendee = await eventRepository.findAttendeeById(claims.attendeeId);
+    if (
+      !attendee ||
+      attendee.userId !== claims.userId ||
+      attendee.registeredAt.getTime() !== claims.registeredAt.getTime()
+    ) {
+      throw ApiError.badRequest('This ticket has been replaced or cancelled');
+    }
+    return admit(event, attendee);
+  },
+
+  // Manual check-in from the attendee list, for people without their ticket
+  async checkInAttendee(id: string, organizerId: string, userId: string) {
+    const event = await requireHost(id, organizerId, 'checkin');
+    const found = await eventRepository.findAttendee(id, userId);
+    if (!found) {
+      throw ApiError.notFound('Attendee not found');
+    }
+    return admit(event, await eventRepository.findAttendeeById(found.id));
+  },
+
+  // Hosts only, with every attendee's status and contact. Everyone else gets currentAttendees.
+  async listAttendees(id: string, userId: string, status: AttendeeStatus | undefined, pagination: PaginationParams) {
+    const event = await loadVisibleEvent(id, userId);
+    if (!hostRoleOf(event, userId)) {
+      throw ApiError.forbidden('Only hosts can see who is attending');
+    }
+    const { items, total } = await eventRepository.listAttendees(id, status, pagination);
+    const joins = event.isVirtual ? await eventRepository.summarizeJoins(id) : [];
+    const firstJoins = new Map(joins.map((row) => [row.userId, row._min.joinedAt]));
+    return {
+      attendees: items.map((attendee) => ({
+        ...toUserContact(attendee.user),
+        status: attendee.status,
+        registeredAt: attendee.registeredAt,
+        holdExpiresAt: attendee.holdExpiresAt,
+        checkedInAt: attendee.checkedInAt,
+        joinedAt: firstJoins.get(attendee.userId),
+        ticketType: attendee.ticketType ?? undefined,
+        payment: attendee.payments[0]
+          ? {
+              amount: attendee.payments[0].amountCents / 100,
+              refunded: attendee.payments[0].refundedCents / 100,
+              status: attendee.payments[0].status,
+            }
+          : undefined,
+      })),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async getStats(id: string, userId: string) {
+    const event = await requireHost(id, userId, 'edit');
+    const counts = await eventRepository.countByStatus(id);
+    const byStatus = Object.fromEntries(counts.map((row) => [row.status, row._count._all])) as Partial<
+      Record<AttendeeStatus, number>
+    >;
+    const promoCodes = await promoCodeRepository.listForEvent(id);
+    const places = await promoCodeRepository.countPlaces(id);
+    const payments = await promoCodeRepository.sumPayments(id);
+    const joins = event.isVirtual ? await eventRepository.summarizeJoins(id) : [];
+    const survey = await surveyService.summarize(event);
+    return {
+      capacity: event.capacity,
+      seatsLeft: Math.max(0, event.capacity - event.currentAttendees),
+      registered: byStatus.registered ?? 0,
+      waitlisted: byStatus.waitlisted ?? 0,
+      held: byStatus.held ?? 0,
+      pending: byStatus.pending ?? 0,
+      cancelled: byStatus.cancelled ?? 0,
+      checkedIn: event.checkInCount,
+      viewCount: event.viewCount,
+      fillRate: event.capacity ? event.currentAttendees / event.capacity : 0,
+      // Attendees who opened the meeting through their join link, and how often they did
+      joined: joins.length,
+      joinCount: joins.reduce((sum, row) => sum + row._count._all, 0),
+      // Redemptions are the places currently taken with each code; payments and amounts cover
+      // completed checkouts, in currency units
+      promoCodes: promoCodes.map((promoCode) => {
+        const placesWith = (status: AttendeeStatus) =>
+          places.find((row) => row.promoCodeId === promoCode.id && row.status === status)?._count._all ?? 0;
+        const paid = payments.find((row) => row.promoCodeId === promoCode.id);
+        return {
+          ...toPromoCode(promoCode),
+          registered: placesWith('registered'),
+          held: placesWith('held'),
+          waitlisted: placesWith('waitlisted'),
+          payments: paid?._count._all ?? 0,
+          revenue: ((paid?._sum.amountCents ?? 0) - (paid?._sum.refundedCents ?? 0)) / 100,
+          discountGiven: (paid?._sum.discountCents ?? 0) / 100,
+        };
+      }),
+      // Feedback survey results, once the event is completed and it has gone out
+      survey,
+    };
+  },
+
+  async sendReminder(id: string, userId: string, message?: string) {
+    const event = await requireHost(id, userId, 'edit');
+    return reminderService.sendManual(event, userId, message);
+  },
+
+  async listReminders(id: string, userId: string) {
+    return reminderService.list(await requireHost(id, userId, 'edit'));
+  },
+
+  async getSurvey(id: string, userId: string) {
+    const event = await loadVisibleEvent(id, userId);
+    return surveyService.get(event, userId, canHost(event, userId, 'edit'));
+  },
+
+  async saveSurvey(id: string, userId: string, questions: SurveyQuestion[]) {
+    return surveyService.save(await requireHost(id, userId, 'edit'), questions);
+  },
+
+  async deleteSurvey(id: string, userId: string) {
+    await surveyService.remove(await requireHost(id, userId, 'edit'));
+  },
+
+  async respondToSurvey(id: string, userId: string, answers: SurveyAnswer[]) {
+    await surveyService.respond(await loadVisibleEvent(id, userId), userId, answers);
+  },
+
+  // Survey responses as a CSV download
+  async exportSurvey(id: string, userId: string) {
+    const event = await requireHost(id, userId, 'edit');
+    return { filename: `${fileName(event)}-survey.csv`, csv: await surveyService.exportCsv(event) };
+  },
+
+  // Adds a co-host by the email of their account. Only the organizer manages hosts.
+  async addHost(id: string, userId: string, email: string, role: EventHostRole) {
+    const event = await requireOrganizer(id, userId);
+    const user = await userRepository.findByEmail(email);
+    if (!user) {
+      throw ApiError.notFound('No NexusVerse account uses this email');
+    }
+    if (user.id === event.organizerId) {
+      throw ApiError.badRequest('You already organize this event');
+    }
+    let host: Awaited<ReturnType<typeof eventHostRepository.add>>;
+    try {
+      host = await eventHostRepository.add(id, user.id, role);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('They already host this event');
+      }
+      throw error;
+    }
+    const roleName = role === 'cohost' ? 'co-host' : 'check-in host';
+    await notificationService.notify(user.id, {
+      type: 'event.host_added',
+      title: 'You are now a host',
+      message: `${event.organizer.firstName} added you as a ${roleName} of ${event.title}`,
+      data: { eventId: id },
+    });
+    return { ...toUserContact(host.user), role: host.role };
+  },
+
+  async updateHost(id: string, userId: string, hostUserId: string, role: EventHostRole) {
+    await requireOrganizer(id, userId);
+    if (!(await eventHostRepository.updateRole(id, hostUserId, role))) {
+      throw ApiError.notFound('Host not found');
+    }
+  },
+
+  // The organizer removes hosts; hosts can also step down themselves
+  async removeHost(id: string, userId: string, hostUserId: string) {
+    if (hostUserId !== userId) {
+      await requireOrganizer(id, userId);
+    }
+    if (!(await eventHostRepository.remove(id, hostUserId))) {
+      throw ApiError.notFound('Host not found');
+    }
+    await recheckEventRoom(id, hostUserId);
+  },
+
+  async listSpeakers(id: string, viewerId?: string) {
+    const event = await loadVisibleEvent(id, viewerId);
+    return speakerService.listSpeakers(event, viewerId, Boolean(hostRoleOf(event, viewerId)));
+  },
+
+  async addSpeaker(id: string, userId: string, input: SpeakerInput) {
+    return speakerService.addSpeaker(await requireHost(id, userId, 'edit'), input);
+  },
+
+  async updateSpeaker(id: string, userId: string, speakerId: string, input: Omit<SpeakerInput, 'email'>) {
+    return speakerService.updateSpeaker(await requireHost(id, userId, 'edit'), speakerId, input);
+  },
+
+  async removeSpeaker(id: string, userId: string, speakerId: string) {
+    await speakerService.removeSpeaker(await requireHost(id, userId, 'edit'), speakerId);
+  },
+
+  async respondToSpeakerInvitation(id: string, userId: string, speakerId: string, accept: boolean) {
+    return speakerService.respond(await loadVisibleEvent(id, userId), userId, speakerId, accept);
+  },
+
+  async listSessions(id: string, viewerId?: string) {
+    return speakerService.listSessions(await loadVisibleEvent(id, viewerId));
+  },
+
+  async createSession(id: string, userId: string, input: SessionInput) {
+    return speakerService.createSession(await requireHost(id, userId, 'edit'), input);
+  },
+
+  async updateSession(id: string, userId: string, sessionId: string, input: Partial<SessionInput>) {
+    return speakerService.updateSession(await requireHost(id, userId, 'edit'), sessionId, input);
+  },
+
+  async deleteSession(id: string, userId: string, sessionId: string) {
+    await speakerService.deleteSession(await requireHost(id, userId, 'edit'), sessionId);
+  },
+
+  // Guards the event's socket.io room
+  async joinLive(id: string, userId: string) {
+    await requireParticipant(id, userId);
+  },
+
+  async listQuestions(id: string, userId: string) {
+    return liveService.listQuestions(await requireParticipant(id, userId), userId);
+  },
+
+  async askQuestion(id: string, userId: string, body: string) {
+    return liveService.ask(await requireParticipant(id, userId), userId, body);
+  },
+
+  async upvoteQuestion(id: string, userId: string, questionId: string, upvote: boolean) {
+    return liveService.upvote(await requireParticipant(id, userId), userId, questionId, upvote);
+  },
+
+  async answerQuestion(id: string, userId: string, questionId: string, answered: boolean) {
+    return liveService.setAnswered(await requireHost(id, userId, 'edit'), questionId, answered);
+  },
+
+  async deleteQuestion(id: string, userId: string, questionId: string) {
+    const event = await requireParticipant(id, userId);
+    await liveService.removeQuestion(event, userId, questionId, canHost(event, userId, 'edit'));
+  },
+
+  async listPolls(id: string, userId: string) {
+    return liveService.listPolls(await requireParticipant(id, userId), userId);
+  },
+
+  async launchPoll(id: string, userId: string, input: PollInput) {
+    return liveService.launchPoll(await requireHost(id, userId, 'edit'), input);
+  },
+
+  async closePoll(id: string, userId: string, pollId: string) {
+    return liveService.closePoll(await requireHost(id, userId, 'edit'), pollId);
+  },
+
+  async votePoll(id: string, userId: string, pollId: string, option: number) {
+    return liveService.vote(await requireParticipant(id, userId), userId, pollId, option);
+  },
+
+  async getNetworking(id: string, userId: string) {
+    return networkingService.get(await requireParticipant(id, userId), userId);
+  },
+
+  async startNetworkingRound(id: string, userId: string, roundMinutes: number) {
+    return networkingService.startRound(await requireHost(id, userId, 'edit'), roundMinutes);
+  },
+
+  async endNetworkingRound(id: string, userId: string) {
+    return networkingService.endRound(await requireHost(id, userId, 'edit'));
+  },
+};
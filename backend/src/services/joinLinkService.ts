@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+import { EventAttendee } from '@prisma/client';
+import { config } from '../config';
+
+type JoinTokenSubject = Pick<EventAttendee, 'id' | 'joinTokenVersion'>;
+
+const joinKey = crypto.createHash('sha256').update(`join:${config.jwt.secret}`).digest();
+
+const signJoin = (attendee: JoinTokenSubject) =>
+  crypto.createHmac('sha256', joinKey).update(`${attendee.id}:${attendee.joinTokenVersion}`).digest('base64url');
+
+// Join links carry `<attendeeId>.<signature>` instead of a session, as the browser opens them in a
+// new tab. Issuing a link bumps the attendee's joinTokenVersion, which invalidates the ones before.
+export const signJoinToken = (attendee: JoinTokenSubject) => `${attendee.id}.${signJoin(attendee)}`;
+
+export const joinTokenAttendeeId = (token: string) => token.split('.')[0] || null;
+
+export const verifyJoinToken = (token: string, attendee: JoinTokenSubject) => {
+  const expected = Buffer.from(signJoin(attendee));
+  const given = Buffer.from(token.split('.')[1] ?? '');
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
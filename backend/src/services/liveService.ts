@@ -0,0 +1,168 @@
+import { Event, EventPoll, Prisma } from '@prisma/client';
+import { emitToEvent } from '../lib/socket';
+import { liveRepository } from '../repositories/liveRepository';
+import { toPoll, toQuestion } from '../serializers/event';
+import { ApiError } from '../utils/ApiError';
+
+export interface PollInput {
+  question: string;
+  options: string[];
+}
+
+const isDuplicate = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Questions and votes are taken while the event is live on the site, not once it is over
+const assertOpen = (event: Event) => {
+  if (event.status !== 'published') {
+    throw ApiError.badRequest('The Q&A and polls are closed for this event');
+  }
+};
+
+const findQuestion = async (eventId: string, questionId: string) => {
+  const question = await liveRepository.findQuestion(questionId);
+  if (!question || question.eventId !== eventId) {
+    throw ApiError.notFound('Question not found');
+  }
+  return question;
+};
+
+const findPoll = async (eventId: string, pollId: string) => {
+  const poll = await liveRepository.findPoll(pollId);
+  if (!poll || poll.eventId !== eventId) {
+    throw ApiError.notFound('Poll not found');
+  }
+  return poll;
+};
+
+// Vote counts per option of each poll, in option order
+const tallyVotes = async (polls: EventPoll[]) => {
+  const rows = polls.length ? await liveRepository.countVotes(polls.map((poll) => poll.id)) : [];
+  return new Map(
+    polls.map((poll) => [
+      poll.id,
+      poll.options.map(
+        (_, option) => rows.find((row) => row.pollId === poll.id && row.option === option)?._count._all ?? 0
+      ),
+    ])
+  );
+};
+
+// Pushes the poll with its current counts to everyone following the event
+const broadcastPoll = async (eventId: string, poll: EventPoll) => {
+  const votes = (await tallyVotes([poll])).get(poll.id);
+  emitToEvent(eventId, 'poll:updated', toPoll(poll, votes));
+  return votes;
+};
+
+// The caller has checked the user is a registered attendee or a host. Every change is also pushed
+// over the event's socket.io room.
+export const liveService = {
+  // Open questions first, most upvoted on top; answered ones after them
+  async listQuestions(event: Event, viewerId: string) {
+    const questions = await liveRepository.listQuestions(event.id, viewerId);
+    return questions
+      .map(({ upvotes, ...question }) => toQuestion(question, upvotes.length > 0))
+      .sort((a, b) => Number(!!a.answeredAt) - Number(!!b.answeredAt));
+  },
+
+  async ask(event: Event, userId: string, body: string) {
+    assertOpen(event);
+    const question = toQuestion(await liveRepository.createQuestion(event.id, userId, body));
+    emitToEvent(event.id, 'question:updated', question);
+    return { ...question, viewerUpvoted: false };
+  },
+
+  async upvote(event: Event, userId: string, questionId: string, upvote: boolean) {
+    assertOpen(event);
+    await findQuestion(event.id, questionId);
+    let question: Awaited<ReturnType<typeof liveRepository.removeUpvote>>;
+    try {
+      question = upvote
+        ? await liveRepository.upvote(questionId, userId)
+        : await liveRepository.removeUpvote(questionId, userId);
+    } catch (error) {
+      if (isDuplicate(error)) {
+        throw ApiError.conflict('You have already upvoted this question');
+      }
+      throw error;
+    }
+    if (!question) {
+      throw ApiError.badRequest('You have not upvoted this question');
+    }
+    emitToEvent(event.id, 'question:updated', toQuestion(question));
+    return toQuestion(question, upvote);
+  },
+
+  // Moderators only
+  async setAnswered(event: Event, questionId: string, answered: boolean) {
+    await findQuestion(event.id, questionId);
+    const question = toQuestion(await liveRepository.setAnswered(questionId, answered));
+    emitToEvent(event.id, 'question:updated', question);
+    return question;
+  },
+
+  // Moderators remove any question, attendees their own
+  async removeQuestion(event: Event, userId: string, questionId: string, canModerate: boolean) {
+    const question = await findQuestion(event.id, questionId);
+    if (!canModerate && question.userId !== userId) {
+      throw ApiError.forbidden('You can only remove your own questions');
+    }
+    await liveRepository.deleteQuestion(questionId);
+    emitToEvent(event.id, 'question:deleted', { id: questionId });
+  },
+
+  // Latest first, with the viewer's own vote
+  async listPolls(event: Event, viewerId: string) {
+    const polls = await liveRepository.listPolls(event.id);
+    const pollIds = polls.map((poll) => poll.id);
+    const [votes, viewerVotes] = await Promise.all([
+      tallyVotes(polls),
+      pollIds.length ? liveRepository.findVotes(pollIds, viewerId) : [],
+    ]);
+    return polls.map((poll) =>
+      toPoll(poll, votes.get(poll.id), viewerVotes.find((vote) => vote.pollId === poll.id)?.option)
+    );
+  },
+
+  // Moderators only. Polls take votes as soon as they are launched.
+  async launchPoll(event: Event, { question, options }: PollInput) {
+    assertOpen(event);
+    if (new Set(options).size !== options.length) {
+      throw ApiError.badRequest('Each option must be different');
+    }
+    const poll = await liveRepository.createPoll(event.id, question, options);
+    const votes = options.map(() => 0);
+    emitToEvent(event.id, 'poll:updated', toPoll(poll, votes));
+    return toPoll(poll, votes);
+  },
+
+  async closePoll(event: Event, pollId: string) {
+    await findPoll(event.id, pollId);
+    if (!(await liveRepository.closePoll(pollId))) {
+      throw ApiError.badRequest('This poll is already closed');
+    }
+    const poll = await liveRepository.findPoll(pollId);
+    return toPoll(poll, await broadcastPoll(event.id, poll));
+  },
+
+  async vote(event: Event, userId: string, pollId: string, option: number) {
+    assertOpen(event);
+    const poll = await findPoll(event.id, pollId);
+    if (poll.closedAt) {
+      throw ApiError.badRequest('This poll is closed');
+    }
+    if (option >= poll.options.length) {
+      throw ApiError.badRequest('This poll has no such option');
+    }
+    try {
+      await liveRepository.vote(pollId, userId, option);
+    } catch (error) {
+      if (isDuplicate(error)) {
+        throw ApiError.conflict('You have already voted in this poll');
+      }
+      throw error;
+    }
+    return toPoll(poll, await broadcastPoll(event.id, poll), option);
+  },
+};
@@ -0,0 +1,92 @@
+import { Event, Prisma } from '@prisma/client';
+import { emitToEvent } from '../lib/socket';
+import { eventRepository } from '../repositories/eventRepository';
+import { networkingRepository } from '../repositories/networkingRepository';
+import { toNetworkingPartner, toNetworkingRound } from '../serializers/event';
+import { ApiError } from '../utils/ApiError';
+import { pairCandidates } from '../utils/pairing';
+
+const isDuplicate = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Rounds are run while the event is live on the site, not once it is over
+const assertOpen = (event: Event) => {
+  if (event.status !== 'published') {
+    throw ApiError.badRequest('Networking is closed for this event');
+  }
+};
+
+// Speed networking. Each round pairs every checked-in attendee with someone they have not met yet,
+// closest shared skills and interests first. The caller has checked the user is a registered
+// attendee or a host; rounds starting and ending are pushed over the event's socket.io room.
+export const networkingService = {
+  // The current round and the viewer's partner in it, if they are taking part
+  async get(event: Event, viewerId: string) {
+    const session = await networkingRepository.findSession(event.id);
+    const [participantCount, attendee, pair] = await Promise.all([
+      networkingRepository.countCheckedIn(event.id),
+      eventRepository.findAttendee(event.id, viewerId),
+      session?.round ? networkingRepository.findPair(session.id, session.round, viewerId) : null,
+    ]);
+    return {
+      ...toNetworkingRound(session),
+      participantCount,
+      checkedIn: attendee?.status === 'registered' && !!attendee.checkedInAt,
+      partner: pair?.partner ? toNetworkingPartner(pair.partner, pair.user) : undefined,
+      sittingOut: !!pair && !pair.partnerId,
+    };
+  },
+
+  // Hosts only. The next round can start once the current one is over.
+  async startRound(event: Event, roundMinutes: number) {
+    assertOpen(event);
+    const [session, attendees] = await Promise.all([
+      networkingRepository.findSession(event.id),
+      networkingRepository.listCheckedIn(event.id),
+    ]);
+    if (session?.roundEndsAt && session.roundEndsAt > new Date()) {
+      throw ApiError.badRequest('The current round has not ended yet');
+    }
+    if (attendees.length < 2) {
+      throw ApiError.badRequest('At least two attendees must be checked in to start a round');
+    }
+
+    const history = session ? await networkingRepository.listPairs(session.id) : [];
+    const met: Array<[string, string]> = [];
+    const satOut = new Map<string, number>();
+    history.forEach(({ userId, partnerId }) => {
+      if (partnerId) {
+        met.push([userId, partnerId]);
+      } else {
+        satOut.set(userId, (satOut.get(userId) ?? 0) + 1);
+      }
+    });
+    const pairings = pairCandidates(attendees.map((attendee) => attendee.user), met, satOut);
+
+    let started: Awaited<ReturnType<typeof networkingRepository.startRound>>;
+    try {
+      started = await networkingRepository.startRound(event.id, session?.round ?? 0, roundMinutes, pairings);
+    } catch (error) {
+      if (!isDuplicate(error)) {
+        throw error;
+      }
+    }
+    if (!started) {
+      throw ApiError.conflict('Another round was started in the meantime');
+    }
+    const round = toNetworkingRound(started);
+    emitToEvent(event.id, 'networking:updated', round);
+    return { ...round, participantCount: attendees.length };
+  },
+
+  // Hosts only. Ends the running round early.
+  async endRound(event: Event) {
+    const session = await networkingRepository.findSession(event.id);
+    if (!session || !(await networkingRepository.endRound(session.id))) {
+      throw ApiError.badRequest('No round is running');
+    }
+    const round = toNetworkingRound(await networkingRepository.findSession(event.id));
+    emitToEvent(event.id, 'networking:updated', round);
+    return round;
+  },
+};
@@ -0,0 +1,117 @@
+import { Prisma } from '@prisma/client';
+import { config } from '../config';
+import { mailer } from '../lib/mailer';
+import { notificationRepository } from '../repositories/notificationRepository';
+import { userRepository } from '../repositories/userRepository';
+import { toNotification } from '../serializers/notification';
+import { ApiError } from '../utils/ApiError';
+import { buildPagination, PaginationParams } from '../utils/pagination';
+
+export interface NotificationInput {
+  type: string;
+  title: string;
+  message: string;
+  data?: Prisma.InputJsonObject;
+}
+
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  sms: boolean;
+  marketing: boolean;
+  eventReminders: boolean;
+}
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  email: true,
+  push: true,
+  sms: false,
+  marketing: false,
+  eventReminders: true,
+};
+
+// Notification types users can turn off, by the preference that controls them
+const PREFERENCE_BY_TYPE: Record<string, keyof NotificationPreferences> = {
+  'event.reminder': 'eventReminders',
+};
+
+const toPreferences = (stored: Prisma.JsonValue): NotificationPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...(stored as Partial<NotificationPreferences>),
+});
+
+export const notificationService = {
+  async notify(userId: string, { data = {}, ...input }: NotificationInput) {
+    const [recipient] = await notificationService.filterRecipients([userId], input.type);
+    return recipient ? notificationRepository.create({ userId, data, ...input }) : null;
+  },
+
+  async notifyMany(userIds: string[], { data = {}, ...input }: NotificationInput) {
+    const recipients = await notificationService.filterRecipients(userIds, input.type);
+    return notificationRepository.createMany(recipients.map((userId) => ({ userId, data, ...input })));
+  },
+
+  // The users among `userIds` who haven't turned notifications of this type off
+  async filterRecipients(userIds: string[], type: string) {
+    const preference = PREFERENCE_BY_TYPE[type];
+    if (!preference || userIds.length === 0) {
+      return userIds;
+    }
+    const users = await userRepository.findNotificationPreferences(userIds);
+    return users.filter((user) => toPreferences(user.notificationPreferences)[preference]).map((user) => user.id);
+  },
+
+  // Emails the notification to the users among `userIds` who keep email notifications on as well
+  // as this type's own preference. Best effort; returns how many emails went out.
+  async email(userIds: string[], { type, title, message }: NotificationInput, link?: string) {
+    const preference = PREFERENCE_BY_TYPE[type];
+    const users = userIds.length > 0 ? await userRepository.findNotificationPreferences(userIds) : [];
+    const recipients = users.filter((user) => {
+      const preferences = toPreferences(user.notificationPreferences);
+      return user.email && preferences.email && (!preference || preferences[preference]);
+    });
+    const text = link ? `${message}\n\n${link}` : message;
+    const results = await Promise.allSettled(
+      recipients.map((user) => mailer.sendMail({ from: config.smtp.from, to: user.email, subject: title, text }))
+    );
+    return results.filter((result) => result.status === 'fulfilled').length;
+  },
+
+  async getPreferences(userId: string) {
+    const user = await userRepository.findById(userId);
+    return toPreferences(user.notificationPreferences);
+  },
+
+  async updatePreferences(userId: string, input: Partial<NotificationPreferences>) {
+    const preferences = { ...(await notificationService.getPreferences(userId)), ...input };
+    await userRepository.update(userId, { notificationPreferences: { ...preferences } });
+    return preferences;
+  },
+
+  async list(userId: string, unreadOnly: boolean, pagination: PaginationParams) {
+    const { items, total, unreadCount } = await notificationRepository.list(userId, unreadOnly, pagination);
+    return {
+      notifications: items.map(toNotification),
+      unreadCount,
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  async markRead(id: string, userId: string) {
+    const notification = await notificationRepository.findOwned(id, userId);
+    if (!notification) {
+      throw ApiError.notFound('Notification not found');
+    }
+    await notificationRepository.markRead(id, userId);
+  },
+
+  async markAllRead(userId: string) {
+    await notificationRepository.markAllRead(userId);
+  },
+
+  async delete(id: string, userId: string) {
+    if (!(await notificationRepository.delete(id, userId))) {
+      throw ApiError.notFound('Notification not found');
+    }
+  },
+};
@@ -0,0 +1,244 @@
+import { EventAttendee, EventPayment, Prisma } from '@prisma/client';
+import Stripe from 'stripe';
+import { config } from '../config';
+import { stripe } from '../lib/stripe';
+import { eventRepository, RegistrationOutcome } from '../repositories/eventRepository';
+import { paymentRepository } from '../repositories/paymentRepository';
+import { promoCodeRepository } from '../repositories/promoCodeRepository';
+import { EventWithRelations } from '../serializers/event';
+import { ApiError } from '../utils/ApiError';
+import { applyDiscount } from '../utils/discount';
+import { notificationService } from './notificationService';
+
+const MINUTE_MS = 60 * 1000;
+// Stripe keeps Checkout sessions open for at least 30 minutes; the extra minute covers the request
+const MIN_CHECKOUT_MS = 31 * MINUTE_MS;
+// Holds outlast their checkout so a payment made at the last moment is confirmed before the seat
+// goes back to the pool
+const WEBHOOK_GRACE_MS = 5 * MINUTE_MS;
+
+export const formatAmount = (cents: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: config.stripe.currency }).format(cents / 100);
+
+// Stripe turned the request down or could not be reached
+const providerError = (error: unknown) =>
+  error instanceof Stripe.errors.StripeError
+    ? new ApiError(502, `The payment provider declined the request: ${error.message}`)
+    : error;
+
+const paymentIntentId = (value: string | { id: string } | null) =>
+  typeof value === 'string' ? value : value?.id ?? null;
+
+// Gives back part or all of a payment. The amount is reserved first so concurrent refunds can't
+// exceed what was paid, and released again if Stripe refuses.
+const refundPayment = async (
+  payment: EventPayment,
+  amountCents: number | undefined,
+  issuedById: string | null,
+  reason?: string
+) => {
+  const remaining = payment.amountCents - payment.refundedCents;
+  const amount = amountCents ?? remaining;
+  if (amount <= 0 || amount > remaining) {
+    throw ApiError.badRequest(`At most ${formatAmount(remaining)} of this payment can be refunded`);
+  }
+  if (!(await paymentRepository.reserveRefund(payment, amount))) {
+    throw ApiError.conflict('This payment was refunded in the meantime; reload and try again');
+  }
+  let refund: Stripe.Refund;
+  try {
+    refund = await stripe.refunds.create(
+      { payment_intent: payment.stripePaymentIntentId, amount, metadata: { paymentId: payment.id } },
+      { idempotencyKey: `refund-${payment.id}-${payment.refundedCents + amount}` }
+    );
+  } catch (error) {
+    await paymentRepository.releaseRefund(payment, amount);
+    throw providerError(error);
+  }
+  await paymentRepository.recordRefund({
+    paymentId: payment.id,
+    amountCents: amount,
+    stripeRefundId: refund.id,
+    reason,
+    issuedById,
+  });
+  const refundedCents = payment.refundedCents + amount;
+  return { amountCents: amount, refundedCents, fullyRefunded: refundedCents >= payment.amountCents };
+};
+
+// Seats a buyer whose hold was released before their payment was reported, or refunds them when
+// the seat has gone in the meantime
+const reseatOrRefund = async (payment: EventPayment, event: EventWithRelations) => {
+  let outcome: RegistrationOutcome = 'full';
+  if (event.status === 'published') {
+    try {
+      outcome = await eventRepository.register(event.id, payment.userId, {
+        allowWaitlist: false,
+        holdUntil: null,
+        ticketTypeId: payment.ticketTypeId,
+        promoCodeId: payment.promoCodeId,
+      });
+    } catch (error) {
+      // They registered again some other way, e.g. onto the waitlist
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && ['P2002', 'P2025'].includes(error.code))) {
+        throw error;
+      }
+    }
+  }
+  if (outcome === 'registered') {
+    return true;
+  }
+  await refundPayment(payment, undefined, null, 'Seat no longer available');
+  await notificationService.notify(payment.userId, {
+    type: 'event.payment_refunded',
+    title: 'Payment refunded',
+    message: `Your seat at ${event.title} was released before your payment came through, so it was refunded`,
+    data: { eventId: event.id },
+  });
+  return false;
+};
+
+// Confirms the registration a checkout paid for. Stripe may deliver the event more than once;
+// only the first delivery does anything.
+const fulfil = async (session: Stripe.Checkout.Session) => {
+  const payment = await paymentRepository.findBySession(session.id);
+  if (!payment || session.payment_status !== 'paid') {
+    return;
+  }
+  const intentId = paymentIntentId(session.payment_intent);
+  if (!(await paymentRepository.markPaid(payment.id, intentId))) {
+    return;
+  }
+  const paid: EventPayment = { ...payment, status: 'paid', stripePaymentIntentId: intentId };
+  const event = await eventRepository.findById(payment.eventId);
+  const confirmed = await eventRepository.confirmPaidHold(payment.attendeeId);
+  if (!confirmed) {
+    const attendee = await eventRepository.findAttendeeById(payment.attendeeId);
+    // Already confirmed by the organizer
+    if (attendee?.status === 'registered') {
+      return;
+    }
+    if (!(await reseatOrRefund(paid, event))) {
+      return;
+    }
+  }
+  await notificationService.notify(payment.userId, {
+    type: 'event.registration_confirmed',
+    title: 'Registration confirmed',
+    message: `Payment received. Your seat at ${event.title} is confirmed`,
+    data: { eventId: event.id },
+  });
+};
+
+export const paymentService = {
+  // Sends the buyer to Stripe Checkout for their held seat, reusing a checkout that is still open.
+  // The hold is stretched to last as long as the checkout does. Checkout asks wallet-only buyers,
+  // who have no email on file, for one itself.
+  async startCheckout(event: EventWithRelations, attendee: EventAttendee | null, email: string | null) {
+    if (attendee?.status !== 'held' || !attendee.holdExpiresAt || attendee.holdExpiresAt <= new Date()) {
+      throw ApiError.badRequest('You have no seat held for this event');
+    }
+    const open = await paymentRepository.findOpenCheckout(attendee.id);
+    if (open) {
+      return { url: open.checkoutUrl, expiresAt: open.expiresAt };
+    }
+
+    const ticketType = event.ticketTypes.find((candidate) => candidate.id === attendee.ticketTypeId);
+    const priceCents = ticketType ? ticketType.priceCents : event.ticketPriceCents;
+    const promoCode = attendee.promoCodeId ? await promoCodeRepository.findById(attendee.promoCodeId) : null;
+    const amountCents = applyDiscount(priceCents, promoCode);
+    const expiresAt = new Date(Math.max(attendee.holdExpiresAt.getTime(), Date.now() + MIN_CHECKOUT_MS));
+    const holdUntil = new Date(expiresAt.getTime() + WEBHOOK_GRACE_MS);
+    if (!(await eventRepository.extendHold(attendee.id, attendee.holdExpiresAt, holdUntil))) {
+      throw ApiError.conflict('Checkout for this seat is already being started');
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      session = await stripe.checkout.sessions.create(
+        {
+          mode: 'payment',
+          customer_email: email ?? undefined,
+          client_reference_id: attendee.id,
+          line_items: [
+            {
+              quantity: 1,
+              price_data: {
+                currency: config.stripe.currency,
+                unit_amount: amountCents,
+                product_data: { name: ticketType ? `${event.title} – ${ticketType.name}` : event.title },
+              },
+            },
+          ],
+          metadata: { eventId: event.id, attendeeId: attendee.id },
+          expires_at: Math.floor(expiresAt.getTime() / 1000),
+          success_url: `${config.appUrl}/app/events/${event.id}?checkout=success`,
+          cancel_url: `${config.appUrl}/app/events/${event.id}?checkout=cancelled`,
+        },
+        { idempotencyKey: `checkout-${attendee.id}-${expiresAt.getTime()}` }
+      );
+    } catch (error) {
+      throw providerError(error);
+    }
+
+    await paymentRepository.create({
+      eventId: event.id,
+      userId: attendee.userId,
+      attendeeId: attendee.id,
+      ticketTypeId: ticketType?.id,
+      promoCodeId: promoCode?.id,
+      amountCents,
+      discountCents: priceCents - amountCents,
+      currency: config.stripe.currency,
+      stripeSessionId: session.id,
+      checkoutUrl: session.url,
+      expiresAt,
+    });
+    return { url: session.url, expiresAt };
+  },
+
+  // Closes checkouts for a place given up, so it can't be paid for afterwards. Stripe may already
+  // have closed them, which is fine.
+  async expireCheckouts(attendeeId: string) {
+    for (const payment of await paymentRepository.findPending(attendeeId)) {
+      await stripe.checkout.sessions.expire(payment.stripeSessionId).catch(() => undefined);
+      await paymentRepository.markExpired(payment.stripeSessionId);
+    }
+  },
+
+  async refundAttendee(attendeeId: string, amountCents: number | undefined, issuedById: string) {
+    const payment = await paymentRepository.findRefundable(attendeeId);
+    if (!payment) {
+      throw ApiError.badRequest('This attendee has no payment to refund');
+    }
+    return refundPayment(payment, amountCents, issuedById);
+  },
+
+  // Stripe webhook deliveries. The signature proves they came from Stripe.
+  async handleWebhook(payload: Buffer, signature: string) {
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(payload, signature, config.stripe.webhookSecret);
+    } catch {
+      throw ApiError.badRequest('Invalid webhook signature');
+    }
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+        await fulfil(event.data.object);
+        break;
+      case 'checkout.session.expired':
+        await paymentRepository.markExpired(event.data.object.id);
+        break;
+      case 'charge.refunded': {
+        const charge = event.data.object;
+        const intentId = paymentIntentId(charge.payment_intent);
+        if (intentId) {
+          await paymentRepository.syncRefunded(intentId, charge.amount_refunded);
+        }
+        break;
+      }
+    }
+  },
+};
@@ -0,0 +1,480 @@
+import { CommunityMember, ModerationActionType, PostType, Prisma } from '@prisma/client';
+import { moderationRepository } from '../repositories/moderationRepository';
+import { postRepository, PostSort } from '../repositories/postRepository';
+import { revealRepository } from '../repositories/revealRepository';
+import { CommunityWithStaff } from '../serializers/community';
+import { PostWithRelations, toPost } from '../serializers/post';
+import { toUserSummary } from '../serializers/user';
+import { ApiError } from '../utils/ApiError';
+import { buildPagination, CursorParams, PaginationParams } from '../utils/pagination';
+import { communityService, isStaff } from './communityService';
+import { notificationService } from './notificationService';
+
+// Replies deeper than this would be unreadable on narrow screens
+export const MAX_COMMENT_DEPTH = 8;
+
+export const MAX_PINNED_POSTS = 5;
+
+export interface PollInput {
+  options: string[];
+  multipleChoice?: boolean;
+  closesAt?: Date;
+  showVoters?: boolean;
+}
+
+export interface PostInput {
+  type?: PostType;
+  title?: string;
+  content: string;
+  link?: string;
+  imageUrl?: string;
+  tags?: string[];
+  isAnonymous?: boolean;
+  poll?: PollInput;
+}
+
+export type PostUpdateInput = Partial<Omit<PostInput, 'type' | 'poll' | 'isAnonymous'>>;
+
+export interface CommentInput {
+  content: string;
+  parentId?: string;
+  isAnonymous?: boolean;
+}
+
+const requireMember = async (communityId: string, userId: string) => {
+  const { community, membership } = await communityService.resolveAccess(communityId, userId);
+  if (!membership) {
+    throw ApiError.forbidden('Only members can post in this community');
+  }
+  return { community, membership };
+};
+
+const requireModerator = async (communityId: string, userId: string) => {
+  const access = await requireMember(communityId, userId);
+  if (!isStaff(access.membership)) {
+    throw ApiError.forbidden('Only the creator or a moderator can moderate posts');
+  }
+  return access;
+};
+
+// Top-level post of this community
+const loadPost = async (communityId: string, postId: string) => {
+  const post = await postRepository.findById(postId);
+  if (!post || post.communityId !== communityId || post.parentId) {
+    throw ApiError.notFound('Post not found');
+  }
+  return post;
+};
+
+// Comment somewhere in the thread under `postId`
+const loadComment = async (postId: string, commentId: string) => {
+  const comment = await postRepository.findById(commentId);
+  if (!comment || comment.rootId !== postId) {
+    throw ApiError.notFound('Comment not found');
+  }
+  return comment;
+};
+
+// Removed posts stay reachable for staff and their author only
+const assertVisible = (post: PostWithRelations, viewerId: string | undefined, membership: CommunityMember | null) => {
+  if (post.removedAt && post.authorId !== viewerId && !isStaff(membership)) {
+    throw ApiError.notFound('Post not found');
+  }
+};
+
+// Any post or comment of this community, for actions that apply to both
+const loadAnyPost = async (communityId: string, postId: string) => {
+  const post = await postRepository.findById(postId);
+  if (!post || post.communityId !== communityId) {
+    throw ApiError.notFound('Post not found');
+  }
+  return post;
+};
+
+const assertAnonymousAllowed = (community: CommunityWithStaff, isAnonymous?: boolean) => {
+  if (isAnonymous && !community.allowAnonymousPosts) {
+    throw ApiError.forbidden('This community does not allow anonymous posts');
+  }
+};
+
+const assertCanModify = (post: PostWithRelations, userId: string, membership: CommunityMember) => {
+  if (post.authorId !== userId && !isStaff(membership)) {
+    throw ApiError.forbidden('You can only change your own posts');
+  }
+};
+
+const assertContent = ({ type = 'text', link, imageUrl, poll }: Partial<PostInput>) => {
+  if (type === 'link' && !link) {
+    throw ApiError.badRequest('Link posts require a link');
+  }
+  if (type === 'image' && !imageUrl) {
+    throw ApiError.badRequest('Image posts require an imageUrl');
+  }
+  if (type === 'poll') {
+    if (!poll) {
+      throw ApiError.badRequest('Poll posts require poll options');
+    }
+    if (poll.closesAt && poll.closesAt <= new Date()) {
+      throw ApiError.badRequest('Poll closing time must be in the future');
+    }
+  } else if (poll) {
+    throw ApiError.badRequest('Only poll posts can have poll options');
+  }
+};
+
+export const postService = {
+  async listPosts(communityId: string, sort: PostSort, cursor: CursorParams, viewerId?: string) {
+    const { membership } = await communityService.resolveAccess(communityId, viewerId);
+    const canModerate = isStaff(membership);
+    const { items, pagination } = await postRepository.listByCommunity(communityId, sort, cursor, {
+      id: viewerId,
+      canModerate,
+    });
+    return { posts: items.map((post) => toPost(post, viewerId, canModerate)), pagination };
+  },
+
+  async getPost(communityId: string, postId: string, viewerId?: string) {
+    const { membership } = await communityService.resolveAccess(communityId, viewerId);
+    const post = await loadPost(communityId, postId);
+    assertVisible(post, viewerId, membership);
+    return toPost(post, viewerId, isStaff(membership));
+  },
+
+  async createPost(communityId: string, userId: string, { poll, ...input }: PostInput) {
+    const { community, membership } = await requireMember(communityId, userId);
+    assertAnonymousAllowed(community, input.isAnonymous);
+    assertContent({ ...input, poll });
+    const post = await postRepository.create({
+      ...input,
+      communityId,
+      authorId: userId,
+      ...(poll
+        ? {
+            pollOptions: poll.options,
+            pollMultipleChoice: poll.multipleChoice ?? false,
+            pollClosesAt: poll.closesAt ?? null,
+            pollShowVoters: poll.showVoters ?? false,
+          }
+        : {}),
+    });
+    return toPost(post, userId, isStaff(membership));
+  },
+
+  async vote(communityId: string, postId: string, userId: string, optionIds: string[]) {
+    const { membership } = await requireMember(communityId, userId);
+    const post = await loadPost(communityId, postId);
+    assertVisible(post, userId, membership);
+    if (post.type !== 'poll') {
+      throw ApiError.badRequest('This post is not a poll');
+    }
+    if (post.pollClosesAt && post.pollClosesAt <= new Date()) {
+      throw ApiError.badRequest('This poll is closed');
+    }
+    const choices = [...new Set(optionIds)];
+    if (choices.length > 1 && !post.pollMultipleChoice) {
+      throw ApiError.badRequest('This poll allows a single choice');
+    }
+    const validIds = new Set(post.pollOptions.map((option) => option.id));
+    if (choices.some((optionId) => !validIds.has(optionId))) {
+      throw ApiError.badRequest('Unknown poll option');
+    }
+
+    try {
+      await postRepository.castVote(postId, userId, choices);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('You have already voted in this poll');
+      }
+      throw error;
+    }
+    return toPost(await postRepository.findById(postId), userId, isStaff(membership));
+  },
+
+  // Content edits stay with the author; pinning and locking go through the moderation actions
+  async updatePost(communityId: string, postId: string, userId: string, input: PostUpdateInput) {
+    const { membership } = await requireMember(communityId, userId);
+    const post = await loadPost(communityId, postId);
+    if (post.authorId !== userId) {
+      throw ApiError.forbidden('You can only edit your own posts');
+    }
+    if (Object.values(input).every((value) => value === undefined)) {
+      return toPost(post, userId, isStaff(membership));
+    }
+    const updated = await postRepository.update(postId, { ...input, editedAt: new Date() });
+    return toPost(updated, userId, isStaff(membership));
+  },
+
+  async deletePost(communityId: string, postId: string, userId: string) {
+    const { membership } = await requireMember(communityId, userId);
+    const post = await loadPost(communityId, postId);
+    assertCanModify(post, userId, membership);
+    await postRepository.remove(post);
+  },
+
+  async like(communityId: string, postId: string, userId: string) {
+    const { membership } = await requireMember(communityId, userId);
+    const post = await loadAnyPost(communityId, postId);
+    if (post.deletedAt) {
+      throw ApiError.notFound('Post not found');
+    }
+    assertVisible(post, userId, membership);
+    try {
+      await postRepository.like(postId, userId);
+    } catch (error) {
+      // A concurrent like from the same user already created the reaction
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  },
+
+  async unlike(communityId: string, postId: string, userId: string) {
+    await requireMember(communityId, userId);
+    await loadAnyPost(communityId, postId);
+    await postRepository.unlike(postId, userId);
+  },
+
+  // Lists one level of the thread: comments on the post, or replies to `parentId`
+  async listComments(
+    communityId: string,
+    postId: string,
+    parentId: string | undefined,
+    sort: PostSort,
+    cursor: CursorParams,
+    viewerId?: string
+  ) {
+    const { membership } = await communityService.resolveAccess(communityId, viewerId);
+    const post = await loadPost(communityId, postId);
+    assertVisible(post, viewerId, membership);
+    if (parentId && parentId !== postId) {
+      await loadComment(postId, parentId);
+    }
+    const canModerate = isStaff(membership);
+    const { items, pagination } = await postRepository.listReplies(parentId ?? postId, sort, cursor);
+    return { comments: items.map((comment) => toPost(comment, viewerId, canModerate)), pagination };
+  },
+
+  async addComment(
+    communityId: string,
+    postId: string,
+    userId: string,
+    { content, parentId, isAnonymous }: CommentInput
+  ) {
+    const { community, membership } = await requireMember(communityId, userId);
+    assertAnonymousAllowed(community, isAnonymous);
+    const post = await loadPost(communityId, postId);
+    if (post.isLocked && !isStaff(membership)) {
+      throw ApiError.forbidden('This post is locked');
+    }
+
+    const parent = parentId && parentId !== postId ? await loadComment(postId, parentId) : post;
+    if (parent.deletedAt) {
+      throw ApiError.badRequest('You cannot reply to a deleted comment');
+    }
+    if (parent.removedAt && !isStaff(membership)) {
+      throw ApiError.forbidden('You cannot reply to removed content');
+    }
+    if (parent.depth + 1 > MAX_COMMENT_DEPTH) {
+      throw ApiError.badRequest(`Replies cannot be nested more than ${MAX_COMMENT_DEPTH} levels deep`);
+    }
+
+    const comment = await postRepository.create({
+      communityId,
+      authorId: userId,
+      content,
+      parentId: parent.id,
+      rootId: post.id,
+      depth: parent.depth + 1,
+      isAnonymous: isAnonymous ?? false,
+    });
+    return toPost(comment, userId, isStaff(membership));
+  },
+
+  async updateComment(communityId: string, postId: string, commentId: string, userId: string, content: string) {
+    const { membership } = await requireMember(communityId, userId);
+    await loadPost(communityId, postId);
+    const comment = await loadComment(postId, commentId);
+    if (comment.authorId !== userId) {
+      throw ApiError.forbidden('You can only edit your own comments');
+    }
+    if (comment.deletedAt) {
+      throw ApiError.badRequest('Deleted comments cannot be edited');
+    }
+    const updated = await postRepository.update(commentId, { content, editedAt: new Date() });
+    return toPost(updated, userId, isStaff(membership));
+  },
+
+  async deleteComment(communityId: string, postId: string, commentId: string, userId: string) {
+    const { membership } = await requireMember(communityId, userId);
+    await loadPost(communityId, postId);
+    const comment = await loadComment(postId, commentId);
+    assertCanModify(comment, userId, membership);
+    return postRepository.remove(comment);
+  },
+
+  // Pins the post at `position` (0 is the top), appending it when no position is given. Pinning an
+  // already pinned post moves it.
+  async pinPost(communityId: string, postId: string, userId: string, position?: number) {
+    await requireModerator(communityId, userId);
+    const post = await loadPost(communityId, postId);
+    if (post.removedAt) {
+      throw ApiError.badRequest('Removed posts cannot be pinned');
+    }
+    if (post.isPinned && position === undefined) {
+      throw ApiError.badRequest('This post is already pinned');
+    }
+    const pinnedCount = await moderationRepository.countPinned(communityId);
+    if (!post.isPinned && pinnedCount >= MAX_PINNED_POSTS) {
+      throw ApiError.badRequest(`A community can pin at most ${MAX_PINNED_POSTS} posts`);
+    }
+
+    const updated = await moderationRepository.pin(
+      { communityId, postId, moderatorId: userId, action: 'pin' },
+      position ?? pinnedCount
+    );
+    return toPost(updated, userId, true);
+  },
+
+  async unpinPost(communityId: string, postId: string, userId: string) {
+    await requireModerator(communityId, userId);
+    const post = await loadPost(communityId, postId);
+    if (!post.isPinned) {
+      throw ApiError.badRequest('This post is not pinned');
+    }
+    const updated = await moderationRepository.apply(
+      { communityId, postId, moderatorId: userId, action: 'unpin' },
+      { isPinned: false, pinPosition: null }
+    );
+    return toPost(updated, userId, true);
+  },
+
+  // Locked posts stay readable but only staff can comment on them
+  async setLocked(communityId: string, postId: string, userId: string, isLocked: boolean) {
+    await requireModerator(communityId, userId);
+    const post = await loadPost(communityId, postId);
+    if (post.isLocked === isLocked) {
+      throw ApiError.badRequest(isLocked ? 'This post is already locked' : 'This post is not locked');
+    }
+    const updated = await moderationRepository.apply(
+      { communityId, postId, moderatorId: userId, action: isLocked ? 'lock' : 'unlock' },
+      { isLocked }
+    );
+    return toPost(updated, userId, true);
+  },
+
+  // Hides a post or comment from members without deleting it, and tells the author why
+  async removePost(communityId: string, postId: string, userId: string, reason: string) {
+    const { community } = await requireModerator(communityId, userId);
+    const post = await loadAnyPost(communityId, postId);
+    if (post.deletedAt) {
+      throw ApiError.badRequest('This comment has been deleted');
+    }
+    if (post.removedAt) {
+      throw ApiError.conflict('This post has already been removed');
+    }
+
+    const updated = await moderationRepository.apply(
+      { communityId, postId, moderatorId: userId, action: 'remove', reason },
+      { removedAt: new Date(), removalReason: reason, isPinned: false, pinPosition: null }
+    );
+    if (post.authorId !== userId) {
+      await notificationService.notify(post.authorId, {
+        type: 'community.post_removed',
+        title: 'Your post was removed',
+        message: `Moderators of ${community.name} removed your ${post.parentId ? 'comment' : 'post'}: "${reason}"`,
+        data: { communityId, postId: post.rootId ?? post.id, commentId: post.parentId ? post.id : undefined },
+      });
+    }
+    return toPost(updated, userId, true);
+  },
+
+  async restorePost(communityId: string, postId: string, userId: string) {
+    await requireModerator(communityId, userId);
+    const post = await loadAnyPost(communityId, postId);
+    if (!post.removedAt) {
+      throw ApiError.badRequest('This post has not been removed');
+    }
+    const updated = await moderationRepository.apply(
+      { communityId, postId, moderatorId: userId, action: 'restore' },
+      { removedAt: null, removalReason: null }
+    );
+    return toPost(updated, userId, true);
+  },
+
+  async listModerationLog(
+    communityId: string,
+    userId: string,
+    action: ModerationActionType | undefined,
+    pagination: PaginationParams
+  ) {
+    await requireModerator(communityId, userId);
+    const { items, total } = await moderationRepository.list(communityId, action, pagination);
+    return {
+      actions: items.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        reason: entry.reason ?? undefined,
+        moderator: toUserSummary(entry.moderator),
+        post: entry.post
+          ? {
+              id: entry.post.id,
+              title: entry.post.title ?? undefined,
+              excerpt: entry.post.content.slice(0, 140),
+              isComment: entry.post.parentId !== null,
+            }
+          : null,
+        createdAt: entry.createdAt,
+      })),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+
+  // Unmasks the author of an anonymous post or comment for staff. Every reveal is logged with
+  // its reason, and the creator is told when one of their moderators uses it.
+  async revealAuthor(communityId: string, postId: string, userId: string, reason: string) {
+    const { community, membership } = await requireMember(communityId, userId);
+    if (!isStaff(membership)) {
+      throw ApiError.forbidden('Only the creator or a moderator can reveal anonymous authors');
+    }
+    const post = await loadAnyPost(communityId, postId);
+    if (!post.isAnonymous) {
+      throw ApiError.badRequest('This post is not anonymous');
+    }
+
+    const reveal = await revealRepository.create({
+      communityId,
+      postId,
+      authorId: post.authorId,
+      revealedById: userId,
+      reason,
+    });
+    if (community.creatorId !== userId) {
+      await notificationService.notify(community.creatorId, {
+        type: 'community.author_revealed',
+        title: 'Anonymous author revealed',
+        message: `A moderator of ${community.name} revealed the author of an anonymous post: "${reason}"`,
+        data: { communityId, postId, revealId: reveal.id },
+      });
+    }
+    return { author: toUserSummary(post.author), revealedAt: reveal.createdAt };
+  },
+
+  async listReveals(communityId: string, userId: string, pagination: PaginationParams) {
+    const { membership } = await requireMember(communityId, userId);
+    if (!isStaff(membership)) {
+      throw ApiError.forbidden('Only the creator or a moderator can view the reveal log');
+    }
+    const { items, total } = await revealRepository.listByCommunity(communityId, pagination);
+    return {
+      reveals: items.map((reveal) => ({
+        id: reveal.id,
+        postId: reveal.postId,
+        author: toUserSummary(reveal.author),
+        revealedBy: toUserSummary(reveal.revealedBy),
+        reason: reveal.reason,
+        createdAt: reveal.createdAt,
+      })),
+      pagination: buildPagination(pagination, total),
+    };
+  },
+};
@@ -0,0 +1,125 @@
+import { Event, EventReminder } from '@prisma/client';
+import { config } from '../config';
+import { eventReminderRepository } from '../repositories/eventReminderRepository';
+import { ApiError } from '../utils/ApiError';
+import { notificationService } from './notificationService';
+
+const MINUTE_MS = 60 * 1000;
+// Reminders can be scheduled up to a week ahead
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+const MANUAL_REMINDER_COOLDOWN_MINUTES = 10;
+
+// "in 3 days", "in 1 hour", "in 10 minutes"
+const formatLead = (ms: number) => {
+  const minutes = Math.max(1, Math.round(ms / MINUTE_MS));
+  const [amount, unit] =
+    minutes >= 2 * 24 * 60
+      ? [Math.round(minutes / (24 * 60)), 'day']
+      : minutes >= 60
+        ? [Math.round(minutes / 60), 'hour']
+        : [minutes, 'minute'];
+  return `in ${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+// The nearest offset whose time has come. Reminders missed while no server was running, or
+// before the event was published, are skipped rather than sent late one after another.
+const dueOffset = (event: Event, now: number) => {
+  const due = event.reminderOffsets.filter((offset) => event.startDate.getTime() - offset * MINUTE_MS <= now);
+  return due.length > 0 ? Math.min(...due) : undefined;
+};
+
+// Sends the reminder to registered attendees who haven't turned reminders off, in the app and by
+// email to those who also get email notifications. Returns the number notified, or null when the
+// reminder had already gone out.
+const deliver = async (event: Event, reminder: Pick<EventReminder, 'offsetMinutes' | 'message' | 'sentById'>) => {
+  const notification = {
+    type: 'event.reminder',
+    title: `Reminder: ${event.title}`,
+    message: reminder.message || `${event.title} starts ${formatLead(event.startDate.getTime() - Date.now())}`,
+    data: { eventId: event.id },
+  };
+  const recipients = await notificationService.filterRecipients(
+    await eventReminderRepository.findRecipientIds(event.id),
+    notification.type
+  );
+  const sent = await eventReminderRepository.send(
+    { ...reminder, eventId: event.id, eventStart: event.startDate },
+    notification,
+    recipients
+  );
+  if (!sent) {
+    return null;
+  }
+  // Emails go out in the background; the reminder is recorded whether or not they arrive
+  notificationService.email(recipients, notification, `${config.appUrl}/app/events/${event.id}`).catch(() => undefined);
+  return recipients.length;
+};
+
+const toReminder = (reminder: EventReminder) => ({
+  id: reminder.id,
+  kind: reminder.offsetMinutes === null ? 'manual' : 'scheduled',
+  offsetMinutes: reminder.offsetMinutes ?? undefined,
+  message: reminder.message ?? undefined,
+  recipientCount: reminder.recipientCount,
+  sentAt: reminder.sentAt,
+});
+
+export const reminderService = {
+  // Sends every scheduled reminder that has come due; safe to run from several servers at once
+  async sendDueReminders() {
+    const now = Date.now();
+    const events = await eventReminderRepository.findUpcomingEvents(
+      new Date(now + MAX_REMINDER_OFFSET_MINUTES * MINUTE_MS)
+    );
+    const due = events
+      .map((event) => ({ event, offsetMinutes: dueOffset(event, now) }))
+      .filter(({ offsetMinutes }) => offsetMinutes !== undefined);
+    // Skips the lookups for reminders known to be out; sending still claims each one atomically
+    const sent = new Set(
+      (await eventReminderRepository.findScheduled(due.map(({ event }) => event.id))).map(
+        (reminder) => `${reminder.eventId}:${reminder.offsetMinutes}:${reminder.eventStart.getTime()}`
+      )
+    );
+    let count = 0;
+    for (const { event, offsetMinutes } of due) {
+      if (!sent.has(`${event.id}:${offsetMinutes}:${event.startDate.getTime()}`)) {
+        count += (await deliver(event, { offsetMinutes, message: null, sentById: null })) === null ? 0 : 1;
+      }
+    }
+    return count;
+  },
+
+  // Sent by the organizer; the caller has checked they organize the event
+  async sendManual(event: Event, organizerId: string, message?: string) {
+    if (event.status !== 'published') {
+      throw ApiError.badRequest('Reminders can only be sent for published events');
+    }
+    if (event.endDate <= new Date()) {
+      throw ApiError.badRequest('This event has already ended');
+    }
+    const last = await eventReminderRepository.findLastManual(event.id);
+    if (last && last.sentAt.getTime() > Date.now() - MANUAL_REMINDER_COOLDOWN_MINUTES * MINUTE_MS) {
+      throw ApiError.conflict(
+        `A reminder was sent less than ${MANUAL_REMINDER_COOLDOWN_MINUTES} minutes ago. Try again later.`
+      );
+    }
+    // Manual reminders have no offset, so they never clash with an earlier one
+    return (await deliver(event, { offsetMinutes: null, message: message || null, sentById: organizerId })) ?? 0;
+  },
+
+  // Reminders already sent, with the scheduled ones still to come
+  async list(event: Event) {
+    const reminders = await eventReminderRepository.list(event.id);
+    const upcoming =
+      event.status === 'published' && event.sendReminders
+        ? event.reminderOffsets
+            .map((offsetMinutes) => ({
+              offsetMinutes,
+              sendAt: new Date(event.startDate.getTime() - offsetMinutes * MINUTE_MS),
+            }))
+            .filter((reminder) => reminder.sendAt.getTime() > Date.now())
+            .sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime())
+        : [];
+    return { sent: reminders.map(toReminder), upcoming };
+  },
+};
@@ -0,0 +1,45 @@
+import { generateNonce, SiweMessage } from 'siwe';
+import { config } from '../config';
+import { walletNonceRepository } from '../repositories/walletNonceRepository';
+import { ApiError } from '../utils/ApiError';
+
+export const siweService = {
+  async createNonce() {
+    const nonce = generateNonce();
+    const expiresAt = new Date(Date.now() + config.siwe.nonceTtlMinutes * 60 * 1000);
+    await walletNonceRepository.create(nonce, expiresAt);
+    // Housekeeping is best effort, a failure here must not block sign-in
+    walletNonceRepository.deleteExpired().catch(() => undefined);
+    return { nonce, expiresAt };
+  },
+
+  // Check an EIP-4361 message and its signature, returning the lowercased signer address
+  async verify(rawMessage: string, signature: string) {
+    let message: SiweMessage;
+    try {
+      message = new SiweMessage(rawMessage);
+    } catch (error) {
+      throw ApiError.badRequest('Malformed sign-in message');
+    }
+
+    if (!config.siwe.chainIds.includes(message.chainId)) {
+      throw ApiError.unauthorized(`Chain ${message.chainId} is not supported`);
+    }
+
+    const { success, error } = await message.verify(
+      { signature, domain: config.siwe.domain },
+      { suppressExceptions: true }
+    );
+    if (!success) {
+      throw ApiError.unauthorized(error?.type || 'Invalid signature');
+    }
+
+    // Consume only after the signature checks out so a forged request cannot burn someone else's nonce
+    const consumed = await walletNonceRepository.consume(message.nonce);
+    if (!consumed) {
+      throw ApiError.unauthorized('Sign-in nonce is invalid, expired or already used');
+    }
+
+    return message.address.toLowerCase();
+  },
+};
@@ -0,0 +1,147 @@
+import { Event, EventSpeaker, Prisma } from '@prisma/client';
+import { speakerRepository } from '../repositories/speakerRepository';
+import { userRepository } from '../repositories/userRepository';
+import { toSession, toSpeaker } from '../serializers/event';
+import { ApiError } from '../utils/ApiError';
+import { notificationService } from './notificationService';
+
+export interface SpeakerInput {
+  name?: string;
+  headline?: string;
+  bio?: string;
+  // Links the speaker to the NexusVerse account with this email and invites them
+  email?: string;
+}
+
+export interface SessionInput {
+  title: string;
+  description?: string;
+  startsAt: Date;
+  endsAt: Date;
+  location?: string;
+  speakerIds?: string[];
+}
+
+// Invited speakers are listed once they accept; until then only the hosts and the invitee see them
+const isListed = (speaker: EventSpeaker, viewerId?: string) =>
+  !speaker.invitationStatus || speaker.invitationStatus === 'accepted' || speaker.userId === viewerId;
+
+const findSpeaker = async (eventId: string, speakerId: string) => {
+  const speaker = await speakerRepository.findSpeaker(speakerId);
+  if (!speaker || speaker.eventId !== eventId) {
+    throw ApiError.notFound('Speaker not found');
+  }
+  return speaker;
+};
+
+const findSession = async (eventId: string, sessionId: string) => {
+  const session = await speakerRepository.findSession(sessionId);
+  if (!session || session.eventId !== eventId) {
+    throw ApiError.notFound('Session not found');
+  }
+  return session;
+};
+
+// Sessions fit in the event's schedule and are given by its own speakers
+const assertSession = async (event: Event, startsAt: Date, endsAt: Date, speakerIds?: string[]) => {
+  if (endsAt <= startsAt) {
+    throw ApiError.badRequest('The session must end after it starts');
+  }
+  if (startsAt < event.startDate || endsAt > event.endDate) {
+    throw ApiError.badRequest('Sessions must take place during the event');
+  }
+  if (speakerIds?.length) {
+    const speakers = await speakerRepository.listSpeakers(event.id);
+    if (!speakerIds.every((speakerId) => speakers.some((speaker) => speaker.id === speakerId))) {
+      throw ApiError.badRequest('Sessions can only be given by speakers of this event');
+    }
+  }
+};
+
+const toSessionData = <T extends Partial<SessionInput>>({ speakerIds, ...data }: T) => data;
+
+export const speakerService = {
+  async listSpeakers(event: Event, viewerId: string | undefined, isHost: boolean) {
+    const speakers = await speakerRepository.listSpeakers(event.id);
+    return speakers.filter((speaker) => isHost || isListed(speaker, viewerId)).map(toSpeaker);
+  },
+
+  // The caller has checked they may edit the event
+  async addSpeaker(event: Event, { email, ...input }: SpeakerInput) {
+    const user = email ? await userRepository.findByEmail(email) : null;
+    if (email && !user) {
+      throw ApiError.notFound('No NexusVerse account uses this email');
+    }
+    const name = input.name || (user ? `${user.firstName} ${user.lastName}` : '');
+    if (!name) {
+      throw ApiError.badRequest('Give the speaker a name, or the email of their NexusVerse account');
+    }
+    let speaker: Awaited<ReturnType<typeof speakerRepository.createSpeaker>>;
+    try {
+      speaker = await speakerRepository.createSpeaker(
+        event.id,
+        { name, headline: input.headline ?? '', bio: input.bio ?? user?.bio ?? '' },
+        user?.id
+      );
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('They are already a speaker at this event');
+      }
+      throw error;
+    }
+    if (user) {
+      await notificationService.notify(user.id, {
+        type: 'event.speaker_invited',
+        title: 'Speaker invitation',
+        message: `You've been invited to speak at ${event.title}. Accept or decline on the event page.`,
+        data: { eventId: event.id, speakerId: speaker.id },
+      });
+    }
+    return toSpeaker(speaker);
+  },
+
+  async updateSpeaker(event: Event, speakerId: string, input: Omit<SpeakerInput, 'email'>) {
+    await findSpeaker(event.id, speakerId);
+    return toSpeaker(await speakerRepository.updateSpeaker(speakerId, input));
+  },
+
+  async removeSpeaker(event: Event, speakerId: string) {
+    await findSpeaker(event.id, speakerId);
+    await speakerRepository.deleteSpeaker(speakerId);
+  },
+
+  // The invited user accepts or declines; the organizer hears back either way
+  async respond(event: Event, userId: string, speakerId: string, accept: boolean) {
+    const speaker = await findSpeaker(event.id, speakerId);
+    if (!(await speakerRepository.respond(speakerId, userId, accept ? 'accepted' : 'declined'))) {
+      throw ApiError.badRequest('You have no open invitation to speak at this event');
+    }
+    await notificationService.notify(event.organizerId, {
+      type: 'event.speaker_responded',
+      title: accept ? 'Speaker confirmed' : 'Speaker declined',
+      message: `${speaker.name} ${accept ? 'accepted' : 'declined'} your invitation to speak at ${event.title}`,
+      data: { eventId: event.id, speakerId },
+    });
+    return toSpeaker(await speakerRepository.findSpeaker(speakerId));
+  },
+
+  async listSessions(event: Event) {
+    return (await speakerRepository.listSessions(event.id)).map(toSession);
+  },
+
+  async createSession(event: Event, input: SessionInput) {
+    await assertSession(event, input.startsAt, input.endsAt, input.speakerIds);
+    return toSession(await speakerRepository.createSession(event.id, toSessionData(input), input.speakerIds ?? []));
+  },
+
+  async updateSession(event: Event, sessionId: string, input: Partial<SessionInput>) {
+    const current = await findSession(event.id, sessionId);
+    await assertSession(event, input.startsAt ?? current.startsAt, input.endsAt ?? current.endsAt, input.speakerIds);
+    return toSession(await speakerRepository.updateSession(sessionId, toSessionData(input), input.speakerIds));
+  },
+
+  async deleteSession(event: Event, sessionId: string) {
+    await findSession(event.id, sessionId);
+    await speakerRepository.deleteSession(sessionId);
+  },
+};
@@ -0,0 +1,229 @@
+import { Event, EventSurvey, Prisma } from '@prisma/client';
+import { surveyRepository } from '../repositories/surveyRepository';
+import { ApiError } from '../utils/ApiError';
+import { toCsv } from '../utils/csv';
+
+export type SurveyQuestionType = 'rating' | 'nps' | 'text' | 'choice';
+
+export interface SurveyQuestion {
+  type: SurveyQuestionType;
+  prompt: string;
+  // The choices of a multiple choice question
+  options?: string[];
+  required?: boolean;
+}
+
+// A number for rating and NPS questions, the text or chosen option otherwise; null when skipped
+export type SurveyAnswer = number | string | null;
+
+const RATING_MAX = 5;
+const NPS_MAX = 10;
+// Most recent free text answers included in the stats; the export has all of them
+const LATEST_TEXT_ANSWERS = 10;
+
+const questionsOf = (survey: EventSurvey) => survey.questions as unknown as SurveyQuestion[];
+
+const toSurvey = (survey: EventSurvey) => ({
+  id: survey.id,
+  questions: questionsOf(survey),
+  sentAt: survey.sentAt ?? undefined,
+  recipientCount: survey.recipientCount,
+});
+
+const toQuestionData = ({ type, prompt, options, required }: SurveyQuestion) => {
+  if (type !== 'choice') {
+    return { type, prompt, required: !!required };
+  }
+  if (!options || new Set(options).size < 2) {
+    throw ApiError.badRequest(`Give "${prompt}" at least two different options`);
+  }
+  return { type, prompt, options, required: !!required };
+};
+
+const isInRange = (value: SurveyAnswer, max: number, min = 0) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Skipped answers come in as null or empty text
+const toAnswer = (question: SurveyQuestion, value: SurveyAnswer = null): SurveyAnswer => {
+  if (value === null || value === '') {
+    if (question.required) {
+      throw ApiError.badRequest(`"${question.prompt}" needs an answer`);
+    }
+    return null;
+  }
+  const valid =
+    question.type === 'rating'
+      ? isInRange(value, RATING_MAX, 1)
+      : question.type === 'nps'
+        ? isInRange(value, NPS_MAX)
+        : question.type === 'choice'
+          ? question.options.includes(value as string)
+          : typeof value === 'string';
+  if (!valid) {
+    throw ApiError.badRequest(`"${question.prompt}" has an invalid answer`);
+  }
+  return value;
+};
+
+const count = (values: SurveyAnswer[], value: SurveyAnswer) => values.filter((answer) => answer === value).length;
+
+// Ratings average out of 5; the NPS is the share of promoters (9-10) minus that of detractors (0-6)
+const summarizeQuestion = (question: SurveyQuestion, answers: SurveyAnswer[]) => {
+  const values = answers.filter((answer) => answer !== null);
+  const numbers = values.filter((answer): answer is number => typeof answer === 'number');
+  const summary = { ...question, responses: values.length };
+  switch (question.type) {
+    case 'rating':
+      return {
+        ...summary,
+        average: numbers.length ? Math.round((numbers.reduce((a, b) => a + b, 0) / numbers.length) * 10) / 10 : null,
+        distribution: Array.from({ length: RATING_MAX }, (_, index) => count(numbers, index + 1)),
+      };
+    case 'nps': {
+      const promoters = numbers.filter((score) => score >= 9).length;
+      const detractors = numbers.filter((score) => score <= 6).length;
+      return {
+        ...summary,
+        score: numbers.length ? Math.round(((promoters - detractors) / numbers.length) * 100) : null,
+        promoters,
+        passives: numbers.length - promoters - detractors,
+        detractors,
+      };
+    }
+    case 'choice':
+      return { ...summary, counts: question.options.map((option) => ({ option, count: count(values, option) })) };
+    default:
+      return { ...summary, latest: (values as string[]).slice(-LATEST_TEXT_ANSWERS).reverse() };
+  }
+};
+
+// Notifies the attendees. Returns false when the survey had already gone out.
+const deliver = async (event: Event, survey: EventSurvey) =>
+  surveyRepository.send(
+    survey.id,
+    {
+      type: 'event.survey',
+      title: `How was ${event.title}?`,
+      message: 'The organizer would like your feedback in a short survey',
+      data: { eventId: event.id },
+    },
+    await surveyRepository.findRecipientIds(event.id)
+  );
+
+export const surveyService = {
+  // Sends the event's survey once it is completed, if it has one
+  async send(event: Event) {
+    const survey = await surveyRepository.findByEvent(event.id);
+    return survey && !survey.sentAt && event.status === 'completed' ? deliver(event, survey) : false;
+  },
+
+  // Catches surveys added after the event was completed, or left unsent by a failure
+  async sendDueSurveys() {
+    let sent = 0;
+    for (const { event, ...survey } of await surveyRepository.findUnsent()) {
+      sent += (await deliver(event, survey)) ? 1 : 0;
+    }
+    return sent;
+  },
+
+  // Hosts who can edit the event get the survey to edit; attendees get it to answer once it has
+  // been sent
+  async get(event: Event, viewerId: string, canEdit: boolean) {
+    const survey = await surveyRepository.findByEvent(event.id);
+    if (canEdit) {
+      return survey ? toSurvey(survey) : null;
+    }
+    if (!survey?.sentAt || !(await surveyRepository.attended(event.id, viewerId))) {
+      return null;
+    }
+    return {
+      id: survey.id,
+      questions: questionsOf(survey),
+      sentAt: survey.sentAt,
+      responded: await surveyRepository.hasResponded(survey.id, viewerId),
+    };
+  },
+
+  // The caller has checked they organize the event. A completed event's survey goes out right away.
+  async save(event: Event, questions: SurveyQuestion[]) {
+    if (event.status === 'cancelled') {
+      throw ApiError.badRequest('Cancelled events have no feedback survey');
+    }
+    const survey = await surveyRepository.save(event.id, questions.map(toQuestionData));
+    if (!survey) {
+      throw ApiError.badRequest('This survey has already been sent, so its questions can no longer change');
+    }
+    if (event.status === 'completed') {
+      await deliver(event, survey);
+      return toSurvey(await surveyRepository.findByEvent(event.id));
+    }
+    return toSurvey(survey);
+  },
+
+  async remove(event: Event) {
+    if (!(await surveyRepository.delete(event.id))) {
+      throw ApiError.badRequest('There is no unsent survey to remove');
+    }
+  },
+
+  async respond(event: Event, userId: string, answers: SurveyAnswer[]) {
+    const survey = await surveyRepository.findByEvent(event.id);
+    if (!survey?.sentAt) {
+      throw ApiError.notFound('This event has no survey to answer');
+    }
+    if (!(await surveyRepository.attended(event.id, userId))) {
+      throw ApiError.forbidden('Only people who attended can answer the survey');
+    }
+    const questions = questionsOf(survey);
+    if (answers.length > questions.length) {
+      throw ApiError.badRequest('There are more answers than questions');
+    }
+    const values = questions.map((question, index) => toAnswer(question, answers[index]));
+    try {
+      await surveyRepository.createResponse(survey.id, userId, values);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('You have already answered this survey');
+      }
+      throw error;
+    }
+  },
+
+  // Aggregated answers for the event stats, or null when the event has no survey
+  async summarize(event: Event) {
+    const survey = await surveyRepository.findByEvent(event.id);
+    if (!survey) {
+      return null;
+    }
+    const responses = survey.sentAt ? await surveyRepository.listResponses(survey.id) : [];
+    const answers = responses.map((response) => response.answers as SurveyAnswer[]);
+    return {
+      sentAt: survey.sentAt ?? undefined,
+      recipientCount: survey.recipientCount,
+      responses: responses.length,
+      responseRate: survey.recipientCount ? responses.length / survey.recipientCount : 0,
+      questions: questionsOf(survey).map((question, index) =>
+        summarizeQuestion(question, answers.map((values) => values[index] ?? null))
+      ),
+    };
+  },
+
+  // Every response as a CSV row, one column per question
+  async exportCsv(event: Event) {
+    const survey = await surveyRepository.findByEvent(event.id);
+    if (!survey) {
+      throw ApiError.notFound('This event has no survey');
+    }
+    const responses = await surveyRepository.listResponses(survey.id);
+    return toCsv(
+      ['First name', 'Last name', 'Email', 'Submitted at', ...questionsOf(survey).map((question) => question.prompt)],
+      responses.map(({ user, submittedAt, answers }) => [
+        user.firstName,
+        user.lastName,
+        user.email,
+        submittedAt,
+        ...(answers as SurveyAnswer[]),
+      ])
+    );
+  },
+};
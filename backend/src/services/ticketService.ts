@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+export interface TicketClaims {
+  attendeeId: string;
+  eventId: string;
+  userId: string;
+  // Ties the ticket to one registration, so re-registering invalidates older tickets
+  registeredAt: Date;
+}
+
+// Tickets are `<payload>.<signature>` in base64url, short enough for a QR code. They are signed
+// with Ed25519 so door staff can check them offline with only the public key.
+const PKCS8_ED25519_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+const seed = config.events.ticketSigningKey
+  ? Buffer.from(config.events.ticketSigningKey, 'base64')
+  : crypto.createHash('sha256').update(`tickets:${config.jwt.secret}`).digest();
+
+if (seed.length !== 32) {
+  throw new Error('TICKET_SIGNING_KEY must be 32 bytes of base64');
+}
+
+const privateKey = crypto.createPrivateKey({
+  key: Buffer.concat([PKCS8_ED25519_PREFIX, seed]),
+  format: 'der',
+  type: 'pkcs8',
+});
+const publicKey = crypto.createPublicKey(privateKey);
+
+export const signTicket = ({ attendeeId, eventId, userId, registeredAt }: TicketClaims): string => {
+  const payload = Buffer.from(
+    JSON.stringify({ a: attendeeId, e: eventId, u: userId, r: registeredAt.getTime() })
+  ).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(payload), privateKey).toString('base64url');
+  return `${payload}.${signature}`;
+};
+
+// Returns null for anything that is not a well-formed ticket with a valid signature
+export const verifyTicket = (code: string): TicketClaims | null => {
+  const [payload, signature, ...rest] = code.trim().split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+  if (!crypto.verify(null, Buffer.from(payload), publicKey, Buffer.from(signature, 'base64url'))) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims.a !== 'string' || typeof claims.e !== 'string' || typeof claims.u !== 'string') {
+      return null;
+    }
+    return { attendeeId: claims.a, eventId: claims.e, userId: claims.u, registeredAt: new Date(claims.r) };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Published so scanners can verify tickets without calling the API
+export const ticketPublicKey = () => publicKey.export({ format: 'jwk' });
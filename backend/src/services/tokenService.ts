@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config';
+import { refreshTokenRepository } from '../repositories/refreshTokenRepository';
+import { ApiError } from '../utils/ApiError';
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+}
+
+export const signAccessToken = (user: AccessTokenPayload): string =>
+  jwt.sign({ email: user.email }, config.jwt.secret, {
+    subject: user.id,
+    expiresIn: config.jwt.expiresIn as jwt.SignOptions['expiresIn'],
+  });
+
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  const payload = jwt.verify(token, config.jwt.secret) as jwt.JwtPayload;
+  if (!payload.sub) {
+    throw new Error('Token has no subject');
+  }
+  return { id: payload.sub, email: payload.email };
+};
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const refreshTokenExpiry = () =>
+  new Date(Date.now() + config.jwt.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+// Create a new refresh token, starting a new family unless one is given
+export const issueRefreshToken = async (userId: string, familyId: string = crypto.randomUUID()) => {
+  const token = crypto.randomBytes(48).toString('base64url');
+  const record = await refreshTokenRepository.create({
+    userId,
+    familyId,
+    tokenHash: hashToken(token),
+    expiresAt: refreshTokenExpiry(),
+  });
+  return { token, record };
+};
+
+// Exchange a refresh token for a new one in the same family. Presenting a token that
+// was already rotated means it leaked, so the whole family is revoked.
+export const rotateRefreshToken = async (token: string) => {
+  const existing = await refreshTokenRepository.findByHash(hashToken(token));
+  if (!existing) {
+    throw ApiError.unauthorized('Invalid refresh token');
+  }
+
+  if (existing.revokedAt) {
+    await refreshTokenRepository.revokeFamily(existing.familyId);
+    throw ApiError.unauthorized('Refresh token reuse detected, please sign in again');
+  }
+
+  if (existing.expiresAt <= new Date()) {
+    await refreshTokenRepository.revokeFamily(existing.familyId);
+    throw ApiError.unauthorized('Refresh token expired');
+  }
+
+  const next = await issueRefreshToken(existing.userId, existing.familyId);
+  const claimed = await refreshTokenRepository.markRotated(existing.id, next.record.id);
+  if (!claimed) {
+    // Lost a race against another use of the same token, which is reuse as well
+    await refreshTokenRepository.revokeFamily(existing.familyId);
+    throw ApiError.unauthorized('Refresh token reuse detected, please sign in again');
+  }
+
+  return { userId: existing.userId, refreshToken: next.token };
+};
+
+export const revokeRefreshToken = async (token: string) => {
+  const existing = await refreshTokenRepository.findByHash(hashToken(token));
+  if (existing) {
+    await refreshTokenRepository.revokeFamily(existing.familyId);
+  }
+};
@@ -0,0 +1,58 @@
+import { Prisma } from '@prisma/client';
+import { connectionRepository } from '../repositories/connectionRepository';
+import { userRepository } from '../repositories/userRepository';
+import { toAuthUser, toUserProfile } from '../serializers/user';
+import { ApiError } from '../utils/ApiError';
+import { notificationService } from './notificationService';
+
+export interface UserSettingsInput {
+  timeZone?: string | null;
+}
+
+export const userService = {
+  async getProfile(userId: string) {
+    const user = await userRepository.findById(userId);
+    if (!user) {
+      throw ApiError.notFound('User not found');
+    }
+    const stats = await userRepository.getStats(userId);
+    return toUserProfile(user, stats);
+  },
+
+  async updateSettings(userId: string, input: UserSettingsInput) {
+    return toAuthUser(await userRepository.update(userId, input));
+  },
+
+  // One connection per pair of users, whichever of them asked
+  async sendConnectionRequest(userId: string, targetUserId: string) {
+    if (userId === targetUserId) {
+      throw ApiError.badRequest('You cannot connect with yourself');
+    }
+    const [user, target] = await Promise.all([userRepository.findById(userId), userRepository.findById(targetUserId)]);
+    if (!target) {
+      throw ApiError.notFound('User not found');
+    }
+    const existing = await connectionRepository.findBetween(userId, targetUserId);
+    if (existing) {
+      throw ApiError.conflict(
+        existing.status === 'accepted' ? 'You are already connected' : 'There is already a request between you'
+      );
+    }
+    let connection: Awaited<ReturnType<typeof connectionRepository.create>>;
+    try {
+      connection = await connectionRepository.create(userId, targetUserId);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw ApiError.conflict('There is already a request between you');
+      }
+      throw error;
+    }
+    await notificationService.notify(targetUserId, {
+      type: 'connection.requested',
+      title: 'New connection request',
+      message: `${user.firstName} ${user.lastName} would like to connect`,
+      data: { connectionId: connection.id, userId },
+    });
+    return { id: connection.id, status: connection.status };
+  },
+};
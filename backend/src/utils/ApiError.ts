@@ -0,0 +1,32 @@
+// Error carrying an HTTP status, turned into a JSON response by errorHandler
+export class ApiError extends Error {
+  statusCode: number;
+  details?: unknown;
+
+  constructor(statusCode: number, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.statusCode = statusCode;
+    this.details = details;
+  }
+
+  static badRequest(message = 'Bad request', details?: unknown) {
+    return new ApiError(400, message, details);
+  }
+
+  static unauthorized(message = 'Authentication required') {
+    return new ApiError(401, message);
+  }
+
+  static forbidden(message = 'You do not have permission to perform this action') {
+    return new ApiError(403, message);
+  }
+
+  static notFound(message = 'Resource not found') {
+    return new ApiError(404, message);
+  }
+
+  static conflict(message = 'Resource already exists') {
+    return new ApiError(409, message);
+  }
+}
@@ -0,0 +1,23 @@
+// RFC 4180 CSV for organizer exports. Text that a spreadsheet would run as a formula is prefixed
+// with a quote, as exports hold what attendees typed.
+
+export type CsvValue = string | number | Date | null | undefined;
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const toCell = (value: CsvValue) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map((row) => row.map(toCell).join(',')).join('\r\n') + '\r\n';
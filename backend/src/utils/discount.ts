@@ -0,0 +1,15 @@
+import { EventPromoCode } from '@prisma/client';
+
+export type Discount = Pick<EventPromoCode, 'discountType' | 'discountValue'>;
+
+// What a price comes to with a promo code applied; discounts never take it below zero
+export const applyDiscount = (priceCents: number, discount?: Discount | null) => {
+  if (!discount) {
+    return priceCents;
+  }
+  const off =
+    discount.discountType === 'percentage'
+      ? Math.round((priceCents * discount.discountValue) / 100)
+      : discount.discountValue;
+  return Math.max(0, priceCents - off);
+};
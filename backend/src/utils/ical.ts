@@ -0,0 +1,161 @@
+import { offsetAt, toWallClock } from './timeZone';
+
+// RFC 5545 calendars for event downloads and subscription feeds. Times are written in UTC, or as
+// local times of `timeZone` with a VTIMEZONE describing its offsets over the span of the events.
+
+export type IcsStatus = 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  // Bumped on every change so calendar apps replace their copy
+  sequence: number;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status: IcsStatus;
+  created: Date;
+  lastModified: Date;
+}
+
+export interface IcsCalendar {
+  name: string;
+  timeZone?: string;
+  events: IcsEvent[];
+}
+
+const PRODID = '-//NexusVerse//Events//EN';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space, never inside a character
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Wall-clock time in the zone, e.g. 20261103T190000
+const formatLocal = (date: Date, timeZone: string) => formatUtc(toWallClock(date, timeZone)).slice(0, -1);
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+
+// Offset changes between `from` and `to`, found day by day and narrowed to the minute
+const findTransitions = (timeZone: string, from: Date, to: Date) => {
+  const transitions: Array<{ at: Date; offsetFrom: number; offsetTo: number }> = [];
+  let previous = offsetAt(timeZone, from);
+  for (let time = from.getTime() + DAY_MS; time < to.getTime() + DAY_MS; time += DAY_MS) {
+    const offset = offsetAt(timeZone, new Date(time));
+    if (offset === previous) {
+      continue;
+    }
+    let low = time - DAY_MS;
+    let high = time;
+    while (high - low > MINUTE_MS) {
+      const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (offsetAt(timeZone, new Date(middle)) === previous) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    transitions.push({ at: new Date(high), offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+  return transitions;
+};
+
+// One observance per offset change, plus one for the offset in effect when the span starts. The
+// higher of two offsets a zone switches between is its daylight saving time.
+const buildTimeZone = (timeZone: string, from: Date, to: Date) => {
+  const initial = offsetAt(timeZone, from);
+  const transitions = findTransitions(timeZone, from, to);
+  const standardOffset = Math.min(initial, ...transitions.map((transition) => transition.offsetTo));
+  const observance = (start: Date, offsetFrom: number, offsetTo: number) => {
+    const kind = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtc(new Date(start.getTime() + offsetFrom * MINUTE_MS)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observance(from, initial, initial),
+    ...transitions.flatMap(({ at, offsetFrom, offsetTo }) => observance(at, offsetFrom, offsetTo)),
+    'END:VTIMEZONE',
+  ];
+};
+
+const formatTime = (name: string, date: Date, timeZone?: string) =>
+  timeZone ? `${name};TZID=${timeZone}:${formatLocal(date, timeZone)}` : `${name}:${formatUtc(date)}`;
+
+export const buildCalendar = ({ name, timeZone, events }: IcsCalendar) => {
+  // UTC needs no VTIMEZONE; times are written with a Z instead
+  const zone = timeZone && timeZone !== 'UTC' && timeZone !== 'Etc/UTC' ? timeZone : undefined;
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...(zone ? [`X-WR-TIMEZONE:${zone}`] : []),
+    // How often subscribed calendars should check for changes
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  if (zone && events.length > 0) {
+    const starts = events.map((event) => event.start.getTime());
+    const ends = events.map((event) => event.end.getTime());
+    lines.push(...buildTimeZone(zone, new Date(Math.min(...starts) - DAY_MS), new Date(Math.max(...ends))));
+  }
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      formatTime('DTSTART', event.start, zone),
+      formatTime('DTEND', event.end, zone),
+      `SEQUENCE:${event.sequence}`,
+      `STATUS:${event.status}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `CREATED:${formatUtc(event.created)}`,
+      `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+      'END:VEVENT'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
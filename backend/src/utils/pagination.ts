@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type PaginationParams = z.infer<typeof paginationSchema>;
+
+export const toSkipTake = ({ page, limit }: PaginationParams) => ({
+  skip: (page - 1) * limit,
+  take: limit,
+});
+
+// Matches the `pagination` object the Redux slices keep
+export const buildPagination = ({ page, limit }: PaginationParams, total: number) => ({
+  page,
+  limit,
+  total,
+  pages: Math.ceil(total / limit),
+});
+
+// Keyset-style pagination for feeds that grow while being read; the cursor is the id of the
+// last item of the previous page
+export const cursorPaginationSchema = z.object({
+  cursor: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CursorParams = z.infer<typeof cursorPaginationSchema>;
+
+// Pass `take: limit + 1` to the query; the extra row only tells us whether another page exists
+export const toCursorArgs = ({ cursor, limit }: CursorParams) => ({
+  take: limit + 1,
+  ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+});
+
+export const buildCursorPage = <T extends { id: string }>(rows: T[], { limit }: CursorParams) => {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    items,
+    pagination: { limit, hasMore, nextCursor: hasMore ? items[items.length - 1].id : null },
+  };
+};
@@ -0,0 +1,81 @@
+// One-to-one pairing for speed networking. People who share the most skills and interests meet
+// first, and nobody meets the same person twice while someone new is still free.
+
+export interface PairingCandidate {
+  id: string;
+  skills: string[];
+  interests: string[];
+}
+
+export interface Pairing {
+  userId: string;
+  // Null for whoever sits the round out
+  partnerId: string | null;
+}
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+const normalize = (values: string[]) => new Set(values.map((value) => value.trim().toLowerCase()).filter(Boolean));
+
+// Jaccard index: shared tags over all tags of the two
+const overlap = (a: Set<string>, b: Set<string>) => {
+  let shared = 0;
+  a.forEach((value) => {
+    if (b.has(value)) {
+      shared += 1;
+    }
+  });
+  const total = a.size + b.size - shared;
+  return total ? shared / total : 0;
+};
+
+// Skills and interests shown on the partner card
+export const sharedTags = (a: string[], b: string[]) => {
+  const other = normalize(b);
+  return a.filter((value) => other.has(value.trim().toLowerCase()));
+};
+
+// `met` holds earlier pairs as [userId, partnerId]. With an odd count, the person who has sat out
+// the fewest rounds so far (`satOut`, by user id) sits this one out, the latest to arrive on a tie.
+export const pairCandidates = (
+  candidates: PairingCandidate[],
+  met: Array<[string, string]>,
+  satOut: Map<string, number> = new Map()
+): Pairing[] => {
+  const pairings: Pairing[] = [];
+  let people = candidates;
+  if (people.length % 2 === 1) {
+    const sitter = people.reduce((best, person) =>
+      (satOut.get(person.id) ?? 0) <= (satOut.get(best.id) ?? 0) ? person : best
+    );
+    pairings.push({ userId: sitter.id, partnerId: null });
+    people = people.filter((person) => person !== sitter);
+  }
+
+  const metKeys = new Set(met.map(([a, b]) => pairKey(a, b)));
+  const tags = people.map((person) => ({ skills: normalize(person.skills), interests: normalize(person.interests) }));
+  const options: Array<{ a: number; b: number; repeat: boolean; score: number }> = [];
+  for (let a = 0; a < people.length; a += 1) {
+    for (let b = a + 1; b < people.length; b += 1) {
+      options.push({
+        a,
+        b,
+        repeat: metKeys.has(pairKey(people[a].id, people[b].id)),
+        score: overlap(tags[a].skills, tags[b].skills) + overlap(tags[a].interests, tags[b].interests),
+      });
+    }
+  }
+  // New faces before repeats, then the closest match first
+  options.sort((x, y) => Number(x.repeat) - Number(y.repeat) || y.score - x.score);
+
+  const taken = new Set<number>();
+  options.forEach(({ a, b }) => {
+    if (taken.has(a) || taken.has(b)) {
+      return;
+    }
+    taken.add(a);
+    taken.add(b);
+    pairings.push({ userId: people[a].id, partnerId: people[b].id }, { userId: people[b].id, partnerId: people[a].id });
+  });
+  return pairings;
+};
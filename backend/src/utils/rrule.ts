@@ -0,0 +1,243 @@
+// The subset of RFC 5545 recurrence rules that event series use: FREQ (DAILY, WEEKLY, MONTHLY,
+// YEARLY), INTERVAL, COUNT, UNTIL, BYDAY (with ordinals for MONTHLY, e.g. 2TU or -1FR),
+// BYMONTHDAY and WKST. Dates are expanded on the local clock of a time zone (UTC by default).
+
+import { fromWallClock, toWallClock } from './timeZone';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  // 0 = Sunday, as Date#getUTCDay
+  weekday: number;
+  // nth weekday of the month (negative counts from the end); only used with MONTHLY
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay: WeekdayRule[];
+  byMonthDay: number[];
+  weekStart: number;
+}
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RRuleError';
+  }
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Bounds the search when BY* parts rarely match, e.g. the 31st of every second month
+const MAX_PERIODS = 10000;
+
+const parseWeekday = (value: string) => {
+  const weekday = WEEKDAYS.indexOf(value);
+  if (weekday === -1) {
+    throw new RRuleError(`Unknown weekday "${value}"`);
+  }
+  return weekday;
+};
+
+// 20261103T180000Z, or a date alone (midnight UTC)
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new RRuleError(`Invalid UNTIL "${value}"`);
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+};
+
+const parseInteger = (name: string, value: string, min: number) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min) {
+    throw new RRuleError(`${name} must be an integer of at least ${min}`);
+  }
+  return number;
+};
+
+// Accepts the rule with or without a leading "RRULE:"
+export const parseRRule = (input: string): RecurrenceRule => {
+  const body = input.trim().replace(/^RRULE:/i, '');
+  const parts = new Map<string, string>();
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new RRuleError(`Invalid rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new RRuleError('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+  const supported = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'WKST'];
+  const unsupported = [...parts.keys()].filter((key) => !supported.includes(key));
+  if (unsupported.length > 0) {
+    throw new RRuleError(`Unsupported rule parts: ${unsupported.join(', ')}`);
+  }
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new RRuleError('COUNT and UNTIL cannot be combined');
+  }
+
+  const byDay = (parts.get('BYDAY')?.split(',') ?? []).map((value) => {
+    const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(value);
+    if (!match) {
+      throw new RRuleError(`Invalid BYDAY "${value}"`);
+    }
+    const nth = match[1] ? Number(match[1]) : undefined;
+    if (nth !== undefined && (freq !== 'MONTHLY' || nth === 0 || Math.abs(nth) > 5)) {
+      throw new RRuleError(`BYDAY ordinals are only supported with FREQ=MONTHLY`);
+    }
+    return { weekday: parseWeekday(match[2]), nth };
+  });
+
+  const byMonthDay = (parts.get('BYMONTHDAY')?.split(',') ?? []).map((value) => {
+    const day = Number(value);
+    if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+      throw new RRuleError(`Invalid BYMONTHDAY "${value}"`);
+    }
+    return day;
+  });
+  if (byMonthDay.length > 0 && freq !== 'MONTHLY') {
+    throw new RRuleError('BYMONTHDAY is only supported with FREQ=MONTHLY');
+  }
+
+  return {
+    freq,
+    interval: parts.has('INTERVAL') ? parseInteger('INTERVAL', parts.get('INTERVAL'), 1) : 1,
+    count: parts.has('COUNT') ? parseInteger('COUNT', parts.get('COUNT'), 1) : undefined,
+    until: parts.has('UNTIL') ? parseUntil(parts.get('UNTIL')) : undefined,
+    byDay,
+    byMonthDay,
+    weekStart: parts.has('WKST') ? parseWeekday(parts.get('WKST')) : 1,
+  };
+};
+
+const atTimeOf = (day: Date, time: Date) =>
+  new Date(
+    Date.UTC(
+      day.getUTCFullYear(),
+      day.getUTCMonth(),
+      day.getUTCDate(),
+      time.getUTCHours(),
+      time.getUTCMinutes(),
+      time.getUTCSeconds(),
+      time.getUTCMilliseconds()
+    )
+  );
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Candidate days of the month for MONTHLY rules
+const monthDays = (rule: RecurrenceRule, year: number, month: number, start: Date) => {
+  const length = daysInMonth(year, month);
+  const days: number[] = [];
+  for (const day of rule.byMonthDay) {
+    const date = day > 0 ? day : length + day + 1;
+    if (date >= 1 && date <= length) {
+      days.push(date);
+    }
+  }
+  for (const { weekday, nth } of rule.byDay) {
+    const first = ((weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7) + 1;
+    const matches: number[] = [];
+    for (let date = first; date <= length; date += 7) {
+      matches.push(date);
+    }
+    if (nth === undefined) {
+      days.push(...matches);
+    } else {
+      const date = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+      if (date !== undefined) {
+        days.push(date);
+      }
+    }
+  }
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0 && start.getUTCDate() <= length) {
+    days.push(start.getUTCDate());
+  }
+  return [...new Set(days)].sort((a, b) => a - b).map((date) => new Date(Date.UTC(year, month, date)));
+};
+
+// Candidate days (at midnight UTC) in the `index`th period after the one containing `start`
+const periodDays = (rule: RecurrenceRule, start: Date, index: number): Date[] => {
+  const step = index * rule.interval;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = new Date(Date.UTC(year, month, start.getUTCDate() + step));
+      return rule.byDay.length === 0 || rule.byDay.some(({ weekday }) => weekday === day.getUTCDay()) ? [day] : [];
+    }
+    case 'WEEKLY': {
+      const offset = (start.getUTCDay() - rule.weekStart + 7) % 7;
+      const weekStart = Date.UTC(year, month, start.getUTCDate() - offset + step * 7);
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [start.getUTCDay()];
+      return weekdays
+        .map((weekday) => new Date(weekStart + ((weekday - rule.weekStart + 7) % 7) * DAY_MS))
+        .sort((a, b) => a.getTime() - b.getTime());
+    }
+    case 'MONTHLY': {
+      const period = new Date(Date.UTC(year, month + step, 1));
+      return monthDays(rule, period.getUTCFullYear(), period.getUTCMonth(), start);
+    }
+    case 'YEARLY': {
+      // Feb 29 only recurs in leap years
+      const day = new Date(Date.UTC(year + step, month, start.getUTCDate()));
+      return day.getUTCMonth() === month ? [day] : [];
+    }
+  }
+};
+
+export interface ExpandOptions {
+  // Only occurrences starting before this are returned
+  before: Date;
+  limit?: number;
+  // Zone whose local time the rule repeats in, so a weekly 19:00 stays 19:00 across DST changes
+  timeZone?: string;
+}
+
+// Occurrence start times from `start` onwards, honouring COUNT and UNTIL. The start itself is
+// always the first occurrence and counts towards COUNT, as in RFC 5545.
+export const expandRRule = (
+  rule: RecurrenceRule,
+  start: Date,
+  { before, limit = Infinity, timeZone = 'UTC' }: ExpandOptions
+) => {
+  const occurrences: Date[] = [];
+  if (start >= before || limit < 1) {
+    return occurrences;
+  }
+  occurrences.push(new Date(start));
+  // Days and times of day are worked out on the local clock, then turned back into instants
+  const localStart = toWallClock(start, timeZone);
+  let seen = 1;
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    for (const day of periodDays(rule, localStart, index)) {
+      const local = atTimeOf(day, localStart);
+      if (local <= localStart) {
+        continue;
+      }
+      const occurrence = fromWallClock(local, timeZone);
+      if (
+        (rule.until && occurrence > rule.until) ||
+        (rule.count !== undefined && seen >= rule.count) ||
+        occurrence >= before ||
+        occurrences.length >= limit
+      ) {
+        return occurrences;
+      }
+      seen++;
+      occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+};
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+// IANA time zone helpers. Events are stored as UTC instants together with the zone they are held
+// in; wall-clock times are represented as Dates whose UTC fields read as the local time.
+
+const MINUTE_MS = 60 * 1000;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// IANA name such as Europe/Berlin
+export const timeZoneSchema = z.string().trim().max(100).refine(isValidTimeZone, 'Unknown time zone');
+
+// Minutes east of UTC in `timeZone` at `date`
+export const offsetAt = (timeZone: string, date: Date) => {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName').value;
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+  return match ? (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3])) : 0;
+};
+
+export const toWallClock = (date: Date, timeZone: string) =>
+  new Date(date.getTime() + offsetAt(timeZone, date) * MINUTE_MS);
+
+// The instant at which clocks in `timeZone` show `wallClock`. Times skipped when clocks go forward
+// come out shifted by the size of the jump; repeated times resolve to the earlier of the two.
+export const fromWallClock = (wallClock: Date, timeZone: string) => {
+  const guess = wallClock.getTime() - offsetAt(timeZone, wallClock) * MINUTE_MS;
+  const earlier = wallClock.getTime() - offsetAt(timeZone, new Date(guess - 60 * MINUTE_MS)) * MINUTE_MS;
+  if (toWallClock(new Date(earlier), timeZone).getTime() === wallClock.getTime()) {
+    return new Date(earlier);
+  }
+  return new Date(wallClock.getTime() - offsetAt(timeZone, new Date(guess)) * MINUTE_MS);
+};
+
+// Moves `date` by `ms` of wall-clock time, so a day later keeps the time of day across DST changes
+export const addWallClock = (date: Date, ms: number, timeZone: string) =>
+  fromWallClock(new Date(toWallClock(date, timeZone).getTime() + ms), timeZone);
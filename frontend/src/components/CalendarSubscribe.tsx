@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { getCalendarFeeds, resetCalendarFeeds } from '@/store/slices/eventSlice';
+import { feedUrl, webcalUrl } from '@/services/calendar';
+import { useTimeZone } from '@/hooks/useTimeZone';
+
+interface CalendarSubscribeProps {
+  // Subscribes to the community's events instead of the viewer's registrations
+  communityId?: string;
+}
+
+// Private feed link for calendar apps. Anyone with the link sees the feed, so it can be reset.
+const CalendarSubscribe: React.FC<CalendarSubscribeProps> = ({ communityId }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const feeds = useSelector((state: RootState) => state.event.calendarFeeds);
+  const timeZone = useTimeZone();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const path = communityId ? feeds?.community : feeds?.registrations;
+  const matchesCommunity = !communityId || feeds?.community?.includes(`/communities/${communityId}.ics`);
+  const url = path && matchesCommunity ? feedUrl(path, timeZone) : null;
+
+  const handleOpen = async () => {
+    try {
+      if (!url) {
+        await dispatch(getCalendarFeeds(communityId)).unwrap();
+      }
+      setIsOpen(true);
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    await navigator.clipboard.writeText(value);
+    toast.success('Calendar link copied');
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset your calendar links? Calendars using the old links stop updating.')) {
+      return;
+    }
+    try {
+      await dispatch(resetCalendarFeeds(communityId)).unwrap();
+      toast.success('Calendar links reset');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  if (!isOpen || !url) {
+    return (
+      <button
+        onClick={handleOpen}
+        className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+      >
+        Subscribe in calendar
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-gray-600">
+        Add this link to your calendar app to keep {communityId ? "this community's events" : 'your registrations'} in
+        sync. Keep it private.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <code className="flex-1 px-3 py-2 bg-gray-50 rounded-lg text-xs break-all">{url}</code>
+        <button
+          onClick={() => handleCopy(url)}
+          className="px-3 py-1 rounded-lg font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          Copy
+        </button>
+        <a href={webcalUrl(url)} className="px-3 py-1 rounded-lg font-medium bg-purple-500 text-white hover:bg-purple-600">
+          Open in calendar
+        </a>
+        <button onClick={handleReset} className="px-3 py-1 rounded-lg font-medium text-gray-500 hover:text-gray-700">
+          Reset link
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarSubscribe;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import {
+  Event,
+  getEvent,
+  getEventApplications,
+  getEventStats,
+  reviewEventApplications,
+} from '@/store/slices/eventSlice';
+
+interface EventApplicationsProps {
+  event: Event;
+}
+
+// Organizer review queue for events that require approval
+const EventApplications: React.FC<EventApplicationsProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const applications = useSelector((state: RootState) => state.event.applications);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    dispatch(getEventApplications({ id: event.id }));
+  }, [dispatch, event.id]);
+
+  const toggle = (id: string) =>
+    setSelected(selected.includes(id) ? selected.filter((selectedId) => selectedId !== id) : [...selected, id]);
+
+  const review = async (applicationIds: string[], action: 'approve' | 'reject') => {
+    try {
+      const result = await dispatch(reviewEventApplications({ id: event.id, applicationIds, action })).unwrap();
+      const done = action === 'approve' ? result.approved.length : result.rejected.length;
+      toast.success(`${done} ${action === 'approve' ? 'approved' : 'declined'}`);
+      const full = result.skipped.filter((skip) => skip.reason === 'event_full').length;
+      if (full > 0) {
+        toast.error(`${full} could not be approved because the event is full`);
+      }
+      const soldOut = result.skipped.filter(
+        (skip) => skip.reason === 'sold_out' || skip.reason === 'code_used_up'
+      ).length;
+      if (soldOut > 0) {
+        toast.error(`${soldOut} could not be approved because their ticket type or promo code ran out`);
+      }
+      setSelected([]);
+      // Approvals change the seat and waitlist counts
+      dispatch(getEvent(event.id));
+      dispatch(getEventStats(event.id));
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Registration requests</h2>
+        {selected.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => review(selected, 'approve')}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+            >
+              Approve {selected.length}
+            </button>
+            <button
+              onClick={() => review(selected, 'reject')}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Decline {selected.length}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {applications.length === 0 ? (
+        <p className="text-gray-600">No requests waiting for review.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {applications.map((application) => (
+            <div key={application.id} className="flex items-start gap-3 py-3">
+              <input
+                type="checkbox"
+                checked={selected.includes(application.id)}
+                onChange={() => toggle(application.id)}
+                className="mt-1"
+              />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">
+                  {application.user.firstName} {application.user.lastName}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {new Date(application.createdAt).toLocaleDateString()}
+                  </span>
+                </p>
+                {application.answers.map((entry, index) => (
+                  <div key={index} className="mt-1 text-sm">
+                    <p className="text-gray-500">{entry.question}</p>
+                    <p className="text-gray-700">{entry.answer || '—'}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => review([application.id], 'approve')}
+                  className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => review([application.id], 'reject')}
+                  className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventApplications;
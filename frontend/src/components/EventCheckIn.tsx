@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { checkInTicket, Event, getEventStats } from '@/store/slices/eventSlice';
+import { decodeTicket, verifyTicketSignature } from '@/services/tickets';
+
+interface EventCheckInProps {
+  event: Event;
+}
+
+const STATS_REFRESH_MS = 10000;
+
+// Door screen for hosts. Barcode scanners type the code and press Enter, so scanned and
+// pasted tickets go through the same field.
+const EventCheckIn: React.FC<EventCheckInProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { stats, arrivals } = useSelector((state: RootState) => state.event);
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [lastError, setLastError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Other doors check people in too, so keep the counts fresh. Check-in hosts can't read the stats
+  // and count their own arrivals.
+  const canReadStats = event.viewerHostRole !== 'checkin';
+  useEffect(() => {
+    if (!canReadStats) {
+      return;
+    }
+    const timer = setInterval(() => dispatch(getEventStats(event.id)), STATS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [dispatch, event.id, canReadStats]);
+
+  const reject = (message: string) => {
+    setLastError(message);
+    toast.error(message);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scanned = code.trim();
+    if (!scanned || isChecking) {
+      return;
+    }
+    setCode('');
+    setLastError(null);
+
+    const claims = decodeTicket(scanned);
+    if (!claims) {
+      reject('That is not a ticket code');
+      return;
+    }
+    if (claims.eventId !== event.id) {
+      reject('This ticket is for a different event');
+      return;
+    }
+    setIsChecking(true);
+    try {
+      const signatureValid = await verifyTicketSignature(scanned);
+      if (signatureValid === false) {
+        reject('This ticket is not valid');
+        return;
+      }
+      const result = await dispatch(checkInTicket({ eventId: event.id, code: scanned })).unwrap();
+      toast.success(`Welcome, ${result.attendee.firstName}!`);
+    } catch (error: any) {
+      reject(typeof error === 'string' ? error : 'Something went wrong');
+    } finally {
+      setIsChecking(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const checkedIn = stats?.checkedIn ?? event.stats.checkInCount;
+  const registered = stats?.registered ?? event.currentAttendees;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Check-in</h2>
+        <p className="text-2xl font-bold text-gray-900">
+          {checkedIn}
+          <span className="text-base font-normal text-gray-500"> / {registered} arrived</span>
+        </p>
+      </div>
+      <div className="w-full bg-gray-100 rounded-full h-2 mb-6">
+        <div
+          className="bg-purple-500 h-2 rounded-full transition-all"
+          style={{ width: `${registered ? Math.min(100, (checkedIn / registered) * 100) : 0}%` }}
+        />
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mb-2">
+        <input
+          ref={inputRef}
+          autoFocus
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Scan or paste a ticket code"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="submit"
+          disabled={isChecking || !code.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+        >
+          Check in
+        </button>
+      </form>
+      {lastError && <p className="text-sm text-red-600 mb-2">{lastError}</p>}
+
+      {arrivals.length > 0 && (
+        <div className="mt-4">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Latest arrivals</h3>
+          <div className="divide-y divide-gray-100">
+            {arrivals.slice(0, 10).map((attendee) => (
+              <div key={attendee.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-900">
+                  {attendee.firstName} {attendee.lastName}
+                </span>
+                <span className="text-gray-500">
+                  {attendee.checkedInAt && new Date(attendee.checkedInAt).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventCheckIn;
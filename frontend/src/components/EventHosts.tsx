@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch } from '@/store';
+import {
+  addEventHost,
+  Event,
+  EventHostRole,
+  getEvent,
+  removeEventHost,
+  updateEventHost,
+} from '@/store/slices/eventSlice';
+
+interface EventHostsProps {
+  event: Event;
+  userId: string;
+}
+
+const ROLE_LABELS: Record<EventHostRole, string> = {
+  cohost: 'Co-host',
+  checkin: 'Check-in',
+};
+
+// Who helps run the event. The organizer adds hosts by the email of their NexusVerse account;
+// hosts can step down themselves.
+const EventHosts: React.FC<EventHostsProps> = ({ event, userId }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<EventHostRole>('cohost');
+  const [isAdding, setIsAdding] = useState(false);
+  const isOrganizer = event.viewerHostRole === 'organizer';
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      toast.success(await action());
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsAdding(true);
+    await run(async () => {
+      const host = await dispatch(addEventHost({ id: event.id, email: email.trim(), role })).unwrap();
+      setEmail('');
+      return `${host.firstName} is now a host`;
+    });
+    setIsAdding(false);
+  };
+
+  const handleRemove = (hostId: string, name: string) => {
+    const self = hostId === userId;
+    if (!window.confirm(self ? 'Step down as a host of this event?' : `Remove ${name} as a host?`)) {
+      return;
+    }
+    run(async () => {
+      await dispatch(removeEventHost({ id: event.id, userId: hostId })).unwrap();
+      if (self) {
+        // Reloads the event as a guest
+        dispatch(getEvent(event.id));
+        return 'You are no longer a host';
+      }
+      return 'Host removed';
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Hosts</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Co-hosts can edit the event and manage registrations. Check-in hosts can only check people in.
+      </p>
+
+      <div className="divide-y divide-gray-100 text-sm mb-4">
+        <div className="flex items-center justify-between py-2">
+          <span className="text-gray-900">
+            {event.organizer.firstName} {event.organizer.lastName}
+          </span>
+          <span className="text-gray-500">Organizer</span>
+        </div>
+        {event.hosts.map((host) => (
+          <div key={host.id} className="flex items-center justify-between py-2">
+            <span className="text-gray-900">
+              {host.firstName} {host.lastName}
+              {host.email && <span className="text-gray-500"> · {host.email}</span>}
+            </span>
+            <span className="flex items-center gap-2">
+              {isOrganizer ? (
+                <select
+                  value={host.role}
+                  onChange={(e) =>
+                    run(async () => {
+                      await dispatch(
+                        updateEventHost({ id: event.id, userId: host.id, role: e.target.value as EventHostRole })
+                      ).unwrap();
+                      return 'Host updated';
+                    })
+                  }
+                  className="px-2 py-1 border border-gray-200 rounded text-xs"
+                >
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-gray-500">{ROLE_LABELS[host.role]}</span>
+              )}
+              {(isOrganizer || host.id === userId) && (
+                <button
+                  onClick={() => handleRemove(host.id, host.firstName)}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  {host.id === userId ? 'Step down' : 'Remove'}
+                </button>
+              )}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {isOrganizer && (
+        <form onSubmit={handleAdd} className="flex flex-col md:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email of their NexusVerse account"
+            className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as EventHostRole)}
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+          >
+            {Object.entries(ROLE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!email.trim() || isAdding}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+          >
+            Add host
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EventHosts;
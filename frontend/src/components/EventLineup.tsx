@@ -0,0 +1,118 @@
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { Event, getSessions, getSpeakers, respondToSpeakerInvitation } from '@/store/slices/eventSlice';
+import { formatTimeRange } from '@/services/time';
+
+interface EventLineupProps {
+  event: Event;
+  userId?: string;
+}
+
+// The event's speakers and agenda as attendees see them, with the answer buttons for someone
+// invited to speak
+const EventLineup: React.FC<EventLineupProps> = ({ event, userId }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { speakers, sessions } = useSelector((state: RootState) => state.event);
+
+  useEffect(() => {
+    dispatch(getSpeakers(event.id));
+    dispatch(getSessions(event.id));
+  }, [dispatch, event.id]);
+
+  // Hosts also get the invitations still open, which only show in their editor
+  const listed = speakers.filter((speaker) => !speaker.invitationStatus || speaker.invitationStatus === 'accepted');
+  const invitation = speakers.find((speaker) => speaker.userId === userId && speaker.invitationStatus === 'pending');
+
+  const handleRespond = async (accept: boolean) => {
+    if (!invitation) {
+      return;
+    }
+    try {
+      await dispatch(respondToSpeakerInvitation({ id: event.id, speakerId: invitation.id, accept })).unwrap();
+      toast.success(accept ? "You're on the lineup" : 'Invitation declined');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  if (!invitation && listed.length === 0 && sessions.length === 0) {
+    return null;
+  }
+
+  const speakerNames = (speakerIds: string[]) =>
+    listed
+      .filter((speaker) => speakerIds.includes(speaker.id))
+      .map((speaker) => speaker.name)
+      .join(', ');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      {invitation && (
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 p-4 mb-6 rounded-lg bg-purple-50">
+          <p className="text-sm text-purple-900">You&apos;ve been invited to speak at this event.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleRespond(true)}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+            >
+              Accept
+            </button>
+            <button
+              onClick={() => handleRespond(false)}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      )}
+
+      {listed.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Speakers</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {listed.map((speaker) => (
+              <div key={speaker.id} className="flex gap-3">
+                {speaker.avatar ? (
+                  <img src={speaker.avatar} alt={speaker.name} className="w-12 h-12 rounded-full object-cover" />
+                ) : (
+                  <div className="w-12 h-12 rounded-full bg-purple-100 text-purple-700 flex items-center justify-center font-semibold">
+                    {speaker.name.charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <div className="text-sm">
+                  <p className="font-medium text-gray-900">{speaker.name}</p>
+                  {speaker.headline && <p className="text-gray-500">{speaker.headline}</p>}
+                  {speaker.bio && <p className="text-gray-600 mt-1 whitespace-pre-line">{speaker.bio}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {sessions.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Agenda</h2>
+          <div className="divide-y divide-gray-100 text-sm">
+            {sessions.map((session) => (
+              <div key={session.id} className="py-2">
+                <p className="text-gray-500">
+                  {formatTimeRange(session.startsAt, session.endsAt, event.timeZone)}
+                  {session.location && ` · ${session.location}`}
+                </p>
+                <p className="font-medium text-gray-900">{session.title}</p>
+                {session.speakerIds.length > 0 && <p className="text-gray-600">{speakerNames(session.speakerIds)}</p>}
+                {session.description && <p className="text-gray-600 whitespace-pre-line">{session.description}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventLineup;
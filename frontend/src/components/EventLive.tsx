@@ -0,0 +1,289 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { followEvent, getSocket } from '@/services/socket';
+import {
+  answerQuestion,
+  askQuestion,
+  closePoll,
+  deleteQuestion,
+  Event,
+  EventPoll,
+  EventQuestion,
+  getPolls,
+  getQuestions,
+  launchPoll,
+  pollReceived,
+  questionReceived,
+  questionRemoved,
+  upvoteQuestion,
+  votePoll,
+} from '@/store/slices/eventSlice';
+
+interface EventLiveProps {
+  event: Event;
+  userId: string;
+  // Co-hosts and the organizer mark questions answered and run polls
+  canModerate: boolean;
+}
+
+const MAX_POLL_OPTIONS = 10;
+
+// Open questions first, most upvoted on top
+const byPriority = (a: EventQuestion, b: EventQuestion) =>
+  Number(!!a.answeredAt) - Number(!!b.answeredAt) ||
+  b.upvoteCount - a.upvoteCount ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+const totalVotes = (poll: EventPoll) => poll.votes.reduce((sum, count) => sum + count, 0);
+
+// Live Q&A board and audience polls for registered attendees and hosts. Everyone following the
+// event gets changes as they happen through the event's socket room.
+const EventLive: React.FC<EventLiveProps> = ({ event, userId, canModerate }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { questions, polls } = useSelector((state: RootState) => state.event);
+  const [question, setQuestion] = useState('');
+  const [pollQuestion, setPollQuestion] = useState('');
+  // One option per line
+  const [pollOptions, setPollOptions] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    dispatch(getQuestions(event.id));
+    dispatch(getPolls(event.id));
+
+    const socket = getSocket();
+    const unfollow = followEvent(event.id, (message) => toast.error(message));
+    // Anything said while disconnected is fetched again
+    const refetch = () => {
+      dispatch(getQuestions(event.id));
+      dispatch(getPolls(event.id));
+    };
+    const onQuestion = (updated: EventQuestion) => dispatch(questionReceived(updated));
+    const onQuestionDeleted = ({ id }: { id: string }) => dispatch(questionRemoved(id));
+    const onPoll = (updated: EventPoll) => dispatch(pollReceived(updated));
+
+    socket.on('connect', refetch);
+    socket.on('question:updated', onQuestion);
+    socket.on('question:deleted', onQuestionDeleted);
+    socket.on('poll:updated', onPoll);
+    return () => {
+      unfollow();
+      socket.off('connect', refetch);
+      socket.off('question:updated', onQuestion);
+      socket.off('question:deleted', onQuestionDeleted);
+      socket.off('poll:updated', onPoll);
+    };
+  }, [dispatch, event.id]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      return true;
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+      return false;
+    }
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    if (await run(() => dispatch(askQuestion({ id: event.id, body: question.trim() })).unwrap())) {
+      setQuestion('');
+    }
+    setIsSending(false);
+  };
+
+  const options = pollOptions
+    .split('\n')
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+  const handleLaunch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const launched = await run(() =>
+      dispatch(launchPoll({ id: event.id, question: pollQuestion.trim(), options })).unwrap()
+    );
+    if (launched) {
+      setPollQuestion('');
+      setPollOptions('');
+      toast.success('Poll launched');
+    }
+  };
+
+  const handleRemove = (questionId: string) => {
+    if (window.confirm('Remove this question?')) {
+      run(() => dispatch(deleteQuestion({ id: event.id, questionId })).unwrap());
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Live Q&amp;A</h2>
+
+      <form onSubmit={handleAsk} className="flex gap-2 mb-4">
+        <input
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          maxLength={500}
+          placeholder="Ask the speakers a question"
+          className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isSending}
+          className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+        >
+          Ask
+        </button>
+      </form>
+
+      {questions.length === 0 ? (
+        <p className="text-gray-600 mb-6">No questions yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-100 text-sm mb-6">
+          {[...questions].sort(byPriority).map((item) => (
+            <div key={item.id} className={`flex items-start gap-3 py-2 ${item.answeredAt ? 'opacity-60' : ''}`}>
+              <button
+                onClick={() =>
+                  run(() =>
+                    dispatch(
+                      upvoteQuestion({ id: event.id, questionId: item.id, upvote: !item.viewerUpvoted })
+                    ).unwrap()
+                  )
+                }
+                disabled={!!item.answeredAt}
+                className={`w-12 px-2 py-1 rounded text-xs font-medium ${
+                  item.viewerUpvoted ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                ▲ {item.upvoteCount}
+              </button>
+              <div className="flex-1">
+                <p className="text-gray-900 whitespace-pre-line">{item.body}</p>
+                <p className="text-gray-500">
+                  {item.author.firstName} {item.author.lastName}
+                  {item.answeredAt && ' · answered'}
+                </p>
+              </div>
+              <span className="flex gap-2">
+                {canModerate && (
+                  <button
+                    onClick={() =>
+                      run(() =>
+                        dispatch(
+                          answerQuestion({ id: event.id, questionId: item.id, answered: !item.answeredAt })
+                        ).unwrap()
+                      )
+                    }
+                    className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    {item.answeredAt ? 'Reopen' : 'Mark answered'}
+                  </button>
+                )}
+                {(canModerate || item.author.id === userId) && (
+                  <button
+                    onClick={() => handleRemove(item.id)}
+                    className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Remove
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Polls</h2>
+
+      {canModerate && (
+        <form onSubmit={handleLaunch} className="border-b border-gray-100 pb-4 mb-4">
+          <input
+            value={pollQuestion}
+            onChange={(e) => setPollQuestion(e.target.value)}
+            maxLength={300}
+            placeholder="Poll question"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm mb-2"
+          />
+          <textarea
+            value={pollOptions}
+            onChange={(e) => setPollOptions(e.target.value)}
+            rows={3}
+            placeholder="One option per line"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm mb-2"
+          />
+          <button
+            type="submit"
+            disabled={!pollQuestion.trim() || options.length < 2 || options.length > MAX_POLL_OPTIONS}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+          >
+            Launch poll
+          </button>
+        </form>
+      )}
+
+      {polls.length === 0 ? (
+        <p className="text-gray-600">No polls yet.</p>
+      ) : (
+        polls.map((poll) => {
+          const total = totalVotes(poll);
+          const canVote = !poll.closedAt && poll.viewerVote === undefined;
+          return (
+            <div key={poll.id} className="py-2 text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <p className="font-medium text-gray-900">
+                  {poll.question}
+                  <span className="text-gray-500 font-normal">
+                    {' '}
+                    · {total} votes{poll.closedAt ? ' · closed' : ''}
+                  </span>
+                </p>
+                {canModerate && !poll.closedAt && (
+                  <button
+                    onClick={() => run(() => dispatch(closePoll({ id: event.id, pollId: poll.id })).unwrap())}
+                    className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Close
+                  </button>
+                )}
+              </div>
+              {poll.options.map((option, index) =>
+                canVote ? (
+                  <button
+                    key={index}
+                    onClick={() =>
+                      run(() => dispatch(votePoll({ id: event.id, pollId: poll.id, option: index })).unwrap())
+                    }
+                    className="block w-full text-left px-3 py-2 mb-1 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    {option}
+                  </button>
+                ) : (
+                  <div key={index} className="relative mb-1 rounded-lg bg-gray-50 overflow-hidden">
+                    <div
+                      className="absolute inset-y-0 left-0 bg-purple-100"
+                      style={{ width: `${total ? Math.round((poll.votes[index] / total) * 100) : 0}%` }}
+                    />
+                    <div className="relative flex justify-between px-3 py-2">
+                      <span className={poll.viewerVote === index ? 'font-medium text-purple-700' : 'text-gray-700'}>
+                        {option}
+                      </span>
+                      <span className="text-gray-500">
+                        {total ? Math.round((poll.votes[index] / total) * 100) : 0}% · {poll.votes[index]}
+                      </span>
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default EventLive;
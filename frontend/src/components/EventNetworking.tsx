@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { followEvent, getSocket } from '@/services/socket';
+import {
+  endNetworkingRound,
+  Event,
+  getNetworking,
+  networkingRoundReceived,
+  NetworkingRound,
+  startNetworkingRound,
+} from '@/store/slices/eventSlice';
+import { sendConnectionRequest } from '@/store/slices/userSlice';
+
+interface EventNetworkingProps {
+  event: Event;
+  // Co-hosts and the organizer start and end rounds
+  canRun: boolean;
+}
+
+const DEFAULT_ROUND_MINUTES = 5;
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Speed networking: hosts run timed rounds and each checked-in attendee is shown who to meet, then
+// can send them a connection request. Rounds starting and ending arrive over the event's socket room.
+const EventNetworking: React.FC<EventNetworkingProps> = ({ event, canRun }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const networking = useSelector((state: RootState) => state.event.networking);
+  const [roundMinutes, setRoundMinutes] = useState(DEFAULT_ROUND_MINUTES);
+  const [now, setNow] = useState(Date.now());
+  // Partners the viewer has already asked to connect with
+  const [requested, setRequested] = useState<string[]>([]);
+  const round = useRef(0);
+  round.current = networking?.round ?? 0;
+
+  useEffect(() => {
+    dispatch(getNetworking(event.id));
+
+    const socket = getSocket();
+    const unfollow = followEvent(event.id);
+    const refetch = () => dispatch(getNetworking(event.id));
+    // Each new round brings a new partner
+    const onRound = (updated: NetworkingRound) => {
+      const isNewRound = updated.round !== round.current;
+      dispatch(networkingRoundReceived(updated));
+      if (isNewRound) {
+        refetch();
+      }
+    };
+
+    socket.on('connect', refetch);
+    socket.on('networking:updated', onRound);
+    return () => {
+      unfollow();
+      socket.off('connect', refetch);
+      socket.off('networking:updated', onRound);
+    };
+  }, [dispatch, event.id]);
+
+  const endsAt = networking?.roundEndsAt ? new Date(networking.roundEndsAt).getTime() : 0;
+  const isRunning = endsAt > now;
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (endsAt <= Date.now()) {
+      return;
+    }
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= endsAt) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [endsAt]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleConnect = (partnerId: string) =>
+    run(async () => {
+      const result = await dispatch(sendConnectionRequest(partnerId)).unwrap();
+      setRequested((current) => [...current, partnerId]);
+      toast.success(result.message || 'Connection request sent');
+    });
+
+  if (!networking) {
+    return null;
+  }
+
+  const partner = networking.partner;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Speed networking</h2>
+        {networking.round > 0 && (
+          <span className="text-sm text-gray-500">
+            Round {networking.round}
+            {isRunning ? ` · ${formatCountdown(endsAt - now)} left` : ' · over'}
+          </span>
+        )}
+      </div>
+
+      {canRun && (
+        <div className="flex flex-wrap items-center gap-2 border-b border-gray-100 pb-4 mb-4 text-sm">
+          <span className="text-gray-600">{networking.participantCount} checked in ·</span>
+          <label className="text-gray-600" htmlFor="round-minutes">
+            Minutes per round
+          </label>
+          <input
+            id="round-minutes"
+            type="number"
+            min={1}
+            max={60}
+            value={roundMinutes}
+            onChange={(e) => setRoundMinutes(Number(e.target.value))}
+            className="w-16 px-2 py-1 border border-gray-200 rounded-lg text-sm"
+          />
+          {isRunning ? (
+            <button
+              onClick={() => run(() => dispatch(endNetworkingRound(event.id)).unwrap())}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              End round
+            </button>
+          ) : (
+            <button
+              onClick={() => run(() => dispatch(startNetworkingRound({ id: event.id, roundMinutes })).unwrap())}
+              disabled={networking.participantCount < 2 || roundMinutes < 1 || roundMinutes > 60}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+            >
+              Start round {networking.round + 1}
+            </button>
+          )}
+        </div>
+      )}
+
+      {!networking.checkedIn ? (
+        !canRun && <p className="text-gray-600">Check in at the door to be paired in the next round.</p>
+      ) : networking.round === 0 ? (
+        <p className="text-gray-600">The first round hasn&apos;t started yet.</p>
+      ) : networking.sittingOut ? (
+        <p className="text-gray-600">You sit this round out. You&apos;ll be paired in the next one.</p>
+      ) : partner ? (
+        <div className="flex gap-4">
+          {partner.avatar ? (
+            <img
+              src={partner.avatar}
+              alt={`${partner.firstName} ${partner.lastName}`}
+              className="w-12 h-12 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-12 h-12 rounded-full bg-purple-100 text-purple-700 flex items-center justify-center font-semibold">
+              {partner.firstName.charAt(0).toUpperCase()}
+            </div>
+          )}
+          <div className="flex-1 text-sm">
+            <p className="text-gray-500">{isRunning ? 'Meet' : 'You met'}</p>
+            <p className="font-medium text-gray-900">
+              {partner.firstName} {partner.lastName}
+            </p>
+            {partner.bio && <p className="text-gray-600 mt-1">{partner.bio}</p>}
+            {partner.sharedSkills.length + partner.sharedInterests.length > 0 ? (
+              <p className="text-purple-700 mt-2">
+                In common: {partner.sharedSkills.concat(partner.sharedInterests).join(', ')}
+              </p>
+            ) : (
+              partner.skills.length > 0 && <p className="text-gray-500 mt-2">Skills: {partner.skills.join(', ')}</p>
+            )}
+          </div>
+          <span>
+            {requested.includes(partner.id) ? (
+              <span className="text-sm text-gray-500">Request sent</span>
+            ) : (
+              <button
+                onClick={() => handleConnect(partner.id)}
+                className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+              >
+                Connect
+              </button>
+            )}
+          </span>
+        </div>
+      ) : (
+        <p className="text-gray-600">You joined after this round was paired. You&apos;ll be in the next one.</p>
+      )}
+    </div>
+  );
+};
+
+export default EventNetworking;
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { formatDiscount } from '@/services/price';
+import { toLocalInput } from '@/services/time';
+import { getCommunities } from '@/store/slices/communitySlice';
+import {
+  createPromoCode,
+  deletePromoCode,
+  Event,
+  getPromoCodes,
+  PromoCode,
+  updatePromoCode,
+} from '@/store/slices/eventSlice';
+
+interface EventPromoCodesProps {
+  event: Event;
+}
+
+interface PromoCodeForm {
+  code: string;
+  discountType: PromoCode['discountType'];
+  discountValue: string;
+  maxRedemptions: string;
+  validFrom: string;
+  validUntil: string;
+  communityId: string;
+}
+
+const emptyForm: PromoCodeForm = {
+  code: '',
+  discountType: 'percentage',
+  discountValue: '10',
+  maxRedemptions: '',
+  validFrom: '',
+  validUntil: '',
+  communityId: '',
+};
+
+const toForm = (promoCode: PromoCode): PromoCodeForm => ({
+  code: promoCode.code,
+  discountType: promoCode.discountType,
+  discountValue: String(promoCode.discountValue),
+  maxRedemptions: promoCode.maxRedemptions ? String(promoCode.maxRedemptions) : '',
+  validFrom: toLocalInput(promoCode.validFrom),
+  validUntil: toLocalInput(promoCode.validUntil),
+  communityId: promoCode.community?.id ?? '',
+});
+
+// Organizer controls for the event's promo codes, e.g. discounts for partner communities. Codes
+// that were used can be edited or expired but not deleted, so their redemptions stay reported.
+const EventPromoCodes: React.FC<EventPromoCodesProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const promoCodes = useSelector((state: RootState) => state.event.promoCodes);
+  const communities = useSelector((state: RootState) => state.community.communities);
+  const [form, setForm] = useState<PromoCodeForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    dispatch(getPromoCodes(event.id));
+  }, [dispatch, event.id]);
+
+  useEffect(() => {
+    if (form && communities.length === 0) {
+      dispatch(getCommunities({ limit: 100 }));
+    }
+  }, [dispatch, form, communities.length]);
+
+  const close = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) {
+      return;
+    }
+    const data = {
+      code: form.code.trim(),
+      discountType: form.discountType,
+      discountValue: Number(form.discountValue),
+      maxRedemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+      validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : null,
+      validUntil: form.validUntil ? new Date(form.validUntil).toISOString() : null,
+      communityId: form.communityId || null,
+    };
+    try {
+      if (editingId) {
+        await dispatch(updatePromoCode({ eventId: event.id, promoCodeId: editingId, data })).unwrap();
+        toast.success('Promo code updated');
+      } else {
+        await dispatch(createPromoCode({ eventId: event.id, data })).unwrap();
+        toast.success('Promo code created');
+      }
+      close();
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleDelete = async (promoCode: PromoCode) => {
+    if (!window.confirm(`Delete the promo code ${promoCode.code}?`)) {
+      return;
+    }
+    try {
+      await dispatch(deletePromoCode({ eventId: event.id, promoCodeId: promoCode.id })).unwrap();
+      toast.success('Promo code deleted');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  // The code's own community may not be among those loaded
+  const editing = promoCodes.find((promoCode) => promoCode.id === editingId);
+  const communityOptions: Array<{ id: string; name: string }> =
+    editing?.community && !communities.some((community) => community.id === editing.community?.id)
+      ? [editing.community, ...communities]
+      : communities;
+
+  const update = (changes: Partial<PromoCodeForm>) => setForm((current) => current && { ...current, ...changes });
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Promo codes</h2>
+        {!form && (
+          <button
+            onClick={() => setForm(emptyForm)}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+          >
+            Add promo code
+          </button>
+        )}
+      </div>
+
+      {promoCodes.length === 0 && !form && <p className="text-gray-600">No promo codes yet.</p>}
+
+      {promoCodes.length > 0 && (
+        <div className="divide-y divide-gray-100 text-sm mb-4">
+          {promoCodes.map((promoCode) => (
+            <div key={promoCode.id} className="flex items-center justify-between py-2">
+              <span className="text-gray-900">
+                <span className="font-mono">{promoCode.code}</span> · {formatDiscount(promoCode)}
+                <span className="text-gray-500">
+                  {' '}
+                  · {promoCode.redemptions}
+                  {promoCode.maxRedemptions ? ` of ${promoCode.maxRedemptions}` : ''} used
+                  {promoCode.community && ` · ${promoCode.community.name} members only`}
+                  {promoCode.validUntil && ` · until ${new Date(promoCode.validUntil).toLocaleString()}`}
+                </span>
+              </span>
+              <span className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setEditingId(promoCode.id);
+                    setForm(toForm(promoCode));
+                  }}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Edit
+                </button>
+                {promoCode.redemptions === 0 && (
+                  <button
+                    onClick={() => handleDelete(promoCode)}
+                    className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Delete
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSave} className="border-t border-gray-100 pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2 text-sm">
+            <input
+              value={form.code}
+              onChange={(e) => update({ code: e.target.value.toUpperCase() })}
+              maxLength={50}
+              placeholder="Code, e.g. PARTNER20"
+              className="px-3 py-2 border border-gray-200 rounded-lg font-mono"
+            />
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={0}
+                step={form.discountType === 'percentage' ? 1 : 0.01}
+                value={form.discountValue}
+                onChange={(e) => update({ discountValue: e.target.value })}
+                className="w-24 px-3 py-2 border border-gray-200 rounded-lg"
+              />
+              <select
+                value={form.discountType}
+                onChange={(e) => update({ discountType: e.target.value as PromoCode['discountType'] })}
+                className="px-3 py-2 border border-gray-200 rounded-lg"
+              >
+                <option value="percentage">% off</option>
+                <option value="fixed">$ off</option>
+              </select>
+            </div>
+            <input
+              type="number"
+              min={1}
+              value={form.maxRedemptions}
+              onChange={(e) => update({ maxRedemptions: e.target.value })}
+              placeholder="Usage limit (optional)"
+              className="px-3 py-2 border border-gray-200 rounded-lg"
+            />
+            <input
+              type="datetime-local"
+              title="Valid from"
+              value={form.validFrom}
+              onChange={(e) => update({ validFrom: e.target.value })}
+              className="px-3 py-2 border border-gray-200 rounded-lg"
+            />
+            <input
+              type="datetime-local"
+              title="Valid until"
+              value={form.validUntil}
+              onChange={(e) => update({ validUntil: e.target.value })}
+              className="px-3 py-2 border border-gray-200 rounded-lg"
+            />
+            <select
+              value={form.communityId}
+              onChange={(e) => update({ communityId: e.target.value })}
+              className="px-3 py-2 border border-gray-200 rounded-lg"
+            >
+              <option value="">Anyone can use it</option>
+              {communityOptions.map((community) => (
+                <option key={community.id} value={community.id}>
+                  {community.name} members only
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={form.code.trim().length < 3}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+            >
+              {editingId ? 'Save' : 'Create'}
+            </button>
+            <button
+              type="button"
+              onClick={close}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EventPromoCodes;
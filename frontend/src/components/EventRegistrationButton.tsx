@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch } from '@/store';
+import { formatPrice, isOnSale, isPaidEvent } from '@/services/price';
+import {
+  checkPromoCode,
+  Event,
+  registerForEvent,
+  RegistrationStatus,
+  startCheckout,
+  unregisterFromEvent,
+} from '@/store/slices/eventSlice';
+
+interface EventRegistrationButtonProps {
+  event: Event;
+  className?: string;
+  // Offers a promo code field for paid events
+  withPromoCode?: boolean;
+}
+
+interface AppliedPromoCode {
+  code: string;
+  price: number;
+  discountedPrice: number;
+}
+
+const successMessages: Partial<Record<RegistrationStatus, string>> = {
+  registered: "You're registered!",
+  waitlisted: "You're on the waitlist",
+  held: 'Seat held, taking you to payment',
+  pending: 'Registration sent to the organizer for approval',
+};
+
+const cancelPrompts: Partial<Record<RegistrationStatus, string>> = {
+  held: 'Release your held seat?',
+  pending: 'Withdraw your registration request?',
+};
+
+// Register / apply / join the waitlist / pay for or release a hold / cancel, following the event's
+// capacity and settings. Events with ticket types get a picker; paid seats go straight to checkout.
+// Application questions are answered inline before registering.
+const EventRegistrationButton: React.FC<EventRegistrationButtonProps> = ({
+  event,
+  className = '',
+  withPromoCode = false,
+}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [answers, setAnswers] = useState<string[] | null>(null);
+  const ticketTypes = event.ticketTypes ?? [];
+  const available = ticketTypes.filter((ticketType) => isOnSale(ticketType));
+  const [ticketTypeId, setTicketTypeId] = useState(available[0]?.id ?? '');
+  const [promoInput, setPromoInput] = useState('');
+  const [promoCode, setPromoCode] = useState<AppliedPromoCode | null>(null);
+
+  const { requireApproval, applicationQuestions = [] } = event.settings;
+  const isFull = event.currentAttendees >= event.capacity;
+  const deadlinePassed = event.registrationDeadline && new Date(event.registrationDeadline) < new Date();
+  const isOpen = event.status === 'published' && new Date(event.startDate) > new Date() && !deadlinePassed;
+
+  const pay = async () => {
+    try {
+      window.location.assign(await dispatch(startCheckout(event.id)).unwrap());
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const applyPromoCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setPromoCode(
+        await dispatch(
+          checkPromoCode({
+            eventId: event.id,
+            code: promoInput.trim(),
+            ticketTypeId: ticketTypes.length > 0 ? ticketTypeId : undefined,
+          })
+        ).unwrap()
+      );
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const register = async (withAnswers?: string[]) => {
+    try {
+      const result = await dispatch(
+        registerForEvent({
+          id: event.id,
+          answers: withAnswers,
+          ticketTypeId: ticketTypes.length > 0 ? ticketTypeId : undefined,
+          promoCode: promoCode?.code,
+        })
+      ).unwrap();
+      toast.success((result.status && successMessages[result.status]) || result.message);
+      setAnswers(null);
+      if (result.status === 'held') {
+        await pay();
+      }
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleClick = async () => {
+    if (!event.viewerStatus) {
+      if (requireApproval && applicationQuestions.length > 0) {
+        setAnswers(applicationQuestions.map(() => ''));
+      } else {
+        register();
+      }
+      return;
+    }
+    if (!window.confirm(cancelPrompts[event.viewerStatus] ?? 'Cancel your registration?')) {
+      return;
+    }
+    try {
+      await dispatch(unregisterFromEvent({ id: event.id })).unwrap();
+      toast.success(event.viewerStatus === 'pending' ? 'Request withdrawn' : 'Registration cancelled');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleSubmitAnswers = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answers) {
+      register(answers);
+    }
+  };
+
+  let label: string;
+  let disabled = false;
+  if (event.viewerStatus === 'registered') {
+    label = event.settings.allowCancellations ? 'Registered · Cancel' : 'Registered';
+    disabled = !event.settings.allowCancellations;
+  } else if (event.viewerStatus === 'held') {
+    const until = event.holdExpiresAt ? new Date(event.holdExpiresAt) : null;
+    label = until
+      ? `Held until ${until.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · Release`
+      : 'Held · Release';
+  } else if (event.viewerStatus === 'pending') {
+    label = 'Awaiting approval · Withdraw';
+  } else if (event.viewerStatus === 'rejected') {
+    label = 'Not approved';
+    disabled = true;
+  } else if (event.viewerStatus === 'waitlisted') {
+    label = event.waitlistPosition ? `Waitlisted #${event.waitlistPosition} · Leave` : 'Waitlisted · Leave';
+    disabled = !event.settings.allowCancellations;
+  } else if (!isOpen) {
+    label = event.status === 'cancelled' ? 'Cancelled' : 'Registration closed';
+    disabled = true;
+  } else if (ticketTypes.length > 0 && available.length === 0) {
+    label = 'Sold out';
+    disabled = true;
+  } else if (requireApproval) {
+    label = 'Request to join';
+  } else if (isFull) {
+    label = event.settings.allowWaitlist ? 'Join waitlist' : 'Sold out';
+    disabled = !event.settings.allowWaitlist;
+  } else {
+    label = 'Register';
+  }
+
+  if (answers) {
+    return (
+      <form onSubmit={handleSubmitAnswers} className={`space-y-3 ${className}`}>
+        {applicationQuestions.map((question, index) => (
+          <label key={index} className="block text-sm">
+            <span className="text-gray-700">{question}</span>
+            <textarea
+              value={answers[index]}
+              onChange={(e) => setAnswers(answers.map((answer, i) => (i === index ? e.target.value : answer)))}
+              maxLength={1000}
+              rows={2}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </label>
+        ))}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+          >
+            Send request
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnswers(null)}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const button = (
+    <button
+      onClick={handleClick}
+      disabled={disabled}
+      className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-60 ${
+        event.viewerStatus
+          ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          : 'bg-purple-500 text-white hover:bg-purple-600'
+      } ${className}`}
+    >
+      {label}
+    </button>
+  );
+
+  let controls = button;
+  if (event.viewerStatus === 'held') {
+    controls = (
+      <div className="flex gap-2">
+        <button
+          onClick={pay}
+          className={`px-4 py-2 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 ${className}`}
+        >
+          Pay now
+        </button>
+        {button}
+      </div>
+    );
+  } else if (!event.viewerStatus && !disabled && available.length > 0) {
+    controls = (
+      <div className="flex gap-2">
+        <select
+          value={ticketTypeId}
+          onChange={(e) => {
+            setTicketTypeId(e.target.value);
+            // The discount was worked out for the previous ticket type
+            setPromoCode(null);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          {available.map((ticketType) => (
+            <option key={ticketType.id} value={ticketType.id}>
+              {ticketType.name} · {formatPrice(ticketType.price)}
+              {ticketType.remaining !== undefined && ticketType.remaining <= 10
+                ? ` · ${ticketType.remaining} left`
+                : ''}
+            </option>
+          ))}
+        </select>
+        {button}
+      </div>
+    );
+  }
+
+  if (!withPromoCode || event.viewerStatus || disabled || !isPaidEvent(event)) {
+    return controls;
+  }
+  return (
+    <div className="space-y-2">
+      {controls}
+      {promoCode ? (
+        <p className="text-sm text-gray-600">
+          {promoCode.code} applied: <span className="line-through">{formatPrice(promoCode.price)}</span>{' '}
+          {formatPrice(promoCode.discountedPrice)}
+          <button onClick={() => setPromoCode(null)} className="ml-2 text-purple-600 hover:text-purple-700">
+            Remove
+          </button>
+        </p>
+      ) : (
+        <form onSubmit={applyPromoCode} className="flex gap-2">
+          <input
+            value={promoInput}
+            onChange={(e) => setPromoInput(e.target.value)}
+            maxLength={50}
+            placeholder="Promo code"
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <button
+            type="submit"
+            disabled={!promoInput.trim()}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-60"
+          >
+            Apply
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default EventRegistrationButton;
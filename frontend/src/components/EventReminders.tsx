@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { Event, getEventReminders, sendEventReminder, updateEvent } from '@/store/slices/eventSlice';
+
+interface EventRemindersProps {
+  event: Event;
+}
+
+const PRESET_OFFSETS = [7 * 24 * 60, 2 * 24 * 60, 24 * 60, 3 * 60, 60, 15];
+const MAX_OFFSETS = 5;
+
+// 1440 -> "1 day", 90 -> "90 minutes"
+const formatOffset = (minutes: number) => {
+  const [amount, unit] =
+    minutes % (7 * 24 * 60) === 0
+      ? [minutes / (7 * 24 * 60), 'week']
+      : minutes % (24 * 60) === 0
+        ? [minutes / (24 * 60), 'day']
+        : minutes % 60 === 0
+          ? [minutes / 60, 'hour']
+          : [minutes, 'minute'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+};
+
+// Organizer controls for when registered attendees are reminded, plus a reminder sent right away
+const EventReminders: React.FC<EventRemindersProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const reminders = useSelector((state: RootState) => state.event.reminders);
+  const [enabled, setEnabled] = useState(event.settings.sendReminders);
+  const [offsets, setOffsets] = useState(event.settings.reminderOffsets);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    dispatch(getEventReminders(event.id));
+  }, [dispatch, event.id, event.updatedAt]);
+
+  const choices = PRESET_OFFSETS.concat(
+    event.settings.reminderOffsets.filter((offset) => !PRESET_OFFSETS.includes(offset))
+  ).sort((a, b) => b - a);
+  const changed =
+    enabled !== event.settings.sendReminders ||
+    [...offsets].sort().join() !== [...event.settings.reminderOffsets].sort().join();
+
+  const toggleOffset = (offset: number) => {
+    if (offsets.includes(offset)) {
+      setOffsets(offsets.filter((selected) => selected !== offset));
+    } else if (offsets.length < MAX_OFFSETS) {
+      setOffsets([...offsets, offset]);
+    } else {
+      toast.error(`Up to ${MAX_OFFSETS} reminders per event`);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await dispatch(
+        updateEvent({
+          id: event.id,
+          data: { settings: { sendReminders: enabled, reminderOffsets: offsets } },
+          // Reminder times apply to every date of a recurring event
+          scope: event.recurrence ? 'series' : undefined,
+        })
+      ).unwrap();
+      toast.success('Reminder settings saved');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleSend = async () => {
+    try {
+      const recipients = await dispatch(
+        sendEventReminder({ id: event.id, message: message.trim() || undefined })
+      ).unwrap();
+      toast.success(`Reminder sent to ${recipients} attendee${recipients === 1 ? '' : 's'}`);
+      setMessage('');
+      dispatch(getEventReminders(event.id));
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Reminders</h2>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+        Remind registered attendees before the event
+      </label>
+      {enabled && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {choices.map((offset) => (
+            <button
+              key={offset}
+              onClick={() => toggleOffset(offset)}
+              className={`px-3 py-1 rounded-full text-sm ${
+                offsets.includes(offset) ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {formatOffset(offset)} before
+            </button>
+          ))}
+        </div>
+      )}
+      {changed && (
+        <button
+          onClick={handleSave}
+          className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 mb-3"
+        >
+          Save
+        </button>
+      )}
+      {reminders && reminders.upcoming.length > 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          Next reminder {new Date(reminders.upcoming[0].sendAt).toLocaleString()}
+        </p>
+      )}
+
+      {event.status === 'published' && (
+        <div className="border-t border-gray-100 pt-4 mb-4">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={1000}
+            rows={2}
+            placeholder="Optional message, e.g. doors open 30 minutes early"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm mb-2"
+          />
+          <button
+            onClick={handleSend}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            Send reminder now
+          </button>
+        </div>
+      )}
+
+      {reminders && reminders.sent.length > 0 && (
+        <div className="divide-y divide-gray-100 text-sm">
+          {reminders.sent.map((reminder) => (
+            <div key={reminder.id} className="flex justify-between py-2">
+              <span className="text-gray-700">
+                {reminder.kind === 'manual'
+                  ? reminder.message || 'Sent by you'
+                  : `${formatOffset(reminder.offsetMinutes ?? 0)} before`}
+              </span>
+              <span className="text-gray-500">
+                {new Date(reminder.sentAt).toLocaleString()} · {reminder.recipientCount} notified
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventReminders;
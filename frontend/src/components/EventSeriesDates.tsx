@@ -0,0 +1,152 @@
+import React, { useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { formatTimeRange } from '@/services/time';
+import {
+  deleteEventSeries,
+  Event,
+  getSeriesOccurrences,
+  registerForEvent,
+  unregisterFromEvent,
+} from '@/store/slices/eventSlice';
+
+interface EventSeriesDatesProps {
+  event: Event;
+  isOrganizer: boolean;
+}
+
+// Upcoming dates of a recurring event. Attendees can register for every date at once (free events
+// without approval only); organizers can delete the whole series.
+const EventSeriesDates: React.FC<EventSeriesDatesProps> = ({ event, isOrganizer }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const navigate = useNavigate();
+  const occurrences = useSelector((state: RootState) => state.event.occurrences);
+  const recurrence = event.recurrence;
+  const seriesId = recurrence?.seriesId;
+
+  useEffect(() => {
+    if (seriesId) {
+      dispatch(getSeriesOccurrences({ seriesId }));
+    }
+  }, [dispatch, seriesId, event.viewerStatus]);
+
+  if (!recurrence) {
+    return null;
+  }
+
+  const canJoinSeries =
+    !isOrganizer && !recurrence.seriesCancelled && event.ticketPrice === 0 && !event.settings.requireApproval;
+  const hasPlaces = occurrences.some((occurrence) => occurrence.viewerStatus);
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      toast.success(await action());
+      dispatch(getSeriesOccurrences({ seriesId: recurrence.seriesId }));
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleRegisterAll = () =>
+    run(async () => {
+      const result = await dispatch(registerForEvent({ id: event.id, scope: 'series' })).unwrap();
+      const { registered = 0, waitlisted = 0, full = 0 } = result.occurrences ?? {};
+      return [
+        `Registered for ${registered} date${registered === 1 ? '' : 's'}`,
+        waitlisted > 0 && `waitlisted for ${waitlisted}`,
+        full > 0 && `${full} full`,
+      ]
+        .filter(Boolean)
+        .join(', ');
+    });
+
+  const handleLeaveSeries = () => {
+    if (!window.confirm('Cancel your registration for every upcoming date?')) {
+      return;
+    }
+    run(async () => {
+      await dispatch(unregisterFromEvent({ id: event.id, scope: 'series' })).unwrap();
+      return 'Left the series';
+    });
+  };
+
+  const handleDeleteSeries = async () => {
+    if (!window.confirm('Delete every date of this event, past and upcoming?')) {
+      return;
+    }
+    try {
+      await dispatch(deleteEventSeries(recurrence.seriesId)).unwrap();
+      toast.success('Event series deleted');
+      navigate('/app/events');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Dates</h2>
+          <p className="text-sm text-gray-500">
+            {recurrence.seriesCancelled ? 'This series has ended' : `Repeats · ${recurrence.rrule}`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {canJoinSeries && (
+            <button
+              onClick={handleRegisterAll}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+            >
+              Register for all dates
+            </button>
+          )}
+          {!isOrganizer && hasPlaces && (
+            <button
+              onClick={handleLeaveSeries}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Leave series
+            </button>
+          )}
+          {isOrganizer && (
+            <button
+              onClick={handleDeleteSeries}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Delete series
+            </button>
+          )}
+        </div>
+      </div>
+
+      {occurrences.length === 0 ? (
+        <p className="text-gray-600">No upcoming dates.</p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {occurrences.map((occurrence) => (
+            <div key={occurrence.id} className="flex items-center justify-between py-2 text-sm">
+              <Link
+                to={`/app/events/${occurrence.id}`}
+                className={occurrence.id === event.id ? 'font-semibold text-gray-900' : 'text-purple-600'}
+              >
+                {formatTimeRange(occurrence.startDate, undefined, occurrence.timeZone)}
+              </Link>
+              <span className="text-gray-500">
+                {occurrence.status === 'cancelled'
+                  ? 'cancelled'
+                  : [occurrence.viewerStatus, isOrganizer && occurrence.recurrence?.isOverride && 'edited']
+                      .filter(Boolean)
+                      .join(' · ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventSeriesDates;
@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { toLocalInput } from '@/services/time';
+import {
+  addSpeaker,
+  createSession,
+  deleteSession,
+  Event,
+  EventSession,
+  removeSpeaker,
+  Speaker,
+  updateSession,
+  updateSpeaker,
+} from '@/store/slices/eventSlice';
+
+interface EventSpeakersProps {
+  event: Event;
+}
+
+interface SpeakerForm {
+  name: string;
+  email: string;
+  headline: string;
+  bio: string;
+}
+
+interface SessionForm {
+  title: string;
+  startsAt: string;
+  endsAt: string;
+  location: string;
+  description: string;
+  speakerIds: string[];
+}
+
+const emptySpeaker: SpeakerForm = { name: '', email: '', headline: '', bio: '' };
+
+const toSpeakerForm = (speaker: Speaker): SpeakerForm => ({
+  name: speaker.name,
+  email: '',
+  headline: speaker.headline,
+  bio: speaker.bio,
+});
+
+const toSessionForm = (session: EventSession): SessionForm => ({
+  title: session.title,
+  startsAt: toLocalInput(session.startsAt),
+  endsAt: toLocalInput(session.endsAt),
+  location: session.location,
+  description: session.description,
+  speakerIds: session.speakerIds,
+});
+
+const STATUS_LABELS: Record<NonNullable<Speaker['invitationStatus']>, string> = {
+  pending: 'invited',
+  accepted: 'confirmed',
+  declined: 'declined',
+};
+
+// Host controls for the lineup: speakers, who can be linked to a NexusVerse account and invited,
+// and the sessions they give. The list comes from EventLineup.
+const EventSpeakers: React.FC<EventSpeakersProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { speakers, sessions } = useSelector((state: RootState) => state.event);
+  const [speakerForm, setSpeakerForm] = useState<SpeakerForm | null>(null);
+  const [speakerId, setSpeakerId] = useState<string | null>(null);
+  const [sessionForm, setSessionForm] = useState<SessionForm | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<string>) => {
+    try {
+      toast.success(await action());
+      return true;
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+      return false;
+    }
+  };
+
+  const closeSpeaker = () => {
+    setSpeakerForm(null);
+    setSpeakerId(null);
+  };
+
+  const closeSession = () => {
+    setSessionForm(null);
+    setSessionId(null);
+  };
+
+  const handleSaveSpeaker = async () => {
+    if (!speakerForm) {
+      return;
+    }
+    const data = {
+      name: speakerForm.name.trim() || undefined,
+      headline: speakerForm.headline.trim(),
+      bio: speakerForm.bio.trim(),
+    };
+    const saved = await run(async () => {
+      if (speakerId) {
+        await dispatch(updateSpeaker({ id: event.id, speakerId, data })).unwrap();
+        return 'Speaker updated';
+      }
+      const email = speakerForm.email.trim() || undefined;
+      const speaker = await dispatch(addSpeaker({ id: event.id, data: { ...data, email } })).unwrap();
+      return speaker.invitationStatus ? `${speaker.name} has been invited` : 'Speaker added';
+    });
+    if (saved) {
+      closeSpeaker();
+    }
+  };
+
+  const handleRemoveSpeaker = (speaker: Speaker) => {
+    if (!window.confirm(`Remove ${speaker.name} from the lineup?`)) {
+      return;
+    }
+    run(async () => {
+      await dispatch(removeSpeaker({ id: event.id, speakerId: speaker.id })).unwrap();
+      return 'Speaker removed';
+    });
+  };
+
+  const handleSaveSession = async () => {
+    if (!sessionForm) {
+      return;
+    }
+    const data = {
+      title: sessionForm.title.trim(),
+      startsAt: new Date(sessionForm.startsAt).toISOString(),
+      endsAt: new Date(sessionForm.endsAt).toISOString(),
+      location: sessionForm.location.trim(),
+      description: sessionForm.description.trim(),
+      speakerIds: sessionForm.speakerIds,
+    };
+    const saved = await run(async () => {
+      if (sessionId) {
+        await dispatch(updateSession({ id: event.id, sessionId, data })).unwrap();
+        return 'Session updated';
+      }
+      await dispatch(createSession({ id: event.id, data })).unwrap();
+      return 'Session added';
+    });
+    if (saved) {
+      closeSession();
+    }
+  };
+
+  const handleDeleteSession = (session: EventSession) => {
+    if (!window.confirm(`Delete the session "${session.title}"?`)) {
+      return;
+    }
+    run(async () => {
+      await dispatch(deleteSession({ id: event.id, sessionId: session.id })).unwrap();
+      return 'Session deleted';
+    });
+  };
+
+  const speakerField = (key: keyof SpeakerForm, props: React.InputHTMLAttributes<HTMLInputElement>) => (
+    <input
+      {...props}
+      value={speakerForm?.[key] ?? ''}
+      onChange={(e) => setSpeakerForm((current) => current && { ...current, [key]: e.target.value })}
+      className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+    />
+  );
+
+  const sessionField = (
+    key: Exclude<keyof SessionForm, 'speakerIds'>,
+    props: React.InputHTMLAttributes<HTMLInputElement>
+  ) => (
+    <input
+      {...props}
+      value={sessionForm?.[key] ?? ''}
+      onChange={(e) => setSessionForm((current) => current && { ...current, [key]: e.target.value })}
+      className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+    />
+  );
+
+  const toggleSpeaker = (id: string) =>
+    setSessionForm(
+      (current) =>
+        current && {
+          ...current,
+          speakerIds: current.speakerIds.includes(id)
+            ? current.speakerIds.filter((speakerId) => speakerId !== id)
+            : [...current.speakerIds, id],
+        }
+    );
+
+  // Declined speakers can't be put on the agenda
+  const assignable = speakers.filter((speaker) => speaker.invitationStatus !== 'declined');
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Speakers</h2>
+        {!speakerForm && (
+          <button
+            onClick={() => setSpeakerForm(emptySpeaker)}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+          >
+            Add speaker
+          </button>
+        )}
+      </div>
+
+      {speakers.length === 0 && !speakerForm && (
+        <p className="text-gray-600 mb-4">
+          Add the people speaking at your event. Give the email of their NexusVerse account to invite them.
+        </p>
+      )}
+
+      {speakers.length > 0 && (
+        <div className="divide-y divide-gray-100 text-sm mb-4">
+          {speakers.map((speaker) => (
+            <div key={speaker.id} className="flex items-center justify-between py-2">
+              <span className="text-gray-900">
+                {speaker.name}
+                {speaker.headline && <span className="text-gray-500"> · {speaker.headline}</span>}
+                {speaker.invitationStatus && (
+                  <span className="text-gray-500"> · {STATUS_LABELS[speaker.invitationStatus]}</span>
+                )}
+              </span>
+              <span className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setSpeakerId(speaker.id);
+                    setSpeakerForm(toSpeakerForm(speaker));
+                  }}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleRemoveSpeaker(speaker)}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Remove
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {speakerForm && (
+        <div className="border-t border-gray-100 pt-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2">
+            {speakerField('name', {
+              placeholder: speakerId ? 'Name' : 'Name (optional with an email)',
+              maxLength: 100,
+            })}
+            {!speakerId && speakerField('email', { type: 'email', placeholder: 'NexusVerse email (optional)' })}
+            {speakerField('headline', { placeholder: 'Headline, e.g. CTO at Acme', maxLength: 150 })}
+          </div>
+          <textarea
+            value={speakerForm.bio}
+            onChange={(e) => setSpeakerForm({ ...speakerForm, bio: e.target.value })}
+            maxLength={2000}
+            rows={3}
+            placeholder="Bio"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm mb-2"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSaveSpeaker}
+              disabled={!speakerForm.name.trim() && !speakerForm.email.trim()}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+            >
+              {speakerId ? 'Save' : speakerForm.email.trim() ? 'Invite' : 'Add'}
+            </button>
+            <button
+              onClick={closeSpeaker}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mb-4 mt-6">
+        <h2 className="text-xl font-semibold text-gray-900">Sessions</h2>
+        {!sessionForm && (
+          <button
+            onClick={() =>
+              setSessionForm({
+                title: '',
+                startsAt: toLocalInput(event.startDate),
+                endsAt: toLocalInput(event.endDate),
+                location: '',
+                description: '',
+                speakerIds: [],
+              })
+            }
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+          >
+            Add session
+          </button>
+        )}
+      </div>
+
+      {sessions.length === 0 && !sessionForm && (
+        <p className="text-gray-600">Break the event into talks, workshops or breaks to build its agenda.</p>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="divide-y divide-gray-100 text-sm mb-4">
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between py-2">
+              <span className="text-gray-900">
+                {session.title}
+                <span className="text-gray-500">
+                  {' '}
+                  · {new Date(session.startsAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  {session.speakerIds.length > 0 && ` · ${session.speakerIds.length} speakers`}
+                </span>
+              </span>
+              <span className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setSessionId(session.id);
+                    setSessionForm(toSessionForm(session));
+                  }}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteSession(session)}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Delete
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sessionForm && (
+        <div className="border-t border-gray-100 pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-2">
+            {sessionField('title', { placeholder: 'Title', maxLength: 200 })}
+            {sessionField('location', { placeholder: 'Room or stage (optional)', maxLength: 300 })}
+            {sessionField('startsAt', { type: 'datetime-local', title: 'Starts' })}
+            {sessionField('endsAt', { type: 'datetime-local', title: 'Ends' })}
+          </div>
+          <textarea
+            value={sessionForm.description}
+            onChange={(e) => setSessionForm({ ...sessionForm, description: e.target.value })}
+            maxLength={2000}
+            rows={2}
+            placeholder="Description"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm mb-2"
+          />
+          {assignable.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-sm text-gray-700 mb-2">
+              {assignable.map((speaker) => (
+                <label key={speaker.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={sessionForm.speakerIds.includes(speaker.id)}
+                    onChange={() => toggleSpeaker(speaker.id)}
+                  />
+                  {speaker.name}
+                </label>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleSaveSession}
+              disabled={!sessionForm.title.trim() || !sessionForm.startsAt || !sessionForm.endsAt}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+            >
+              {sessionId ? 'Save' : 'Add'}
+            </button>
+            <button
+              onClick={closeSession}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventSpeakers;
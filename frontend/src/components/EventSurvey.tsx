@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { eventAPI } from '@/services/api';
+import { saveBlob, toFileName } from '@/services/download';
+import {
+  deleteSurvey,
+  Event,
+  getEventStats,
+  getSurvey,
+  saveSurvey,
+  SurveyQuestion,
+  SurveyQuestionStats,
+  SurveyQuestionType,
+} from '@/store/slices/eventSlice';
+
+interface EventSurveyProps {
+  event: Event;
+}
+
+interface QuestionForm {
+  type: SurveyQuestionType;
+  prompt: string;
+  // One option per line
+  options: string;
+  required: boolean;
+}
+
+const TYPE_LABELS: Record<SurveyQuestionType, string> = {
+  rating: 'Rating (1-5)',
+  nps: 'Recommend (0-10)',
+  text: 'Free text',
+  choice: 'Multiple choice',
+};
+
+const MAX_QUESTIONS = 20;
+
+const STARTER_QUESTIONS: QuestionForm[] = [
+  { type: 'rating', prompt: 'How would you rate the event overall?', options: '', required: true },
+  { type: 'nps', prompt: 'How likely are you to recommend our events to a friend?', options: '', required: true },
+  { type: 'text', prompt: 'What could we do better next time?', options: '', required: false },
+];
+
+const toForm = (question: SurveyQuestion): QuestionForm => ({
+  type: question.type,
+  prompt: question.prompt,
+  options: (question.options ?? []).join('\n'),
+  required: !!question.required,
+});
+
+const toQuestion = (form: QuestionForm): SurveyQuestion => ({
+  type: form.type,
+  prompt: form.prompt.trim(),
+  required: form.required,
+  ...(form.type === 'choice'
+    ? {
+        options: form.options
+          .split('\n')
+          .map((option) => option.trim())
+          .filter(Boolean),
+      }
+    : {}),
+});
+
+const summarize = (question: SurveyQuestionStats) => {
+  switch (question.type) {
+    case 'rating':
+      return question.average === null || question.average === undefined
+        ? 'No ratings yet'
+        : `${question.average} / 5 · ${(question.distribution ?? [])
+            .map((count, index) => `${index + 1}★ ${count}`)
+            .join(' · ')}`;
+    case 'nps':
+      return question.score === null || question.score === undefined
+        ? 'No answers yet'
+        : `NPS ${question.score} · ${question.promoters} promoters · ${question.passives} passives · ` +
+            `${question.detractors} detractors`;
+    case 'choice':
+      return (question.counts ?? []).map(({ option, count }) => `${option} ${count}`).join(' · ');
+    default:
+      return `${question.responses} answers`;
+  }
+};
+
+// Organizer controls for the feedback survey attendees get once the event is completed, and its
+// results. Questions are locked when the survey goes out.
+const EventSurvey: React.FC<EventSurveyProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const survey = useSelector((state: RootState) => state.event.survey);
+  const results = useSelector((state: RootState) => state.event.stats?.survey);
+  const [draft, setDraft] = useState<QuestionForm[] | null>(null);
+
+  useEffect(() => {
+    dispatch(getSurvey(event.id));
+  }, [dispatch, event.id]);
+
+  const update = (index: number, changes: Partial<QuestionForm>) =>
+    setDraft(
+      (current) => current && current.map((question, i) => (i === index ? { ...question, ...changes } : question))
+    );
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    try {
+      const saved = await dispatch(saveSurvey({ id: event.id, questions: draft.map(toQuestion) })).unwrap();
+      toast.success(saved.sentAt ? `Survey sent to ${saved.recipientCount} attendees` : 'Survey saved');
+      setDraft(null);
+      if (saved.sentAt) {
+        dispatch(getEventStats(event.id));
+      }
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Remove the feedback survey?')) {
+      return;
+    }
+    try {
+      await dispatch(deleteSurvey(event.id)).unwrap();
+      toast.success('Survey removed');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const response = await eventAPI.exportSurvey(event.id);
+      saveBlob(response.data, `${toFileName(event.title)}-survey.csv`);
+    } catch {
+      toast.error('Failed to download the responses');
+    }
+  };
+
+  // Multiple choice questions need two options or more
+  const invalid =
+    !draft ||
+    draft.some(
+      (question) =>
+        !question.prompt.trim() || (question.type === 'choice' && (toQuestion(question).options ?? []).length < 2)
+    );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Feedback survey</h2>
+        {survey?.sentAt && (
+          <button
+            onClick={handleExport}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            Download CSV
+          </button>
+        )}
+      </div>
+
+      {!survey && !draft && (
+        <div>
+          <p className="text-gray-600 mb-3">
+            Ask the people who attended for feedback. The survey goes out when you mark the event as completed.
+          </p>
+          <button
+            onClick={() => setDraft(STARTER_QUESTIONS)}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+          >
+            Create survey
+          </button>
+        </div>
+      )}
+
+      {survey && !survey.sentAt && !draft && (
+        <div>
+          <ol className="list-decimal list-inside text-sm text-gray-900 mb-3">
+            {survey.questions.map((question, index) => (
+              <li key={index} className="py-1">
+                {question.prompt}
+                <span className="text-gray-500">
+                  {' '}
+                  · {TYPE_LABELS[question.type]}
+                  {question.required ? ' · required' : ''}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <p className="text-sm text-gray-500 mb-3">
+            Sent to checked-in attendees when the event is marked as completed.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDraft(survey.questions.map(toForm))}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Edit
+            </button>
+            <button
+              onClick={handleDelete}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
+
+      {draft && (
+        <div>
+          {draft.map((question, index) => (
+            <div key={index} className="border-b border-gray-100 pb-3 mb-3 text-sm">
+              <div className="flex flex-col md:flex-row gap-2 mb-2">
+                <input
+                  value={question.prompt}
+                  onChange={(e) => update(index, { prompt: e.target.value })}
+                  maxLength={300}
+                  placeholder="Question"
+                  className="flex-1 px-3 py-2 border border-gray-200 rounded-lg"
+                />
+                <select
+                  value={question.type}
+                  onChange={(e) => update(index, { type: e.target.value as SurveyQuestionType })}
+                  className="px-3 py-2 border border-gray-200 rounded-lg"
+                >
+                  {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {question.type === 'choice' && (
+                <textarea
+                  value={question.options}
+                  onChange={(e) => update(index, { options: e.target.value })}
+                  rows={3}
+                  placeholder="One option per line"
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg mb-2"
+                />
+              )}
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={question.required}
+                    onChange={(e) => update(index, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                <button
+                  onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            {draft.length < MAX_QUESTIONS && (
+              <button
+                onClick={() => setDraft([...draft, { type: 'rating', prompt: '', options: '', required: false }])}
+                className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                Add question
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={invalid || draft.length === 0}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+            >
+              {event.status === 'completed' ? 'Save and send' : 'Save'}
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {survey?.sentAt && (
+        <div>
+          <p className="text-sm text-gray-500 mb-3">
+            Sent {new Date(survey.sentAt).toLocaleString()} to {survey.recipientCount} attendees
+            {results && ` · ${results.responses} responded (${Math.round(results.responseRate * 100)}%)`}
+          </p>
+          {results && (
+            <div className="divide-y divide-gray-100 text-sm">
+              {results.questions.map((question, index) => (
+                <div key={index} className="py-2">
+                  <p className="text-gray-900">{question.prompt}</p>
+                  <p className="text-gray-500">{summarize(question)}</p>
+                  {question.latest?.map((answer, i) => (
+                    <p key={i} className="text-gray-600 italic">
+                      “{answer}”
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventSurvey;
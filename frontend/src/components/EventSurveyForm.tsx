@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { Event, getSurvey, respondToSurvey, SurveyAnswer } from '@/store/slices/eventSlice';
+
+interface EventSurveyFormProps {
+  event: Event;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+const NPS_SCORES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// The feedback survey for people who attended, shown once the organizer has sent it
+const EventSurveyForm: React.FC<EventSurveyFormProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const survey = useSelector((state: RootState) => state.event.survey);
+  const [answers, setAnswers] = useState<SurveyAnswer[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    dispatch(getSurvey(event.id));
+  }, [dispatch, event.id]);
+
+  if (!survey?.sentAt) {
+    return null;
+  }
+
+  if (survey.responded) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Feedback</h2>
+        <p className="text-gray-600">Thanks for your feedback on this event.</p>
+      </div>
+    );
+  }
+
+  const answer = (index: number, value: SurveyAnswer) =>
+    setAnswers((current) => {
+      const next = survey.questions.map((_, i) => current[i] ?? null);
+      next[index] = value;
+      return next;
+    });
+
+  const missing = survey.questions.some((question, index) => question.required && (answers[index] ?? '') === '');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await dispatch(respondToSurvey({ id: event.id, answers })).unwrap();
+      toast.success('Thanks for your feedback!');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const scale = (index: number, values: number[]) => (
+    <div className="flex flex-wrap gap-1">
+      {values.map((value) => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => answer(index, value)}
+          className={`w-9 h-9 rounded-lg text-sm font-medium ${
+            answers[index] === value ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {value}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">How was it?</h2>
+      <p className="text-gray-600 mb-4">The organizer would like your feedback on {event.title}.</p>
+      {survey.questions.map((question, index) => (
+        <div key={index} className="mb-4 text-sm">
+          <p className="font-medium text-gray-900 mb-2">
+            {question.prompt}
+            {question.required && <span className="text-red-500"> *</span>}
+          </p>
+          {question.type === 'rating' && scale(index, RATINGS)}
+          {question.type === 'nps' && (
+            <div>
+              {scale(index, NPS_SCORES)}
+              <p className="text-xs text-gray-500 mt-1">0 = not at all likely, 10 = extremely likely</p>
+            </div>
+          )}
+          {question.type === 'choice' &&
+            question.options?.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-gray-700 py-1">
+                <input
+                  type="radio"
+                  name={`question-${index}`}
+                  checked={answers[index] === option}
+                  onChange={() => answer(index, option)}
+                />
+                {option}
+              </label>
+            ))}
+          {question.type === 'text' && (
+            <textarea
+              value={(answers[index] as string) ?? ''}
+              onChange={(e) => answer(index, e.target.value)}
+              maxLength={2000}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg"
+            />
+          )}
+        </div>
+      ))}
+      <button
+        type="submit"
+        disabled={missing || isSubmitting}
+        className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+      >
+        Send feedback
+      </button>
+    </form>
+  );
+};
+
+export default EventSurveyForm;
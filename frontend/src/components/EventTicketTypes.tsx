@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch } from '@/store';
+import { formatPrice } from '@/services/price';
+import { toLocalInput } from '@/services/time';
+import { createTicketType, deleteTicketType, Event, TicketType, updateTicketType } from '@/store/slices/eventSlice';
+
+interface EventTicketTypesProps {
+  event: Event;
+}
+
+interface TicketTypeForm {
+  name: string;
+  price: string;
+  quantity: string;
+  salesStart: string;
+  salesEnd: string;
+}
+
+const emptyForm: TicketTypeForm = { name: '', price: '0', quantity: '', salesStart: '', salesEnd: '' };
+
+const toForm = (ticketType: TicketType): TicketTypeForm => ({
+  name: ticketType.name,
+  price: String(ticketType.price),
+  quantity: ticketType.quantity ? String(ticketType.quantity) : '',
+  salesStart: toLocalInput(ticketType.salesStart),
+  salesEnd: toLocalInput(ticketType.salesEnd),
+});
+
+// Organizer controls for the event's ticket tiers. Tiers with sales can be repriced or resized
+// down to what has sold, but not deleted.
+const EventTicketTypes: React.FC<EventTicketTypesProps> = ({ event }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [form, setForm] = useState<TicketTypeForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const ticketTypes = event.ticketTypes ?? [];
+
+  const close = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    if (!form) {
+      return;
+    }
+    const data = {
+      name: form.name.trim(),
+      price: Number(form.price),
+      quantity: form.quantity ? Number(form.quantity) : null,
+      salesStart: form.salesStart ? new Date(form.salesStart).toISOString() : null,
+      salesEnd: form.salesEnd ? new Date(form.salesEnd).toISOString() : null,
+    };
+    try {
+      if (editingId) {
+        await dispatch(updateTicketType({ eventId: event.id, ticketTypeId: editingId, data })).unwrap();
+        toast.success('Ticket type updated');
+      } else {
+        await dispatch(createTicketType({ eventId: event.id, data })).unwrap();
+        toast.success('Ticket type added');
+      }
+      close();
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleDelete = async (ticketType: TicketType) => {
+    if (!window.confirm(`Delete the ${ticketType.name} ticket type?`)) {
+      return;
+    }
+    try {
+      await dispatch(deleteTicketType({ eventId: event.id, ticketTypeId: ticketType.id })).unwrap();
+      toast.success('Ticket type deleted');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const field = (key: keyof TicketTypeForm, props: React.InputHTMLAttributes<HTMLInputElement>) => (
+    <input
+      {...props}
+      value={form?.[key] ?? ''}
+      onChange={(e) => setForm((current) => current && { ...current, [key]: e.target.value })}
+      className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Tickets</h2>
+        {!form && (
+          <button
+            onClick={() => setForm(emptyForm)}
+            className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+          >
+            Add ticket type
+          </button>
+        )}
+      </div>
+
+      {ticketTypes.length === 0 && !form && (
+        <p className="text-gray-600">
+          Everyone pays {formatPrice(event.ticketPrice)}. Add ticket types for tiers such as early-bird or VIP.
+        </p>
+      )}
+
+      {ticketTypes.length > 0 && (
+        <div className="divide-y divide-gray-100 text-sm mb-4">
+          {ticketTypes.map((ticketType) => (
+            <div key={ticketType.id} className="flex items-center justify-between py-2">
+              <span className="text-gray-900">
+                {ticketType.name} · {formatPrice(ticketType.price)}
+                <span className="text-gray-500">
+                  {' '}
+                  · {ticketType.sold}
+                  {ticketType.quantity ? ` of ${ticketType.quantity}` : ''} taken
+                  {ticketType.salesEnd && ` · sales end ${new Date(ticketType.salesEnd).toLocaleString()}`}
+                </span>
+              </span>
+              <span className="flex gap-2">
+                <button
+                  onClick={() => {
+                    setEditingId(ticketType.id);
+                    setForm(toForm(ticketType));
+                  }}
+                  className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                  Edit
+                </button>
+                {ticketType.sold === 0 && (
+                  <button
+                    onClick={() => handleDelete(ticketType)}
+                    className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Delete
+                  </button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {form && (
+        <div className="border-t border-gray-100 pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2">
+            {field('name', { placeholder: 'Name, e.g. Early bird', maxLength: 100 })}
+            {field('price', { type: 'number', min: 0, step: '0.01', placeholder: 'Price' })}
+            {field('quantity', { type: 'number', min: 1, placeholder: 'Quantity (optional)' })}
+            {field('salesStart', { type: 'datetime-local', title: 'Sales start' })}
+            {field('salesEnd', { type: 'datetime-local', title: 'Sales end' })}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={!form.name.trim()}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-60"
+            >
+              {editingId ? 'Save' : 'Add'}
+            </button>
+            <button
+              onClick={close}
+              className="px-3 py-1 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EventTicketTypes;
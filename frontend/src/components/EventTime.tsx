@@ -0,0 +1,28 @@
+import React from 'react';
+import { formatTimeRange, sameLocalTime } from '@/services/time';
+import { useTimeZone } from '@/hooks/useTimeZone';
+
+interface EventTimeProps {
+  startDate: Date | string;
+  endDate?: Date | string;
+  // Zone the event is held in
+  timeZone: string;
+  className?: string;
+}
+
+// Event times on the local clock where the event happens, plus the viewer's own when that differs
+const EventTime: React.FC<EventTimeProps> = ({ startDate, endDate, timeZone, className = '' }) => {
+  const viewerTimeZone = useTimeZone();
+  return (
+    <span className={className}>
+      {formatTimeRange(startDate, endDate, timeZone)}
+      {!sameLocalTime(startDate, timeZone, viewerTimeZone) && (
+        <span className="block text-xs text-gray-400">
+          {formatTimeRange(startDate, endDate, viewerTimeZone)} your time
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default EventTime;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch } from '@/store';
+import { Post, refreshPost, votePoll } from '@/store/slices/communitySlice';
+
+// How often open polls re-fetch their counts while on screen
+const REFRESH_INTERVAL_MS = 15000;
+
+interface PollViewProps {
+  post: Post;
+  communityId: string;
+  canVote: boolean;
+}
+
+const PollView: React.FC<PollViewProps> = ({ post, communityId, canVote }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const poll = post.poll;
+  const options = post.pollOptions ?? [];
+  const hasVoted = Boolean(poll && poll.myVotes.length > 0);
+  const isClosed = Boolean(poll?.isClosed);
+
+  useEffect(() => {
+    if (isClosed) {
+      return;
+    }
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        dispatch(refreshPost({ communityId, postId: post.id }));
+      }
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [dispatch, communityId, post.id, isClosed]);
+
+  if (!poll) {
+    return null;
+  }
+
+  const totalVotes = options.reduce((sum, option) => sum + option.votes, 0);
+  const showResults = hasVoted || isClosed || !canVote;
+
+  const toggleOption = (optionId: string) => {
+    if (poll.multipleChoice) {
+      setSelected((prev) => (prev.includes(optionId) ? prev.filter((id) => id !== optionId) : [...prev, optionId]));
+    } else {
+      setSelected([optionId]);
+    }
+  };
+
+  const submitVote = async () => {
+    setIsSubmitting(true);
+    try {
+      await dispatch(votePoll({ communityId, postId: post.id, optionIds: selected })).unwrap();
+      toast.success('Vote recorded');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Failed to vote');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      {options.map((option) => {
+        const percent = totalVotes ? Math.round((option.votes / totalVotes) * 100) : 0;
+        const isMine = poll.myVotes.includes(option.id);
+
+        if (!showResults) {
+          return (
+            <label
+              key={option.id}
+              className="flex items-center gap-2 border border-gray-200 rounded-lg px-3 py-2 cursor-pointer hover:bg-gray-50"
+            >
+              <input
+                type={poll.multipleChoice ? 'checkbox' : 'radio'}
+                name={`poll-${post.id}`}
+                checked={selected.includes(option.id)}
+                onChange={() => toggleOption(option.id)}
+              />
+              <span className="text-sm text-gray-800">{option.text}</span>
+            </label>
+          );
+        }
+
+        return (
+          <div key={option.id} className="relative border border-gray-200 rounded-lg px-3 py-2 overflow-hidden">
+            <div className="absolute inset-y-0 left-0 bg-purple-100" style={{ width: `${percent}%` }} />
+            <div className="relative flex items-center justify-between text-sm">
+              <span className={isMine ? 'font-semibold text-purple-700' : 'text-gray-800'}>
+                {option.text}
+                {isMine && ' ✓'}
+              </span>
+              <span className="text-gray-600">
+                {percent}% · {option.votes}
+              </span>
+            </div>
+            {option.voters && option.voters.length > 0 && (
+              <p className="relative text-xs text-gray-500 mt-1">
+                {option.voters.map((voter) => `${voter.firstName} ${voter.lastName}`.trim()).join(', ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {poll.totalVoters} {poll.totalVoters === 1 ? 'voter' : 'voters'}
+          {poll.multipleChoice && ' · multiple choice'}
+          {!poll.showVoters && ' · anonymous'}
+          {poll.closesAt && ` · ${isClosed ? 'closed' : 'closes'} ${new Date(poll.closesAt).toLocaleString()}`}
+        </span>
+        {!showResults && (
+          <button
+            onClick={submitVote}
+            disabled={selected.length === 0 || isSubmitting}
+            className="px-3 py-1 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50"
+          >
+            Vote
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PollView;
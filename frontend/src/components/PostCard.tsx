@@ -0,0 +1,465 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import {
+  addComment,
+  deleteComment,
+  deletePost,
+  editComment,
+  editPost,
+  getPostComments,
+  likePost,
+  pinPost,
+  Post,
+  removePost,
+  restorePost,
+  revealPostAuthor,
+  setPostLocked,
+  unlikePost,
+  unpinPost,
+} from '@/store/slices/communitySlice';
+import PollView from './PollView';
+
+// Mirrors MAX_COMMENT_DEPTH on the backend
+const MAX_DEPTH = 8;
+
+interface PostCardProps {
+  post: Post;
+  communityId: string;
+  canModerate: boolean;
+  canParticipate: boolean;
+  allowAnonymous: boolean;
+}
+
+interface ThreadProps {
+  rootId: string;
+  communityId: string;
+  canModerate: boolean;
+  canParticipate: boolean;
+  allowAnonymous: boolean;
+}
+
+interface CommentNodeProps extends ThreadProps {
+  comment: Post;
+}
+
+const reportError = (error: any) => toast.error(typeof error === 'string' ? error : 'Something went wrong');
+
+const authorName = (post: Post) => `${post.author.firstName} ${post.author.lastName}`.trim();
+
+interface ReplyFormProps {
+  onSubmit: (content: string, isAnonymous: boolean) => Promise<void>;
+  onCancel?: () => void;
+  initial?: string;
+  allowAnonymous?: boolean;
+}
+
+const ReplyForm: React.FC<ReplyFormProps> = ({ onSubmit, onCancel, initial = '', allowAnonymous = false }) => {
+  const [content, setContent] = useState(initial);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) {
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit(content.trim(), isAnonymous);
+      setContent('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={2}
+        maxLength={5000}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      <div className="flex justify-end items-center gap-2">
+        {allowAnonymous && (
+          <label className="flex items-center gap-1 text-xs text-gray-600 mr-auto">
+            <input type="checkbox" checked={isAnonymous} onChange={(e) => setIsAnonymous(e.target.checked)} />
+            Reply anonymously
+          </label>
+        )}
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || !content.trim()}
+          className="px-3 py-1 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50"
+        >
+          {initial ? 'Save' : 'Reply'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Shown to staff on anonymous posts; the reason is stored in the community's reveal log
+const RevealAuthorButton: React.FC<{ communityId: string; postId: string }> = ({ communityId, postId }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [revealed, setRevealed] = useState<string | null>(null);
+
+  const handleReveal = async () => {
+    const reason = window.prompt('Which rule does this post break? The reveal is logged with your reason.');
+    if (!reason?.trim()) {
+      return;
+    }
+    try {
+      const author = await dispatch(revealPostAuthor({ communityId, postId, reason: reason.trim() })).unwrap();
+      setRevealed(`${author.firstName} ${author.lastName}`.trim());
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  if (revealed) {
+    return <span className="text-orange-600">Author: {revealed}</span>;
+  }
+  return (
+    <button onClick={handleReveal} className="hover:text-orange-600">
+      Reveal author
+    </button>
+  );
+};
+
+// Staff remove with a reason the author is told about, and can restore later
+const RemovalControls: React.FC<{ communityId: string; post: Post }> = ({ communityId, post }) => {
+  const dispatch = useDispatch<AppDispatch>();
+
+  const handleRemove = () => {
+    const reason = window.prompt('Why is this being removed? The author will see your reason.');
+    if (reason?.trim()) {
+      dispatch(removePost({ communityId, postId: post.id, reason: reason.trim() })).unwrap().catch(reportError);
+    }
+  };
+
+  const handleRestore = () =>
+    dispatch(restorePost({ communityId, postId: post.id })).unwrap().catch(reportError);
+
+  return post.isRemoved ? (
+    <button onClick={handleRestore} className="hover:text-green-600">
+      Restore
+    </button>
+  ) : (
+    <button onClick={handleRemove} className="hover:text-red-600">
+      Remove
+    </button>
+  );
+};
+
+const RemovedNotice: React.FC<{ post: Post }> = ({ post }) => (
+  <p className="text-xs text-red-600 bg-red-50 rounded px-2 py-1 my-1">
+    Removed by moderators{post.removalReason ? `: ${post.removalReason}` : ''}
+  </p>
+);
+
+// Replies to `parentId`, loaded one level at a time
+const CommentList: React.FC<ThreadProps & { parentId: string }> = ({ parentId, ...thread }) => {
+  const { rootId, communityId } = thread;
+  const dispatch = useDispatch<AppDispatch>();
+  const page = useSelector((state: RootState) => state.community.comments[parentId]);
+
+  if (!page) {
+    return null;
+  }
+
+  const loadMore = () =>
+    dispatch(
+      getPostComments({
+        communityId,
+        postId: rootId,
+        params: { parentId: parentId === rootId ? undefined : parentId, cursor: page.nextCursor ?? undefined },
+      })
+    )
+      .unwrap()
+      .catch(reportError);
+
+  return (
+    <div className="space-y-3">
+      {page.items.map((comment) => (
+        <CommentNode key={comment.id} comment={comment} {...thread} />
+      ))}
+      {page.hasMore && (
+        <button onClick={loadMore} className="text-sm text-purple-600 hover:text-purple-700">
+          Load more replies
+        </button>
+      )}
+    </div>
+  );
+};
+
+const CommentNode: React.FC<CommentNodeProps> = ({ comment, ...thread }) => {
+  const { rootId, communityId, canModerate, canParticipate, allowAnonymous } = thread;
+  const dispatch = useDispatch<AppDispatch>();
+  const repliesLoaded = useSelector((state: RootState) => Boolean(state.community.comments[comment.id]));
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showReplies, setShowReplies] = useState(false);
+
+  const isAuthor = comment.isOwn;
+  const canReply = !comment.isDeleted && (!comment.isRemoved || canModerate) && comment.depth < MAX_DEPTH;
+
+  const toggleReplies = () => {
+    if (!showReplies && !repliesLoaded) {
+      dispatch(getPostComments({ communityId, postId: rootId, params: { parentId: comment.id } }))
+        .unwrap()
+        .catch(reportError);
+    }
+    setShowReplies(!showReplies);
+  };
+
+  const handleReply = async (content: string, isAnonymous: boolean) => {
+    try {
+      await dispatch(addComment({ communityId, postId: rootId, content, parentId: comment.id, isAnonymous })).unwrap();
+      setIsReplying(false);
+      setShowReplies(true);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleEdit = async (content: string) => {
+    try {
+      await dispatch(editComment({ communityId, postId: rootId, commentId: comment.id, content })).unwrap();
+      setIsEditing(false);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this comment?')) {
+      dispatch(deleteComment({ communityId, postId: rootId, comment })).unwrap().catch(reportError);
+    }
+  };
+
+  return (
+    <div className="border-l-2 border-gray-100 pl-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-gray-900">{comment.isDeleted ? '[deleted]' : authorName(comment)}</span>
+        <span className="text-gray-500">
+          {new Date(comment.createdAt).toLocaleString()}
+          {comment.isEdited && !comment.isDeleted && ' · edited'}
+        </span>
+      </div>
+
+      {isEditing ? (
+        <ReplyForm initial={comment.content} onSubmit={handleEdit} onCancel={() => setIsEditing(false)} />
+      ) : (
+        <p
+          className={`text-sm mt-1 ${comment.isDeleted || !comment.content ? 'text-gray-400 italic' : 'text-gray-700'}`}
+        >
+          {comment.isDeleted
+            ? 'This comment was deleted.'
+            : comment.isRemoved && !comment.content
+              ? 'This comment was removed by moderators.'
+              : comment.content}
+        </p>
+      )}
+      {comment.isRemoved && comment.content && <RemovedNotice post={comment} />}
+
+      <div className="flex items-center space-x-4 text-xs text-gray-500 mt-1">
+        {comment.stats.commentCount > 0 && (
+          <button onClick={toggleReplies} className="hover:text-gray-700">
+            {showReplies ? 'Hide replies' : `View ${comment.stats.commentCount} replies`}
+          </button>
+        )}
+        {canParticipate && canReply && (
+          <button onClick={() => setIsReplying(!isReplying)} className="hover:text-gray-700">
+            Reply
+          </button>
+        )}
+        {isAuthor && !comment.isDeleted && (
+          <button onClick={() => setIsEditing(true)} className="hover:text-gray-700">
+            Edit
+          </button>
+        )}
+        {(isAuthor || canModerate) && !comment.isDeleted && (
+          <button onClick={handleDelete} className="hover:text-red-600">
+            Delete
+          </button>
+        )}
+        {canModerate && comment.isAnonymous && !comment.isDeleted && (
+          <RevealAuthorButton communityId={communityId} postId={comment.id} />
+        )}
+        {canModerate && !comment.isDeleted && <RemovalControls communityId={communityId} post={comment} />}
+      </div>
+
+      {isReplying && (
+        <ReplyForm onSubmit={handleReply} onCancel={() => setIsReplying(false)} allowAnonymous={allowAnonymous} />
+      )}
+
+      {showReplies && (
+        <div className="mt-3">
+          <CommentList parentId={comment.id} {...thread} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PostCard: React.FC<PostCardProps> = ({ post, communityId, canModerate, canParticipate, allowAnonymous }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const userId = useSelector((state: RootState) => state.auth.user?.id);
+  const commentsLoaded = useSelector((state: RootState) => Boolean(state.community.comments[post.id]));
+  const [showComments, setShowComments] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const isAuthor = post.isOwn;
+  const hasLiked = Boolean(userId && post.likes.includes(userId));
+
+  const toggleComments = () => {
+    if (!showComments && !commentsLoaded) {
+      dispatch(getPostComments({ communityId, postId: post.id })).unwrap().catch(reportError);
+    }
+    setShowComments(!showComments);
+  };
+
+  const toggleLike = () => {
+    const action = hasLiked ? unlikePost : likePost;
+    dispatch(action({ communityId, postId: post.id })).unwrap().catch(reportError);
+  };
+
+  const handleComment = async (content: string, isAnonymous: boolean) => {
+    try {
+      await dispatch(addComment({ communityId, postId: post.id, content, isAnonymous })).unwrap();
+      setShowComments(true);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleEdit = async (content: string) => {
+    try {
+      await dispatch(editPost({ communityId, postId: post.id, data: { content } })).unwrap();
+      setIsEditing(false);
+    } catch (error) {
+      reportError(error);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Delete this post and all of its comments?')) {
+      dispatch(deletePost({ communityId, postId: post.id })).unwrap().catch(reportError);
+    }
+  };
+
+  const togglePin = () =>
+    dispatch(post.isPinned ? unpinPost({ communityId, postId: post.id }) : pinPost({ communityId, postId: post.id }))
+      .unwrap()
+      .catch(reportError);
+
+  const movePinUp = () =>
+    dispatch(pinPost({ communityId, postId: post.id, position: (post.pinPosition ?? 1) - 1 }))
+      .unwrap()
+      .catch(reportError);
+
+  const toggleLock = () =>
+    dispatch(setPostLocked({ communityId, postId: post.id, locked: !post.isLocked }))
+      .unwrap()
+      .catch(reportError);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-900">
+          {authorName(post)}
+          {post.isPinned && <span className="ml-2 text-xs text-purple-600">📌 Pinned</span>}
+          {post.isLocked && <span className="ml-2 text-xs text-gray-500">🔒 Locked</span>}
+        </span>
+        <span className="text-sm text-gray-500">
+          {new Date(post.createdAt).toLocaleString()}
+          {post.isEdited && ' · edited'}
+        </span>
+      </div>
+
+      {post.isRemoved && <RemovedNotice post={post} />}
+      {post.title && <h4 className="font-semibold text-gray-900 mb-1">{post.title}</h4>}
+      {isEditing ? (
+        <ReplyForm initial={post.content} onSubmit={handleEdit} onCancel={() => setIsEditing(false)} />
+      ) : (
+        <p className="text-gray-700 mb-2 whitespace-pre-line">{post.content}</p>
+      )}
+      {post.link && (
+        <a href={post.link} target="_blank" rel="noopener noreferrer" className="text-sm text-purple-600 break-all">
+          {post.link}
+        </a>
+      )}
+      {post.imageUrl && <img src={post.imageUrl} alt="" className="mt-2 rounded-lg max-h-96" />}
+      {post.type === 'poll' && <PollView post={post} communityId={communityId} canVote={canParticipate} />}
+
+      <div className="flex items-center space-x-4 text-sm text-gray-500 mt-2">
+        <button
+          onClick={toggleLike}
+          disabled={!canParticipate}
+          className={`${hasLiked ? 'text-purple-600' : ''} hover:text-purple-600 disabled:hover:text-gray-500`}
+        >
+          👍 {post.stats.likeCount}
+        </button>
+        <button onClick={toggleComments} className="hover:text-gray-700">
+          💬 {post.stats.commentCount}
+        </button>
+        {isAuthor && (
+          <button onClick={() => setIsEditing(true)} className="hover:text-gray-700">
+            Edit
+          </button>
+        )}
+        {(isAuthor || canModerate) && (
+          <button onClick={handleDelete} className="hover:text-red-600">
+            Delete
+          </button>
+        )}
+        {canModerate && post.isAnonymous && <RevealAuthorButton communityId={communityId} postId={post.id} />}
+        {canModerate && (
+          <>
+            {!post.isRemoved && (
+              <button onClick={togglePin} className="hover:text-gray-700">
+                {post.isPinned ? 'Unpin' : 'Pin'}
+              </button>
+            )}
+            {post.isPinned && (post.pinPosition ?? 0) > 0 && (
+              <button onClick={movePinUp} className="hover:text-gray-700">
+                Move up
+              </button>
+            )}
+            <button onClick={toggleLock} className="hover:text-gray-700">
+              {post.isLocked ? 'Unlock' : 'Lock'}
+            </button>
+            <RemovalControls communityId={communityId} post={post} />
+          </>
+        )}
+      </div>
+
+      {showComments && (
+        <div className="mt-4 space-y-3">
+          {canParticipate && (!post.isLocked || canModerate) && (
+            <ReplyForm onSubmit={handleComment} allowAnonymous={allowAnonymous} />
+          )}
+          <CommentList
+            parentId={post.id}
+            rootId={post.id}
+            communityId={communityId}
+            canModerate={canModerate}
+            canParticipate={canParticipate && (!post.isLocked || canModerate)}
+            allowAnonymous={allowAnonymous}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostCard;
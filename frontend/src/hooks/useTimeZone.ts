@@ -0,0 +1,6 @@
+import { useSelector } from 'react-redux';
+import { RootState } from '@/store';
+import { browserTimeZone } from '@/services/time';
+
+// The zone the viewer wants times shown in: their preference, else the browser's
+export const useTimeZone = () => useSelector((state: RootState) => state.auth.user?.timeZone) || browserTimeZone();
@@ -1,106 +1,76 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
-
-interface Community {
-  id: string;
-  name: string;
-  description: string;
-  memberCount: number;
-  category: string;
-  isJoined: boolean;
-  image: string;
-  tags: string[];
-}
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import { Community, getCommunities, joinCommunity, leaveCommunity } from '@/store/slices/communitySlice';
 
 const CommunitiesPage: React.FC = () => {
-  const [communities, setCommunities] = useState<Community[]>([]);
+  const dispatch = useDispatch<AppDispatch>();
+  const { communities } = useSelector((state: RootState) => state.community);
   const [filter, setFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
 
   useEffect(() => {
-    // Mock data for communities
-    const mockCommunities: Community[] = [
-      {
-        id: '1',
-        name: 'Web3 Developers',
-        description: 'A community for blockchain and Web3 developers to share knowledge and collaborate on projects.',
-        memberCount: 1247,
-        category: 'Technology',
-        isJoined: true,
-        image: '🔗',
-        tags: ['Blockchain', 'Web3', 'Development']
-      },
-      {
-        id: '2',
-        name: 'AI Ethics',
-        description: 'Discussing the ethical implications of artificial intelligence and responsible AI development.',
-        memberCount: 892,
-        category: 'AI',
-        isJoined: false,
-        image: '🤖',
-        tags: ['AI', 'Ethics', 'Responsible Tech']
-      },
-      {
-        id: '3',
-        name: 'Sustainable Tech',
-        description: 'Exploring technology solutions for environmental sustainability and climate action.',
-        memberCount: 567,
-        category: 'Sustainability',
-        isJoined: false,
-        image: '🌱',
-        tags: ['Sustainability', 'Climate', 'Green Tech']
-      },
-      {
-        id: '4',
-        name: 'Startup Founders',
-        description: 'Connect with fellow entrepreneurs and share insights on building successful startups.',
-        memberCount: 2341,
-        category: 'Business',
-        isJoined: true,
-        image: '🚀',
-        tags: ['Startups', 'Entrepreneurship', 'Business']
-      },
-      {
-        id: '5',
-        name: 'Remote Work',
-        description: 'Tips, tools, and strategies for effective remote work and distributed teams.',
-        memberCount: 1567,
-        category: 'Work',
-        isJoined: false,
-        image: '🏠',
-        tags: ['Remote Work', 'Productivity', 'Work-Life Balance']
-      },
-      {
-        id: '6',
-        name: 'Data Science',
-        description: 'Advanced discussions on data science, machine learning, and analytics.',
-        memberCount: 987,
-        category: 'Technology',
-        isJoined: false,
-        image: '📊',
-        tags: ['Data Science', 'ML', 'Analytics']
-      }
-    ];
-
-    setCommunities(mockCommunities);
-  }, []);
-
-  const filteredCommunities = communities.filter(community => {
-    const matchesFilter = filter === 'all' || community.category.toLowerCase() === filter.toLowerCase();
-    const matchesSearch = community.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         community.description.toLowerCase().includes(searchTerm.toLowerCase());
-    return matchesFilter && matchesSearch;
-  });
+    // Debounce typing so every keystroke doesn't hit the API
+    const timeout = setTimeout(() => {
+      dispatch(getCommunities({
+        search: searchTerm.trim() || undefined,
+        category: filter === 'all' ? undefined : filter,
+      }));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [dispatch, filter, searchTerm]);
 
   const categories = ['all', 'technology', 'ai', 'sustainability', 'business', 'work'];
 
-  const handleJoinCommunity = (communityId: string) => {
-    setCommunities(prev => prev.map(community => 
-      community.id === communityId 
-        ? { ...community, isJoined: !community.isJoined }
-        : community
-    ));
+  const handleJoinCommunity = async (community: Community) => {
+    try {
+      if (community.viewerRole) {
+        await dispatch(leaveCommunity(community.id)).unwrap();
+        toast.success(`Left ${community.name}`);
+        return;
+      }
+      const result = await dispatch(joinCommunity({ id: community.id })).unwrap();
+      toast.success(result.pending ? 'Join request sent for approval' : `Joined ${community.name}`);
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const renderJoinAction = (community: Community) => {
+    if (community.hasPendingRequest) {
+      return (
+        <span className="px-4 py-1 rounded-lg text-sm font-medium bg-yellow-100 text-yellow-800">
+          Pending
+        </span>
+      );
+    }
+    // Screening questions are answered on the detail page
+    if (!community.viewerRole && community.settings.requireApproval && community.settings.screeningQuestions.length > 0) {
+      return (
+        <Link
+          to={`/app/communities/${community.id}`}
+          className="px-4 py-1 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600 transition-colors"
+        >
+          Apply
+        </Link>
+      );
+    }
+    return (
+      <button
+        onClick={() => handleJoinCommunity(community)}
+        disabled={community.viewerRole === 'creator'}
+        className={`px-4 py-1 rounded-lg text-sm font-medium transition-colors ${
+          community.viewerRole
+            ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            : 'bg-purple-500 text-white hover:bg-purple-600'
+        }`}
+      >
+        {community.viewerRole ? 'Joined' : community.settings.requireApproval ? 'Request to join' : 'Join'}
+      </button>
+    );
   };
 
   return (
@@ -149,7 +119,7 @@ const CommunitiesPage: React.FC = () => {
 
         {/* Communities Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredCommunities.map((community, index) => (
+          {communities.map((community, index) => (
             <motion.div
               key={community.id}
               initial={{ opacity: 0, y: 20 }}
@@ -160,7 +130,11 @@ const CommunitiesPage: React.FC = () => {
               <div className="p-6">
                 <div className="flex items-center justify-between mb-4">
                   <div className="w-12 h-12 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
-                    <span className="text-2xl">{community.image}</span>
+                    {community.avatar ? (
+                      <img src={community.avatar} alt="" className="w-12 h-12 rounded-lg object-cover" />
+                    ) : (
+                      <span className="text-2xl text-white font-bold">{community.name.charAt(0)}</span>
+                    )}
                   </div>
                   <span className="text-sm text-gray-500">{community.category}</span>
                 </div>
@@ -181,7 +155,7 @@ const CommunitiesPage: React.FC = () => {
 
                 <div className="flex items-center justify-between">
                   <span className="text-sm text-gray-500">
-                    {community.memberCount.toLocaleString()} members
+                    {community.stats.memberCount.toLocaleString()} members
                   </span>
                   <div className="flex gap-2">
                     <Link
@@ -190,16 +164,7 @@ const CommunitiesPage: React.FC = () => {
                     >
                       View
                     </Link>
-                    <button
-                      onClick={() => handleJoinCommunity(community.id)}
-                      className={`px-4 py-1 rounded-lg text-sm font-medium transition-colors ${
-                        community.isJoined
-                          ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                          : 'bg-purple-500 text-white hover:bg-purple-600'
-                      }`}
-                    >
-                      {community.isJoined ? 'Joined' : 'Join'}
-                    </button>
+                    {renderJoinAction(community)}
                   </div>
                 </div>
               </div>
@@ -1,56 +1,200 @@
 import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import CalendarSubscribe from '@/components/CalendarSubscribe';
+import PostCard from '@/components/PostCard';
+import {
+  clearPosts,
+  createPost,
+  getAnonymousReveals,
+  getCommunity,
+  getCommunityPosts,
+  getJoinRequests,
+  getModerationLog,
+  joinCommunity,
+  leaveCommunity,
+  ModerationAction,
+  PostSort,
+  reviewJoinRequests,
+  updateCommunity,
+  withdrawJoinRequest,
+} from '@/store/slices/communitySlice';
+
+const moderationLabels: Record<ModerationAction['action'], string> = {
+  pin: 'pinned',
+  unpin: 'unpinned',
+  lock: 'locked',
+  unlock: 'unlocked',
+  remove: 'removed',
+  restore: 'restored',
+};
+
+// Placeholder events until they are served by the API
+const sampleEvents = [
+  {
+    id: '1',
+    title: 'Web3 Workshop',
+    date: '2024-03-20',
+    attendees: 45
+  }
+];
 
 const CommunityDetailPage: React.FC = () => {
   const { id } = useParams();
-  const [community, setCommunity] = useState<any>(null);
+  const dispatch = useDispatch<AppDispatch>();
+  const { currentCommunity: community, joinRequests, moderationLog, reveals, posts, postsPagination } = useSelector(
+    (state: RootState) => state.community
+  );
   const [activeTab, setActiveTab] = useState('overview');
+  const [showApplication, setShowApplication] = useState(false);
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [selectedRequests, setSelectedRequests] = useState<string[]>([]);
+  const [sort, setSort] = useState<PostSort>('new');
+  const [draft, setDraft] = useState({ title: '', content: '', isAnonymous: false });
+  const emptyPoll = { enabled: false, options: ['', ''], multipleChoice: false, closesAt: '', showVoters: false };
+  const [pollDraft, setPollDraft] = useState(emptyPoll);
+
+  const isStaff = community?.viewerRole === 'creator' || community?.viewerRole === 'moderator';
 
   useEffect(() => {
-    // Mock community data
-    setCommunity({
-      id,
-      name: 'Web3 Developers',
-      description: 'A community for blockchain and Web3 developers to share knowledge and collaborate on projects.',
-      memberCount: 1247,
-      category: 'Technology',
-      isJoined: true,
-      image: '🔗',
-      tags: ['Blockchain', 'Web3', 'Development'],
-      posts: [
-        {
-          id: '1',
-          author: 'Sarah Chen',
-          content: 'Just deployed my first smart contract! Any tips for gas optimization?',
-          timestamp: '2 hours ago',
-          likes: 12,
-          comments: 5
-        },
-        {
-          id: '2',
-          author: 'Mike Johnson',
-          content: 'Great article on Layer 2 scaling solutions. Highly recommend checking it out.',
-          timestamp: '1 day ago',
-          likes: 8,
-          comments: 3
-        }
-      ],
-      events: [
-        {
-          id: '1',
-          title: 'Web3 Workshop',
-          date: '2024-03-20',
-          attendees: 45
-        }
-      ]
-    });
-  }, [id]);
+    if (id) {
+      dispatch(getCommunity(id));
+    }
+  }, [dispatch, id]);
 
-  if (!community) {
+  useEffect(() => {
+    if (id) {
+      dispatch(clearPosts());
+      dispatch(getCommunityPosts({ communityId: id, params: { sort } }));
+    }
+  }, [dispatch, id, sort]);
+
+  useEffect(() => {
+    if (id && isStaff && activeTab === 'requests') {
+      dispatch(getJoinRequests({ communityId: id }));
+      setSelectedRequests([]);
+    }
+    if (id && isStaff && activeTab === 'moderation') {
+      dispatch(getModerationLog({ communityId: id }));
+      dispatch(getAnonymousReveals({ communityId: id }));
+    }
+  }, [dispatch, id, isStaff, activeTab]);
+
+  if (!community || community.id !== id) {
     return <div>Loading...</div>;
   }
 
+  const questions = community.settings.screeningQuestions;
+  const allowAnonymous = community.settings.allowAnonymousPosts;
+
+  const runAction = async (action: () => Promise<string>) => {
+    try {
+      toast.success(await action());
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const handleMembershipClick = () => {
+    if (community.viewerRole) {
+      runAction(async () => {
+        await dispatch(leaveCommunity(community.id)).unwrap();
+        return `Left ${community.name}`;
+      });
+    } else if (community.hasPendingRequest) {
+      runAction(async () => {
+        await dispatch(withdrawJoinRequest(community.id)).unwrap();
+        return 'Join request withdrawn';
+      });
+    } else if (community.settings.requireApproval && questions.length > 0) {
+      setAnswers(questions.map(() => ''));
+      setShowApplication(true);
+    } else {
+      submitJoin();
+    }
+  };
+
+  const submitJoin = (screeningAnswers?: string[]) =>
+    runAction(async () => {
+      const result = await dispatch(joinCommunity({ id: community.id, answers: screeningAnswers })).unwrap();
+      setShowApplication(false);
+      return result.pending ? 'Join request sent for approval' : `Joined ${community.name}`;
+    });
+
+  const handleReview = (action: 'approve' | 'reject') =>
+    runAction(async () => {
+      const result = await dispatch(
+        reviewJoinRequests({ communityId: community.id, requestIds: selectedRequests, action })
+      ).unwrap();
+      setSelectedRequests([]);
+      const done = action === 'approve' ? result.approved.length : result.rejected.length;
+      const full = result.skipped.filter((item) => item.reason === 'community_full').length;
+      return `${done} request(s) ${action === 'approve' ? 'approved' : 'rejected'}${full ? `, ${full} skipped (community full)` : ''}`;
+    });
+
+  const handleCreatePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    const poll = pollDraft.enabled
+      ? {
+          options: pollDraft.options.map((option) => option.trim()).filter(Boolean),
+          multipleChoice: pollDraft.multipleChoice,
+          closesAt: pollDraft.closesAt ? new Date(pollDraft.closesAt).toISOString() : undefined,
+          showVoters: pollDraft.showVoters,
+        }
+      : undefined;
+    runAction(async () => {
+      await dispatch(
+        createPost({
+          communityId: community.id,
+          postData: {
+            type: poll ? 'poll' : 'text',
+            content: draft.content.trim(),
+            title: draft.title.trim() || undefined,
+            isAnonymous: allowAnonymous && draft.isAnonymous,
+            poll,
+          },
+        })
+      ).unwrap();
+      setDraft({ title: '', content: '', isAnonymous: false });
+      setPollDraft(emptyPoll);
+      return 'Post published';
+    });
+  };
+
+  const toggleAnonymousPosts = () =>
+    runAction(async () => {
+      await dispatch(
+        updateCommunity({ id: community.id, data: { settings: { allowAnonymousPosts: !allowAnonymous } } })
+      ).unwrap();
+      return allowAnonymous ? 'Anonymous posting disabled' : 'Anonymous posting enabled';
+    });
+
+  const loadMorePosts = () =>
+    dispatch(
+      getCommunityPosts({
+        communityId: community.id,
+        params: { sort, cursor: postsPagination.nextCursor ?? undefined },
+      })
+    );
+
+  const toggleRequest = (requestId: string) =>
+    setSelectedRequests((prev) =>
+      prev.includes(requestId) ? prev.filter((selected) => selected !== requestId) : [...prev, requestId]
+    );
+
+  const membershipLabel = community.viewerRole
+    ? 'Leave Community'
+    : community.hasPendingRequest
+      ? 'Pending · Withdraw'
+      : community.settings.requireApproval
+        ? 'Request to Join'
+        : 'Join Community';
+
+  const tabs = ['overview', 'discussions', 'events', 'members', ...(isStaff ? ['requests', 'moderation'] : [])];
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -64,18 +208,69 @@ const CommunityDetailPage: React.FC = () => {
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center space-x-4">
               <div className="w-16 h-16 bg-gradient-to-r from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
-                <span className="text-3xl">{community.image}</span>
+                {community.avatar ? (
+                  <img src={community.avatar} alt="" className="w-16 h-16 rounded-lg object-cover" />
+                ) : (
+                  <span className="text-3xl text-white font-bold">{community.name.charAt(0)}</span>
+                )}
               </div>
               <div>
                 <h1 className="text-3xl font-bold text-gray-900">{community.name}</h1>
                 <p className="text-gray-600">{community.category}</p>
               </div>
             </div>
-            <button className="px-6 py-2 bg-gradient-to-r from-purple-500 to-pink-500 text-white rounded-lg hover:from-purple-600 hover:to-pink-600 transition-all">
-              {community.isJoined ? 'Leave Community' : 'Join Community'}
-            </button>
+            {community.viewerRole !== 'creator' && (
+              <button
+                onClick={handleMembershipClick}
+                className={`px-6 py-2 rounded-lg transition-all ${
+                  community.hasPendingRequest
+                    ? 'bg-yellow-100 text-yellow-800 hover:bg-yellow-200'
+                    : 'bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:from-purple-600 hover:to-pink-600'
+                }`}
+              >
+                {membershipLabel}
+              </button>
+            )}
           </div>
 
+          {showApplication && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitJoin(answers);
+              }}
+              className="border border-purple-200 rounded-lg p-4 mb-6 space-y-4"
+            >
+              <p className="text-sm text-gray-600">This community reviews new members. Answer a few questions to apply.</p>
+              {questions.map((question, index) => (
+                <div key={index}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{question}</label>
+                  <textarea
+                    value={answers[index] ?? ''}
+                    onChange={(e) =>
+                      setAnswers((prev) => prev.map((answer, i) => (i === index ? e.target.value : answer)))
+                    }
+                    rows={2}
+                    maxLength={1000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowApplication(false)}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+                <button type="submit" className="px-4 py-2 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600">
+                  Submit request
+                </button>
+              </div>
+            </form>
+          )}
+
           <p className="text-gray-700 mb-4">{community.description}</p>
 
           <div className="flex flex-wrap gap-2 mb-4">
@@ -90,15 +285,21 @@ const CommunityDetailPage: React.FC = () => {
           </div>
 
           <div className="flex items-center space-x-6 text-sm text-gray-500">
-            <span>{community.memberCount.toLocaleString()} members</span>
-            <span>Created 2 months ago</span>
+            <span>{community.stats.memberCount.toLocaleString()} members</span>
+            <span>Created {new Date(community.createdAt).toLocaleDateString()}</span>
+            {community.viewerRole === 'creator' && (
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={allowAnonymous} onChange={toggleAnonymousPosts} />
+                Allow anonymous posts
+              </label>
+            )}
           </div>
         </motion.div>
 
         {/* Tabs */}
         <div className="bg-white rounded-xl shadow-sm p-6">
           <div className="flex space-x-8 mb-6">
-            {['overview', 'discussions', 'events', 'members'].map((tab) => (
+            {tabs.map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -119,18 +320,16 @@ const CommunityDetailPage: React.FC = () => {
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Discussions</h3>
                 <div className="space-y-4">
-                  {community.posts.map((post: any) => (
-                    <div key={post.id} className="border border-gray-200 rounded-lg p-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="font-medium text-gray-900">{post.author}</span>
-                        <span className="text-sm text-gray-500">{post.timestamp}</span>
-                      </div>
-                      <p className="text-gray-700 mb-2">{post.content}</p>
-                      <div className="flex items-center space-x-4 text-sm text-gray-500">
-                        <span>👍 {post.likes}</span>
-                        <span>💬 {post.comments}</span>
-                      </div>
-                    </div>
+                  {posts.length === 0 && <p className="text-gray-600">No discussions yet.</p>}
+                  {posts.slice(0, 3).map((post) => (
+                    <PostCard
+                      key={post.id}
+                      post={post}
+                      communityId={community.id}
+                      canModerate={isStaff}
+                      canParticipate={Boolean(community.viewerRole)}
+                      allowAnonymous={allowAnonymous}
+                    />
                   ))}
                 </div>
               </div>
@@ -139,16 +338,155 @@ const CommunityDetailPage: React.FC = () => {
 
           {activeTab === 'discussions' && (
             <div>
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">All Discussions</h3>
-              <p className="text-gray-600">Discussion content would go here...</p>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">All Discussions</h3>
+                <select
+                  value={sort}
+                  onChange={(e) => setSort(e.target.value as PostSort)}
+                  className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="new">Newest</option>
+                  <option value="top">Top</option>
+                  <option value="active">Active</option>
+                </select>
+              </div>
+
+              {community.viewerRole && (
+                <form onSubmit={handleCreatePost} className="border border-gray-200 rounded-lg p-4 mb-6 space-y-2">
+                  <input
+                    type="text"
+                    placeholder="Title (optional)"
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    maxLength={300}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  <textarea
+                    placeholder="Start a discussion..."
+                    value={draft.content}
+                    onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+                    rows={3}
+                    maxLength={10000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                  {pollDraft.enabled && (
+                    <div className="space-y-2 border-t border-gray-100 pt-2">
+                      {pollDraft.options.map((option, index) => (
+                        <input
+                          key={index}
+                          type="text"
+                          placeholder={`Option ${index + 1}`}
+                          value={option}
+                          maxLength={200}
+                          onChange={(e) =>
+                            setPollDraft({
+                              ...pollDraft,
+                              options: pollDraft.options.map((value, i) => (i === index ? e.target.value : value)),
+                            })
+                          }
+                          className="w-full px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                        />
+                      ))}
+                      {pollDraft.options.length < 10 && (
+                        <button
+                          type="button"
+                          onClick={() => setPollDraft({ ...pollDraft, options: [...pollDraft.options, ''] })}
+                          className="text-sm text-purple-600 hover:text-purple-700"
+                        >
+                          + Add option
+                        </button>
+                      )}
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={pollDraft.multipleChoice}
+                            onChange={(e) => setPollDraft({ ...pollDraft, multipleChoice: e.target.checked })}
+                          />
+                          Multiple choice
+                        </label>
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={pollDraft.showVoters}
+                            onChange={(e) => setPollDraft({ ...pollDraft, showVoters: e.target.checked })}
+                          />
+                          Show who voted
+                        </label>
+                        <label className="flex items-center gap-1">
+                          Closes
+                          <input
+                            type="datetime-local"
+                            value={pollDraft.closesAt}
+                            onChange={(e) => setPollDraft({ ...pollDraft, closesAt: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded-lg"
+                          />
+                        </label>
+                      </div>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <div className="flex items-center gap-4">
+                      <button
+                        type="button"
+                        onClick={() => setPollDraft({ ...pollDraft, enabled: !pollDraft.enabled })}
+                        className="text-sm text-gray-600 hover:text-gray-800"
+                      >
+                        {pollDraft.enabled ? 'Remove poll' : '📊 Add poll'}
+                      </button>
+                      {allowAnonymous && (
+                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={draft.isAnonymous}
+                            onChange={(e) => setDraft({ ...draft, isAnonymous: e.target.checked })}
+                          />
+                          Post anonymously
+                        </label>
+                      )}
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={!draft.content.trim()}
+                      className="px-4 py-2 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50"
+                    >
+                      Post
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              <div className="space-y-4">
+                {posts.length === 0 && <p className="text-gray-600">No discussions yet.</p>}
+                {posts.map((post) => (
+                  <PostCard
+                    key={post.id}
+                    post={post}
+                    communityId={community.id}
+                    canModerate={isStaff}
+                    canParticipate={Boolean(community.viewerRole)}
+                    allowAnonymous={allowAnonymous}
+                  />
+                ))}
+              </div>
+              {postsPagination.hasMore && (
+                <div className="text-center mt-4">
+                  <button onClick={loadMorePosts} className="text-sm text-purple-600 hover:text-purple-700 font-medium">
+                    Load more
+                  </button>
+                </div>
+              )}
             </div>
           )}
 
           {activeTab === 'events' && (
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Community Events</h3>
+              <div className="mb-4">
+                <CalendarSubscribe communityId={community.id} />
+              </div>
               <div className="space-y-4">
-                {community.events.map((event: any) => (
+                {sampleEvents.map((event) => (
                   <div key={event.id} className="border border-gray-200 rounded-lg p-4">
                     <h4 className="font-medium text-gray-900">{event.title}</h4>
                     <p className="text-sm text-gray-500">{event.date} • {event.attendees} attendees</p>
@@ -164,6 +502,118 @@ const CommunityDetailPage: React.FC = () => {
               <p className="text-gray-600">Member list would go here...</p>
             </div>
           )}
+
+          {activeTab === 'requests' && (
+            <div>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Pending Join Requests</h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleReview('approve')}
+                    disabled={selectedRequests.length === 0}
+                    className="px-4 py-1 text-sm bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => handleReview('reject')}
+                    disabled={selectedRequests.length === 0}
+                    className="px-4 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+              {joinRequests.length === 0 ? (
+                <p className="text-gray-600">No pending requests.</p>
+              ) : (
+                <div className="space-y-4">
+                  {joinRequests.map((request) => (
+                    <label key={request.id} className="flex items-start gap-3 border border-gray-200 rounded-lg p-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedRequests.includes(request.id)}
+                        onChange={() => toggleRequest(request.id)}
+                        className="mt-1"
+                      />
+                      <div>
+                        <p className="font-medium text-gray-900">
+                          {request.user.firstName} {request.user.lastName}
+                        </p>
+                        <p className="text-sm text-gray-500 mb-2">
+                          Requested {new Date(request.createdAt).toLocaleDateString()}
+                        </p>
+                        {request.answers.map((item, index) => (
+                          <div key={index} className="text-sm mb-1">
+                            <p className="text-gray-500">{item.question}</p>
+                            <p className="text-gray-800">{item.answer || '—'}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'moderation' && (
+            <div className="space-y-8">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Moderation Log</h3>
+                {moderationLog.length === 0 ? (
+                  <p className="text-gray-600">No moderation actions yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {moderationLog.map((entry) => (
+                      <div key={entry.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                        <p className="text-gray-900">
+                          <span className="font-medium">
+                            {entry.moderator.firstName} {entry.moderator.lastName}
+                          </span>{' '}
+                          {moderationLabels[entry.action]} {entry.post?.isComment ? 'a comment' : 'a post'}
+                          {entry.post ? (
+                            <span className="text-gray-600">: “{entry.post.title || entry.post.excerpt}”</span>
+                          ) : (
+                            <span className="text-gray-500"> (since deleted)</span>
+                          )}
+                        </p>
+                        {entry.reason && <p className="text-gray-800">Reason: {entry.reason}</p>}
+                        <p className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Anonymous Author Reveals</h3>
+                <p className="text-sm text-gray-500 mb-4">Every time staff unmask an anonymous post it is recorded here.</p>
+                {reveals.length === 0 ? (
+                  <p className="text-gray-600">No authors have been revealed.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {reveals.map((reveal) => (
+                      <div key={reveal.id} className="border border-gray-200 rounded-lg p-4 text-sm">
+                        <p className="text-gray-900">
+                          <span className="font-medium">
+                            {reveal.revealedBy.firstName} {reveal.revealedBy.lastName}
+                          </span>{' '}
+                          revealed{' '}
+                          <span className="font-medium">
+                            {reveal.author.firstName} {reveal.author.lastName}
+                          </span>
+                          {!reveal.postId && ' (post since deleted)'}
+                        </p>
+                        <p className="text-gray-500 mb-1">{new Date(reveal.createdAt).toLocaleString()}</p>
+                        <p className="text-gray-800">{reveal.reason}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
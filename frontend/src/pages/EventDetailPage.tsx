@@ -1,50 +1,192 @@
-import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useEffect } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '@/store';
+import {
+  checkInAttendee,
+  confirmAttendeeHold,
+  duplicateEvent,
+  EventAttendee,
+  getEvent,
+  getEventAttendees,
+  getEventStats,
+  getEventTicket,
+  getJoinLink,
+  refundAttendee,
+  SeriesScope,
+  updateEvent,
+} from '@/store/slices/eventSlice';
+import EventApplications from '@/components/EventApplications';
+import EventCheckIn from '@/components/EventCheckIn';
+import EventHosts from '@/components/EventHosts';
+import EventLineup from '@/components/EventLineup';
+import EventLive from '@/components/EventLive';
+import EventNetworking from '@/components/EventNetworking';
+import EventRegistrationButton from '@/components/EventRegistrationButton';
+import EventReminders from '@/components/EventReminders';
+import EventSurvey from '@/components/EventSurvey';
+import EventSurveyForm from '@/components/EventSurveyForm';
+import EventPromoCodes from '@/components/EventPromoCodes';
+import EventSeriesDates from '@/components/EventSeriesDates';
+import EventSpeakers from '@/components/EventSpeakers';
+import EventTicketTypes from '@/components/EventTicketTypes';
+import EventTime from '@/components/EventTime';
+import { downloadEventCalendar } from '@/services/calendar';
+import { formatDiscount, formatEventPrice, isPaidEvent } from '@/services/price';
+import { formatTimeRange } from '@/services/time';
 
 const EventDetailPage: React.FC = () => {
   const { id } = useParams();
-  const [event, setEvent] = useState<any>(null);
-  const [isRegistered, setIsRegistered] = useState(false);
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const dispatch = useDispatch<AppDispatch>();
+  const userId = useSelector((state: RootState) => state.auth.user?.id);
+  const { currentEvent: event, attendees, stats, ticket } = useSelector((state: RootState) => state.event);
+
+  // Co-hosts manage the event alongside the organizer; check-in hosts only work the door
+  const hostRole = event?.viewerHostRole;
+  const isHost = Boolean(hostRole);
+  const isOrganizer = hostRole === 'organizer';
+  const canEdit = isOrganizer || hostRole === 'cohost';
 
   useEffect(() => {
-    // Mock event data
-    setEvent({
-      id,
-      title: 'Web3 Summit 2024',
-      description: 'Join industry leaders for a comprehensive look at the future of Web3 technology. This event will feature keynote speakers, panel discussions, workshops, and networking opportunities.',
-      date: '2024-03-15',
-      time: '09:00 AM - 06:00 PM',
-      location: 'San Francisco Convention Center, 123 Main St, San Francisco, CA 94105',
-      type: 'in-person',
-      price: 299,
-      attendees: 150,
-      maxAttendees: 200,
-      host: 'NexusVerse',
-      category: 'Technology',
-      agenda: [
-        { time: '09:00 AM', title: 'Registration & Welcome Coffee' },
-        { time: '09:30 AM', title: 'Keynote: The Future of Web3' },
-        { time: '10:30 AM', title: 'Panel: DeFi Innovation' },
-        { time: '12:00 PM', title: 'Lunch & Networking' },
-        { time: '01:30 PM', title: 'Workshop: Smart Contract Development' },
-        { time: '03:00 PM', title: 'Panel: NFT & Gaming' },
-        { time: '04:30 PM', title: 'Networking & Closing Remarks' }
-      ],
-      speakers: [
-        { name: 'Dr. Sarah Chen', title: 'CTO at BlockchainCorp', avatar: '👩‍💼' },
-        { name: 'Mike Johnson', title: 'Founder of DeFi Protocol', avatar: '👨‍💼' },
-        { name: 'Alex Rodriguez', title: 'Lead Developer at Web3 Labs', avatar: '👨‍💻' }
-      ]
-    });
-  }, [id]);
+    if (id) {
+      dispatch(getEvent(id));
+    }
+  }, [dispatch, id]);
+
+  // Back from Stripe Checkout. The payment is confirmed by webhook, which may land a moment later.
+  const checkout = searchParams.get('checkout');
+  useEffect(() => {
+    if (!id || !checkout) {
+      return;
+    }
+    if (checkout === 'success') {
+      toast.success('Payment received, confirming your seat');
+    } else {
+      toast('Checkout cancelled. Your seat stays held until the hold runs out.');
+    }
+    setSearchParams({}, { replace: true });
+    const refresh = setTimeout(() => dispatch(getEvent(id)), 3000);
+    return () => clearTimeout(refresh);
+  }, [dispatch, id, checkout, setSearchParams]);
+
+  useEffect(() => {
+    if (id && canEdit) {
+      dispatch(getEventStats(id));
+      dispatch(getEventAttendees({ id }));
+    }
+  }, [dispatch, id, canEdit, event?.currentAttendees, event?.waitlistCount]);
 
-  if (!event) {
+  if (!event || event.id !== id) {
     return <div>Loading...</div>;
   }
 
-  const handleRegister = () => {
-    setIsRegistered(!isRegistered);
+  const runAction = async (action: () => Promise<string>) => {
+    try {
+      toast.success(await action());
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  // For recurring events the series scope also covers the later dates
+  const setStatus = (status: 'published' | 'cancelled' | 'completed', scope?: SeriesScope) => {
+    const prompt =
+      scope === 'series'
+        ? 'Cancel this date and every later one? Everyone registered will be notified.'
+        : 'Cancel this event? Everyone registered will be notified.';
+    if (status === 'cancelled' && !window.confirm(prompt)) {
+      return;
+    }
+    runAction(async () => {
+      await dispatch(updateEvent({ id: event.id, data: { status }, scope })).unwrap();
+      return status === 'published'
+        ? 'Event published'
+        : status === 'completed'
+          ? 'Event completed'
+          : 'Event cancelled';
+    });
+  };
+
+  const handleDuplicate = () =>
+    runAction(async () => {
+      const copy = await dispatch(duplicateEvent(event.id)).unwrap();
+      navigate(`/app/events/${copy.id}`);
+      return 'Draft copy created';
+    });
+
+  const handleAddToCalendar = async () => {
+    try {
+      await downloadEventCalendar(event.id, event.title);
+    } catch (error) {
+      toast.error('Failed to download calendar file');
+    }
+  };
+
+  const handleConfirmHold = (userId: string) =>
+    runAction(async () => {
+      await dispatch(confirmAttendeeHold({ eventId: event.id, userId })).unwrap();
+      return 'Registration confirmed';
+    });
+
+  // A blank amount refunds whatever is left, which also gives up the attendee's place
+  const handleRefund = (attendee: EventAttendee) => {
+    const refundable = attendee.payment ? attendee.payment.amount - attendee.payment.refunded : 0;
+    const input = window.prompt(`Amount to refund (up to $${refundable}); leave blank to refund everything`, '');
+    if (input === null) {
+      return;
+    }
+    const amount = input.trim() ? Number(input) : undefined;
+    if (amount !== undefined && !(amount > 0 && amount <= refundable)) {
+      toast.error(`Enter an amount up to $${refundable}`);
+      return;
+    }
+    runAction(async () => {
+      const refund = await dispatch(refundAttendee({ eventId: event.id, userId: attendee.id, amount })).unwrap();
+      return refund.fullyRefunded ? 'Payment refunded and place cancelled' : `Refunded $${refund.amount}`;
+    });
+  };
+
+  const handleCheckIn = (userId: string) =>
+    runAction(async () => {
+      const result = await dispatch(checkInAttendee({ eventId: event.id, userId })).unwrap();
+      return `${result.attendee.firstName} checked in`;
+    });
+
+  // The tab is opened right away so it isn't blocked as a popup while the link is fetched
+  const handleJoin = async () => {
+    const tab = window.open('', '_blank');
+    try {
+      const url = await dispatch(getJoinLink(event.id)).unwrap();
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        window.location.assign(url);
+      }
+    } catch (error: any) {
+      tab?.close();
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const now = new Date();
+  const canJoin =
+    event.viewerStatus === 'registered' &&
+    event.joinOpensAt !== undefined &&
+    new Date(event.joinOpensAt) <= now &&
+    new Date(event.endDate) > now;
+
+  const handleShowTicket = () =>
+    dispatch(getEventTicket(event.id))
+      .unwrap()
+      .catch((error) => toast.error(typeof error === 'string' ? error : 'Something went wrong'));
+
+  const handleCopyTicket = async (code: string) => {
+    await navigator.clipboard.writeText(code);
+    toast.success('Ticket code copied');
   };
 
   return (
@@ -60,115 +202,319 @@ const EventDetailPage: React.FC = () => {
           <div className="flex items-center justify-between mb-6">
             <div>
               <h1 className="text-3xl font-bold text-gray-900 mb-2">{event.title}</h1>
-              <p className="text-gray-600">{event.category} • Hosted by {event.host}</p>
+              <p className="text-gray-600">
+                {event.category} • Hosted by {event.organizer.firstName} {event.organizer.lastName}
+                {event.hosts
+                  .filter((host) => host.role === 'cohost')
+                  .map((host) => `, ${host.firstName} ${host.lastName}`)
+                  .join('')}
+                {event.community && ` in ${event.community.name}`}
+              </p>
+              {event.status !== 'published' && (
+                <span className="inline-block mt-2 px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  {event.status.charAt(0).toUpperCase() + event.status.slice(1)}
+                </span>
+              )}
             </div>
             <div className="text-right">
-              <p className="text-2xl font-bold text-gray-900">${event.price}</p>
-              <p className="text-sm text-gray-500">{event.attendees}/{event.maxAttendees} registered</p>
+              <p className="text-2xl font-bold text-gray-900">{formatEventPrice(event)}</p>
+              <p className="text-sm text-gray-500">
+                {event.currentAttendees}/{event.capacity} registered
+              </p>
+              {event.waitlistCount > 0 && <p className="text-sm text-gray-500">{event.waitlistCount} on the waitlist</p>}
             </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-            <div className="flex items-center">
+            <div className="flex items-center md:col-span-2">
               <span className="mr-2">📅</span>
-              <span className="text-sm text-gray-600">{new Date(event.date).toLocaleDateString()}</span>
-            </div>
-            <div className="flex items-center">
-              <span className="mr-2">🕒</span>
-              <span className="text-sm text-gray-600">{event.time}</span>
+              <EventTime
+                startDate={event.startDate}
+                endDate={event.endDate}
+                timeZone={event.timeZone}
+                className="text-sm text-gray-600"
+              />
             </div>
             <div className="flex items-center">
               <span className="mr-2">📍</span>
-              <span className="text-sm text-gray-600">{event.location}</span>
+              <span className="text-sm text-gray-600">
+                {event.isVirtual ? 'Online' : event.location}
+                {isHost && event.meetingLink && (
+                  <a
+                    href={event.meetingLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-2 text-purple-600 hover:text-purple-700"
+                  >
+                    Meeting link
+                  </a>
+                )}
+                {!isHost &&
+                  event.viewerStatus === 'registered' &&
+                  event.joinOpensAt &&
+                  !canJoin &&
+                  new Date(event.endDate) > now &&
+                  ` · link available from ${new Date(event.joinOpensAt).toLocaleString([], {
+                    dateStyle: 'medium',
+                    timeStyle: 'short',
+                  })}`}
+              </span>
             </div>
           </div>
 
-          <p className="text-gray-700 mb-6">{event.description}</p>
+          <p className="text-gray-700 mb-6 whitespace-pre-line">{event.description}</p>
 
-          <button
-            onClick={handleRegister}
-            className={`px-8 py-3 rounded-lg font-semibold transition-colors ${
-              isRegistered
-                ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                : 'bg-gradient-to-r from-purple-500 to-pink-500 text-white hover:from-purple-600 hover:to-pink-600'
-            }`}
-          >
-            {isRegistered ? 'Registered' : 'Register for Event'}
-          </button>
-        </motion.div>
+          {event.registrationDeadline && (
+            <p className="text-sm text-gray-500 mb-4">
+              Registration closes {formatTimeRange(event.registrationDeadline, undefined, event.timeZone)}
+            </p>
+          )}
 
-        {/* Agenda */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.1 }}
-          className="bg-white rounded-xl shadow-sm p-6 mb-8"
-        >
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Agenda</h2>
-          <div className="space-y-4">
-            {event.agenda.map((item: any, index: number) => (
-              <div key={index} className="flex items-center space-x-4">
-                <div className="w-20 text-sm font-medium text-gray-500">{item.time}</div>
-                <div className="flex-1 p-3 bg-gray-50 rounded-lg">
-                  <p className="font-medium text-gray-900">{item.title}</p>
-                </div>
-              </div>
-            ))}
+          <div className="flex flex-wrap gap-2">
+            {!isHost && canJoin && (
+              <button
+                onClick={handleJoin}
+                className="px-8 py-3 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+              >
+                Join meeting
+              </button>
+            )}
+            {!isHost && <EventRegistrationButton event={event} className="px-8 py-3" withPromoCode />}
+            {canEdit && (
+              <>
+                {/* Hosts are per date, so only the organizer acts on the whole series */}
+                {event.status === 'draft' && (
+                  <button
+                    onClick={() => setStatus('published', event.recurrence && isOrganizer ? 'series' : undefined)}
+                    className="px-6 py-2 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+                  >
+                    {event.recurrence && isOrganizer ? 'Publish all dates' : 'Publish'}
+                  </button>
+                )}
+                {event.status === 'published' && (
+                  <button
+                    onClick={() => setStatus('cancelled')}
+                    className="px-6 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    {event.recurrence ? 'Cancel this date' : 'Cancel event'}
+                  </button>
+                )}
+                {isOrganizer &&
+                  event.status === 'published' &&
+                  event.recurrence &&
+                  !event.recurrence.seriesCancelled && (
+                  <button
+                    onClick={() => setStatus('cancelled', 'series')}
+                    className="px-6 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Cancel this and later dates
+                  </button>
+                )}
+                {/* Completing the event sends its feedback survey */}
+                {event.status === 'published' && new Date(event.endDate) <= now && (
+                  <button
+                    onClick={() => setStatus('completed')}
+                    className="px-6 py-2 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+                  >
+                    Mark as completed
+                  </button>
+                )}
+                {isOrganizer && (
+                  <button
+                    onClick={handleDuplicate}
+                    className="px-6 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Duplicate
+                  </button>
+                )}
+              </>
+            )}
+            <button
+              onClick={handleAddToCalendar}
+              className="px-6 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+            >
+              Add to calendar
+            </button>
           </div>
         </motion.div>
 
-        {/* Speakers */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.2 }}
-          className="bg-white rounded-xl shadow-sm p-6 mb-8"
-        >
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Speakers</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {event.speakers.map((speaker: any, index: number) => (
-              <div key={index} className="text-center">
-                <div className="w-16 h-16 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center mx-auto mb-3">
-                  <span className="text-2xl">{speaker.avatar}</span>
+        {/* Ticket */}
+        {event.viewerStatus === 'registered' && (
+          <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Your ticket</h2>
+            {ticket?.eventId === event.id ? (
+              <>
+                <p className="text-sm text-gray-600 mb-3">Show this code at the door. It only works for you.</p>
+                <div className="flex gap-2">
+                  <code className="flex-1 px-3 py-2 bg-gray-50 rounded-lg text-xs break-all">{ticket.code}</code>
+                  <button
+                    onClick={() => handleCopyTicket(ticket.code)}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  >
+                    Copy
+                  </button>
                 </div>
-                <h3 className="font-semibold text-gray-900">{speaker.name}</h3>
-                <p className="text-sm text-gray-600">{speaker.title}</p>
-              </div>
+              </>
+            ) : (
+              <button
+                onClick={handleShowTicket}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-purple-500 text-white hover:bg-purple-600"
+              >
+                Show ticket
+              </button>
+            )}
+          </div>
+        )}
+
+        {event.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-8">
+            {event.tags.map((tag) => (
+              <span key={tag} className="px-3 py-1 bg-gray-100 text-gray-700 text-sm rounded-full">
+                {tag}
+              </span>
             ))}
           </div>
-        </motion.div>
+        )}
 
-        {/* Event Details */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.8, delay: 0.3 }}
-          className="bg-white rounded-xl shadow-sm p-6"
-        >
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">Event Details</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <h3 className="font-medium text-gray-900 mb-2">What to Bring</h3>
-              <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Business cards for networking</li>
-                <li>• Laptop for workshops</li>
-                <li>• Questions for speakers</li>
-              </ul>
-            </div>
-            <div>
-              <h3 className="font-medium text-gray-900 mb-2">What's Included</h3>
-              <ul className="text-sm text-gray-600 space-y-1">
-                <li>• Full-day conference access</li>
-                <li>• Lunch and refreshments</li>
-                <li>• Networking opportunities</li>
-                <li>• Workshop materials</li>
-              </ul>
+        {!isHost && event.status === 'completed' && <EventSurveyForm key={event.id} event={event} />}
+
+        <EventLineup key={event.id} event={event} userId={userId} />
+
+        {userId && event.status === 'published' && (isHost || event.viewerStatus === 'registered') && (
+          <>
+            <EventLive key={event.id} event={event} userId={userId} canModerate={canEdit} />
+            <EventNetworking key={`networking-${event.id}`} event={event} canRun={canEdit} />
+          </>
+        )}
+
+        {event.recurrence && <EventSeriesDates event={event} isOrganizer={isOrganizer} />}
+
+        {/* Host view */}
+        {canEdit && event.settings.requireApproval && <EventApplications event={event} />}
+
+        {isHost && event.status === 'published' && <EventCheckIn event={event} />}
+
+        {isHost && userId && <EventHosts event={event} userId={userId} />}
+
+        {canEdit && <EventSpeakers event={event} />}
+
+        {isOrganizer && <EventTicketTypes key={event.id} event={event} />}
+
+        {isOrganizer && isPaidEvent(event) && <EventPromoCodes key={event.id} event={event} />}
+
+        {canEdit && <EventReminders key={event.id} event={event} />}
+
+        {canEdit && event.status !== 'cancelled' && <EventSurvey key={event.id} event={event} />}
+
+        {canEdit && stats && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.1 }}
+            className="bg-white rounded-xl shadow-sm p-6 mb-8"
+          >
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Registrations</h2>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6 text-center">
+              {[
+                ['Registered', stats.registered],
+                ['Seats left', stats.seatsLeft],
+                ['Waitlisted', stats.waitlisted],
+                ...(isPaidEvent(event) ? [['Awaiting payment', stats.held]] : []),
+                ...(event.settings.requireApproval ? [['Awaiting approval', stats.pending]] : []),
+                ['Checked in', stats.checkedIn],
+                ...(event.isVirtual ? [['Joined online', stats.joined]] : []),
+                ['Views', stats.viewCount],
+              ].map(([label, value]) => (
+                <div key={label} className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-2xl font-bold text-gray-900">{value}</p>
+                  <p className="text-sm text-gray-500">{label}</p>
+                </div>
+              ))}
             </div>
-          </div>
-        </motion.div>
+            {stats.promoCodes.length > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Promo code redemptions</h3>
+                <div className="divide-y divide-gray-100 text-sm">
+                  {stats.promoCodes.map((promoCode) => (
+                    <div key={promoCode.id} className="flex items-center justify-between py-2">
+                      <span className="text-gray-900">
+                        <span className="font-mono">{promoCode.code}</span> · {formatDiscount(promoCode)}
+                      </span>
+                      <span className="text-gray-500">
+                        {promoCode.redemptions}
+                        {promoCode.maxRedemptions ? ` of ${promoCode.maxRedemptions}` : ''} used
+                        {` · ${promoCode.registered} registered · ${promoCode.payments} paid`}
+                        {` · $${promoCode.revenue} revenue · $${promoCode.discountGiven} discounted`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {attendees.length === 0 ? (
+              <p className="text-gray-600">No one has registered yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {attendees.map((attendee) => (
+                  <div key={attendee.id} className="flex items-center justify-between py-2 text-sm">
+                    <span className="text-gray-900">
+                      {attendee.firstName} {attendee.lastName}
+                      {attendee.email && <span className="text-gray-500"> · {attendee.email}</span>}
+                      {attendee.ticketType && <span className="text-gray-500"> · {attendee.ticketType.name}</span>}
+                      {attendee.payment && (
+                        <span className="text-gray-500">
+                          {' '}
+                          · paid ${attendee.payment.amount}
+                          {attendee.payment.refunded > 0 && `, refunded $${attendee.payment.refunded}`}
+                        </span>
+                      )}
+                      {isOrganizer && attendee.payment && attendee.payment.status !== 'refunded' && (
+                        <button
+                          onClick={() => handleRefund(attendee)}
+                          className="ml-2 px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        >
+                          Refund
+                        </button>
+                      )}
+                    </span>
+                    {attendee.status === 'held' ? (
+                      <span className="flex items-center gap-2 text-yellow-700">
+                        held
+                        <button
+                          onClick={() => handleConfirmHold(attendee.id)}
+                          className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        >
+                          Mark paid
+                        </button>
+                      </span>
+                    ) : attendee.status === 'registered' && !attendee.checkedInAt ? (
+                      <span className="flex items-center gap-2 text-green-600">
+                        {attendee.joinedAt
+                          ? `joined ${new Date(attendee.joinedAt).toLocaleTimeString()}`
+                          : 'registered'}
+                        <button
+                          onClick={() => handleCheckIn(attendee.id)}
+                          className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-700 hover:bg-gray-200"
+                        >
+                          Check in
+                        </button>
+                      </span>
+                    ) : (
+                      <span className={attendee.status === 'registered' ? 'text-green-600' : 'text-gray-500'}>
+                        {attendee.checkedInAt
+                          ? `arrived ${new Date(attendee.checkedInAt).toLocaleTimeString()}`
+                          : attendee.status}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        )}
       </div>
     </div>
   );
 };
 
-export default EventDetailPage; 
\ No newline at end of file
+export default EventDetailPage;
@@ -1,91 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '@/store';
+import { getEvents, getMyRegistrations, RegistrationStatus } from '@/store/slices/eventSlice';
+import CalendarSubscribe from '@/components/CalendarSubscribe';
+import EventRegistrationButton from '@/components/EventRegistrationButton';
+import EventTime from '@/components/EventTime';
+import { formatEventPrice } from '@/services/price';
 
-interface Event {
-  id: string;
-  title: string;
-  description: string;
-  date: string;
-  time: string;
-  location: string;
-  type: 'virtual' | 'in-person' | 'hybrid';
-  price: number;
-  attendees: number;
-  maxAttendees: number;
-  host: string;
-  category: string;
-  isRegistered: boolean;
-}
+const statusBadges: Record<RegistrationStatus, { label: string; className: string }> = {
+  registered: { label: 'Registered', className: 'bg-green-100 text-green-800' },
+  waitlisted: { label: 'Waitlisted', className: 'bg-yellow-100 text-yellow-800' },
+  held: { label: 'Awaiting payment', className: 'bg-yellow-100 text-yellow-800' },
+  pending: { label: 'Awaiting approval', className: 'bg-blue-100 text-blue-800' },
+  rejected: { label: 'Not approved', className: 'bg-gray-100 text-gray-700' },
+};
 
 const EventsPage: React.FC = () => {
-  const [events, setEvents] = useState<Event[]>([]);
+  const dispatch = useDispatch<AppDispatch>();
+  const { events: upcomingEvents, registrations, isLoading } = useSelector((state: RootState) => state.event);
   const [filter, setFilter] = useState('all');
+  const showRegistrations = filter === 'registrations';
+  const events = showRegistrations ? registrations : upcomingEvents;
 
   useEffect(() => {
-    // Mock data for events
-    const mockEvents: Event[] = [
-      {
-        id: '1',
-        title: 'Web3 Summit 2024',
-        description: 'Join industry leaders for a comprehensive look at the future of Web3 technology.',
-        date: '2024-03-15',
-        time: '09:00 AM',
-        location: 'San Francisco, CA',
-        type: 'in-person',
-        price: 299,
-        attendees: 150,
-        maxAttendees: 200,
-        host: 'NexusVerse',
-        category: 'Technology',
-        isRegistered: false
-      },
-      {
-        id: '2',
-        title: 'AI Ethics Workshop',
-        description: 'Interactive workshop on responsible AI development and ethical considerations.',
-        date: '2024-03-20',
-        time: '02:00 PM',
-        location: 'Virtual',
-        type: 'virtual',
-        price: 0,
-        attendees: 89,
-        maxAttendees: 100,
-        host: 'AI Ethics Community',
-        category: 'AI',
-        isRegistered: true
-      },
-      {
-        id: '3',
-        title: 'Startup Networking Mixer',
-        description: 'Connect with fellow entrepreneurs and potential investors in a relaxed setting.',
-        date: '2024-03-25',
-        time: '06:00 PM',
-        location: 'New York, NY',
-        type: 'in-person',
-        price: 50,
-        attendees: 45,
-        maxAttendees: 60,
-        host: 'Startup Founders Community',
-        category: 'Business',
-        isRegistered: false
-      }
-    ];
-
-    setEvents(mockEvents);
-  }, []);
-
-  const filteredEvents = events.filter(event => 
-    filter === 'all' || event.category.toLowerCase() === filter.toLowerCase()
-  );
-
-  const handleRegister = (eventId: string) => {
-    setEvents(prev => prev.map(event => 
-      event.id === eventId 
-        ? { ...event, isRegistered: !event.isRegistered }
-        : event
-    ));
-  };
+    if (showRegistrations) {
+      dispatch(getMyRegistrations({}));
+    } else {
+      dispatch(getEvents({ upcoming: true, category: filter === 'all' ? undefined : filter }));
+    }
+  }, [dispatch, filter, showRegistrations]);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -104,7 +49,7 @@ const EventsPage: React.FC = () => {
         {/* Filters */}
         <div className="bg-white rounded-xl shadow-sm p-6 mb-8">
           <div className="flex gap-2">
-            {['all', 'technology', 'ai', 'business', 'sustainability'].map((category) => (
+            {['all', 'technology', 'ai', 'business', 'sustainability', 'registrations'].map((category) => (
               <button
                 key={category}
                 onClick={() => setFilter(category)}
@@ -114,15 +59,27 @@ const EventsPage: React.FC = () => {
                     : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                 }`}
               >
-                {category.charAt(0).toUpperCase() + category.slice(1)}
+                {category === 'registrations'
+                  ? 'My registrations'
+                  : category.charAt(0).toUpperCase() + category.slice(1)}
               </button>
             ))}
           </div>
+          {showRegistrations && (
+            <div className="mt-4">
+              <CalendarSubscribe />
+            </div>
+          )}
         </div>
 
         {/* Events Grid */}
+        {!isLoading && events.length === 0 && (
+          <p className="text-gray-600 mb-8">
+            {showRegistrations ? "You haven't registered for any events yet." : 'No upcoming events.'}
+          </p>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredEvents.map((event, index) => (
+          {events.map((event, index) => (
             <motion.div
               key={event.id}
               initial={{ opacity: 0, y: 20 }}
@@ -133,13 +90,19 @@ const EventsPage: React.FC = () => {
               <div className="p-6">
                 <div className="flex items-center justify-between mb-4">
                   <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                    event.type === 'virtual' ? 'bg-blue-100 text-blue-800' :
-                    event.type === 'in-person' ? 'bg-green-100 text-green-800' :
-                    'bg-purple-100 text-purple-800'
+                    event.isVirtual ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
                   }`}>
-                    {event.type.charAt(0).toUpperCase() + event.type.slice(1)}
+                    {event.isVirtual ? 'Virtual' : 'In-person'}
                   </span>
-                  <span className="text-sm text-gray-500">{event.category}</span>
+                  {event.viewerStatus ? (
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${statusBadges[event.viewerStatus].className}`}
+                    >
+                      {statusBadges[event.viewerStatus].label}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-gray-500">{event.category}</span>
+                  )}
                 </div>
 
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">{event.title}</h3>
@@ -148,28 +111,25 @@ const EventsPage: React.FC = () => {
                 <div className="space-y-2 mb-4">
                   <div className="flex items-center text-sm text-gray-500">
                     <span className="mr-2">📅</span>
-                    {new Date(event.date).toLocaleDateString()}
-                  </div>
-                  <div className="flex items-center text-sm text-gray-500">
-                    <span className="mr-2">🕒</span>
-                    {event.time}
+                    <EventTime startDate={event.startDate} endDate={event.endDate} timeZone={event.timeZone} />
                   </div>
                   <div className="flex items-center text-sm text-gray-500">
                     <span className="mr-2">📍</span>
-                    {event.location}
+                    {event.isVirtual ? 'Online' : event.location}
                   </div>
                   <div className="flex items-center text-sm text-gray-500">
                     <span className="mr-2">👤</span>
-                    {event.host}
+                    {event.community?.name ?? `${event.organizer.firstName} ${event.organizer.lastName}`}
                   </div>
                 </div>
 
                 <div className="flex items-center justify-between mb-4">
                   <span className="text-sm text-gray-500">
-                    {event.attendees}/{event.maxAttendees} attendees
+                    {event.currentAttendees}/{event.capacity} attendees
+                    {event.waitlistCount > 0 && ` · ${event.waitlistCount} waiting`}
                   </span>
                   <span className="text-lg font-semibold text-gray-900">
-                    {event.price === 0 ? 'Free' : `$${event.price}`}
+                    {formatEventPrice(event)}
                   </span>
                 </div>
 
@@ -180,16 +140,7 @@ const EventsPage: React.FC = () => {
                   >
                     View Details
                   </Link>
-                  <button
-                    onClick={() => handleRegister(event.id)}
-                    className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                      event.isRegistered
-                        ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                        : 'bg-purple-500 text-white hover:bg-purple-600'
-                    }`}
-                  >
-                    {event.isRegistered ? 'Registered' : 'Register'}
-                  </button>
+                  <EventRegistrationButton event={event} className="flex-1" />
                 </div>
               </div>
             </motion.div>
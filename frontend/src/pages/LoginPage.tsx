@@ -3,8 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useDispatch } from 'react-redux';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
-import { loginUser } from '../store/slices/authSlice';
-import { useWeb3 } from '../hooks/useWeb3';
+import { login, walletLogin } from '../store/slices/authSlice';
 
 const LoginPage: React.FC = () => {
   const [email, setEmail] = useState('');
@@ -14,14 +13,13 @@ const LoginPage: React.FC = () => {
   
   const dispatch = useDispatch();
   const navigate = useNavigate();
-  const { connectWallet, isConnected, account } = useWeb3();
 
   const handleEmailLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     
     try {
-      await dispatch(loginUser({ email, password }) as any);
+      await dispatch(login({ email, password }) as any).unwrap();
       toast.success('Login successful!');
       navigate('/app');
     } catch (error) {
@@ -35,14 +33,11 @@ const LoginPage: React.FC = () => {
     setIsWeb3Loading(true);
     
     try {
-      await connectWallet();
-      if (isConnected && account) {
-        // Handle Web3 authentication
-        toast.success('Wallet connected successfully!');
-        navigate('/app');
-      }
+      await dispatch(walletLogin() as any).unwrap();
+      toast.success('Signed in with your wallet!');
+      navigate('/app');
     } catch (error) {
-      toast.error('Failed to connect wallet. Please try again.');
+      toast.error(typeof error === 'string' ? error : 'Wallet sign-in failed. Please try again.');
     } finally {
       setIsWeb3Loading(false);
     }
@@ -81,12 +76,12 @@ const LoginPage: React.FC = () => {
               {isWeb3Loading ? (
                 <div className="flex items-center">
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2"></div>
-                  Connecting...
+                  Waiting for signature...
                 </div>
               ) : (
                 <div className="flex items-center">
                   <span className="mr-2">🔗</span>
-                  Connect Wallet
+                  Sign in with wallet
                 </div>
               )}
             </button>
@@ -3,7 +3,7 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useDispatch } from 'react-redux';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
-import { registerUser } from '../store/slices/authSlice';
+import { register } from '../store/slices/authSlice';
 import { useWeb3 } from '../hooks/useWeb3';
 
 const RegisterPage: React.FC = () => {
@@ -60,7 +60,8 @@ const RegisterPage: React.FC = () => {
         return;
       }
       
-      await dispatch(registerUser(formData) as any);
+      const { firstName, lastName, email, password } = formData;
+      await dispatch(register({ firstName, lastName, email, password }) as any).unwrap();
       toast.success('Registration successful!');
       navigate('/app');
     } catch (error) {
@@ -1,17 +1,54 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { useSelector } from 'react-redux';
-import { RootState } from '../store';
+import { useDispatch, useSelector } from 'react-redux';
+import { toast } from 'react-hot-toast';
+import { AppDispatch, RootState } from '../store';
+import { updateSettings } from '../store/slices/authSlice';
+import {
+  getNotificationPreferences,
+  NotificationPreferences,
+  updateNotificationPreferences,
+} from '../store/slices/userSlice';
+import { browserTimeZone, timeZoneOptions } from '../services/time';
+
+const notificationLabels: Record<keyof NotificationPreferences, { title: string; description: string }> = {
+  email: { title: 'Email Notifications', description: 'Receive email notifications for important updates' },
+  push: { title: 'Push Notifications', description: 'Receive push notifications for important updates' },
+  sms: { title: 'SMS Notifications', description: 'Receive SMS notifications for important updates' },
+  marketing: { title: 'Marketing Notifications', description: 'Receive news and offers from NexusVerse' },
+  eventReminders: { title: 'Event Reminders', description: 'Get reminded before events you registered for' },
+};
+
+const notificationKeys = Object.keys(notificationLabels) as Array<keyof NotificationPreferences>;
 
 const SettingsPage: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
+  const notifications = useSelector((state: RootState) => state.user.notificationPreferences);
   const [activeTab, setActiveTab] = useState('profile');
-  const [notifications, setNotifications] = useState({
-    email: true,
-    push: true,
-    sms: false,
-    marketing: false
-  });
+
+  useEffect(() => {
+    if (activeTab === 'notifications') {
+      dispatch(getNotificationPreferences());
+    }
+  }, [dispatch, activeTab]);
+
+  const changeTimeZone = async (timeZone: string) => {
+    try {
+      await dispatch(updateSettings({ timeZone: timeZone || null })).unwrap();
+      toast.success('Time zone updated');
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
+
+  const toggleNotification = async (key: keyof NotificationPreferences, value: boolean) => {
+    try {
+      await dispatch(updateNotificationPreferences({ [key]: value })).unwrap();
+    } catch (error: any) {
+      toast.error(typeof error === 'string' ? error : 'Something went wrong');
+    }
+  };
 
   const tabs = [
     { id: 'profile', label: 'Profile', icon: '👤' },
@@ -98,6 +135,26 @@ const SettingsPage: React.FC = () => {
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
                     />
                   </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Time Zone
+                    </label>
+                    <select
+                      value={user?.timeZone ?? ''}
+                      onChange={(e) => changeTimeZone(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">Use this device's time zone ({browserTimeZone()})</option>
+                      {timeZoneOptions().map((timeZone) => (
+                        <option key={timeZone} value={timeZone}>
+                          {timeZone.replace(/_/g, ' ')}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Event times are shown in this zone next to the zone the event is held in
+                    </p>
+                  </div>
                 </div>
               </motion.div>
             )}
@@ -110,23 +167,21 @@ const SettingsPage: React.FC = () => {
               >
                 <h2 className="text-xl font-semibold text-gray-900 mb-6">Notification Preferences</h2>
                 <div className="space-y-4">
-                  {Object.entries(notifications).map(([key, value]) => (
+                  {notifications && notificationKeys.map((key) => (
                     <div key={key} className="flex items-center justify-between">
                       <div>
-                        <h3 className="font-medium text-gray-900 capitalize">{key} Notifications</h3>
-                        <p className="text-sm text-gray-500">
-                          Receive {key} notifications for important updates
-                        </p>
+                        <h3 className="font-medium text-gray-900">{notificationLabels[key].title}</h3>
+                        <p className="text-sm text-gray-500">{notificationLabels[key].description}</p>
                       </div>
                       <button
-                        onClick={() => setNotifications(prev => ({ ...prev, [key]: !value }))}
+                        onClick={() => toggleNotification(key, !notifications[key])}
                         className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                          value ? 'bg-purple-500' : 'bg-gray-200'
+                          notifications[key] ? 'bg-purple-500' : 'bg-gray-200'
                         }`}
                       >
                         <span
                           className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                            value ? 'translate-x-6' : 'translate-x-1'
+                            notifications[key] ? 'translate-x-6' : 'translate-x-1'
                           }`}
                         />
                       </button>
@@ -1,8 +1,13 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
+
+// Absolute URL of an API path, for links opened outside the app such as calendar feeds
+export const apiUrl = (path: string) => new URL(`${API_URL}${path}`, window.location.origin).toString();
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
-  baseURL: process.env.REACT_APP_API_URL || 'http://localhost:5000/api',
+  baseURL: API_URL,
   timeout: 10000,
   headers: {
     'Content-Type': 'application/json',
@@ -23,15 +28,67 @@ api.interceptors.request.use(
   }
 );
 
-// Response interceptor to handle errors
+type TokenListener = (token: string | null) => void;
+
+let tokenListener: TokenListener | null = null;
+
+// Let the store mirror tokens that the interceptor refreshes or clears
+export const setTokenListener = (listener: TokenListener) => {
+  tokenListener = listener;
+};
+
+// A single refresh shared by every request that failed while it was in flight
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+    refreshPromise = (refreshToken
+      ? axios.post(`${API_URL}/auth/refresh`, { refreshToken })
+      : Promise.reject(new Error('No refresh token'))
+    )
+      .then((response) => {
+        const { token, refreshToken: nextRefreshToken } = response.data;
+        localStorage.setItem('token', token);
+        localStorage.setItem('refreshToken', nextRefreshToken);
+        tokenListener?.(token);
+        return token;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const clearSession = () => {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('user');
+  tokenListener?.(null);
+  window.location.href = '/login';
+};
+
+// Response interceptor: on 401, refresh once and replay the queued requests
 api.interceptors.response.use(
   (response: AxiosResponse) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error: AxiosError) => {
+    const originalRequest = error.config as (AxiosRequestConfig & { _retry?: boolean }) | undefined;
+    const isAuthRequest = /\/auth\/(login|register|refresh|wallet\/verify)$/.test(originalRequest?.url || '');
+
+    if (error.response?.status !== 401 || !originalRequest || originalRequest._retry || isAuthRequest) {
+      return Promise.reject(error);
+    }
+
+    originalRequest._retry = true;
+    try {
+      const token = await refreshAccessToken();
+      originalRequest.headers = { ...originalRequest.headers, Authorization: `Bearer ${token}` };
+      return api(originalRequest);
+    } catch (refreshError) {
+      clearSession();
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
   }
 );
 
@@ -48,9 +105,23 @@ export const authAPI = {
     walletAddress?: string;
   }) => api.post('/auth/register', userData),
   
-  logout: () => api.post('/auth/logout'),
+  logout: (refreshToken?: string | null) =>
+    api.post('/auth/logout', { refreshToken: refreshToken || undefined }),
+  
+  getProfile: () => api.get('/auth/me'),
   
-  refreshToken: () => api.post('/auth/refresh'),
+  refreshToken: (refreshToken: string) =>
+    api.post('/auth/refresh', { refreshToken }),
+  
+  getWalletNonce: () => api.get('/auth/wallet/nonce'),
+  
+  verifyWallet: (message: string, signature: string) =>
+    api.post('/auth/wallet/verify', { message, signature }),
+  
+  connectWallet: (message: string, signature: string) =>
+    api.post('/auth/wallet/connect', { message, signature }),
+  
+  disconnectWallet: () => api.post('/auth/wallet/disconnect'),
   
   forgotPassword: (email: string) =>
     api.post('/auth/forgot-password', { email }),
@@ -133,8 +204,17 @@ export const communityAPI = {
   deleteCommunity: (id: string) =>
     api.delete(`/communities/${id}`),
   
-  joinCommunity: (id: string) =>
-    api.post(`/communities/${id}/join`),
+  joinCommunity: (id: string, answers?: string[]) =>
+    api.post(`/communities/${id}/join`, { answers }),
+  
+  withdrawJoinRequest: (id: string) =>
+    api.delete(`/communities/${id}/join-request`),
+  
+  getJoinRequests: (id: string, params?: any) =>
+    api.get(`/communities/${id}/join-requests`, { params }),
+  
+  reviewJoinRequests: (id: string, requestIds: string[], action: 'approve' | 'reject') =>
+    api.post(`/communities/${id}/join-requests/review`, { requestIds, action }),
   
   leaveCommunity: (id: string) =>
     api.post(`/communities/${id}/leave`),
@@ -160,12 +240,45 @@ export const communityAPI = {
   createPost: (communityId: string, postData: any) =>
     api.post(`/communities/${communityId}/posts`, postData),
   
+  getPost: (communityId: string, postId: string) =>
+    api.get(`/communities/${communityId}/posts/${postId}`),
+  
+  revealPostAuthor: (communityId: string, postId: string, reason: string) =>
+    api.post(`/communities/${communityId}/posts/${postId}/reveal`, { reason }),
+  
+  getAnonymousReveals: (communityId: string, params?: any) =>
+    api.get(`/communities/${communityId}/posts/reveals`, { params }),
+  
+  votePoll: (communityId: string, postId: string, optionIds: string[]) =>
+    api.post(`/communities/${communityId}/posts/${postId}/poll/vote`, { optionIds }),
+  
   updatePost: (communityId: string, postId: string, data: any) =>
     api.put(`/communities/${communityId}/posts/${postId}`, data),
   
   deletePost: (communityId: string, postId: string) =>
     api.delete(`/communities/${communityId}/posts/${postId}`),
   
+  pinPost: (communityId: string, postId: string, position?: number) =>
+    api.post(`/communities/${communityId}/posts/${postId}/pin`, { position }),
+  
+  unpinPost: (communityId: string, postId: string) =>
+    api.delete(`/communities/${communityId}/posts/${postId}/pin`),
+  
+  lockPost: (communityId: string, postId: string) =>
+    api.post(`/communities/${communityId}/posts/${postId}/lock`),
+  
+  unlockPost: (communityId: string, postId: string) =>
+    api.delete(`/communities/${communityId}/posts/${postId}/lock`),
+  
+  removePost: (communityId: string, postId: string, reason: string) =>
+    api.post(`/communities/${communityId}/posts/${postId}/remove`, { reason }),
+  
+  restorePost: (communityId: string, postId: string) =>
+    api.post(`/communities/${communityId}/posts/${postId}/restore`),
+  
+  getModerationLog: (communityId: string, params?: any) =>
+    api.get(`/communities/${communityId}/posts/moderation-log`, { params }),
+  
   likePost: (communityId: string, postId: string) =>
     api.post(`/communities/${communityId}/posts/${postId}/like`),
   
@@ -202,23 +315,86 @@ export const eventAPI = {
   createEvent: (eventData: any) =>
     api.post('/events', eventData),
   
-  updateEvent: (id: string, data: any) =>
-    api.put(`/events/${id}`, data),
+  updateEvent: (id: string, data: any, params?: { scope: 'occurrence' | 'series' }) =>
+    api.put(`/events/${id}`, data, { params }),
   
   deleteEvent: (id: string) =>
     api.delete(`/events/${id}`),
   
-  registerForEvent: (id: string) =>
-    api.post(`/events/${id}/register`),
+  registerForEvent: (
+    id: string,
+    data?: { answers?: string[]; ticketTypeId?: string; promoCode?: string; scope?: 'occurrence' | 'series' }
+  ) =>
+    api.post(`/events/${id}/register`, data),
+  
+  unregisterFromEvent: (id: string, data?: { scope: 'occurrence' | 'series' }) =>
+    api.post(`/events/${id}/unregister`, data),
+  
+  getEventCalendar: (id: string, timeZone?: string) =>
+    api.get(`/events/${id}/calendar.ics`, { params: { tz: timeZone }, responseType: 'blob' }),
+  
+  getEventSeries: (seriesId: string) =>
+    api.get(`/events/series/${seriesId}`),
+  
+  getSeriesOccurrences: (seriesId: string, params?: any) =>
+    api.get(`/events/series/${seriesId}/occurrences`, { params }),
   
-  unregisterFromEvent: (id: string) =>
-    api.post(`/events/${id}/unregister`),
+  deleteEventSeries: (seriesId: string) =>
+    api.delete(`/events/series/${seriesId}`),
   
   getEventAttendees: (id: string, params?: any) =>
     api.get(`/events/${id}/attendees`, { params }),
   
-  checkInAttendee: (eventId: string, attendeeId: string) =>
-    api.post(`/events/${eventId}/attendees/${attendeeId}/checkin`),
+  confirmAttendeeHold: (eventId: string, userId: string) =>
+    api.post(`/events/${eventId}/attendees/${userId}/confirm`),
+  
+  refundAttendee: (eventId: string, userId: string, data?: { amount?: number }) =>
+    api.post(`/events/${eventId}/attendees/${userId}/refund`, data),
+  
+  createTicketType: (eventId: string, data: any) =>
+    api.post(`/events/${eventId}/ticket-types`, data),
+  
+  updateTicketType: (eventId: string, ticketTypeId: string, data: any) =>
+    api.put(`/events/${eventId}/ticket-types/${ticketTypeId}`, data),
+  
+  deleteTicketType: (eventId: string, ticketTypeId: string) =>
+    api.delete(`/events/${eventId}/ticket-types/${ticketTypeId}`),
+  
+  getPromoCodes: (eventId: string) =>
+    api.get(`/events/${eventId}/promo-codes`),
+  
+  createPromoCode: (eventId: string, data: any) =>
+    api.post(`/events/${eventId}/promo-codes`, data),
+  
+  updatePromoCode: (eventId: string, promoCodeId: string, data: any) =>
+    api.put(`/events/${eventId}/promo-codes/${promoCodeId}`, data),
+  
+  deletePromoCode: (eventId: string, promoCodeId: string) =>
+    api.delete(`/events/${eventId}/promo-codes/${promoCodeId}`),
+  
+  checkPromoCode: (eventId: string, data: { code: string; ticketTypeId?: string }) =>
+    api.post(`/events/${eventId}/promo-codes/check`, data),
+  
+  getEventApplications: (id: string, params?: any) =>
+    api.get(`/events/${id}/applications`, { params }),
+  
+  reviewEventApplications: (id: string, applicationIds: string[], action: 'approve' | 'reject') =>
+    api.post(`/events/${id}/applications/review`, { applicationIds, action }),
+  
+  getJoinLink: (id: string) =>
+    api.post(`/events/${id}/join-link`),
+  
+  getEventTicket: (id: string) =>
+    api.get(`/events/${id}/ticket`),
+  
+  getTicketKey: () =>
+    api.get('/events/ticket-key'),
+  
+  checkInTicket: (eventId: string, code: string) =>
+    api.post(`/events/${eventId}/check-in`, { code }),
+  
+  checkInAttendee: (eventId: string, userId: string) =>
+    api.post(`/events/${eventId}/attendees/${userId}/checkin`),
   
   getMyEvents: (params?: any) =>
     api.get('/events/my', { params }),
@@ -232,8 +408,101 @@ export const eventAPI = {
   getEventStats: (id: string) =>
     api.get(`/events/${id}/stats`),
   
-  sendEventReminder: (id: string) =>
-    api.post(`/events/${id}/send-reminder`),
+  sendEventReminder: (id: string, data?: { message?: string }) =>
+    api.post(`/events/${id}/send-reminder`, data),
+
+  getEventReminders: (id: string) =>
+    api.get(`/events/${id}/reminders`),
+
+  getSurvey: (id: string) =>
+    api.get(`/events/${id}/survey`),
+
+  saveSurvey: (id: string, questions: any[]) =>
+    api.put(`/events/${id}/survey`, { questions }),
+
+  deleteSurvey: (id: string) =>
+    api.delete(`/events/${id}/survey`),
+
+  respondToSurvey: (id: string, answers: Array<number | string | null>) =>
+    api.post(`/events/${id}/survey/responses`, { answers }),
+
+  exportSurvey: (id: string) =>
+    api.get(`/events/${id}/survey/responses.csv`, { responseType: 'blob' }),
+
+  addEventHost: (id: string, data: { email: string; role?: 'cohost' | 'checkin' }) =>
+    api.post(`/events/${id}/hosts`, data),
+
+  updateEventHost: (id: string, userId: string, data: { role: 'cohost' | 'checkin' }) =>
+    api.put(`/events/${id}/hosts/${userId}`, data),
+
+  removeEventHost: (id: string, userId: string) =>
+    api.delete(`/events/${id}/hosts/${userId}`),
+
+  getSpeakers: (id: string) =>
+    api.get(`/events/${id}/speakers`),
+
+  addSpeaker: (id: string, data: any) =>
+    api.post(`/events/${id}/speakers`, data),
+
+  updateSpeaker: (id: string, speakerId: string, data: any) =>
+    api.put(`/events/${id}/speakers/${speakerId}`, data),
+
+  removeSpeaker: (id: string, speakerId: string) =>
+    api.delete(`/events/${id}/speakers/${speakerId}`),
+
+  respondToSpeakerInvitation: (id: string, speakerId: string, accept: boolean) =>
+    api.post(`/events/${id}/speakers/${speakerId}/respond`, { accept }),
+
+  getSessions: (id: string) =>
+    api.get(`/events/${id}/sessions`),
+
+  createSession: (id: string, data: any) =>
+    api.post(`/events/${id}/sessions`, data),
+
+  updateSession: (id: string, sessionId: string, data: any) =>
+    api.put(`/events/${id}/sessions/${sessionId}`, data),
+
+  deleteSession: (id: string, sessionId: string) =>
+    api.delete(`/events/${id}/sessions/${sessionId}`),
+
+  getQuestions: (id: string) =>
+    api.get(`/events/${id}/questions`),
+
+  askQuestion: (id: string, body: string) =>
+    api.post(`/events/${id}/questions`, { body }),
+
+  upvoteQuestion: (id: string, questionId: string) =>
+    api.post(`/events/${id}/questions/${questionId}/upvote`),
+
+  removeUpvote: (id: string, questionId: string) =>
+    api.delete(`/events/${id}/questions/${questionId}/upvote`),
+
+  answerQuestion: (id: string, questionId: string, answered: boolean) =>
+    api.put(`/events/${id}/questions/${questionId}`, { answered }),
+
+  deleteQuestion: (id: string, questionId: string) =>
+    api.delete(`/events/${id}/questions/${questionId}`),
+
+  getPolls: (id: string) =>
+    api.get(`/events/${id}/polls`),
+
+  launchPoll: (id: string, data: { question: string; options: string[] }) =>
+    api.post(`/events/${id}/polls`, data),
+
+  closePoll: (id: string, pollId: string) =>
+    api.post(`/events/${id}/polls/${pollId}/close`),
+
+  votePoll: (id: string, pollId: string, option: number) =>
+    api.post(`/events/${id}/polls/${pollId}/votes`, { option }),
+
+  getNetworking: (id: string) =>
+    api.get(`/events/${id}/networking`),
+
+  startNetworkingRound: (id: string, roundMinutes: number) =>
+    api.post(`/events/${id}/networking/rounds`, { roundMinutes }),
+
+  endNetworkingRound: (id: string) =>
+    api.post(`/events/${id}/networking/rounds/end`),
   
   duplicateEvent: (id: string) =>
     api.post(`/events/${id}/duplicate`),
@@ -241,7 +510,8 @@ export const eventAPI = {
 
 // Payment API
 export const paymentAPI = {
-  createCheckoutSession: (data: any) =>
+  // Stripe Checkout for the seat held for the user at the event
+  createCheckoutSession: (data: { eventId: string }) =>
     api.post('/payments/create-checkout-session', data),
   
   createPortalSession: () =>
@@ -380,4 +650,13 @@ export const notificationAPI = {
     api.delete('/notifications/push-subscription'),
 };
 
+// Calendar feed API
+export const calendarAPI = {
+  getFeeds: (params?: { communityId?: string }) =>
+    api.get('/calendar/feeds', { params }),
+  
+  resetFeeds: (params?: { communityId?: string }) =>
+    api.post('/calendar/feeds/reset', undefined, { params }),
+};
+
 export default api; 
\ No newline at end of file
@@ -67,10 +67,10 @@ class AuthService {
     return apiService.upload<{ avatar: string }>('/auth/avatar', file);
   }
 
-  // Connect wallet
-  async connectWallet(walletAddress: string, signature: string): Promise<User> {
+  // Connect wallet using a signed Sign-In with Ethereum message
+  async connectWallet(message: string, signature: string): Promise<User> {
     return apiService.post<User>('/auth/wallet/connect', {
-      walletAddress,
+      message,
       signature,
     });
   }
@@ -0,0 +1,13 @@
+import { apiUrl, eventAPI } from './api';
+import { saveBlob, toFileName } from './download';
+
+// Feed paths come from the API; calendar apps subscribe to webcal:// links and poll them
+export const feedUrl = (path: string, timeZone: string) => `${apiUrl(path)}&tz=${encodeURIComponent(timeZone)}`;
+
+export const webcalUrl = (url: string) => url.replace(/^https?:/, 'webcal:');
+
+// Saves the event as an .ics file in the event's own time zone
+export const downloadEventCalendar = async (eventId: string, title: string) => {
+  const response = await eventAPI.getEventCalendar(eventId);
+  saveBlob(response.data, `${toFileName(title)}.ics`);
+};
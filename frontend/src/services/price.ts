@@ -0,0 +1,25 @@
+import { Event, PromoCode, TicketType } from '@/store/slices/eventSlice';
+
+export const formatPrice = (price: number) => (price === 0 ? 'Free' : `$${price}`);
+
+// The event's price, or the range its ticket types span
+export const formatEventPrice = (event: Pick<Event, 'ticketPrice' | 'ticketTypes'>) => {
+  if (!event.ticketTypes?.length) {
+    return formatPrice(event.ticketPrice);
+  }
+  const prices = event.ticketTypes.map((ticketType) => ticketType.price);
+  const [lowest, highest] = [Math.min(...prices), Math.max(...prices)];
+  return lowest === highest ? formatPrice(lowest) : `${formatPrice(lowest)} – $${highest}`;
+};
+
+export const isPaidEvent = (event: Pick<Event, 'ticketPrice' | 'ticketTypes'>) =>
+  event.ticketPrice > 0 || (event.ticketTypes ?? []).some((ticketType) => ticketType.price > 0);
+
+// Within its sales window and not sold out
+export const isOnSale = (ticketType: TicketType, now = new Date()) =>
+  (!ticketType.salesStart || new Date(ticketType.salesStart) <= now) &&
+  (!ticketType.salesEnd || new Date(ticketType.salesEnd) > now) &&
+  ticketType.remaining !== 0;
+
+export const formatDiscount = (promoCode: Pick<PromoCode, 'discountType' | 'discountValue'>) =>
+  promoCode.discountType === 'percentage' ? `${promoCode.discountValue}% off` : `$${promoCode.discountValue} off`;
@@ -0,0 +1,73 @@
+import { getAddress } from 'ethers';
+import { authAPI } from './api';
+
+const SIGN_IN_STATEMENT = 'Sign in to NexusVerse with your Ethereum account.';
+const MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  uri: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  statement?: string;
+}
+
+// Format a Sign-In with Ethereum message as specified by EIP-4361
+export const createSiweMessage = (fields: SiweMessageFields): string => {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+  ];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  );
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  return lines.join('\n');
+};
+
+// Ask the injected wallet to sign a fresh SIWE message bound to a server-issued nonce
+export const signSiweMessage = async (): Promise<{ message: string; signature: string }> => {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) {
+    throw new Error('No Ethereum wallet found. Please install MetaMask to continue.');
+  }
+
+  const [account] = await ethereum.request({ method: 'eth_requestAccounts' });
+  if (!account) {
+    throw new Error('No accounts found');
+  }
+  const chainId = parseInt(await ethereum.request({ method: 'eth_chainId' }), 16);
+
+  const { data } = await authAPI.getWalletNonce();
+  const issuedAt = new Date();
+  const message = createSiweMessage({
+    domain: window.location.host,
+    address: getAddress(account),
+    statement: SIGN_IN_STATEMENT,
+    uri: window.location.origin,
+    chainId,
+    nonce: data.nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(issuedAt.getTime() + MESSAGE_TTL_MS).toISOString(),
+  });
+
+  const signature = await ethereum.request({
+    method: 'personal_sign',
+    params: [message, account],
+  });
+
+  return { message, signature };
+};
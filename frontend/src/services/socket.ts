@@ -0,0 +1,56 @@
+import { io, Socket } from 'socket.io-client';
+import { apiUrl } from './api';
+
+const SOCKET_URL = process.env.REACT_APP_SOCKET_URL || new URL(apiUrl('/')).origin;
+
+// socket.io retries network errors itself but gives up when the server turns the token down. By
+// the time we try again the API client has usually refreshed it.
+const RETRY_MS = 5000;
+
+let socket: Socket | null = null;
+
+// Live views following each event. The room is left once the last of them stops.
+const followers = new Map<string, number>();
+
+// One connection shared by every live view, signed in with the current access token each time it
+// (re)connects
+export const getSocket = () => {
+  if (!socket) {
+    const created = io(SOCKET_URL, { auth: (cb) => cb({ token: localStorage.getItem('token') }) });
+    created.on('connect_error', () => {
+      if (!created.active) {
+        setTimeout(() => created.connect(), RETRY_MS);
+      }
+    });
+    socket = created;
+  }
+  return socket;
+};
+
+// Joins the event's room, and again after every reconnect as rooms are lost with the connection.
+// Returns the function that stops following.
+export const followEvent = (eventId: string, onError?: (message: string) => void) => {
+  const current = getSocket();
+  const join = () =>
+    current.emit('event:join', eventId, (result: { status: string; message?: string }) => {
+      if (result.status !== 'success') {
+        onError?.(result.message || 'Live updates are unavailable');
+      }
+    });
+
+  if (current.connected) {
+    join();
+  }
+  current.on('connect', join);
+  followers.set(eventId, (followers.get(eventId) || 0) + 1);
+  return () => {
+    current.off('connect', join);
+    const remaining = (followers.get(eventId) || 1) - 1;
+    if (remaining) {
+      followers.set(eventId, remaining);
+    } else {
+      followers.delete(eventId);
+      current.emit('event:leave', eventId);
+    }
+  };
+};
@@ -0,0 +1,57 @@
+import { eventAPI } from './api';
+
+export interface TicketClaims {
+  attendeeId: string;
+  eventId: string;
+  userId: string;
+}
+
+let publicKey: Promise<CryptoKey | null> | null = null;
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Reads a `<payload>.<signature>` ticket without checking it; null if it is not one
+export const decodeTicket = (code: string): TicketClaims | null => {
+  const [payload, signature, ...rest] = code.trim().split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    return { attendeeId: claims.a, eventId: claims.e, userId: claims.u };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Fetched once; null when the browser has no Ed25519 support or the key is unreachable
+const loadPublicKey = () => {
+  if (!publicKey) {
+    publicKey = eventAPI
+      .getTicketKey()
+      .then((response) => crypto.subtle.importKey('jwk', response.data.key, { name: 'Ed25519' }, false, ['verify']))
+      .catch(() => {
+        publicKey = null;
+        return null;
+      });
+  }
+  return publicKey;
+};
+
+// Checks the signature in the browser so forged codes are turned away even when offline.
+// Resolves to null when the check could not be made and the server has to decide.
+export const verifyTicketSignature = async (code: string): Promise<boolean | null> => {
+  const [payload, signature] = code.trim().split('.');
+  if (!payload || !signature) {
+    return false;
+  }
+  const key = await loadPublicKey();
+  if (!key) {
+    return null;
+  }
+  return crypto.subtle.verify('Ed25519', key, fromBase64Url(signature), new TextEncoder().encode(payload));
+};
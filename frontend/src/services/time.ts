@@ -0,0 +1,60 @@
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Offered when the browser can't list its zones
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Helsinki',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+// <input type="datetime-local"> values are on the viewer's clock
+export const toLocalInput = (date?: Date | string) => {
+  if (!date) {
+    return '';
+  }
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const timeZoneOptions = (): string[] => (Intl as any).supportedValuesOf?.('timeZone') ?? COMMON_TIME_ZONES;
+
+const formatDate = (date: Date, timeZone: string) =>
+  date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+
+const formatTime = (date: Date, timeZone: string, withZone = false) =>
+  date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+    ...(withZone ? { timeZoneName: 'short' } : {}),
+  });
+
+// "Tue, Nov 3, 19:00 – 21:00 CET", with the end date as well when the event runs past midnight
+export const formatTimeRange = (startDate: Date | string, endDate: Date | string | undefined, timeZone: string) => {
+  const start = new Date(startDate);
+  if (!endDate) {
+    return `${formatDate(start, timeZone)}, ${formatTime(start, timeZone, true)}`;
+  }
+  const end = new Date(endDate);
+  const startDay = formatDate(start, timeZone);
+  const endDay = formatDate(end, timeZone);
+  const endTime = formatTime(end, timeZone, true);
+  return `${startDay}, ${formatTime(start, timeZone)} – ${endDay === startDay ? endTime : `${endDay}, ${endTime}`}`;
+};
+
+// Whether clocks in the two zones read the same at `date`
+export const sameLocalTime = (date: Date | string, a: string, b: string) =>
+  a === b || new Date(date).toLocaleString([], { timeZone: a }) === new Date(date).toLocaleString([], { timeZone: b });
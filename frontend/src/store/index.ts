@@ -1,5 +1,6 @@
 import { configureStore } from '@reduxjs/toolkit';
-import authReducer from './slices/authSlice';
+import { setTokenListener } from '../services/api';
+import authReducer, { tokenRefreshed } from './slices/authSlice';
 import userReducer from './slices/userSlice';
 import communityReducer from './slices/communitySlice';
 import eventReducer from './slices/eventSlice';
@@ -19,5 +20,8 @@ export const store = configureStore({
     }),
 });
 
+// Keep the auth slice in sync with tokens rotated by the axios interceptor
+setTokenListener((token) => store.dispatch(tokenRefreshed(token)));
+
 export type RootState = ReturnType<typeof store.getState>;
 export type AppDispatch = typeof store.dispatch; 
\ No newline at end of file
@@ -1,12 +1,16 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { authAPI } from '@/services/api';
+import { authAPI, userAPI } from '@/services/api';
+import { signSiweMessage } from '@/services/siwe';
 
 export interface User {
   id: string;
-  email: string;
+  // Wallet-only accounts have no email
+  email?: string;
   firstName: string;
   lastName: string;
   walletAddress?: string;
+  // IANA zone times are shown in; the browser's when unset
+  timeZone?: string;
 }
 
 export interface AuthState {
@@ -17,8 +21,10 @@ export interface AuthState {
   error: string | null;
 }
 
+const storedUser = localStorage.getItem('user');
+
 const initialState: AuthState = {
-  user: null,
+  user: storedUser ? JSON.parse(storedUser) : null,
   token: localStorage.getItem('token'),
   isAuthenticated: !!localStorage.getItem('token'),
   isLoading: false,
@@ -31,9 +37,10 @@ export const login = createAsyncThunk(
   async (credentials: { email: string; password: string }, { rejectWithValue }) => {
     try {
       const response = await authAPI.login(credentials);
-      const { token, user } = response.data;
+      const { token, refreshToken, user } = response.data;
       
       localStorage.setItem('token', token);
+      localStorage.setItem('refreshToken', refreshToken);
       localStorage.setItem('user', JSON.stringify(user));
       
       return { token, user };
@@ -54,9 +61,10 @@ export const register = createAsyncThunk(
   }, { rejectWithValue }) => {
     try {
       const response = await authAPI.register(userData);
-      const { token, user } = response.data;
+      const { token, refreshToken, user } = response.data;
       
       localStorage.setItem('token', token);
+      localStorage.setItem('refreshToken', refreshToken);
       localStorage.setItem('user', JSON.stringify(user));
       
       return { token, user };
@@ -66,17 +74,38 @@ export const register = createAsyncThunk(
   }
 );
 
+export const walletLogin = createAsyncThunk(
+  'auth/walletLogin',
+  async (_, { rejectWithValue }) => {
+    try {
+      const { message, signature } = await signSiweMessage();
+      const response = await authAPI.verifyWallet(message, signature);
+      const { token, refreshToken, user } = response.data;
+      
+      localStorage.setItem('token', token);
+      localStorage.setItem('refreshToken', refreshToken);
+      localStorage.setItem('user', JSON.stringify(user));
+      
+      return { token, user };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || error.message || 'Wallet sign-in failed');
+    }
+  }
+);
+
 export const logout = createAsyncThunk(
   'auth/logout',
   async (_, { rejectWithValue }) => {
     try {
-      await authAPI.logout();
+      await authAPI.logout(localStorage.getItem('refreshToken'));
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       localStorage.removeItem('user');
       return null;
     } catch (error: any) {
       // Even if logout API fails, clear local storage
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       localStorage.removeItem('user');
       return rejectWithValue(error.response?.data?.message || 'Logout failed');
     }
@@ -99,10 +128,11 @@ export const refreshToken = createAsyncThunk(
   'auth/refreshToken',
   async (_, { rejectWithValue }) => {
     try {
-      const response = await authAPI.refreshToken();
-      const { token } = response.data;
+      const response = await authAPI.refreshToken(localStorage.getItem('refreshToken') || '');
+      const { token, refreshToken } = response.data;
       
       localStorage.setItem('token', token);
+      localStorage.setItem('refreshToken', refreshToken);
       return token;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Token refresh failed');
@@ -110,6 +140,18 @@ export const refreshToken = createAsyncThunk(
   }
 );
 
+export const updateSettings = createAsyncThunk(
+  'auth/updateSettings',
+  async (settings: { timeZone?: string | null }, { rejectWithValue }) => {
+    try {
+      const response = await userAPI.updateSettings(settings);
+      return response.data.user;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update settings');
+    }
+  }
+);
+
 // Auth slice
 const authSlice = createSlice({
   name: 'auth',
@@ -127,6 +169,21 @@ const authSlice = createSlice({
         state.user = { ...state.user, ...action.payload };
       }
     },
+    tokenRefreshed: (state, action: PayloadAction<string | null>) => {
+      state.token = action.payload;
+      if (!action.payload) {
+        state.user = null;
+        state.isAuthenticated = false;
+      }
+    },
+    clearAuth: (state) => {
+      localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
+      localStorage.removeItem('user');
+      state.user = null;
+      state.token = null;
+      state.isAuthenticated = false;
+    },
   },
   extraReducers: (builder) => {
     // Login
@@ -165,6 +222,24 @@ const authSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Wallet Login
+    builder
+      .addCase(walletLogin.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(walletLogin.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.isAuthenticated = true;
+        state.user = action.payload.user;
+        state.token = action.payload.token;
+        state.error = null;
+      })
+      .addCase(walletLogin.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
     // Logout
     builder
       .addCase(logout.pending, (state) => {
@@ -198,6 +273,16 @@ const authSlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Update Settings
+    builder
+      .addCase(updateSettings.fulfilled, (state, action) => {
+        state.user = action.payload;
+        state.error = null;
+      })
+      .addCase(updateSettings.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
     // Refresh Token
     builder
       .addCase(refreshToken.pending, (state) => {
@@ -215,5 +300,5 @@ const authSlice = createSlice({
   },
 });
 
-export const { clearError, setUser, updateUser } = authSlice.actions;
+export const { clearError, setUser, updateUser, tokenRefreshed, clearAuth } = authSlice.actions;
 export default authSlice.reducer; 
\ No newline at end of file
@@ -12,19 +12,16 @@ export interface Community {
     id: string;
     firstName: string;
     lastName: string;
-    email: string;
   };
   members: Array<{
     id: string;
     firstName: string;
     lastName: string;
-    email: string;
   }>;
   moderators: Array<{
     id: string;
     firstName: string;
     lastName: string;
-    email: string;
   }>;
   tags: string[];
   avatar: string;
@@ -39,11 +36,41 @@ export interface Community {
     requireApproval: boolean;
     allowAnonymousPosts: boolean;
     maxMembers: number;
+    screeningQuestions: string[];
   };
+  viewerRole: CommunityRole | null;
+  hasPendingRequest: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type CommunityRole = 'creator' | 'moderator' | 'member';
+
+export interface CommunityMember {
+  id: string;
+  firstName: string;
+  lastName: string;
+  role: CommunityRole;
+  joinedAt: Date;
+}
+
+export interface JoinRequest {
+  id: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    email?: string;
+  };
+  answers: Array<{
+    question: string;
+    answer: string;
+  }>;
+  status: 'pending' | 'approved' | 'rejected';
+  createdAt: Date;
+  reviewedAt: Date | null;
+}
+
 export interface Post {
   id: string;
   content: string;
@@ -52,27 +79,51 @@ export interface Post {
   link?: string;
   imageUrl?: string;
   pollOptions?: Array<{
+    id: string;
     text: string;
     votes: number;
+    // Only present when the poll shows who voted
+    voters?: Array<{
+      id: string;
+      firstName: string;
+      lastName: string;
+    }>;
   }>;
+  poll?: {
+    multipleChoice: boolean;
+    closesAt?: Date;
+    isClosed: boolean;
+    showVoters: boolean;
+    totalVoters: number;
+    myVotes: string[];
+  };
+  // A placeholder with id 'anonymous' when isAnonymous is set
   author: {
     id: string;
     firstName: string;
     lastName: string;
-    email: string;
   };
+  isOwn: boolean;
   community: {
     id: string;
     name: string;
   };
   parentPost?: string;
+  rootPost?: string;
+  depth: number;
   likes: string[];
   dislikes: string[];
   comments: string[];
   tags: string[];
   isPinned: boolean;
+  pinPosition?: number;
   isLocked: boolean;
   isAnonymous: boolean;
+  isEdited: boolean;
+  isDeleted: boolean;
+  // Removed by staff; content is blank unless the viewer is staff or the author
+  isRemoved: boolean;
+  removalReason?: string;
   stats: {
     viewCount: number;
     likeCount: number;
@@ -80,14 +131,72 @@ export interface Post {
     commentCount: number;
     shareCount: number;
   };
+  lastActivityAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type PostSort = 'new' | 'top' | 'active';
+
+export interface CursorPagination {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+// One loaded level of a thread: the comments on a post or the replies to a comment
+export interface CommentPage extends CursorPagination {
+  items: Post[];
+}
+
+export interface AnonymousReveal {
+  id: string;
+  postId: string | null;
+  author: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  revealedBy: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  reason: string;
+  createdAt: Date;
+}
+
+export type ModerationActionType = 'pin' | 'unpin' | 'lock' | 'unlock' | 'remove' | 'restore';
+
+export interface ModerationAction {
+  id: string;
+  action: ModerationActionType;
+  reason?: string;
+  moderator: {
+    id: string;
+    firstName: string;
+    lastName: string;
+  };
+  post: {
+    id: string;
+    title?: string;
+    excerpt: string;
+    isComment: boolean;
+  } | null;
+  createdAt: Date;
+}
+
 export interface CommunityState {
   communities: Community[];
   currentCommunity: Community | null;
+  members: CommunityMember[];
+  joinRequests: JoinRequest[];
+  reveals: AnonymousReveal[];
+  moderationLog: ModerationAction[];
   posts: Post[];
+  postsPagination: CursorPagination;
+  // Keyed by the id of the post or comment being replied to
+  comments: Record<string, CommentPage>;
   currentPost: Post | null;
   pagination: {
     page: number;
@@ -102,7 +211,17 @@ export interface CommunityState {
 const initialState: CommunityState = {
   communities: [],
   currentCommunity: null,
+  members: [],
+  joinRequests: [],
+  reveals: [],
+  moderationLog: [],
   posts: [],
+  postsPagination: {
+    limit: 20,
+    hasMore: false,
+    nextCursor: null,
+  },
+  comments: {},
   currentPost: null,
   pagination: {
     page: 1,
@@ -163,12 +282,25 @@ export const updateCommunity = createAsyncThunk(
   }
 );
 
+export const deleteCommunity = createAsyncThunk(
+  'community/deleteCommunity',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await communityAPI.deleteCommunity(id);
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete community');
+    }
+  }
+);
+
+// Resolves with `pending: true` when the community queues the request for approval
 export const joinCommunity = createAsyncThunk(
   'community/joinCommunity',
-  async (id: string, { rejectWithValue }) => {
+  async ({ id, answers }: { id: string; answers?: string[] }, { rejectWithValue }) => {
     try {
-      const response = await communityAPI.joinCommunity(id);
-      return { id, message: response.data.message };
+      const response = await communityAPI.joinCommunity(id, answers);
+      return { id, message: response.data.message, pending: Boolean(response.data.joinRequest) };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to join community');
     }
@@ -187,12 +319,120 @@ export const leaveCommunity = createAsyncThunk(
   }
 );
 
+export const withdrawJoinRequest = createAsyncThunk(
+  'community/withdrawJoinRequest',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await communityAPI.withdrawJoinRequest(id);
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to withdraw join request');
+    }
+  }
+);
+
+export const getJoinRequests = createAsyncThunk(
+  'community/getJoinRequests',
+  async ({ communityId, params }: { communityId: string; params?: any }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.getJoinRequests(communityId, params);
+      return response.data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get join requests');
+    }
+  }
+);
+
+export const reviewJoinRequests = createAsyncThunk(
+  'community/reviewJoinRequests',
+  async (
+    { communityId, requestIds, action }: { communityId: string; requestIds: string[]; action: 'approve' | 'reject' },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.reviewJoinRequests(communityId, requestIds, action);
+      return {
+        communityId,
+        approved: response.data.approved as string[],
+        rejected: response.data.rejected as string[],
+        skipped: response.data.skipped as Array<{ id: string; reason: string }>,
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to review join requests');
+    }
+  }
+);
+
+export const getCommunityMembers = createAsyncThunk(
+  'community/getCommunityMembers',
+  async ({ communityId, params }: { communityId: string; params?: any }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.getCommunityMembers(communityId, params);
+      return response.data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get community members');
+    }
+  }
+);
+
+export const inviteMember = createAsyncThunk(
+  'community/inviteMember',
+  async ({ communityId, email }: { communityId: string; email: string }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.inviteMember(communityId, email);
+      return response.data.message;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to invite member');
+    }
+  }
+);
+
+export const removeMember = createAsyncThunk(
+  'community/removeMember',
+  async ({ communityId, memberId }: { communityId: string; memberId: string }, { rejectWithValue }) => {
+    try {
+      await communityAPI.removeMember(communityId, memberId);
+      return { communityId, memberId };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove member');
+    }
+  }
+);
+
+export const promoteToModerator = createAsyncThunk(
+  'community/promoteToModerator',
+  async ({ communityId, memberId }: { communityId: string; memberId: string }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.promoteToModerator(communityId, memberId);
+      return { memberId, community: response.data.community as Community };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to promote member');
+    }
+  }
+);
+
+export const demoteFromModerator = createAsyncThunk(
+  'community/demoteFromModerator',
+  async ({ communityId, memberId }: { communityId: string; memberId: string }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.demoteFromModerator(communityId, memberId);
+      return { memberId, community: response.data.community as Community };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to demote moderator');
+    }
+  }
+);
+
+// Pass `params.cursor` to append the next page instead of replacing the list
 export const getCommunityPosts = createAsyncThunk(
   'community/getCommunityPosts',
-  async ({ communityId, params }: { communityId: string; params?: any }, { rejectWithValue }) => {
+  async (
+    { communityId, params }: { communityId: string; params?: { sort?: PostSort; cursor?: string; limit?: number } },
+    { rejectWithValue }
+  ) => {
     try {
       const response = await communityAPI.getCommunityPosts(communityId, params);
-      return response.data;
+      return { ...response.data, append: Boolean(params?.cursor) };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to get community posts');
     }
@@ -211,6 +451,310 @@ export const createPost = createAsyncThunk(
   }
 );
 
+const applyJoin = (community: Community, pending: boolean) => {
+  if (pending) {
+    community.hasPendingRequest = true;
+  } else {
+    community.stats.memberCount += 1;
+    community.viewerRole = 'member';
+  }
+};
+
+export const editPost = createAsyncThunk(
+  'community/editPost',
+  async ({ communityId, postId, data }: { communityId: string; postId: string; data: any }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.updatePost(communityId, postId, data);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update post');
+    }
+  }
+);
+
+export const pinPost = createAsyncThunk(
+  'community/pinPost',
+  async (
+    { communityId, postId, position }: { communityId: string; postId: string; position?: number },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.pinPost(communityId, postId, position);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to pin post');
+    }
+  }
+);
+
+export const unpinPost = createAsyncThunk(
+  'community/unpinPost',
+  async ({ communityId, postId }: { communityId: string; postId: string }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.unpinPost(communityId, postId);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to unpin post');
+    }
+  }
+);
+
+export const setPostLocked = createAsyncThunk(
+  'community/setPostLocked',
+  async (
+    { communityId, postId, locked }: { communityId: string; postId: string; locked: boolean },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = locked
+        ? await communityAPI.lockPost(communityId, postId)
+        : await communityAPI.unlockPost(communityId, postId);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || `Failed to ${locked ? 'lock' : 'unlock'} post`);
+    }
+  }
+);
+
+// Works for comments too
+export const removePost = createAsyncThunk(
+  'community/removePost',
+  async (
+    { communityId, postId, reason }: { communityId: string; postId: string; reason: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.removePost(communityId, postId, reason);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove post');
+    }
+  }
+);
+
+export const restorePost = createAsyncThunk(
+  'community/restorePost',
+  async ({ communityId, postId }: { communityId: string; postId: string }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.restorePost(communityId, postId);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to restore post');
+    }
+  }
+);
+
+export const getModerationLog = createAsyncThunk(
+  'community/getModerationLog',
+  async ({ communityId, params }: { communityId: string; params?: any }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.getModerationLog(communityId, params);
+      return response.data.actions as ModerationAction[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get moderation log');
+    }
+  }
+);
+
+export const deletePost = createAsyncThunk(
+  'community/deletePost',
+  async ({ communityId, postId }: { communityId: string; postId: string }, { rejectWithValue }) => {
+    try {
+      await communityAPI.deletePost(communityId, postId);
+      return postId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete post');
+    }
+  }
+);
+
+export const likePost = createAsyncThunk(
+  'community/likePost',
+  async ({ communityId, postId }: { communityId: string; postId: string }, { getState, rejectWithValue }) => {
+    try {
+      await communityAPI.likePost(communityId, postId);
+      const { auth } = getState() as { auth: { user: { id: string } | null } };
+      return { postId, userId: auth.user?.id ?? '' };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to like post');
+    }
+  }
+);
+
+export const unlikePost = createAsyncThunk(
+  'community/unlikePost',
+  async ({ communityId, postId }: { communityId: string; postId: string }, { getState, rejectWithValue }) => {
+    try {
+      await communityAPI.unlikePost(communityId, postId);
+      const { auth } = getState() as { auth: { user: { id: string } | null } };
+      return { postId, userId: auth.user?.id ?? '' };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove like');
+    }
+  }
+);
+
+// Staff-only and audited; the revealed author is not stored in the slice
+export const revealPostAuthor = createAsyncThunk(
+  'community/revealPostAuthor',
+  async (
+    { communityId, postId, reason }: { communityId: string; postId: string; reason: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.revealPostAuthor(communityId, postId, reason);
+      return response.data.author as Post['author'];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to reveal author');
+    }
+  }
+);
+
+export const getAnonymousReveals = createAsyncThunk(
+  'community/getAnonymousReveals',
+  async ({ communityId, params }: { communityId: string; params?: any }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.getAnonymousReveals(communityId, params);
+      return response.data.reveals as AnonymousReveal[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get reveal log');
+    }
+  }
+);
+
+// Re-fetches a single post, e.g. to refresh live poll results
+export const refreshPost = createAsyncThunk(
+  'community/refreshPost',
+  async ({ communityId, postId }: { communityId: string; postId: string }, { rejectWithValue }) => {
+    try {
+      const response = await communityAPI.getPost(communityId, postId);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to refresh post');
+    }
+  }
+);
+
+export const votePoll = createAsyncThunk(
+  'community/votePoll',
+  async (
+    { communityId, postId, optionIds }: { communityId: string; postId: string; optionIds: string[] },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.votePoll(communityId, postId, optionIds);
+      return response.data.post as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to vote');
+    }
+  }
+);
+
+// Loads one level of a thread; `parentId` defaults to the post itself
+export const getPostComments = createAsyncThunk(
+  'community/getPostComments',
+  async (
+    {
+      communityId,
+      postId,
+      params,
+    }: { communityId: string; postId: string; params?: { parentId?: string; sort?: PostSort; cursor?: string } },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.getPostComments(communityId, postId, params);
+      return {
+        parentId: params?.parentId ?? postId,
+        append: Boolean(params?.cursor),
+        comments: response.data.comments as Post[],
+        pagination: response.data.pagination as CursorPagination,
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get comments');
+    }
+  }
+);
+
+export const addComment = createAsyncThunk(
+  'community/addComment',
+  async (
+    {
+      communityId,
+      postId,
+      content,
+      parentId,
+      isAnonymous,
+    }: { communityId: string; postId: string; content: string; parentId?: string; isAnonymous?: boolean },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.addComment(communityId, postId, { content, parentId, isAnonymous });
+      return response.data.comment as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to add comment');
+    }
+  }
+);
+
+export const editComment = createAsyncThunk(
+  'community/editComment',
+  async (
+    { communityId, postId, commentId, content }: { communityId: string; postId: string; commentId: string; content: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.updateComment(communityId, postId, commentId, { content });
+      return response.data.comment as Post;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update comment');
+    }
+  }
+);
+
+// `removed` is false when the comment had replies and was only blanked
+export const deleteComment = createAsyncThunk(
+  'community/deleteComment',
+  async (
+    { communityId, postId, comment }: { communityId: string; postId: string; comment: Post },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await communityAPI.deleteComment(communityId, postId, comment.id);
+      return { comment, removed: response.data.removed as boolean };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete comment');
+    }
+  }
+);
+
+// Pinned posts lead the feed in pinned order; everything else keeps the order it was loaded in
+const sortPinned = (posts: Post[]) => {
+  const pinned = posts
+    .filter(post => post.isPinned)
+    .sort((a, b) => (a.pinPosition ?? Infinity) - (b.pinPosition ?? Infinity));
+  return [...pinned, ...posts.filter(post => !post.isPinned)];
+};
+
+// Finds a post or a loaded comment by id
+const findPost = (state: CommunityState, id: string): Post | undefined =>
+  state.posts.find(post => post.id === id) ??
+  Object.values(state.comments)
+    .flatMap(page => page.items)
+    .find(comment => comment.id === id);
+
+const replacePost = (state: CommunityState, updated: Post) => {
+  const index = state.posts.findIndex(post => post.id === updated.id);
+  if (index !== -1) {
+    state.posts[index] = updated;
+  }
+  Object.values(state.comments).forEach(page => {
+    const commentIndex = page.items.findIndex(comment => comment.id === updated.id);
+    if (commentIndex !== -1) {
+      page.items[commentIndex] = updated;
+    }
+  });
+};
+
 // Community slice
 const communitySlice = createSlice({
   name: 'community',
@@ -224,6 +768,7 @@ const communitySlice = createSlice({
     },
     clearPosts: (state) => {
       state.posts = [];
+      state.comments = {};
       state.currentPost = null;
     },
     setCurrentPost: (state, action: PayloadAction<Post>) => {
@@ -317,12 +862,13 @@ const communitySlice = createSlice({
       .addCase(joinCommunity.fulfilled, (state, action) => {
         state.isLoading = false;
         // Update community member count
-        const community = state.communities.find(c => c.id === action.payload.id);
+        const { id, pending } = action.payload;
+        const community = state.communities.find(c => c.id === id);
         if (community) {
-          community.stats.memberCount += 1;
+          applyJoin(community, pending);
         }
-        if (state.currentCommunity?.id === action.payload.id) {
-          state.currentCommunity.stats.memberCount += 1;
+        if (state.currentCommunity?.id === id) {
+          applyJoin(state.currentCommunity, pending);
         }
         state.error = null;
       })
@@ -343,9 +889,11 @@ const communitySlice = createSlice({
         const community = state.communities.find(c => c.id === action.payload.id);
         if (community) {
           community.stats.memberCount = Math.max(0, community.stats.memberCount - 1);
+          community.viewerRole = null;
         }
         if (state.currentCommunity?.id === action.payload.id) {
           state.currentCommunity.stats.memberCount = Math.max(0, state.currentCommunity.stats.memberCount - 1);
+          state.currentCommunity.viewerRole = null;
         }
         state.error = null;
       })
@@ -354,6 +902,133 @@ const communitySlice = createSlice({
         state.error = action.payload as string;
       });
 
+    // Join Requests
+    builder
+      .addCase(withdrawJoinRequest.fulfilled, (state, action) => {
+        const community = state.communities.find(c => c.id === action.payload);
+        if (community) {
+          community.hasPendingRequest = false;
+        }
+        if (state.currentCommunity?.id === action.payload) {
+          state.currentCommunity.hasPendingRequest = false;
+        }
+        state.error = null;
+      })
+      .addCase(withdrawJoinRequest.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getJoinRequests.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(getJoinRequests.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.joinRequests = action.payload.joinRequests;
+        state.error = null;
+      })
+      .addCase(getJoinRequests.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(reviewJoinRequests.fulfilled, (state, action) => {
+        const { communityId, approved, rejected } = action.payload;
+        const reviewed = new Set([...approved, ...rejected]);
+        state.joinRequests = state.joinRequests.filter(r => !reviewed.has(r.id));
+        if (state.currentCommunity?.id === communityId) {
+          state.currentCommunity.stats.memberCount += approved.length;
+        }
+        state.error = null;
+      })
+      .addCase(reviewJoinRequests.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Delete Community
+    builder
+      .addCase(deleteCommunity.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(deleteCommunity.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.communities = state.communities.filter(c => c.id !== action.payload);
+        if (state.currentCommunity?.id === action.payload) {
+          state.currentCommunity = null;
+          state.members = [];
+        }
+        state.error = null;
+      })
+      .addCase(deleteCommunity.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Get Community Members
+    builder
+      .addCase(getCommunityMembers.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(getCommunityMembers.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.members = action.payload.members;
+        state.error = null;
+      })
+      .addCase(getCommunityMembers.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Invite Member
+    builder
+      .addCase(inviteMember.fulfilled, (state) => {
+        state.error = null;
+      })
+      .addCase(inviteMember.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Remove Member
+    builder
+      .addCase(removeMember.fulfilled, (state, action) => {
+        state.members = state.members.filter(m => m.id !== action.payload.memberId);
+        if (state.currentCommunity?.id === action.payload.communityId) {
+          state.currentCommunity.stats.memberCount = Math.max(0, state.currentCommunity.stats.memberCount - 1);
+          state.currentCommunity.moderators = state.currentCommunity.moderators.filter(
+            m => m.id !== action.payload.memberId
+          );
+        }
+        state.error = null;
+      })
+      .addCase(removeMember.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Promote / Demote Moderator
+    builder
+      .addCase(promoteToModerator.fulfilled, (state, action) => {
+        const member = state.members.find(m => m.id === action.payload.memberId);
+        if (member) {
+          member.role = 'moderator';
+        }
+        state.currentCommunity = action.payload.community;
+        state.error = null;
+      })
+      .addCase(promoteToModerator.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(demoteFromModerator.fulfilled, (state, action) => {
+        const member = state.members.find(m => m.id === action.payload.memberId);
+        if (member) {
+          member.role = 'member';
+        }
+        state.currentCommunity = action.payload.community;
+        state.error = null;
+      })
+      .addCase(demoteFromModerator.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
     // Get Community Posts
     builder
       .addCase(getCommunityPosts.pending, (state) => {
@@ -362,8 +1037,8 @@ const communitySlice = createSlice({
       })
       .addCase(getCommunityPosts.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.posts = action.payload.posts;
-        state.pagination = action.payload.pagination;
+        state.posts = action.payload.append ? [...state.posts, ...action.payload.posts] : action.payload.posts;
+        state.postsPagination = action.payload.pagination;
         state.error = null;
       })
       .addCase(getCommunityPosts.rejected, (state, action) => {
@@ -389,6 +1064,208 @@ const communitySlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Edit / Delete Post
+    builder
+      .addCase(editPost.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.error = null;
+      })
+      .addCase(editPost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deletePost.fulfilled, (state, action) => {
+        state.posts = state.posts.filter(post => post.id !== action.payload);
+        delete state.comments[action.payload];
+        if (state.currentCommunity) {
+          state.currentCommunity.stats.postCount = Math.max(0, state.currentCommunity.stats.postCount - 1);
+        }
+        state.error = null;
+      })
+      .addCase(deletePost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Moderation
+    builder
+      .addCase(pinPost.fulfilled, (state, action) => {
+        const pinned = action.payload;
+        // Pinning at a position shifts the posts below it, so renumber the ones we hold
+        const others = state.posts
+          .filter(post => post.isPinned && post.id !== pinned.id)
+          .sort((a, b) => (a.pinPosition ?? Infinity) - (b.pinPosition ?? Infinity));
+        others.splice(pinned.pinPosition ?? others.length, 0, pinned);
+        others.forEach((post, index) => {
+          post.pinPosition = index;
+        });
+        replacePost(state, pinned);
+        state.posts = sortPinned(state.posts);
+        state.error = null;
+      })
+      .addCase(unpinPost.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.posts = sortPinned(state.posts);
+        state.error = null;
+      })
+      .addCase(setPostLocked.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.error = null;
+      })
+      .addCase(removePost.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.posts = sortPinned(state.posts);
+        state.error = null;
+      })
+      .addCase(restorePost.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.error = null;
+      })
+      .addCase(getModerationLog.fulfilled, (state, action) => {
+        state.moderationLog = action.payload;
+        state.error = null;
+      })
+      .addCase(pinPost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(unpinPost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(setPostLocked.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(removePost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(restorePost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getModerationLog.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Anonymous Reveals
+    builder
+      .addCase(getAnonymousReveals.fulfilled, (state, action) => {
+        state.reveals = action.payload;
+        state.error = null;
+      })
+      .addCase(getAnonymousReveals.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Polls
+    builder
+      .addCase(refreshPost.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+      })
+      .addCase(votePoll.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.error = null;
+      })
+      .addCase(votePoll.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Likes
+    builder
+      .addCase(likePost.fulfilled, (state, action) => {
+        const post = findPost(state, action.payload.postId);
+        if (post && !post.likes.includes(action.payload.userId)) {
+          post.likes.push(action.payload.userId);
+          post.stats.likeCount += 1;
+          if (post.dislikes.includes(action.payload.userId)) {
+            post.dislikes = post.dislikes.filter(id => id !== action.payload.userId);
+            post.stats.dislikeCount = Math.max(0, post.stats.dislikeCount - 1);
+          }
+        }
+      })
+      .addCase(unlikePost.fulfilled, (state, action) => {
+        const post = findPost(state, action.payload.postId);
+        if (post && post.likes.includes(action.payload.userId)) {
+          post.likes = post.likes.filter(id => id !== action.payload.userId);
+          post.stats.likeCount = Math.max(0, post.stats.likeCount - 1);
+        }
+      })
+      .addCase(likePost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(unlikePost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Comments
+    builder
+      .addCase(getPostComments.fulfilled, (state, action) => {
+        const { parentId, append, comments, pagination } = action.payload;
+        const existing = state.comments[parentId];
+        state.comments[parentId] = {
+          ...pagination,
+          items: append && existing ? [...existing.items, ...comments] : comments,
+        };
+        state.error = null;
+      })
+      .addCase(getPostComments.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(addComment.fulfilled, (state, action) => {
+        const comment = action.payload;
+        const parentId = comment.parentPost as string;
+        const page = state.comments[parentId];
+        if (page) {
+          page.items.unshift(comment);
+        }
+        // Mirror the server counters: the parent gains a reply and the thread root a comment
+        const parent = findPost(state, parentId);
+        if (parent) {
+          parent.stats.commentCount += 1;
+        }
+        if (comment.rootPost && comment.rootPost !== parentId) {
+          const root = findPost(state, comment.rootPost);
+          if (root) {
+            root.stats.commentCount += 1;
+          }
+        }
+        state.error = null;
+      })
+      .addCase(addComment.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(editComment.fulfilled, (state, action) => {
+        replacePost(state, action.payload);
+        state.error = null;
+      })
+      .addCase(editComment.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deleteComment.fulfilled, (state, action) => {
+        const { comment, removed } = action.payload;
+        const parentId = comment.parentPost as string;
+        if (!removed) {
+          const blanked = findPost(state, comment.id);
+          if (blanked) {
+            blanked.isDeleted = true;
+            blanked.content = '';
+          }
+          return;
+        }
+        const page = state.comments[parentId];
+        if (page) {
+          page.items = page.items.filter(item => item.id !== comment.id);
+        }
+        const parent = findPost(state, parentId);
+        if (parent) {
+          parent.stats.commentCount = Math.max(0, parent.stats.commentCount - 1);
+        }
+        if (comment.rootPost && comment.rootPost !== parentId) {
+          const root = findPost(state, comment.rootPost);
+          if (root) {
+            root.stats.commentCount = Math.max(0, root.stats.commentCount - 1);
+          }
+        }
+      })
+      .addCase(deleteComment.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
   },
 });
 
@@ -1,5 +1,133 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { eventAPI } from '@/services/api';
+import { apiUrl, calendarAPI, eventAPI, paymentAPI } from '@/services/api';
+
+// A priced tier of an event, e.g. early-bird or VIP. remaining is unset when only the event's
+// capacity limits it.
+export interface TicketType {
+  id: string;
+  name: string;
+  description: string;
+  price: number;
+  quantity?: number;
+  sold: number;
+  remaining?: number;
+  salesStart?: Date;
+  salesEnd?: Date;
+}
+
+// Discount code for an event's tickets. discountValue is a percentage, or currency units for fixed
+// discounts; redemptions counts the places currently taken with it.
+export interface PromoCode {
+  id: string;
+  code: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  maxRedemptions?: number;
+  redemptions: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  community?: { id: string; name: string };
+}
+
+export interface PromoCodeStats extends PromoCode {
+  registered: number;
+  held: number;
+  waitlisted: number;
+  payments: number;
+  revenue: number;
+  discountGiven: number;
+}
+
+export type EventHostRole = 'cohost' | 'checkin';
+
+// Someone helping the organizer run an event. Co-hosts manage it; check-in hosts check people in.
+export interface EventHost {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  role: EventHostRole;
+}
+
+// A speaker on the event's lineup. Speakers linked to a NexusVerse account are invited and listed
+// publicly once they accept.
+export interface Speaker {
+  id: string;
+  name: string;
+  headline: string;
+  bio: string;
+  userId?: string;
+  avatar?: string;
+  invitationStatus?: 'pending' | 'accepted' | 'declined';
+  sessionIds: string[];
+}
+
+// A slot on the event's agenda
+export interface EventSession {
+  id: string;
+  title: string;
+  description: string;
+  startsAt: Date;
+  endsAt: Date;
+  location: string;
+  speakerIds: string[];
+}
+
+// A question on the live Q&A board. viewerUpvoted is missing from live updates, which go to
+// everyone, so the one already held is kept.
+export interface EventQuestion {
+  id: string;
+  body: string;
+  author: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  };
+  upvoteCount: number;
+  answeredAt?: Date;
+  createdAt: Date;
+  viewerUpvoted?: boolean;
+}
+
+// A live poll. votes holds the count for each option; viewerVote is the index the viewer chose.
+export interface EventPoll {
+  id: string;
+  question: string;
+  options: string[];
+  votes: number[];
+  closedAt?: Date;
+  createdAt: Date;
+  viewerVote?: number;
+}
+
+// A speed-networking round as everyone following the event sees it. round is 0 before the first.
+export interface NetworkingRound {
+  round: number;
+  roundMinutes?: number;
+  roundEndsAt?: Date;
+}
+
+// Who the viewer meets in the current round, with the skills and interests they share
+export interface NetworkingPartner {
+  id: string;
+  firstName: string;
+  lastName: string;
+  avatar?: string;
+  bio: string;
+  skills: string[];
+  interests: string[];
+  sharedSkills: string[];
+  sharedInterests: string[];
+}
+
+// Speed networking at the current event from the viewer's side. Only checked-in attendees are paired.
+export interface Networking extends NetworkingRound {
+  participantCount: number;
+  checkedIn: boolean;
+  partner?: NetworkingPartner;
+  sittingOut: boolean;
+}
 
 export interface Event {
   id: string;
@@ -7,24 +135,30 @@ export interface Event {
   description: string;
   startDate: Date;
   endDate: Date;
+  // IANA zone the event is held in
+  timeZone: string;
   location: string;
   category: string;
   maxAttendees?: number;
   ticketPrice: number;
+  // When present, registrations pick one of these instead of paying ticketPrice
+  ticketTypes: TicketType[];
   isVirtual: boolean;
+  // Only sent to hosts; attendees join through getJoinLink from joinOpensAt on
   meetingLink?: string;
+  joinOpensAt?: Date;
   tags: string[];
   organizer: {
     id: string;
     firstName: string;
     lastName: string;
-    email: string;
   };
+  hosts: EventHost[];
+  // Empty unless the viewer hosts the event
   attendees: Array<{
     id: string;
     firstName: string;
     lastName: string;
-    email: string;
   }>;
   community?: {
     id: string;
@@ -35,6 +169,14 @@ export interface Event {
   registrationDeadline?: Date;
   capacity: number;
   currentAttendees: number;
+  waitlistCount: number;
+  // The signed-in user's place, if any; waitlistPosition is 1-based and only set on getEvent
+  viewerStatus?: RegistrationStatus;
+  waitlistPosition?: number;
+  // Set while a paid seat is held for the viewer
+  holdExpiresAt?: Date;
+  // How the signed-in user helps run the event, if they do
+  viewerHostRole?: 'organizer' | EventHostRole;
   stats: {
     viewCount: number;
     registrationCount: number;
@@ -45,15 +187,195 @@ export interface Event {
     requireApproval: boolean;
     allowCancellations: boolean;
     sendReminders: boolean;
+    // Minutes before the start, e.g. [1440, 60]
+    reminderOffsets: number[];
+    // Asked when requireApproval is on
+    applicationQuestions: string[];
+  };
+  // Set on occurrences of a recurring event. isOverride marks one edited on its own.
+  recurrence?: {
+    seriesId: string;
+    rrule: string;
+    occurrenceDate: Date;
+    isOverride: boolean;
+    seriesCancelled: boolean;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type RegistrationStatus = 'registered' | 'waitlisted' | 'held' | 'pending' | 'rejected';
+
+// Whether a change to an occurrence applies to it alone or to it and the rest of its series
+export type SeriesScope = 'occurrence' | 'series';
+
+// How a series registration went across the upcoming occurrences
+export interface SeriesRegistrationCounts {
+  registered: number;
+  waitlisted: number;
+  full: number;
+}
+
+// Attendee as listed to the organizer
+export interface EventAttendee {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  status?: RegistrationStatus | 'cancelled';
+  registeredAt?: Date;
+  holdExpiresAt?: Date | null;
+  checkedInAt?: Date | null;
+  // First time they opened the meeting through their join link
+  joinedAt?: Date;
+  ticketType?: { id: string; name: string };
+  // Latest completed payment, in currency units
+  payment?: {
+    amount: number;
+    refunded: number;
+    status: 'paid' | 'partially_refunded' | 'refunded';
+  };
+}
+
+export interface EventStats {
+  capacity: number;
+  seatsLeft: number;
+  registered: number;
+  waitlisted: number;
+  held: number;
+  pending: number;
+  cancelled: number;
+  checkedIn: number;
+  viewCount: number;
+  fillRate: number;
+  // Attendees who joined the meeting, and their visits in total
+  joined: number;
+  joinCount: number;
+  promoCodes: PromoCodeStats[];
+  survey: SurveyStats | null;
+}
+
+export type SurveyQuestionType = 'rating' | 'nps' | 'text' | 'choice';
+
+export interface SurveyQuestion {
+  type: SurveyQuestionType;
+  prompt: string;
+  // The choices of a multiple choice question
+  options?: string[];
+  required?: boolean;
+}
+
+// A number for rating (1-5) and NPS (0-10) questions, the text or chosen option otherwise
+export type SurveyAnswer = number | string | null;
+
+// Organizers get the recipient count; attendees whether they have answered
+export interface Survey {
+  id: string;
+  questions: SurveyQuestion[];
+  sentAt?: Date;
+  recipientCount?: number;
+  responded?: boolean;
+}
+
+// Per question results; which fields are set depends on the question type
+export interface SurveyQuestionStats extends SurveyQuestion {
+  responses: number;
+  average?: number | null;
+  distribution?: number[];
+  score?: number | null;
+  promoters?: number;
+  passives?: number;
+  detractors?: number;
+  counts?: Array<{ option: string; count: number }>;
+  latest?: string[];
+}
+
+export interface SurveyStats {
+  sentAt?: Date;
+  recipientCount: number;
+  responses: number;
+  responseRate: number;
+  questions: SurveyQuestionStats[];
+}
+
+export interface EventApplication {
+  id: string;
+  user: {
+    id: string;
+    firstName: string;
+    lastName: string;
+    avatar?: string;
+  };
+  answers: Array<{ question: string; answer: string }>;
+  status: 'pending' | 'rejected';
+  createdAt: Date;
+  reviewedAt?: Date | null;
+}
+
+export interface ApplicationReviewResult {
+  approved: string[];
+  rejected: string[];
+  skipped: Array<{ id: string; reason: 'not_found' | 'event_full' | 'sold_out' | 'code_used_up' }>;
+}
+
+export interface EventTicket {
+  eventId: string;
+  code: string;
+}
+
+export interface CheckInResult {
+  attendee: EventAttendee;
+  checkedIn: number;
+  registered: number;
+}
+
+export interface EventReminder {
+  id: string;
+  kind: 'scheduled' | 'manual';
+  offsetMinutes?: number;
+  message?: string;
+  recipientCount: number;
+  sentAt: Date;
+}
+
+export interface EventReminders {
+  sent: EventReminder[];
+  upcoming: Array<{ offsetMinutes: number; sendAt: Date }>;
+}
+
+// API paths of the viewer's calendar feeds; the community one only when asked for
+export interface CalendarFeeds {
+  registrations: string;
+  community?: string;
+}
+
 export interface EventState {
   events: Event[];
   currentEvent: Event | null;
   myEvents: Event[];
+  registrations: Event[];
+  attendees: EventAttendee[];
+  stats: EventStats | null;
+  ticket: EventTicket | null;
+  applications: EventApplication[];
+  // Latest arrivals first, for the organizer's check-in screen
+  arrivals: EventAttendee[];
+  // Upcoming occurrences of the current event's series
+  occurrences: Event[];
+  calendarFeeds: CalendarFeeds | null;
+  reminders: EventReminders | null;
+  // The current event's feedback survey
+  survey: Survey | null;
+  // The current event's lineup and agenda
+  speakers: Speaker[];
+  sessions: EventSession[];
+  // The current event's live Q&A and polls, kept up to date over the socket
+  questions: EventQuestion[];
+  polls: EventPoll[];
+  // The current event's speed networking, kept up to date over the socket
+  networking: Networking | null;
+  // The current event's promo codes, for its organizer
+  promoCodes: PromoCode[];
   pagination: {
     page: number;
     limit: number;
@@ -68,6 +390,22 @@ const initialState: EventState = {
   events: [],
   currentEvent: null,
   myEvents: [],
+  registrations: [],
+  attendees: [],
+  stats: null,
+  ticket: null,
+  applications: [],
+  arrivals: [],
+  occurrences: [],
+  calendarFeeds: null,
+  reminders: null,
+  survey: null,
+  speakers: [],
+  sessions: [],
+  questions: [],
+  polls: [],
+  networking: null,
+  promoCodes: [],
   pagination: {
     page: 1,
     limit: 20,
@@ -117,9 +455,9 @@ export const createEvent = createAsyncThunk(
 
 export const updateEvent = createAsyncThunk(
   'event/updateEvent',
-  async ({ id, data }: { id: string; data: any }, { rejectWithValue }) => {
+  async ({ id, data, scope }: { id: string; data: any; scope?: SeriesScope }, { rejectWithValue }) => {
     try {
-      const response = await eventAPI.updateEvent(id, data);
+      const response = await eventAPI.updateEvent(id, data, scope ? { scope } : undefined);
       return response.data.event;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to update event');
@@ -139,12 +477,31 @@ export const deleteEvent = createAsyncThunk(
   }
 );
 
+// Resolves with a seat or a waitlist place; the event comes back with the new counts. With the
+// series scope `occurrences` tells how registering for each upcoming occurrence went.
 export const registerForEvent = createAsyncThunk(
   'event/registerForEvent',
-  async (id: string, { rejectWithValue }) => {
+  async (
+    {
+      id,
+      answers,
+      ticketTypeId,
+      promoCode,
+      scope,
+    }: { id: string; answers?: string[]; ticketTypeId?: string; promoCode?: string; scope?: SeriesScope },
+    { rejectWithValue }
+  ) => {
     try {
-      const response = await eventAPI.registerForEvent(id);
-      return { id, message: response.data.message };
+      const response = await eventAPI.registerForEvent(
+        id,
+        answers || ticketTypeId || promoCode || scope ? { answers, ticketTypeId, promoCode, scope } : undefined
+      );
+      return {
+        status: response.data.registrationStatus as RegistrationStatus | undefined,
+        event: response.data.event as Event,
+        message: response.data.message as string,
+        occurrences: response.data.occurrences as SeriesRegistrationCounts | undefined,
+      };
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to register for event');
     }
@@ -153,10 +510,10 @@ export const registerForEvent = createAsyncThunk(
 
 export const unregisterFromEvent = createAsyncThunk(
   'event/unregisterFromEvent',
-  async (id: string, { rejectWithValue }) => {
+  async ({ id, scope }: { id: string; scope?: SeriesScope }, { rejectWithValue }) => {
     try {
-      const response = await eventAPI.unregisterFromEvent(id);
-      return { id, message: response.data.message };
+      const response = await eventAPI.unregisterFromEvent(id, scope ? { scope } : undefined);
+      return response.data.event as Event;
     } catch (error: any) {
       return rejectWithValue(error.response?.data?.message || 'Failed to unregister from event');
     }
@@ -175,187 +532,1422 @@ export const getMyEvents = createAsyncThunk(
   }
 );
 
-// Event slice
-const eventSlice = createSlice({
-  name: 'event',
-  initialState,
-  reducers: {
-    clearError: (state) => {
-      state.error = null;
-    },
-    clearCurrentEvent: (state) => {
-      state.currentEvent = null;
-    },
-    clearEvents: (state) => {
-      state.events = [];
-    },
-    setCurrentEvent: (state, action: PayloadAction<Event>) => {
-      state.currentEvent = action.payload;
-    },
-    updateEvent: (state, action: PayloadAction<Partial<Event>>) => {
-      const index = state.events.findIndex(event => event.id === action.payload.id);
-      if (index !== -1) {
-        state.events[index] = { ...state.events[index], ...action.payload };
-      }
-      if (state.currentEvent?.id === action.payload.id) {
-        state.currentEvent = { ...state.currentEvent, ...action.payload };
-      }
-    },
-  },
-  extraReducers: (builder) => {
-    // Get Events
-    builder
-      .addCase(getEvents.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(getEvents.fulfilled, (state, action) => {
-        state.isLoading = false;
-        state.events = action.payload.events;
-        state.pagination = action.payload.pagination;
-        state.error = null;
-      })
-      .addCase(getEvents.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
-
-    // Get Event
-    builder
-      .addCase(getEvent.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(getEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
-        state.currentEvent = action.payload;
-        state.error = null;
-      })
-      .addCase(getEvent.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
+export const getMyRegistrations = createAsyncThunk(
+  'event/getMyRegistrations',
+  async (params: any, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getMyRegistrations(params);
+      return response.data;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get registrations');
+    }
+  }
+);
 
-    // Create Event
-    builder
-      .addCase(createEvent.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(createEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
-        state.events.unshift(action.payload);
-        state.error = null;
-      })
-      .addCase(createEvent.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
+export const getEventAttendees = createAsyncThunk(
+  'event/getEventAttendees',
+  async ({ id, params }: { id: string; params?: any }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getEventAttendees(id, params);
+      return response.data.attendees as EventAttendee[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get attendees');
+    }
+  }
+);
 
-    // Update Event
-    builder
-      .addCase(updateEvent.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(updateEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
-        const index = state.events.findIndex(e => e.id === action.payload.id);
-        if (index !== -1) {
-          state.events[index] = action.payload;
-        }
-        if (state.currentEvent?.id === action.payload.id) {
-          state.currentEvent = action.payload;
-        }
-        state.error = null;
-      })
-      .addCase(updateEvent.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
+export const confirmAttendeeHold = createAsyncThunk(
+  'event/confirmAttendeeHold',
+  async ({ eventId, userId }: { eventId: string; userId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.confirmAttendeeHold(eventId, userId);
+      return userId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to confirm registration');
+    }
+  }
+);
 
-    // Delete Event
-    builder
-      .addCase(deleteEvent.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(deleteEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
-        state.events = state.events.filter(e => e.id !== action.payload);
-        if (state.currentEvent?.id === action.payload) {
-          state.currentEvent = null;
-        }
-        state.error = null;
-      })
-      .addCase(deleteEvent.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
+// Resolves with the Stripe Checkout URL to send the viewer to for their held seat
+export const startCheckout = createAsyncThunk(
+  'event/startCheckout',
+  async (eventId: string, { rejectWithValue }) => {
+    try {
+      const response = await paymentAPI.createCheckoutSession({ eventId });
+      return response.data.url as string;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to start checkout');
+    }
+  }
+);
 
-    // Register for Event
-    builder
-      .addCase(registerForEvent.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(registerForEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
-        // Update event attendee count
-        const event = state.events.find(e => e.id === action.payload.id);
-        if (event) {
-          event.currentAttendees += 1;
-          event.stats.registrationCount += 1;
-        }
-        if (state.currentEvent?.id === action.payload.id) {
-          state.currentEvent.currentAttendees += 1;
-          state.currentEvent.stats.registrationCount += 1;
-        }
-        state.error = null;
-      })
-      .addCase(registerForEvent.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
+// Without an amount whatever is left of the payment is refunded, which also cancels the place
+export const refundAttendee = createAsyncThunk(
+  'event/refundAttendee',
+  async (
+    { eventId, userId, amount }: { eventId: string; userId: string; amount?: number },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await eventAPI.refundAttendee(eventId, userId, amount ? { amount } : undefined);
+      return {
+        userId,
+        ...(response.data.refund as { amount: number; refunded: number; fullyRefunded: boolean }),
+      };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to refund payment');
+    }
+  }
+);
 
-    // Unregister from Event
-    builder
-      .addCase(unregisterFromEvent.pending, (state) => {
-        state.isLoading = true;
-        state.error = null;
-      })
-      .addCase(unregisterFromEvent.fulfilled, (state, action) => {
-        state.isLoading = false;
-        // Update event attendee count
-        const event = state.events.find(e => e.id === action.payload.id);
-        if (event) {
-          event.currentAttendees = Math.max(0, event.currentAttendees - 1);
-          event.stats.registrationCount = Math.max(0, event.stats.registrationCount - 1);
-        }
-        if (state.currentEvent?.id === action.payload.id) {
-          state.currentEvent.currentAttendees = Math.max(0, state.currentEvent.currentAttendees - 1);
-          state.currentEvent.stats.registrationCount = Math.max(0, state.currentEvent.stats.registrationCount - 1);
-        }
-        state.error = null;
-      })
-      .addCase(unregisterFromEvent.rejected, (state, action) => {
-        state.isLoading = false;
-        state.error = action.payload as string;
-      });
+export const createTicketType = createAsyncThunk(
+  'event/createTicketType',
+  async ({ eventId, data }: { eventId: string; data: any }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.createTicketType(eventId, data);
+      return { eventId, ticketType: response.data.ticketType as TicketType };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to create ticket type');
+    }
+  }
+);
+
+export const updateTicketType = createAsyncThunk(
+  'event/updateTicketType',
+  async (
+    { eventId, ticketTypeId, data }: { eventId: string; ticketTypeId: string; data: any },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await eventAPI.updateTicketType(eventId, ticketTypeId, data);
+      return { eventId, ticketType: response.data.ticketType as TicketType };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update ticket type');
+    }
+  }
+);
+
+export const deleteTicketType = createAsyncThunk(
+  'event/deleteTicketType',
+  async ({ eventId, ticketTypeId }: { eventId: string; ticketTypeId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.deleteTicketType(eventId, ticketTypeId);
+      return { eventId, ticketTypeId };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete ticket type');
+    }
+  }
+);
+
+export const getPromoCodes = createAsyncThunk(
+  'event/getPromoCodes',
+  async (eventId: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getPromoCodes(eventId);
+      return response.data.promoCodes as PromoCode[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to fetch promo codes');
+    }
+  }
+);
+
+export const createPromoCode = createAsyncThunk(
+  'event/createPromoCode',
+  async ({ eventId, data }: { eventId: string; data: any }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.createPromoCode(eventId, data);
+      return response.data.promoCode as PromoCode;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to create promo code');
+    }
+  }
+);
+
+export const updatePromoCode = createAsyncThunk(
+  'event/updatePromoCode',
+  async (
+    { eventId, promoCodeId, data }: { eventId: string; promoCodeId: string; data: any },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await eventAPI.updatePromoCode(eventId, promoCodeId, data);
+      return response.data.promoCode as PromoCode;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update promo code');
+    }
+  }
+);
+
+export const deletePromoCode = createAsyncThunk(
+  'event/deletePromoCode',
+  async ({ eventId, promoCodeId }: { eventId: string; promoCodeId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.deletePromoCode(eventId, promoCodeId);
+      return promoCodeId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete promo code');
+    }
+  }
+);
+
+// Resolves with the price before and after the code, without using it
+export const checkPromoCode = createAsyncThunk(
+  'event/checkPromoCode',
+  async (
+    { eventId, code, ticketTypeId }: { eventId: string; code: string; ticketTypeId?: string },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await eventAPI.checkPromoCode(eventId, { code, ticketTypeId });
+      return response.data.promoCode as { code: string; price: number; discountedPrice: number };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to check promo code');
+    }
+  }
+);
+
+export const getSurvey = createAsyncThunk(
+  'event/getSurvey',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getSurvey(id);
+      return response.data.survey as Survey | null;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get survey');
+    }
+  }
+);
+
+// A completed event's survey is sent as soon as it is saved
+export const saveSurvey = createAsyncThunk(
+  'event/saveSurvey',
+  async ({ id, questions }: { id: string; questions: SurveyQuestion[] }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.saveSurvey(id, questions);
+      return response.data.survey as Survey;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to save survey');
+    }
+  }
+);
+
+export const deleteSurvey = createAsyncThunk(
+  'event/deleteSurvey',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await eventAPI.deleteSurvey(id);
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove survey');
+    }
+  }
+);
+
+export const respondToSurvey = createAsyncThunk(
+  'event/respondToSurvey',
+  async ({ id, answers }: { id: string; answers: SurveyAnswer[] }, { rejectWithValue }) => {
+    try {
+      await eventAPI.respondToSurvey(id, answers);
+      return id;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to send your answers');
+    }
+  }
+);
+
+export const addEventHost = createAsyncThunk(
+  'event/addEventHost',
+  async ({ id, email, role }: { id: string; email: string; role: EventHostRole }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.addEventHost(id, { email, role });
+      return response.data.host as EventHost;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to add host');
+    }
+  }
+);
+
+export const updateEventHost = createAsyncThunk(
+  'event/updateEventHost',
+  async ({ id, userId, role }: { id: string; userId: string; role: EventHostRole }, { rejectWithValue }) => {
+    try {
+      await eventAPI.updateEventHost(id, userId, { role });
+      return { userId, role };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update host');
+    }
+  }
+);
+
+// Hosts can remove themselves too
+export const removeEventHost = createAsyncThunk(
+  'event/removeEventHost',
+  async ({ id, userId }: { id: string; userId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.removeEventHost(id, userId);
+      return userId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove host');
+    }
+  }
+);
+
+export const getSpeakers = createAsyncThunk(
+  'event/getSpeakers',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getSpeakers(id);
+      return response.data.speakers as Speaker[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get speakers');
+    }
+  }
+);
+
+export interface SpeakerInput {
+  name?: string;
+  headline?: string;
+  bio?: string;
+  // Links the speaker to the NexusVerse account with this email and invites them
+  email?: string;
+}
+
+export const addSpeaker = createAsyncThunk(
+  'event/addSpeaker',
+  async ({ id, data }: { id: string; data: SpeakerInput }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.addSpeaker(id, data);
+      return response.data.speaker as Speaker;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to add speaker');
+    }
+  }
+);
+
+export const updateSpeaker = createAsyncThunk(
+  'event/updateSpeaker',
+  async (
+    { id, speakerId, data }: { id: string; speakerId: string; data: Omit<SpeakerInput, 'email'> },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await eventAPI.updateSpeaker(id, speakerId, data);
+      return response.data.speaker as Speaker;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update speaker');
+    }
+  }
+);
+
+export const removeSpeaker = createAsyncThunk(
+  'event/removeSpeaker',
+  async ({ id, speakerId }: { id: string; speakerId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.removeSpeaker(id, speakerId);
+      return speakerId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove speaker');
+    }
+  }
+);
+
+export const respondToSpeakerInvitation = createAsyncThunk(
+  'event/respondToSpeakerInvitation',
+  async ({ id, speakerId, accept }: { id: string; speakerId: string; accept: boolean }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.respondToSpeakerInvitation(id, speakerId, accept);
+      return response.data.speaker as Speaker;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to answer the invitation');
+    }
+  }
+);
+
+export const getSessions = createAsyncThunk(
+  'event/getSessions',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getSessions(id);
+      return response.data.sessions as EventSession[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get the agenda');
+    }
+  }
+);
+
+export const createSession = createAsyncThunk(
+  'event/createSession',
+  async ({ id, data }: { id: string; data: any }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.createSession(id, data);
+      return response.data.session as EventSession;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to create session');
+    }
+  }
+);
+
+export const updateSession = createAsyncThunk(
+  'event/updateSession',
+  async ({ id, sessionId, data }: { id: string; sessionId: string; data: any }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.updateSession(id, sessionId, data);
+      return response.data.session as EventSession;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update session');
+    }
+  }
+);
+
+export const deleteSession = createAsyncThunk(
+  'event/deleteSession',
+  async ({ id, sessionId }: { id: string; sessionId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.deleteSession(id, sessionId);
+      return sessionId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete session');
+    }
+  }
+);
+
+export const getQuestions = createAsyncThunk(
+  'event/getQuestions',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getQuestions(id);
+      return response.data.questions as EventQuestion[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get questions');
+    }
+  }
+);
+
+export const askQuestion = createAsyncThunk(
+  'event/askQuestion',
+  async ({ id, body }: { id: string; body: string }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.askQuestion(id, body);
+      return response.data.question as EventQuestion;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to post question');
+    }
+  }
+);
+
+export const upvoteQuestion = createAsyncThunk(
+  'event/upvoteQuestion',
+  async ({ id, questionId, upvote }: { id: string; questionId: string; upvote: boolean }, { rejectWithValue }) => {
+    try {
+      const response = upvote
+        ? await eventAPI.upvoteQuestion(id, questionId)
+        : await eventAPI.removeUpvote(id, questionId);
+      return response.data.question as EventQuestion;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to upvote question');
+    }
+  }
+);
+
+export const answerQuestion = createAsyncThunk(
+  'event/answerQuestion',
+  async ({ id, questionId, answered }: { id: string; questionId: string; answered: boolean }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.answerQuestion(id, questionId, answered);
+      return response.data.question as EventQuestion;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update question');
+    }
+  }
+);
+
+export const deleteQuestion = createAsyncThunk(
+  'event/deleteQuestion',
+  async ({ id, questionId }: { id: string; questionId: string }, { rejectWithValue }) => {
+    try {
+      await eventAPI.deleteQuestion(id, questionId);
+      return questionId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to remove question');
+    }
+  }
+);
+
+export const getPolls = createAsyncThunk(
+  'event/getPolls',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getPolls(id);
+      return response.data.polls as EventPoll[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get polls');
+    }
+  }
+);
+
+export const launchPoll = createAsyncThunk(
+  'event/launchPoll',
+  async ({ id, question, options }: { id: string; question: string; options: string[] }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.launchPoll(id, { question, options });
+      return response.data.poll as EventPoll;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to launch poll');
+    }
+  }
+);
+
+export const closePoll = createAsyncThunk(
+  'event/closePoll',
+  async ({ id, pollId }: { id: string; pollId: string }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.closePoll(id, pollId);
+      return response.data.poll as EventPoll;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to close poll');
+    }
+  }
+);
+
+export const votePoll = createAsyncThunk(
+  'event/votePoll',
+  async ({ id, pollId, option }: { id: string; pollId: string; option: number }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.votePoll(id, pollId, option);
+      return response.data.poll as EventPoll;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to vote');
+    }
+  }
+);
+
+export const getNetworking = createAsyncThunk(
+  'event/getNetworking',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getNetworking(id);
+      return response.data.networking as Networking;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get networking');
+    }
+  }
+);
+
+export const startNetworkingRound = createAsyncThunk(
+  'event/startNetworkingRound',
+  async ({ id, roundMinutes }: { id: string; roundMinutes: number }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.startNetworkingRound(id, roundMinutes);
+      return response.data.networking as NetworkingRound & { participantCount: number };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to start round');
+    }
+  }
+);
+
+export const endNetworkingRound = createAsyncThunk(
+  'event/endNetworkingRound',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.endNetworkingRound(id);
+      return response.data.networking as NetworkingRound;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to end round');
+    }
+  }
+);
+
+export const getEventApplications = createAsyncThunk(
+  'event/getEventApplications',
+  async ({ id, params }: { id: string; params?: any }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getEventApplications(id, params);
+      return response.data.applications as EventApplication[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get applications');
+    }
+  }
+);
+
+export const reviewEventApplications = createAsyncThunk(
+  'event/reviewEventApplications',
+  async (
+    { id, applicationIds, action }: { id: string; applicationIds: string[]; action: 'approve' | 'reject' },
+    { rejectWithValue }
+  ) => {
+    try {
+      const response = await eventAPI.reviewEventApplications(id, applicationIds, action);
+      return response.data as ApplicationReviewResult;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to review applications');
+    }
+  }
+);
+
+// Resolves with a fresh personal link to the meeting; earlier links stop working
+export const getJoinLink = createAsyncThunk(
+  'event/getJoinLink',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getJoinLink(id);
+      return apiUrl(response.data.joinLink.url);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get the meeting link');
+    }
+  }
+);
+
+export const getEventTicket = createAsyncThunk(
+  'event/getEventTicket',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getEventTicket(id);
+      return { eventId: id, code: response.data.ticket.code as string };
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get ticket');
+    }
+  }
+);
+
+export const checkInTicket = createAsyncThunk(
+  'event/checkInTicket',
+  async ({ eventId, code }: { eventId: string; code: string }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.checkInTicket(eventId, code);
+      return response.data as CheckInResult;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to check in');
+    }
+  }
+);
+
+export const checkInAttendee = createAsyncThunk(
+  'event/checkInAttendee',
+  async ({ eventId, userId }: { eventId: string; userId: string }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.checkInAttendee(eventId, userId);
+      return response.data as CheckInResult;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to check in');
+    }
+  }
+);
+
+export const getEventStats = createAsyncThunk(
+  'event/getEventStats',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getEventStats(id);
+      return response.data.stats as EventStats;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get event stats');
+    }
+  }
+);
+
+export const getEventReminders = createAsyncThunk(
+  'event/getEventReminders',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getEventReminders(id);
+      return response.data.reminders as EventReminders;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get reminders');
+    }
+  }
+);
+
+export const sendEventReminder = createAsyncThunk(
+  'event/sendEventReminder',
+  async ({ id, message }: { id: string; message?: string }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.sendEventReminder(id, { message });
+      return response.data.recipients as number;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to send reminder');
+    }
+  }
+);
+
+export const duplicateEvent = createAsyncThunk(
+  'event/duplicateEvent',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.duplicateEvent(id);
+      return response.data.event as Event;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to duplicate event');
+    }
+  }
+);
+
+export const getSeriesOccurrences = createAsyncThunk(
+  'event/getSeriesOccurrences',
+  async ({ seriesId, params }: { seriesId: string; params?: { from?: string; to?: string } }, { rejectWithValue }) => {
+    try {
+      const response = await eventAPI.getSeriesOccurrences(seriesId, params);
+      return response.data.events as Event[];
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get event dates');
+    }
+  }
+);
+
+export const deleteEventSeries = createAsyncThunk(
+  'event/deleteEventSeries',
+  async (seriesId: string, { rejectWithValue }) => {
+    try {
+      await eventAPI.deleteEventSeries(seriesId);
+      return seriesId;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to delete event series');
+    }
+  }
+);
+
+export const getCalendarFeeds = createAsyncThunk(
+  'event/getCalendarFeeds',
+  async (communityId: string | undefined, { rejectWithValue }) => {
+    try {
+      const response = await calendarAPI.getFeeds(communityId ? { communityId } : undefined);
+      return response.data.feeds as CalendarFeeds;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get calendar links');
+    }
+  }
+);
+
+// Replaces every calendar link handed out so far
+export const resetCalendarFeeds = createAsyncThunk(
+  'event/resetCalendarFeeds',
+  async (communityId: string | undefined, { rejectWithValue }) => {
+    try {
+      const response = await calendarAPI.resetFeeds(communityId ? { communityId } : undefined);
+      return response.data.feeds as CalendarFeeds;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to reset calendar links');
+    }
+  }
+);
+
+// Swaps in a fresh copy of an event wherever it is held
+const replaceEvent = (state: EventState, updated: Event) => {
+  [state.events, state.myEvents, state.registrations, state.occurrences].forEach(list => {
+    const index = list.findIndex(event => event.id === updated.id);
+    if (index !== -1) {
+      list[index] = updated;
+    }
+  });
+  if (state.currentEvent?.id === updated.id) {
+    state.currentEvent = updated;
+  }
+};
+
+// Keeps the counters, attendee list and arrivals feed in step after a check-in
+const recordCheckIn = (state: EventState, result: CheckInResult) => {
+  const attendee = state.attendees.find(attendee => attendee.id === result.attendee.id);
+  if (attendee) {
+    attendee.checkedInAt = result.attendee.checkedInAt;
+  }
+  state.arrivals.unshift(result.attendee);
+  if (state.stats) {
+    state.stats.checkedIn = result.checkedIn;
+    state.stats.registered = result.registered;
+  }
+  if (state.currentEvent) {
+    state.currentEvent.stats.checkInCount = result.checkedIn;
+  }
+};
+
+// Keeps each speaker's sessions in step with a saved or deleted session
+const linkSession = (state: EventState, sessionId: string, speakerIds: string[] = []) => {
+  state.speakers.forEach(speaker => {
+    const sessionIds = speaker.sessionIds.filter(id => id !== sessionId);
+    speaker.sessionIds = speakerIds.includes(speaker.id) ? [...sessionIds, sessionId] : sessionIds;
+  });
+};
+
+// Adds or replaces a question, keeping the viewer's upvote when the update doesn't say
+const upsertQuestion = (state: EventState, question: EventQuestion) => {
+  const index = state.questions.findIndex(current => current.id === question.id);
+  if (index === -1) {
+    state.questions.push(question);
+  } else {
+    state.questions[index] = {
+      ...question,
+      viewerUpvoted: question.viewerUpvoted ?? state.questions[index].viewerUpvoted,
+    };
+  }
+};
+
+// Adds or replaces a poll, keeping the viewer's vote when the update doesn't say. Newest first.
+const upsertPoll = (state: EventState, poll: EventPoll) => {
+  const index = state.polls.findIndex(current => current.id === poll.id);
+  if (index === -1) {
+    state.polls.unshift(poll);
+  } else {
+    state.polls[index] = { ...poll, viewerVote: poll.viewerVote ?? state.polls[index].viewerVote };
+  }
+};
+
+// Applies a round update to what the viewer has. Their partner from an earlier round is dropped
+// until their pairing for the new one is fetched.
+const applyNetworkingRound = (state: EventState, round: Partial<Networking>) => {
+  if (!state.networking) {
+    return;
+  }
+  if (round.round !== undefined && round.round !== state.networking.round) {
+    state.networking.partner = undefined;
+    state.networking.sittingOut = false;
+  }
+  Object.assign(state.networking, round);
+};
+
+// Event slice
+const eventSlice = createSlice({
+  name: 'event',
+  initialState,
+  reducers: {
+    clearError: (state) => {
+      state.error = null;
+    },
+    clearCurrentEvent: (state) => {
+      state.currentEvent = null;
+    },
+    clearEvents: (state) => {
+      state.events = [];
+    },
+    setCurrentEvent: (state, action: PayloadAction<Event>) => {
+      state.currentEvent = action.payload;
+    },
+    // Live Q&A and poll updates pushed over the socket
+    questionReceived: (state, action: PayloadAction<EventQuestion>) => {
+      upsertQuestion(state, action.payload);
+    },
+    questionRemoved: (state, action: PayloadAction<string>) => {
+      state.questions = state.questions.filter(question => question.id !== action.payload);
+    },
+    pollReceived: (state, action: PayloadAction<EventPoll>) => {
+      upsertPoll(state, action.payload);
+    },
+    networkingRoundReceived: (state, action: PayloadAction<NetworkingRound>) => {
+      applyNetworkingRound(state, action.payload);
+    },
+    patchEvent: (state, action: PayloadAction<Partial<Event>>) => {
+      const index = state.events.findIndex(event => event.id === action.payload.id);
+      if (index !== -1) {
+        Object.assign(state.events[index], action.payload);
+      }
+      if (state.currentEvent && state.currentEvent.id === action.payload.id) {
+        Object.assign(state.currentEvent, action.payload);
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    // Get Events
+    builder
+      .addCase(getEvents.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(getEvents.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.events = action.payload.events;
+        state.pagination = action.payload.pagination;
+        state.error = null;
+      })
+      .addCase(getEvents.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Get Event
+    builder
+      .addCase(getEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(getEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        if (state.currentEvent?.id !== action.payload.id) {
+          state.arrivals = [];
+        }
+        state.currentEvent = action.payload;
+        state.error = null;
+      })
+      .addCase(getEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Create Event
+    builder
+      .addCase(createEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(createEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.events.unshift(action.payload);
+        state.error = null;
+      })
+      .addCase(createEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Update Event
+    builder
+      .addCase(updateEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(updateEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        replaceEvent(state, action.payload);
+        state.error = null;
+      })
+      .addCase(updateEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Delete Event
+    builder
+      .addCase(deleteEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(deleteEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.events = state.events.filter(e => e.id !== action.payload);
+        if (state.currentEvent?.id === action.payload) {
+          state.currentEvent = null;
+        }
+        state.error = null;
+      })
+      .addCase(deleteEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Register for Event
+    builder
+      .addCase(registerForEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(registerForEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        replaceEvent(state, action.payload.event);
+        state.error = null;
+      })
+      .addCase(registerForEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Unregister from Event
+    builder
+      .addCase(unregisterFromEvent.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(unregisterFromEvent.fulfilled, (state, action) => {
+        state.isLoading = false;
+        replaceEvent(state, action.payload);
+        state.registrations = state.registrations.filter(event => event.id !== action.payload.id);
+        state.error = null;
+      })
+      .addCase(unregisterFromEvent.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
 
     // Get My Events
     builder
-      .addCase(getMyEvents.pending, (state) => {
+      .addCase(getMyEvents.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(getMyEvents.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.myEvents = action.payload.events;
+        state.pagination = action.payload.pagination;
+        state.error = null;
+      })
+      .addCase(getMyEvents.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+
+    // Registrations, attendees and stats
+    builder
+      .addCase(getMyRegistrations.fulfilled, (state, action) => {
+        state.registrations = action.payload.events;
+        state.error = null;
+      })
+      .addCase(getMyRegistrations.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getEventAttendees.fulfilled, (state, action) => {
+        state.attendees = action.payload;
+        state.error = null;
+      })
+      .addCase(getEventAttendees.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(confirmAttendeeHold.fulfilled, (state, action) => {
+        const attendee = state.attendees.find(attendee => attendee.id === action.payload);
+        if (attendee) {
+          attendee.status = 'registered';
+          attendee.holdExpiresAt = null;
+        }
+        state.error = null;
+      })
+      .addCase(confirmAttendeeHold.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(refundAttendee.fulfilled, (state, action) => {
+        const attendee = state.attendees.find(attendee => attendee.id === action.payload.userId);
+        if (attendee?.payment) {
+          attendee.payment.refunded = action.payload.refunded;
+          attendee.payment.status = action.payload.fullyRefunded ? 'refunded' : 'partially_refunded';
+          if (action.payload.fullyRefunded) {
+            attendee.status = 'cancelled';
+          }
+        }
+        state.error = null;
+      })
+      .addCase(refundAttendee.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getEventApplications.fulfilled, (state, action) => {
+        state.applications = action.payload;
+        state.error = null;
+      })
+      .addCase(getEventApplications.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(reviewEventApplications.fulfilled, (state, action) => {
+        const reviewed = new Set([...action.payload.approved, ...action.payload.rejected]);
+        state.applications = state.applications.filter(application => !reviewed.has(application.id));
+        state.error = null;
+      })
+      .addCase(reviewEventApplications.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getJoinLink.fulfilled, (state) => {
+        state.error = null;
+      })
+      .addCase(getJoinLink.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getEventTicket.fulfilled, (state, action) => {
+        state.ticket = action.payload;
+        state.error = null;
+      })
+      .addCase(getEventTicket.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(checkInTicket.fulfilled, (state, action) => {
+        recordCheckIn(state, action.payload);
+        state.error = null;
+      })
+      .addCase(checkInTicket.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(checkInAttendee.fulfilled, (state, action) => {
+        recordCheckIn(state, action.payload);
+        state.error = null;
+      })
+      .addCase(checkInAttendee.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getEventStats.fulfilled, (state, action) => {
+        state.stats = action.payload;
+        state.error = null;
+      })
+      .addCase(getEventStats.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(duplicateEvent.fulfilled, (state, action) => {
+        state.myEvents.unshift(action.payload);
+        state.error = null;
+      })
+      .addCase(duplicateEvent.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Series occurrences
+    builder
+      .addCase(getSeriesOccurrences.fulfilled, (state, action) => {
+        state.occurrences = action.payload;
+        state.error = null;
+      })
+      .addCase(getSeriesOccurrences.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Reminders
+    builder
+      .addCase(getEventReminders.fulfilled, (state, action) => {
+        state.reminders = action.payload;
+        state.error = null;
+      })
+      .addCase(getEventReminders.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(sendEventReminder.fulfilled, (state) => {
+        state.error = null;
+      })
+      .addCase(sendEventReminder.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Ticket types
+    builder
+      .addCase(createTicketType.fulfilled, (state, action) => {
+        if (state.currentEvent?.id === action.payload.eventId) {
+          state.currentEvent.ticketTypes.push(action.payload.ticketType);
+        }
+        state.error = null;
+      })
+      .addCase(createTicketType.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(updateTicketType.fulfilled, (state, action) => {
+        if (state.currentEvent?.id === action.payload.eventId) {
+          state.currentEvent.ticketTypes = state.currentEvent.ticketTypes.map(ticketType =>
+            ticketType.id === action.payload.ticketType.id ? action.payload.ticketType : ticketType
+          );
+        }
+        state.error = null;
+      })
+      .addCase(updateTicketType.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deleteTicketType.fulfilled, (state, action) => {
+        if (state.currentEvent?.id === action.payload.eventId) {
+          state.currentEvent.ticketTypes = state.currentEvent.ticketTypes.filter(
+            ticketType => ticketType.id !== action.payload.ticketTypeId
+          );
+        }
+        state.error = null;
+      })
+      .addCase(deleteTicketType.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(startCheckout.fulfilled, (state) => {
+        state.error = null;
+      })
+      .addCase(startCheckout.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Promo codes
+    builder
+      .addCase(getPromoCodes.fulfilled, (state, action) => {
+        state.promoCodes = action.payload;
+        state.error = null;
+      })
+      .addCase(getPromoCodes.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(createPromoCode.fulfilled, (state, action) => {
+        state.promoCodes.push(action.payload);
+        state.error = null;
+      })
+      .addCase(createPromoCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(updatePromoCode.fulfilled, (state, action) => {
+        state.promoCodes = state.promoCodes.map(promoCode =>
+          promoCode.id === action.payload.id ? action.payload : promoCode
+        );
+        state.error = null;
+      })
+      .addCase(updatePromoCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deletePromoCode.fulfilled, (state, action) => {
+        state.promoCodes = state.promoCodes.filter(promoCode => promoCode.id !== action.payload);
+        state.error = null;
+      })
+      .addCase(deletePromoCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(checkPromoCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Survey
+    builder
+      .addCase(getSurvey.fulfilled, (state, action) => {
+        state.survey = action.payload;
+        state.error = null;
+      })
+      .addCase(getSurvey.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(saveSurvey.fulfilled, (state, action) => {
+        state.survey = action.payload;
+        state.error = null;
+      })
+      .addCase(saveSurvey.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deleteSurvey.fulfilled, (state) => {
+        state.survey = null;
+        state.error = null;
+      })
+      .addCase(deleteSurvey.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(respondToSurvey.fulfilled, (state) => {
+        if (state.survey) {
+          state.survey.responded = true;
+        }
+        state.error = null;
+      })
+      .addCase(respondToSurvey.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Hosts
+    builder
+      .addCase(addEventHost.fulfilled, (state, action) => {
+        state.currentEvent?.hosts.push(action.payload);
+        state.error = null;
+      })
+      .addCase(addEventHost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(updateEventHost.fulfilled, (state, action) => {
+        const host = state.currentEvent?.hosts.find(host => host.id === action.payload.userId);
+        if (host) {
+          host.role = action.payload.role;
+        }
+        state.error = null;
+      })
+      .addCase(updateEventHost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(removeEventHost.fulfilled, (state, action) => {
+        if (state.currentEvent) {
+          state.currentEvent.hosts = state.currentEvent.hosts.filter(host => host.id !== action.payload);
+        }
+        state.error = null;
+      })
+      .addCase(removeEventHost.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Speakers and sessions
+    builder
+      .addCase(getSpeakers.fulfilled, (state, action) => {
+        state.speakers = action.payload;
+        state.error = null;
+      })
+      .addCase(getSpeakers.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(addSpeaker.fulfilled, (state, action) => {
+        state.speakers.push(action.payload);
+        state.error = null;
+      })
+      .addCase(addSpeaker.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(updateSpeaker.fulfilled, (state, action) => {
+        state.speakers = state.speakers.map(speaker =>
+          speaker.id === action.payload.id ? action.payload : speaker
+        );
+        state.error = null;
+      })
+      .addCase(updateSpeaker.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(removeSpeaker.fulfilled, (state, action) => {
+        state.speakers = state.speakers.filter(speaker => speaker.id !== action.payload);
+        state.sessions.forEach(session => {
+          session.speakerIds = session.speakerIds.filter(id => id !== action.payload);
+        });
+        state.error = null;
+      })
+      .addCase(removeSpeaker.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(respondToSpeakerInvitation.fulfilled, (state, action) => {
+        state.speakers = state.speakers.map(speaker =>
+          speaker.id === action.payload.id ? action.payload : speaker
+        );
+        state.error = null;
+      })
+      .addCase(respondToSpeakerInvitation.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getSessions.fulfilled, (state, action) => {
+        state.sessions = action.payload;
+        state.error = null;
+      })
+      .addCase(getSessions.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(createSession.fulfilled, (state, action) => {
+        state.sessions.push(action.payload);
+        state.sessions.sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+        linkSession(state, action.payload.id, action.payload.speakerIds);
+        state.error = null;
+      })
+      .addCase(createSession.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(updateSession.fulfilled, (state, action) => {
+        state.sessions = state.sessions
+          .map(session => (session.id === action.payload.id ? action.payload : session))
+          .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+        linkSession(state, action.payload.id, action.payload.speakerIds);
+        state.error = null;
+      })
+      .addCase(updateSession.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deleteSession.fulfilled, (state, action) => {
+        state.sessions = state.sessions.filter(session => session.id !== action.payload);
+        linkSession(state, action.payload);
+        state.error = null;
+      })
+      .addCase(deleteSession.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Live Q&A and polls
+    builder
+      .addCase(getQuestions.fulfilled, (state, action) => {
+        state.questions = action.payload;
+        state.error = null;
+      })
+      .addCase(getQuestions.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(askQuestion.fulfilled, (state, action) => {
+        upsertQuestion(state, action.payload);
+        state.error = null;
+      })
+      .addCase(askQuestion.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(upvoteQuestion.fulfilled, (state, action) => {
+        upsertQuestion(state, action.payload);
+        state.error = null;
+      })
+      .addCase(upvoteQuestion.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(answerQuestion.fulfilled, (state, action) => {
+        upsertQuestion(state, action.payload);
+        state.error = null;
+      })
+      .addCase(answerQuestion.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(deleteQuestion.fulfilled, (state, action) => {
+        state.questions = state.questions.filter(question => question.id !== action.payload);
+        state.error = null;
+      })
+      .addCase(deleteQuestion.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(getPolls.fulfilled, (state, action) => {
+        state.polls = action.payload;
+        state.error = null;
+      })
+      .addCase(getPolls.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(launchPoll.fulfilled, (state, action) => {
+        upsertPoll(state, action.payload);
+        state.error = null;
+      })
+      .addCase(launchPoll.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(closePoll.fulfilled, (state, action) => {
+        upsertPoll(state, action.payload);
+        state.error = null;
+      })
+      .addCase(closePoll.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(votePoll.fulfilled, (state, action) => {
+        upsertPoll(state, action.payload);
+        state.error = null;
+      })
+      .addCase(votePoll.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Speed networking
+    builder
+      .addCase(getNetworking.fulfilled, (state, action) => {
+        state.networking = action.payload;
+        state.error = null;
+      })
+      .addCase(getNetworking.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(startNetworkingRound.fulfilled, (state, action) => {
+        applyNetworkingRound(state, action.payload);
+        state.error = null;
+      })
+      .addCase(startNetworkingRound.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(endNetworkingRound.fulfilled, (state, action) => {
+        applyNetworkingRound(state, action.payload);
+        state.error = null;
+      })
+      .addCase(endNetworkingRound.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Calendar feeds
+    builder
+      .addCase(getCalendarFeeds.fulfilled, (state, action) => {
+        state.calendarFeeds = action.payload;
+        state.error = null;
+      })
+      .addCase(getCalendarFeeds.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(resetCalendarFeeds.fulfilled, (state, action) => {
+        state.calendarFeeds = action.payload;
+        state.error = null;
+      })
+      .addCase(resetCalendarFeeds.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Delete Event Series
+    builder
+      .addCase(deleteEventSeries.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
-      .addCase(getMyEvents.fulfilled, (state, action) => {
+      .addCase(deleteEventSeries.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.myEvents = action.payload.events;
-        state.pagination = action.payload.pagination;
+        const inSeries = (event: Event) => event.recurrence?.seriesId === action.payload;
+        state.events = state.events.filter(event => !inSeries(event));
+        state.myEvents = state.myEvents.filter(event => !inSeries(event));
+        state.registrations = state.registrations.filter(event => !inSeries(event));
+        state.occurrences = [];
+        if (state.currentEvent && inSeries(state.currentEvent)) {
+          state.currentEvent = null;
+        }
         state.error = null;
       })
-      .addCase(getMyEvents.rejected, (state, action) => {
+      .addCase(deleteEventSeries.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       });
@@ -367,7 +1959,11 @@ export const {
   clearCurrentEvent, 
   clearEvents, 
   setCurrentEvent, 
-  updateEvent 
+  patchEvent,
+  questionReceived,
+  questionRemoved,
+  pollReceived,
+  networkingRoundReceived,
 } = eventSlice.actions;
 
 export default eventSlice.reducer; 
\ No newline at end of file
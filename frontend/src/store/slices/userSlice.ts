@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { userAPI } from '@/services/api';
+import { notificationAPI, userAPI } from '@/services/api';
 
 export interface UserProfile {
   id: string;
@@ -60,8 +60,17 @@ export interface Connection {
   };
 }
 
+export interface NotificationPreferences {
+  email: boolean;
+  push: boolean;
+  sms: boolean;
+  marketing: boolean;
+  eventReminders: boolean;
+}
+
 export interface UserState {
   profile: UserProfile | null;
+  notificationPreferences: NotificationPreferences | null;
   connections: Connection[];
   searchResults: UserProfile[];
   isLoading: boolean;
@@ -70,6 +79,7 @@ export interface UserState {
 
 const initialState: UserState = {
   profile: null,
+  notificationPreferences: null,
   connections: [],
   searchResults: [],
   isLoading: false,
@@ -161,6 +171,30 @@ export const removeConnection = createAsyncThunk(
   }
 );
 
+export const getNotificationPreferences = createAsyncThunk(
+  'user/getNotificationPreferences',
+  async (_, { rejectWithValue }) => {
+    try {
+      const response = await notificationAPI.getPreferences();
+      return response.data.preferences as NotificationPreferences;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to get notification preferences');
+    }
+  }
+);
+
+export const updateNotificationPreferences = createAsyncThunk(
+  'user/updateNotificationPreferences',
+  async (preferences: Partial<NotificationPreferences>, { rejectWithValue }) => {
+    try {
+      const response = await notificationAPI.updatePreferences(preferences);
+      return response.data.preferences as NotificationPreferences;
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to update notification preferences');
+    }
+  }
+);
+
 // User slice
 const userSlice = createSlice({
   name: 'user',
@@ -295,6 +329,23 @@ const userSlice = createSlice({
         state.isLoading = false;
         state.error = action.payload as string;
       });
+
+    // Notification Preferences
+    builder
+      .addCase(getNotificationPreferences.fulfilled, (state, action) => {
+        state.notificationPreferences = action.payload;
+        state.error = null;
+      })
+      .addCase(getNotificationPreferences.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(updateNotificationPreferences.fulfilled, (state, action) => {
+        state.notificationPreferences = action.payload;
+        state.error = null;
+      })
+      .addCase(updateNotificationPreferences.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
   },
 });
 